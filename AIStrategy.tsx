@@ -58,6 +58,7 @@ const AIStrategy: React.FC<{ onNavigate: (v: string) => void; currentView: strin
               label="Volatility"
               value={signals?.volatility || '...'}
               icon={<Activity className="text-white" />}
+              subValue={signals?.atrPct !== undefined ? `ATR ${signals.atrPct.toFixed(2)}%` : undefined}
             />
             <SignalCard
               label="Meme Hype"
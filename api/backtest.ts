@@ -0,0 +1,76 @@
+import type { NextApiRequest, NextApiResponse } from "../types/api.js";
+import { parsePriceHistory, runBacktest, BacktestOptions } from "../lib/backtest/index.js";
+import { validateRiskProfile, isRiskPreset } from "../lib/ai/risk.js";
+import { applyCors } from "../lib/cors.js";
+import logger from "../lib/logger.js";
+
+const NUMERIC_OPTIONS = ["initialCapital", "rebalanceEvery", "yieldApyPct", "swapFeeBps"] as const;
+const POSITIVE_OPTIONS = new Set(["initialCapital", "rebalanceEvery"]);
+
+/**
+ * POST /api/backtest
+ * Body: { history: <CSV text | JSON points>, risk?, profile?, initialCapital?,
+ *         rebalanceEvery?, yieldApyPct?, swapFeeBps?, memeHype? }
+ * Replays the history through the rule-based allocator; no funds or RPC involved.
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    applyCors(req, res, ["POST", "OPTIONS"]);
+
+    if (req.method === "OPTIONS") {
+        return res.status(200).end();
+    }
+
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    const startTime = Date.now();
+
+    try {
+        const { history, risk, profile, memeHype } = req.body || {};
+
+        const parsed = parsePriceHistory(history);
+        if ("errors" in parsed) {
+            return res.status(400).json({ error: "Invalid price history", details: parsed.errors });
+        }
+
+        const options: BacktestOptions = {
+            risk: isRiskPreset(risk) ? risk : "medium"
+        };
+
+        if (profile !== undefined) {
+            const validation = validateRiskProfile(profile);
+            if ("errors" in validation) {
+                return res.status(400).json({ error: "Invalid risk profile", details: validation.errors });
+            }
+            options.profile = validation.profile;
+        }
+
+        for (const key of NUMERIC_OPTIONS) {
+            const value = req.body[key];
+            if (value === undefined) continue;
+            if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+                return res.status(400).json({ error: `${key} must be a non-negative number` });
+            }
+            if (value === 0 && POSITIVE_OPTIONS.has(key)) {
+                return res.status(400).json({ error: `${key} must be greater than 0` });
+            }
+            options[key] = value;
+        }
+
+        if (memeHype === "high" || memeHype === "medium" || memeHype === "low") {
+            options.defaultMemeHype = memeHype;
+        }
+
+        const report = runBacktest(parsed.points, options);
+
+        logger.api(req.method || "POST", "/api/backtest", 200, Date.now() - startTime);
+        res.status(200).json({ ok: true, ...report });
+    } catch (err) {
+        logger.error("Backtest failed", "BACKTEST", err instanceof Error ? { message: err.message } : { error: String(err) });
+        res.status(500).json({ error: "Backtest failed" });
+    }
+}
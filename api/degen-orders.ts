@@ -0,0 +1,85 @@
+import type { NextApiRequest, NextApiResponse } from "../types/api.js";
+import { degenStrategy } from "../lib/strategies/degen.js";
+import { validateExitOrderInput } from "../lib/strategies/exitOrders.js";
+import { requireSignedRequest } from "../lib/auth/index.js";
+import { applyCors } from "../lib/cors.js";
+import { logger } from "../lib/logger.js";
+import { withRuntimeMode } from "../lib/runtimeMode.js";
+
+/**
+ * /api/degen-orders
+ * GET    ?wallet=...  → open stop-loss / take-profit / trailing-stop orders per position
+ * POST   { wallet, token, order: { type, triggerPrice | triggerPercent | trailPercent, sellPercent? },
+ *          auth } → place an order
+ * DELETE { wallet, orderId, auth } → cancel an order
+ * Writes require a signed request (action "degen-orders", see lib/auth). Orders fire via /api/degen-orders/evaluate and
+ * before every degen rebalance.
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    applyCors(req, res, ["GET", "POST", "DELETE", "OPTIONS"]);
+
+    if (req.method === "OPTIONS") {
+        return res.status(200).end();
+    }
+
+    if (req.method !== "GET" && req.method !== "POST" && req.method !== "DELETE") {
+        return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    return withRuntimeMode(req, async () => {
+        try {
+            if (req.method === "GET") {
+                const { wallet } = req.query;
+                if (!wallet || typeof wallet !== "string") {
+                    return res.status(400).json({ error: "wallet parameter required" });
+                }
+
+                const positions = await degenStrategy.listExitOrders(wallet);
+                return res.status(200).json({ ok: true, positions });
+            }
+
+            const { wallet, token, order, orderId } = req.body;
+
+            if (!wallet) {
+                return res.status(400).json({ error: "wallet required" });
+            }
+
+            if (!(await requireSignedRequest(req, res, "degen-orders"))) return;
+
+            if (req.method === "DELETE") {
+                if (!orderId || typeof orderId !== "string") {
+                    return res.status(400).json({ error: "orderId required" });
+                }
+                const cancelled = await degenStrategy.cancelExitOrder(wallet, orderId);
+                if (!cancelled) {
+                    return res.status(404).json({ error: "Order not found" });
+                }
+                logger.info("Exit order cancelled", "DEGEN-ORDERS");
+                return res.status(200).json({ ok: true, orderId });
+            }
+
+            if (!token || typeof token !== "string") {
+                return res.status(400).json({ error: "token required" });
+            }
+
+            const validation = validateExitOrderInput(order);
+            if ("errors" in validation) {
+                return res.status(400).json({ error: "Invalid order", details: validation.errors });
+            }
+
+            const placed = await degenStrategy.placeExitOrder(wallet, token, validation.input);
+            if ("errors" in placed) {
+                return res.status(400).json({ error: "Order rejected", details: placed.errors });
+            }
+
+            logger.info("Exit order placed", "DEGEN-ORDERS", { type: placed.order.type });
+            res.status(200).json({ ok: true, token, order: placed.order });
+        } catch (err) {
+            logger.error("Degen orders request failed", "DEGEN-ORDERS");
+            res.status(500).json({ error: "Degen orders request failed" });
+        }
+    });
+}
@@ -0,0 +1,67 @@
+import type { NextApiRequest, NextApiResponse } from "../../types/api.js";
+import { degenStrategy } from "../../lib/strategies/degen.js";
+import { trackOperation, toOperationView } from "../../lib/transactions/index.js";
+import { requireSignedRequest } from "../../lib/auth/index.js";
+import { applyCors } from "../../lib/cors.js";
+import { logger } from "../../lib/logger.js";
+import { withRuntimeMode } from "../../lib/runtimeMode.js";
+
+/**
+ * POST /api/degen-orders/evaluate
+ * Body: { wallet, auth }, signed with action "degen-orders-evaluate"
+ * Price-watch pass for one wallet: advances trailing stops and sells positions whose
+ * orders fire. Unsigned transactions (user-wallet mode) are returned for signing and
+ * tracked; the sold positions update once they confirm.
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    applyCors(req, res, ["POST", "OPTIONS"]);
+
+    if (req.method === "OPTIONS") {
+        return res.status(200).end();
+    }
+
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    return withRuntimeMode(req, async () => {
+        try {
+            const { wallet } = req.body;
+
+            if (!wallet) {
+                return res.status(400).json({ error: "wallet required" });
+            }
+
+            if (!(await requireSignedRequest(req, res, "degen-orders-evaluate"))) return;
+
+            const { result: run, tracked } = await trackOperation(
+                wallet,
+                "degen-exit",
+                () => degenStrategy.evaluateExitOrders(wallet),
+                orderRun => orderRun.unsignedTxs
+            );
+            logger.info("Exit orders evaluated", "DEGEN-ORDERS", { fired: run.fired.length });
+
+            res.status(200).json({
+                ok: true,
+                fired: run.fired.map(f => ({
+                    token: f.token,
+                    symbol: f.symbol,
+                    order: f.order,
+                    price: f.price,
+                    success: f.result.success,
+                    error: f.result.error,
+                    totalUSD1: f.result.totalUSD1
+                })),
+                unsignedTxs: run.unsignedTxs,
+                tracking: tracked ? toOperationView(tracked) : null
+            });
+        } catch (err) {
+            logger.error("Exit order evaluation failed", "DEGEN-ORDERS");
+            res.status(500).json({ error: "Exit order evaluation failed" });
+        }
+    });
+}
@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from "../../types/api.js";
+import { sweepExitOrders } from "../../lib/strategies/degen.js";
+import { isCronRequest } from "../../lib/auth/index.js";
+import { applyCors } from "../../lib/cors.js";
+import { logger } from "../../lib/logger.js";
+import { withRuntimeMode } from "../../lib/runtimeMode.js";
+
+/**
+ * GET|POST /api/degen-orders/poll
+ * Scheduled price watch (e.g. a Vercel cron): evaluates the exit orders of every wallet
+ * holding degen positions and sells the ones that fire. Runs only in server-wallet mode;
+ * user-signed sales need the wallet, so they stay on POST /api/degen-orders/evaluate.
+ * Requires `Authorization: Bearer <CRON_SECRET>`; without CRON_SECRET it refuses every call.
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    applyCors(req, res, ["GET", "POST", "OPTIONS"]);
+
+    if (req.method === "OPTIONS") {
+        return res.status(200).end();
+    }
+
+    if (req.method !== "GET" && req.method !== "POST") {
+        return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    if (!isCronRequest(req)) {
+        return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    return withRuntimeMode(req, async () => {
+        try {
+            const sweep = await sweepExitOrders();
+            if (!sweep) {
+                return res.status(200).json({ ok: true, skipped: "No server wallet; exit orders are evaluated on user requests" });
+            }
+
+            logger.info("Exit order sweep complete", "DEGEN-ORDERS", { wallets: sweep.wallets, fired: sweep.fired });
+            return res.status(200).json({ ok: true, ...sweep });
+        } catch (err) {
+            logger.error("Exit order sweep failed", "DEGEN-ORDERS");
+            res.status(500).json({ error: "Exit order sweep failed" });
+        }
+    });
+}
@@ -0,0 +1,85 @@
+import type { NextApiRequest, NextApiResponse } from "../types/api.js";
+import {
+    getGrowthTargetStore,
+    resolveGrowthTargets,
+    validateGrowthTargets,
+    DEFAULT_GROWTH_TARGETS,
+    GROWTH_ELIGIBLE_SYMBOLS
+} from "../lib/strategies/growthTargets.js";
+import { requireSignedRequest } from "../lib/auth/index.js";
+import { applyCors } from "../lib/cors.js";
+import { logger } from "../lib/logger.js";
+import { withRuntimeMode } from "../lib/runtimeMode.js";
+
+/**
+ * /api/growth-targets
+ * GET    ?wallet=...  → the wallet's growth weights and drift bands (custom or default)
+ * PUT    { wallet, targets, auth } → store custom targets
+ * DELETE { wallet, auth } → revert to the defaults
+ * Writes require a signed request (action "growth-targets", see lib/auth).
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    applyCors(req, res, ["GET", "PUT", "DELETE", "OPTIONS"]);
+
+    if (req.method === "OPTIONS") {
+        return res.status(200).end();
+    }
+
+    if (req.method !== "GET" && req.method !== "PUT" && req.method !== "DELETE") {
+        return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    return withRuntimeMode(req, async () => {
+        try {
+            const store = getGrowthTargetStore();
+
+            if (req.method === "GET") {
+                const { wallet } = req.query;
+                if (!wallet || typeof wallet !== "string") {
+                    return res.status(400).json({ error: "wallet parameter required" });
+                }
+
+                const custom = await store.get(wallet);
+                const targets = custom ?? await resolveGrowthTargets(undefined);
+
+                return res.status(200).json({
+                    ok: true,
+                    custom: !!custom,
+                    targets,
+                    defaults: DEFAULT_GROWTH_TARGETS,
+                    eligibleTokens: GROWTH_ELIGIBLE_SYMBOLS
+                });
+            }
+
+            const { wallet, targets } = req.body;
+
+            if (!wallet) {
+                return res.status(400).json({ error: "wallet required" });
+            }
+
+            if (!(await requireSignedRequest(req, res, "growth-targets"))) return;
+
+            if (req.method === "DELETE") {
+                await store.remove(wallet);
+                logger.info("Growth targets removed", "GROWTH-TARGETS");
+                return res.status(200).json({ ok: true, custom: false });
+            }
+
+            const validation = validateGrowthTargets(targets);
+            if ("errors" in validation) {
+                return res.status(400).json({ error: "Invalid growth targets", details: validation.errors });
+            }
+
+            await store.set(wallet, validation.targets);
+            logger.info("Growth targets saved", "GROWTH-TARGETS");
+
+            res.status(200).json({ ok: true, custom: true, targets: validation.targets });
+        } catch (err) {
+            logger.error("Growth targets request failed", "GROWTH-TARGETS");
+            res.status(500).json({ error: "Growth targets request failed" });
+        }
+    });
+}
@@ -1,9 +1,10 @@
 import type { NextApiRequest, NextApiResponse } from "../types/api.js";
-import { verifySignature } from "../utils/verifySignature.js";
 import { loadTreasury } from "../lib/treasury.js";
 import { getVaultAddress } from "../lib/vaults.js";
 import { moveUSD1, getUSD1Fees } from "../lib/usd1.js";
 import { executeYieldStrategy, executeGrowthStrategy, executeDegenStrategy, executeRwaStrategy, getVaultStats, getAllTransactions } from "../lib/strategies/index.js";
+import { trackOperation, toOperationView } from "../lib/transactions/index.js";
+import { requireSignedRequest } from "../lib/auth/index.js";
 import { applyCors } from "../lib/cors.js";
 import { logger } from "../lib/logger.js";
 import { getRuntimeMode, withRuntimeMode } from "../lib/runtimeMode.js";
@@ -93,7 +94,7 @@ export default async function handler(
         try {
             log("START", "Manual invest started");
 
-            const { wallet, amount, risk, timestamp, signature, action } = req.body;
+            const { wallet, amount, risk } = req.body;
 
             if (!wallet) {
                 return res.status(400).json({ error: "wallet required" });
@@ -104,19 +105,7 @@ export default async function handler(
                 return res.status(400).json({ error: "amount must be > 0" });
             }
 
-            // Verify wallet signature for secure operations
-            if (signature && timestamp && action) {
-                const message = `${action}|${wallet}|${timestamp}`;
-                const now = Date.now();
-
-                if (Math.abs(now - Number(timestamp)) > 60_000) {
-                    return res.status(401).json({ error: "Signature expired" });
-                }
-
-                if (!verifySignature(message, signature, wallet)) {
-                    return res.status(401).json({ error: "Invalid signature" });
-                }
-            }
+            if (!(await requireSignedRequest(req, res, "invest"))) return;
 
             const allocResult = parseAllocations(req.body);
             if ("error" in allocResult) {
@@ -216,46 +205,50 @@ export default async function handler(
             const strategyErrors: string[] = [];
             const unsignedTxs: string[] = [];
 
-            const vaultBalanceMap = new Map(
-                treasury.vaults.map(v => [v.id, v.balance])
-            );
-
-            for (const vaultId of selected) {
-                const amountForVault = perVaultAmounts[vaultId] || 0;
-                if (amountForVault <= 0) continue;
-                if (!usd1Transfers.find(t => t.vault === vaultId)) continue;
-
-                const currentValue = vaultBalanceMap.get(vaultId) || 0;
-                const targetAmount = currentValue + amountForVault;
-
-                try {
-                    if (vaultId === "yield") {
-                        strategyResults.yield = await executeYieldStrategy(wallet, targetAmount, "low");
-                        if (strategyResults.yield?.unsignedTxs) {
-                            unsignedTxs.push(...strategyResults.yield.unsignedTxs);
-                        }
-                    } else if (vaultId === "growth") {
-                        strategyResults.growth = await executeGrowthStrategy(wallet, targetAmount);
-                        if (strategyResults.growth?.unsignedTxs) {
-                            unsignedTxs.push(...strategyResults.growth.unsignedTxs);
-                        }
-                    } else if (vaultId === "degen") {
-                        strategyResults.degen = await executeDegenStrategy(wallet, targetAmount, "medium");
-                        if (strategyResults.degen?.unsignedTxs) {
-                            unsignedTxs.push(...strategyResults.degen.unsignedTxs);
-                        }
-                    } else if (vaultId === "rwa") {
-                        strategyResults.rwa = await executeRwaStrategy(wallet, targetAmount);
-                        if (strategyResults.rwa?.unsignedTxs) {
-                            unsignedTxs.push(...strategyResults.rwa.unsignedTxs);
+            // Positions from user-signed strategy transactions wait for confirmation
+            const { tracked } = await trackOperation(wallet, "invest", async () => {
+                const vaultBalanceMap = new Map(
+                    treasury.vaults.map(v => [v.id, v.balance])
+                );
+
+                for (const vaultId of selected) {
+                    const amountForVault = perVaultAmounts[vaultId] || 0;
+                    if (amountForVault <= 0) continue;
+                    if (!usd1Transfers.find(t => t.vault === vaultId)) continue;
+
+                    const currentValue = vaultBalanceMap.get(vaultId) || 0;
+                    const targetAmount = currentValue + amountForVault;
+
+                    try {
+                        if (vaultId === "yield") {
+                            strategyResults.yield = await executeYieldStrategy(wallet, targetAmount, "low");
+                            if (strategyResults.yield?.unsignedTxs) {
+                                unsignedTxs.push(...strategyResults.yield.unsignedTxs);
+                            }
+                        } else if (vaultId === "growth") {
+                            strategyResults.growth = await executeGrowthStrategy(wallet, targetAmount);
+                            if (strategyResults.growth?.unsignedTxs) {
+                                unsignedTxs.push(...strategyResults.growth.unsignedTxs);
+                            }
+                        } else if (vaultId === "degen") {
+                            strategyResults.degen = await executeDegenStrategy(wallet, targetAmount, "medium");
+                            if (strategyResults.degen?.unsignedTxs) {
+                                unsignedTxs.push(...strategyResults.degen.unsignedTxs);
+                            }
+                        } else if (vaultId === "rwa") {
+                            strategyResults.rwa = await executeRwaStrategy(wallet, targetAmount);
+                            if (strategyResults.rwa?.unsignedTxs) {
+                                unsignedTxs.push(...strategyResults.rwa.unsignedTxs);
+                            }
                         }
+                    } catch (error) {
+                        strategyErrors.push(
+                            `${vaultId}: ${error instanceof Error ? error.message : "Unknown error"}`
+                        );
                     }
-                } catch (error) {
-                    strategyErrors.push(
-                        `${vaultId}: ${error instanceof Error ? error.message : "Unknown error"}`
-                    );
                 }
-            }
+                return unsignedTxs;
+            }, txs => txs);
 
             log("STEP 3", "Strategies executed");
 
@@ -280,6 +273,7 @@ export default async function handler(
                     usd1Transfers,
                     usd1Errors: usd1Errors.length > 0 ? usd1Errors : undefined,
                     unsignedTxs,
+                    tracking: tracked ? toOperationView(tracked) : null,
                     strategyResults,
                     totalTransactions: allTransactions.length
                 },
@@ -0,0 +1,169 @@
+import type { NextApiRequest, NextApiResponse } from "../../types/api.js";
+import { loadTreasury } from "../../lib/treasury.js";
+import { deposit } from "../../lib/shadowwire.js";
+import { config } from "../../lib/config.js";
+import { executeAllStrategies, getVaultStats, getAllTransactions } from "../../lib/strategies/index.js";
+import {
+    getRebalancePlanStore,
+    checkPlanDrift,
+    projectBridgedTreasury,
+    approvedVaultActions,
+    executeUSD1Transfers,
+    bundleStrategyTransactions,
+    summarizeStrategyResults,
+    summarizeVaultStats
+} from "../../lib/rebalance/index.js";
+import { linkDecisionExecution } from "../../lib/ai/journal.js";
+import { trackOperation, toOperationView } from "../../lib/transactions/index.js";
+import { requireSignedRequest } from "../../lib/auth/index.js";
+import { applyCors } from "../../lib/cors.js";
+import { logger } from "../../lib/logger.js";
+import { getRuntimeMode, withRuntimeMode } from "../../lib/runtimeMode.js";
+
+function log(step: string, message: string) {
+    logger.info(message, "REBALANCE-EXEC", { step });
+}
+
+/**
+ * POST /api/rebalance/execute
+ * Phase two of a two-phase rebalance: execute exactly the stored plan, provided it
+ * has not expired and balances/prices are still within the drift tolerance.
+ * The AI strategy is not re-invoked and trades are not recomputed: the plan's vault
+ * actions and buy legs are what run, re-quoted at execution.
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    applyCors(req, res, ["POST", "OPTIONS"]);
+
+    if (req.method === "OPTIONS") {
+        return res.status(200).end();
+    }
+
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    return withRuntimeMode(req, async () => {
+        const startTime = Date.now();
+        const store = getRebalancePlanStore();
+        let claimedId: string | null = null;
+
+        try {
+            const { wallet, planId } = req.body;
+
+            if (!wallet || !planId) {
+                return res.status(400).json({ error: "wallet and planId required" });
+            }
+
+            if (!(await requireSignedRequest(req, res, "rebalance-execute"))) return;
+
+            const stored = await store.get(planId);
+            if (!stored || stored.wallet !== wallet) {
+                return res.status(404).json({ error: "Plan not found" });
+            }
+
+            if (stored.expiresAt < Date.now()) {
+                return res.status(410).json({ error: "Plan expired" });
+            }
+
+            // Single use: only one request can move a plan out of "pending"
+            const claimed = await store.claim(planId);
+            if (!claimed) {
+                return res.status(409).json({ error: `Plan already ${stored.status}` });
+            }
+            claimedId = planId;
+
+            const { plan } = claimed;
+            const runtimeMode = getRuntimeMode();
+
+            log("STEP 1", "Checking drift");
+            // A bridging plan was built on the post-bridge treasury; project the same deposit
+            const loaded = await loadTreasury(wallet, plan.risk);
+            const treasury = plan.bridge.required ? projectBridgedTreasury(loaded, plan.bridge.amount) : loaded;
+            const drift = await checkPlanDrift(plan, treasury, config.rebalanceDriftTolerancePct, runtimeMode);
+
+            if (!drift.ok) {
+                log("ERROR", "Plan drifted past tolerance");
+                await store.setStatus(planId, "failed");
+                return res.status(409).json({ error: "Plan drifted past tolerance", drift });
+            }
+
+            // Bridge only once the plan is known to still hold
+            if (plan.bridge.required) {
+                try {
+                    await deposit(wallet, plan.bridge.amount);
+                    log("STEP 2", "Bridge completed");
+                } catch {
+                    log("ERROR", "Bridge failed");
+                    await store.setStatus(planId, "failed");
+                    return res.status(502).json({ error: "Bridge deposit failed" });
+                }
+            }
+
+            log("STEP 3", "Moving USD1 between vaults");
+            const transferResult = await executeUSD1Transfers(plan.usd1Transfers, runtimeMode);
+
+            log("STEP 4", "Executing vault strategies");
+            const { result: { execution: strategyExecution, bundlePlan }, tracked } = await trackOperation(
+                wallet,
+                "rebalance",
+                async () => {
+                    const execution = await executeAllStrategies(
+                        wallet,
+                        plan.totalUSD1,
+                        plan.adjustedAllocation,
+                        { memeHype: plan.strategy.signals.memeHype },
+                        approvedVaultActions(plan)
+                    );
+                    return { execution, bundlePlan: await bundleStrategyTransactions(wallet, execution.results) };
+                },
+                ({ bundlePlan }) => bundlePlan.bundles.map(bundle => bundle.transaction),
+                ({ bundlePlan }) => bundlePlan.bundles
+            );
+
+            const allTransactions = getAllTransactions(strategyExecution.results);
+            const unsignedTxs = bundlePlan.bundles.map(bundle => bundle.transaction);
+
+            const vaultStats = await getVaultStats(wallet);
+            await store.setStatus(planId, "executed");
+            await linkDecisionExecution(plan.strategy.decisionId, {
+                source: "rebalance-execute",
+                planId,
+                success: strategyExecution.errors.length === 0 && transferResult.errors.length === 0,
+                transactions: allTransactions.length
+            });
+
+            log("COMPLETE", "Plan executed");
+
+            res.json({
+                ok: true,
+                planId,
+                message: "Rebalance plan executed",
+                strategy: { ...plan.strategy, allocation: plan.adjustedAllocation },
+                drift,
+                execution: {
+                    usd1Transfers: transferResult.executed,
+                    usd1Skipped: [...plan.usd1Skipped, ...transferResult.skipped],
+                    usd1Errors: transferResult.errors.length > 0 ? transferResult.errors : undefined,
+                    unsignedTxs,
+                    bundles: bundlePlan.bundles,
+                    compensation: bundlePlan.compensation,
+                    tracking: tracked ? toOperationView(tracked) : null,
+                    strategyResults: summarizeStrategyResults(strategyExecution.results, vaultStats),
+                    totalTransactions: allTransactions.length
+                },
+                vaultStats: summarizeVaultStats(vaultStats),
+                errors: strategyExecution.errors.length > 0 ? strategyExecution.errors : undefined,
+                duration: `${Date.now() - startTime}ms`
+            });
+        } catch (err) {
+            logger.error("Rebalance execute failed", "REBALANCE-EXEC");
+            if (claimedId) {
+                await store.setStatus(claimedId, "failed").catch(() => undefined);
+            }
+            res.status(500).json({ error: "Rebalance execute failed" });
+        }
+    });
+}
@@ -0,0 +1,55 @@
+import type { NextApiRequest, NextApiResponse } from "../../types/api.js";
+import { createStoredPlan } from "../../lib/rebalance/index.js";
+import { requireSignedRequest } from "../../lib/auth/index.js";
+import { applyCors } from "../../lib/cors.js";
+import { logger } from "../../lib/logger.js";
+import { withRuntimeMode } from "../../lib/runtimeMode.js";
+
+function log(step: string, message: string) {
+    logger.info(message, "REBALANCE-PLAN", { step });
+}
+
+/**
+ * POST /api/rebalance/plan
+ * Phase one of a two-phase rebalance: compute the plan, store it and return its ID.
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    applyCors(req, res, ["POST", "OPTIONS"]);
+
+    if (req.method === "OPTIONS") {
+        return res.status(200).end();
+    }
+
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    return withRuntimeMode(req, async () => {
+        try {
+            const { wallet, risk } = req.body;
+
+            if (!wallet) {
+                return res.status(400).json({ error: "wallet required" });
+            }
+
+            if (!(await requireSignedRequest(req, res, "rebalance-plan"))) return;
+
+            log("START", "Building rebalance plan");
+            const entry = await createStoredPlan(wallet, risk || "medium");
+            log("COMPLETE", "Plan stored");
+
+            res.json({
+                ok: true,
+                planId: entry.id,
+                expiresAt: entry.expiresAt,
+                plan: entry.plan
+            });
+        } catch (err) {
+            logger.error("Rebalance plan failed", "REBALANCE-PLAN");
+            res.status(500).json({ error: "Rebalance plan failed" });
+        }
+    });
+}
@@ -0,0 +1,75 @@
+import type { NextApiRequest, NextApiResponse } from "../types/api.js";
+import { getRiskProfileStore, resolveRiskProfile } from "../lib/ai/profiles.js";
+import { validateRiskProfile, isRiskPreset, RISK_PRESETS } from "../lib/ai/risk.js";
+import { requireSignedRequest } from "../lib/auth/index.js";
+import { applyCors } from "../lib/cors.js";
+import { logger } from "../lib/logger.js";
+import { withRuntimeMode } from "../lib/runtimeMode.js";
+
+/**
+ * /api/risk-profile
+ * GET    ?wallet=...&risk=...  → the wallet's effective profile (custom or preset)
+ * PUT    { wallet, profile, auth } → store a custom profile
+ * DELETE { wallet, auth } → revert to presets
+ * Writes require a signed request (action "risk-profile", see lib/auth).
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    applyCors(req, res, ["GET", "PUT", "DELETE", "OPTIONS"]);
+
+    if (req.method === "OPTIONS") {
+        return res.status(200).end();
+    }
+
+    if (req.method !== "GET" && req.method !== "PUT" && req.method !== "DELETE") {
+        return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    return withRuntimeMode(req, async () => {
+        try {
+            const store = getRiskProfileStore();
+
+            if (req.method === "GET") {
+                const { wallet, risk } = req.query;
+                if (!wallet || typeof wallet !== "string") {
+                    return res.status(400).json({ error: "wallet parameter required" });
+                }
+
+                const preset = isRiskPreset(risk) ? risk : "medium";
+                const custom = await store.get(wallet);
+                const profile = custom ?? await resolveRiskProfile(undefined, preset);
+
+                return res.status(200).json({ ok: true, custom: !!custom, profile, presets: RISK_PRESETS });
+            }
+
+            const { wallet, profile } = req.body;
+
+            if (!wallet) {
+                return res.status(400).json({ error: "wallet required" });
+            }
+
+            if (!(await requireSignedRequest(req, res, "risk-profile"))) return;
+
+            if (req.method === "DELETE") {
+                await store.remove(wallet);
+                logger.info("Risk profile removed", "RISK-PROFILE");
+                return res.status(200).json({ ok: true, custom: false });
+            }
+
+            const validation = validateRiskProfile(profile);
+            if ("errors" in validation) {
+                return res.status(400).json({ error: "Invalid risk profile", details: validation.errors });
+            }
+
+            await store.set(wallet, validation.profile);
+            logger.info("Risk profile saved", "RISK-PROFILE");
+
+            res.status(200).json({ ok: true, custom: true, profile: validation.profile });
+        } catch (err) {
+            logger.error("Risk profile request failed", "RISK-PROFILE");
+            res.status(500).json({ error: "Risk profile request failed" });
+        }
+    });
+}
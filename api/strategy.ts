@@ -22,12 +22,16 @@ export default async function handler(
         const startTime = Date.now();
 
         try {
-            const { risk } = req.query;
+            const { risk, wallet } = req.query;
             const riskLevel = (risk as RiskProfile) || "medium";
 
             logger.info("Strategy request", "STRATEGY", { risk: riskLevel });
 
-            const strategy = await getAIStrategy(riskLevel);
+            // With a wallet, its stored risk profile (if any) replaces the preset
+            const strategy = await getAIStrategy(
+                riskLevel,
+                typeof wallet === "string" && wallet ? wallet : undefined
+            );
 
             const duration = Date.now() - startTime;
             logger.api(req.method || "GET", "/api/strategy", 200, duration);
@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from "../../types/api.js";
+import { getDecisionJournal } from "../../lib/ai/journal.js";
+import { applyCors } from "../../lib/cors.js";
+import logger from "../../lib/logger.js";
+
+/**
+ * GET /api/strategy/history?limit=50&before=<ms timestamp>
+ * Decision journal, newest first. Page backwards by passing `nextBefore` as `before`.
+ * Entries carry no wallet or amounts, only the decision and how it was executed.
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    applyCors(req, res, ["GET", "OPTIONS"]);
+
+    if (req.method === "OPTIONS") {
+        return res.status(200).end();
+    }
+
+    if (req.method !== "GET") {
+        return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    const startTime = Date.now();
+
+    try {
+        const { limit, before } = req.query;
+
+        const limitValue = limit === undefined ? undefined : Number(limit);
+        if (limitValue !== undefined && (!Number.isInteger(limitValue) || limitValue <= 0)) {
+            return res.status(400).json({ error: "limit must be a positive integer" });
+        }
+
+        const beforeValue = before === undefined ? undefined : Number(before);
+        if (beforeValue !== undefined && (!Number.isFinite(beforeValue) || beforeValue <= 0)) {
+            return res.status(400).json({ error: "before must be a timestamp in milliseconds" });
+        }
+
+        const decisions = await getDecisionJournal().list({ limit: limitValue, before: beforeValue });
+        const last = decisions[decisions.length - 1];
+
+        logger.api(req.method || "GET", "/api/strategy/history", 200, Date.now() - startTime);
+
+        res.status(200).json({
+            ok: true,
+            decisions,
+            nextBefore: last ? last.createdAt : undefined
+        });
+    } catch (err) {
+        logger.error("Strategy history error", "STRATEGY", err instanceof Error ? { message: err.message } : { error: String(err) });
+        res.status(500).json({ error: "Failed to load strategy history" });
+    }
+}
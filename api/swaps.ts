@@ -0,0 +1,61 @@
+import type { NextApiRequest, NextApiResponse } from "../types/api.js";
+import { getSwapJournal, summarizeSlippage, SwapVault } from "../lib/protocols/swapJournal.js";
+import { getSwapPolicy } from "../lib/protocols/swapPolicy.js";
+import { applyCors } from "../lib/cors.js";
+import { logger } from "../lib/logger.js";
+import { withRuntimeMode } from "../lib/runtimeMode.js";
+
+const VAULTS: SwapVault[] = ["growth", "degen", "yield", "rwa", "unassigned"];
+
+/**
+ * /api/swaps
+ * GET ?vault=growth&since=<ms>&limit=200 → swap journal records (newest first),
+ * per-vault slippage statistics and the active swap policy.
+ * Records hold no wallets, amounts or tx hashes, so no signature is required.
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    applyCors(req, res, ["GET", "OPTIONS"]);
+
+    if (req.method === "OPTIONS") {
+        return res.status(200).end();
+    }
+
+    if (req.method !== "GET") {
+        return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    return withRuntimeMode(req, async () => {
+        try {
+            const { vault, since, limit } = req.query;
+
+            if (vault !== undefined && !VAULTS.includes(vault as SwapVault)) {
+                return res.status(400).json({ error: `vault must be one of ${VAULTS.join(", ")}` });
+            }
+
+            const sinceMs = since !== undefined ? Number(since) : undefined;
+            const limitN = limit !== undefined ? Number(limit) : undefined;
+            if ((sinceMs !== undefined && !Number.isFinite(sinceMs)) || (limitN !== undefined && !(limitN > 0))) {
+                return res.status(400).json({ error: "since and limit must be positive numbers" });
+            }
+
+            const records = await getSwapJournal().list({
+                vault: vault as SwapVault | undefined,
+                since: sinceMs,
+                limit: limitN
+            });
+
+            return res.status(200).json({
+                ok: true,
+                policy: getSwapPolicy(),
+                summary: summarizeSlippage(records),
+                records
+            });
+        } catch (err) {
+            logger.error("Swap stats request failed", "SWAPS");
+            res.status(500).json({ error: "Swap stats request failed" });
+        }
+    });
+}
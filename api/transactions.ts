@@ -0,0 +1,93 @@
+import type { NextApiRequest, NextApiResponse } from "../types/api.js";
+import { pollOperation, reportTransaction, toOperationView } from "../lib/transactions/index.js";
+import { isTransactionSignature } from "../lib/verification.js";
+import { requireSignedRequest } from "../lib/auth/index.js";
+import { applyCors } from "../lib/cors.js";
+import { logger } from "../lib/logger.js";
+import { withRuntimeMode } from "../lib/runtimeMode.js";
+
+const MAX_ID_LENGTH = 64;
+
+/**
+ * /api/transactions
+ * GET ?id=<operationId> → the operation's status, refreshed from the cluster.
+ * POST { wallet, operationId, index, signature, auth } → the wallet signed and sent transaction `index`.
+ * POST { wallet, operationId, index, error, auth } → the wallet refused or failed to send it.
+ * Reports are signed with action "transactions-report" by the operation's wallet.
+ * Operation ids are unguessable and only returned to the caller that built the
+ * transactions; views carry no position contents.
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    applyCors(req, res, ["GET", "POST", "OPTIONS"]);
+
+    if (req.method === "OPTIONS") {
+        return res.status(200).end();
+    }
+
+    if (req.method !== "GET" && req.method !== "POST") {
+        return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    return withRuntimeMode(req, async () => {
+        try {
+            if (req.method === "GET") {
+                const id = req.query?.id;
+                if (typeof id !== "string" || !id || id.length > MAX_ID_LENGTH) {
+                    return res.status(400).json({ error: "id required" });
+                }
+
+                const operation = await pollOperation(id);
+                if (!operation) {
+                    return res.status(404).json({ error: "Operation not found" });
+                }
+                return res.status(200).json({ ok: true, operation: toOperationView(operation) });
+            }
+
+            const { wallet, operationId, index, signature, error } = req.body || {};
+            const details: string[] = [];
+
+            if (typeof wallet !== "string" || !wallet) {
+                details.push("wallet required");
+            }
+            if (typeof operationId !== "string" || !operationId || operationId.length > MAX_ID_LENGTH) {
+                details.push("operationId required");
+            }
+            if (!Number.isInteger(index) || index < 0) {
+                details.push("index must be a non-negative integer");
+            }
+            if (signature !== undefined && !isTransactionSignature(signature)) {
+                details.push("signature must be a base58 transaction signature");
+            }
+            if (error !== undefined && (typeof error !== "string" || !error)) {
+                details.push("error must be a non-empty string");
+            }
+            if ((signature === undefined) === (error === undefined)) {
+                details.push("provide exactly one of signature or error");
+            }
+            if (details.length > 0) {
+                return res.status(400).json({ error: "Invalid transaction report", details });
+            }
+
+            if (!(await requireSignedRequest(req, res, "transactions-report"))) return;
+
+            const reported = await reportTransaction(
+                wallet,
+                operationId,
+                index,
+                signature !== undefined ? { signature } : { error }
+            );
+            if ("status" in reported) {
+                return res.status(reported.status).json({ error: reported.error });
+            }
+
+            const operation = await pollOperation(operationId);
+            return res.status(200).json({ ok: true, operation: toOperationView(operation || reported.operation) });
+        } catch (err) {
+            logger.error("Transaction status request failed", "TRANSACTIONS");
+            res.status(500).json({ error: "Transaction status request failed" });
+        }
+    });
+}
@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from "../../types/api.js";
+import { pollOpenOperations } from "../../lib/transactions/index.js";
+import { isCronRequest } from "../../lib/auth/index.js";
+import { applyCors } from "../../lib/cors.js";
+import { logger } from "../../lib/logger.js";
+import { withRuntimeMode } from "../../lib/runtimeMode.js";
+
+/**
+ * GET|POST /api/transactions/poll
+ * Server-side poller for a scheduler (e.g. a Vercel cron): refreshes every tracked
+ * operation that is not final yet, applying positions for those that confirmed.
+ * Requires `Authorization: Bearer <CRON_SECRET>`; without CRON_SECRET it refuses every call.
+ */
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    applyCors(req, res, ["GET", "POST", "OPTIONS"]);
+
+    if (req.method === "OPTIONS") {
+        return res.status(200).end();
+    }
+
+    if (req.method !== "GET" && req.method !== "POST") {
+        return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    if (!isCronRequest(req)) {
+        return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    return withRuntimeMode(req, async () => {
+        try {
+            const operations = await pollOpenOperations();
+            const counts: Record<string, number> = {};
+            for (const operation of operations) {
+                counts[operation.status] = (counts[operation.status] || 0) + 1;
+            }
+
+            logger.info("Transaction poll complete", "TX-POLL", { operations: operations.length });
+            return res.status(200).json({ ok: true, polled: operations.length, statuses: counts });
+        } catch (err) {
+            logger.error("Transaction poll failed", "TX-POLL");
+            res.status(500).json({ error: "Transaction poll failed" });
+        }
+    });
+}
@@ -1,10 +1,40 @@
 import type { NextApiRequest, NextApiResponse } from "../types/api.js";
-import { verifySignature } from "../utils/verifySignature.js";
 import { deposit, withdraw } from "../lib/shadowwire.js";
 import { getUSD1Fees } from "../lib/usd1.js";
+import { trackOperation, toOperationView } from "../lib/transactions/index.js";
+import { requireSignedRequest } from "../lib/auth/index.js";
 import { applyCors } from "../lib/cors.js";
 import { logger } from "../lib/logger.js";
-import { getRuntimeMode, withRuntimeMode } from "../lib/runtimeMode.js";
+import { getRuntimeMode, withRuntimeMode, RuntimeMode } from "../lib/runtimeMode.js";
+
+/**
+ * Move USD1 into or out of ShadowWire. In demo mode a deposit below the SDK minimum
+ * is simulated.
+ */
+async function runTransfer(action: string, wallet: string, amount: number, runtimeMode: RuntimeMode | undefined): Promise<any> {
+    if (action !== "deposit") {
+        return withdraw(wallet, amount);
+    }
+
+    try {
+        return await deposit(wallet, amount);
+    } catch (sdkError: any) {
+        // If SDK fails with minimum error, use simulation
+        if (
+            runtimeMode === "demo" &&
+            (sdkError.message?.includes('below minimum') || sdkError.message?.includes('0.1000 SOL'))
+        ) {
+            logger.info("Deposit SDK fallback to simulation", "TRANSFER");
+            return {
+                success: true,
+                txSignature: `sim_deposit_${Date.now()}`,
+                amount,
+                fee: amount * 0.01
+            };
+        }
+        throw sdkError;
+    }
+}
 
 export default async function handler(
     req: NextApiRequest,
@@ -24,24 +54,18 @@ export default async function handler(
         const startTime = Date.now();
 
         try {
-            const { wallet, amount, action, timestamp, signature } = req.body;
+            const { wallet, amount, action } = req.body;
 
-        if (!wallet || !amount || !action) {
+        if (!wallet || !amount || (action !== "deposit" && action !== "withdraw")) {
             return res.status(400).json({
                 error: "wallet, amount, and action (deposit/withdraw) required"
             });
         }
 
-        logger.info("Transfer request", "TRANSFER", { action: action.toUpperCase() });
+        // The transfer direction is the signed action
+        if (!(await requireSignedRequest(req, res, action))) return;
 
-        // Verify wallet signature
-        if (signature && timestamp) {
-            const message = `${action}|${wallet}|${timestamp}`;
-            if (!verifySignature(message, signature, wallet)) {
-                logger.warn("Invalid signature", "TRANSFER");
-                return res.status(401).json({ error: "Invalid signature" });
-            }
-        }
+        logger.info("Transfer request", "TRANSFER", { action: action.toUpperCase() });
 
         const numAmount = Number(amount);
         const feeInfo = getUSD1Fees();
@@ -59,30 +83,12 @@ export default async function handler(
         }
 
         const runtimeMode = getRuntimeMode();
-        let result;
-        if (action === "deposit") {
-            try {
-                result = await deposit(wallet, numAmount);
-            } catch (sdkError: any) {
-                // If SDK fails with minimum error, use simulation
-                if (
-                    runtimeMode === "demo" &&
-                    (sdkError.message?.includes('below minimum') || sdkError.message?.includes('0.1000 SOL'))
-                ) {
-                    logger.info("Deposit SDK fallback to simulation", "TRANSFER");
-                    result = {
-                        success: true,
-                        txSignature: `sim_deposit_${Date.now()}`,
-                        amount: numAmount,
-                        fee: numAmount * 0.01
-                    };
-                } else {
-                    throw sdkError;
-                }
-            }
-        } else {
-            result = await withdraw(wallet, numAmount);
-        }
+        const { result, tracked } = await trackOperation(
+            wallet,
+            action,
+            () => runTransfer(action, wallet, numAmount, runtimeMode),
+            transfer => transfer?.unsigned_tx_base64 ? [transfer.unsigned_tx_base64] : undefined
+        );
 
         logger.info("Transfer completed", "TRANSFER", { durationMs: Date.now() - startTime });
 
@@ -91,6 +97,7 @@ export default async function handler(
             action,
             amount: numAmount,
             result,
+            tracking: tracked ? toOperationView(tracked) : null,
             fees: {
                 percentage: feeInfo.feePercentage,
                 minimum: feeInfo.minimumAmount
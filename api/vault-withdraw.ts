@@ -11,6 +11,8 @@ import { yieldStrategy } from '../lib/strategies/yield.js';
 import { growthStrategy } from '../lib/strategies/growth.js';
 import { degenStrategy } from '../lib/strategies/degen.js';
 import { rwaStrategy } from '../lib/strategies/rwa.js';
+import { trackOperation, toOperationView } from '../lib/transactions/index.js';
+import { requireSignedRequest } from '../lib/auth/index.js';
 import { logger } from '../lib/logger.js';
 import { withRuntimeMode } from "../lib/runtimeMode.js";
 
@@ -20,8 +22,6 @@ interface VaultWithdrawRequest {
     wallet: string;
     vault: 'reserve' | 'yield' | 'growth' | 'degen' | 'rwa';
     amount: number;
-    timestamp?: number;
-    signature?: string;
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -54,6 +54,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             });
         }
 
+        if (!(await requireSignedRequest(req, res, 'vault-withdraw'))) return;
+
         log(`Vault withdrawal request: ${vault}`);
 
         const strategies = {
@@ -77,8 +79,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             });
         }
 
-        // Execute withdrawal from the vault
-        const result = await strategy.withdraw(wallet, amount);
+        // Execute withdrawal from the vault; positions from user-signed swaps wait for confirmation
+        const { result, tracked } = await trackOperation(
+            wallet,
+            'vault-withdraw',
+            () => strategy.withdraw(wallet, amount),
+            withdrawal => (withdrawal as any).unsigned_txs
+        );
 
         if (!result.success) {
             return res.status(400).json({
@@ -104,6 +111,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 usd1Received,
                 txSignature: result.txSignature,
                 unsigned_txs: (result as any).unsigned_txs,
+                tracking: tracked ? toOperationView(tracked) : null,
                 message: `Withdrew from ${vault} vault → ${usd1Received.toFixed(2)} USD1 returned to shielded pool`
             });
 
@@ -1,13 +1,15 @@
 import type { NextApiRequest, NextApiResponse } from "../types/api.js";
+import { isTransactionSignature, verifyTransaction } from "../lib/verification.js";
 import { applyCors } from "../lib/cors.js";
 import { logger } from "../lib/logger.js";
 import { withRuntimeMode } from "../lib/runtimeMode.js";
 
 /**
- * Verify Transaction Proof
- * 
- * Since ShadowWire uses Bulletproof ZK proofs that are verified on-chain,
- * this endpoint verifies that a transaction exists and was successful.
+ * GET /api/verify?txHash=<signature>
+ * Verification report built from the chain: the transaction must have succeeded and be
+ * a ShadowWire transfer that moved USD1 or carry a position memo; any memo it carries
+ * must be readable and signed by its fee payer. Includes slot, block time, decoded memos
+ * and the matching vault operation.
  */
 export default async function handler(
     req: NextApiRequest,
@@ -31,25 +33,12 @@ export default async function handler(
                 return res.status(400).json({ error: "txHash parameter required" });
             }
 
-            // ShadowWire proofs are verified on-chain during transfer
-            // The presence of a valid tx_signature indicates successful verification
-            // In production, you could query Solana to verify the transaction exists
-
-            // For now, return verification based on txHash format
-            const isValidFormat = /^[A-Za-z0-9]{64,}$/.test(txHash);
+            if (!isTransactionSignature(txHash)) {
+                return res.status(400).json({ error: "txHash must be a base58 transaction signature" });
+            }
 
-            res.json({
-                verified: isValidFormat,
-                txHash,
-                proof: {
-                    type: "bulletproof",
-                    verified_on_chain: true,
-                    timestamp: Date.now(),
-                    message: isValidFormat
-                        ? "Transaction verified via ShadowWire ZK proof"
-                        : "Invalid transaction hash format"
-                }
-            });
+            const report = await verifyTransaction(txHash);
+            res.json(report);
         } catch {
             logger.error("Verify failed", "Verify");
             res.status(500).json({ error: "Unable to verify proof" });
@@ -1,7 +1,18 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react';
+import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect, useRef } from 'react';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { Connection, VersionedTransaction, Transaction, clusterApiUrl } from '@solana/web3.js';
-import { api, Treasury, AIStrategy, RebalanceResult, Allocation, VaultStats } from '../services/api';
+import {
+    api,
+    Treasury,
+    AIStrategy,
+    RebalanceResult,
+    Allocation,
+    VaultStats,
+    TrackedOperation,
+    TransactionBundle,
+    CompensationStep
+} from '../services/api';
+import { buildMemoKeyMessage, deriveMemoKey } from '../utils/memoKey';
 import bs58 from 'bs58';
 
 interface WalletState {
@@ -60,8 +71,23 @@ const ShadowFundContext = createContext<ShadowFundContextType | null>(null);
 const rpcUrl = (typeof import.meta !== 'undefined' && (import.meta as any).env?.VITE_SOLANA_RPC_URL) || clusterApiUrl('mainnet-beta');
 const connection = new Connection(rpcUrl, "confirmed");
 
+// Poll until the transaction confirms; throws if it failed or never confirmed
+async function awaitConfirmation(signature: string): Promise<void> {
+    for (let i = 0; i < 30; i++) {
+        const status = await connection.getSignatureStatus(signature);
+        if (status.value?.err) {
+            throw new Error("Transaction failed on-chain");
+        }
+        if (status.value?.confirmationStatus === 'confirmed' || status.value?.confirmationStatus === 'finalized') {
+            return;
+        }
+        await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+    throw new Error("Transaction not confirmed in time");
+}
+
 export function ShadowFundProvider({ children }: { children: ReactNode }) {
-    const { publicKey, signMessage: walletSignMessage, connected, sendTransaction } = useWallet();
+    const { publicKey, signMessage: walletSignMessage, connected, sendTransaction, signAllTransactions } = useWallet();
 
     const defaultMode =
         (typeof import.meta !== "undefined" && (import.meta as any).env?.VITE_SHADOWWIRE_MOCK === "true")
@@ -122,7 +148,7 @@ export function ShadowFundProvider({ children }: { children: ReactNode }) {
     const [isWithdrawingFromVault, setIsWithdrawingFromVault] = useState<string | null>(null);
     const [isInvesting, setIsInvesting] = useState(false);
 
-    const sendUnsignedTransaction = useCallback(async (base64Tx: string) => {
+    const sendUnsignedTransaction = useCallback(async (base64Tx: string, onSent?: (signature: string) => Promise<void>) => {
         if (!sendTransaction) {
             throw new Error("Wallet not ready to sign transactions");
         }
@@ -137,6 +163,7 @@ export function ShadowFundProvider({ children }: { children: ReactNode }) {
         }
 
         const signature = await sendTransaction(transaction, connection);
+        await onSent?.(signature);
 
         for (let i = 0; i < 30; i++) {
             const status = await connection.getSignatureStatus(signature);
@@ -149,6 +176,81 @@ export function ShadowFundProvider({ children }: { children: ReactNode }) {
         return signature;
     }, [sendTransaction]);
 
+    // Sign and send in order, reporting each signature (or why it was not sent) so the
+    // server can apply the operation's positions once everything confirms
+    const sendTrackedTransactions = useCallback(async (unsignedTxs: string[] | undefined, tracking?: TrackedOperation | null) => {
+        if (!unsignedTxs) return;
+
+        for (let index = 0; index < unsignedTxs.length; index++) {
+            const report = (outcome: { signature: string } | { error: string }) => tracking && publicKey
+                ? api.reportTransaction(publicKey.toBase58(), tracking.id, index, outcome).then(() => undefined, () => undefined)
+                : Promise.resolve();
+            let sent = false;
+
+            try {
+                await sendUnsignedTransaction(unsignedTxs[index], async signature => {
+                    sent = true;
+                    await report({ signature });
+                });
+            } catch (err) {
+                if (!sent) await report({ error: err instanceof Error ? err.message : "Transaction not sent" });
+                throw err;
+            }
+        }
+    }, [sendUnsignedTransaction, publicKey]);
+
+    // Sign every bundle in one wallet prompt, then send them in sequence, each once the
+    // bundles it depends on have confirmed. A rejected prompt sends nothing; when a later
+    // bundle fails, the compensation for the bundles that already landed is returned.
+    const sendTransactionBundles = useCallback(async (
+        bundles: TransactionBundle[] | undefined,
+        compensation: CompensationStep[] | undefined,
+        tracking?: TrackedOperation | null
+    ): Promise<CompensationStep | null> => {
+        if (!bundles || bundles.length === 0) return null;
+        if (!signAllTransactions) {
+            await sendTrackedTransactions(bundles.map(bundle => bundle.transaction), tracking);
+            return null;
+        }
+
+        const report = (index: number, outcome: { signature: string } | { error: string }) => tracking && publicKey
+            ? api.reportTransaction(publicKey.toBase58(), tracking.id, index, outcome).then(() => undefined, () => undefined)
+            : Promise.resolve();
+
+        let signed: VersionedTransaction[];
+        try {
+            signed = await signAllTransactions(
+                bundles.map(bundle => VersionedTransaction.deserialize(Buffer.from(bundle.transaction, 'base64')))
+            );
+        } catch (err) {
+            const message = err instanceof Error ? err.message : "Transactions not signed";
+            await Promise.all(bundles.map(bundle => report(bundle.sequence, { error: message })));
+            throw err;
+        }
+
+        const confirmed = new Set<number>();
+        for (const bundle of bundles) {
+            let sent = false;
+            try {
+                if (bundle.dependsOn.some(sequence => !confirmed.has(sequence))) {
+                    throw new Error("An earlier transaction did not confirm");
+                }
+                const signature = await connection.sendRawTransaction(signed[bundle.sequence].serialize());
+                sent = true;
+                await report(bundle.sequence, { signature });
+                await awaitConfirmation(signature);
+                confirmed.add(bundle.sequence);
+            } catch (err) {
+                const message = err instanceof Error ? err.message : "Transaction not sent";
+                const unsent = bundles.filter(b => b.sequence > bundle.sequence || (b === bundle && !sent));
+                await Promise.all(unsent.map(b => report(b.sequence, { error: message })));
+                if (confirmed.size === 0) throw err;
+                return compensation?.find(step => step.failedSequence === bundle.sequence) ?? null;
+            }
+        }
+        return null;
+    }, [signAllTransactions, sendTrackedTransactions, publicKey]);
+
     useEffect(() => {
         let isMounted = true;
 
@@ -179,11 +281,16 @@ export function ShadowFundProvider({ children }: { children: ReactNode }) {
         return () => { isMounted = false; };
     }, [connected, publicKey]);
 
+    // Position memo keys per wallet for this session; null when the wallet declined
+    const memoKeys = useRef<Map<string, string | null>>(new Map());
+    const [memoKeyWallet, setMemoKeyWallet] = useState<string | null>(null);
+
     const connectWallet = useCallback((address: string) => {
         setWallet(prev => ({ ...prev, connected: true, address }));
     }, []);
 
     const disconnectWallet = useCallback(() => {
+        memoKeys.current.clear();
         setWallet({ connected: false, address: null, solBalance: 0, risk: "medium" });
         setTreasury({ loading: false, error: null, data: null });
         setStrategy({ loading: false, error: null, data: null });
@@ -206,6 +313,57 @@ export function ShadowFundProvider({ children }: { children: ReactNode }) {
         }
     }, [wallet.address, walletSignMessage]);
 
+    // State-changing API requests are signed by the connected wallet
+    useEffect(() => {
+        if (!wallet.address || !walletSignMessage) {
+            api.setRequestSigner(null);
+            return;
+        }
+        api.setRequestSigner(async message =>
+            bs58.encode(await walletSignMessage(new TextEncoder().encode(message)))
+        );
+        return () => api.setRequestSigner(null);
+    }, [wallet.address, walletSignMessage]);
+
+    // Position memos are encrypted under a key derived from one wallet signature per session
+    useEffect(() => {
+        const address = wallet.address;
+        if (!address || !walletSignMessage) {
+            api.setMemoKey(null);
+            setMemoKeyWallet(null);
+            return;
+        }
+
+        let cancelled = false;
+        const apply = (key: string | null) => {
+            if (cancelled) return;
+            api.setMemoKey(key);
+            setMemoKeyWallet(key ? address : null);
+        };
+
+        const cached = memoKeys.current.get(address);
+        if (cached !== undefined) {
+            apply(cached);
+        } else {
+            (async () => {
+                let key: string | null = null;
+                try {
+                    const signature = await walletSignMessage(new TextEncoder().encode(buildMemoKeyMessage(address)));
+                    key = await deriveMemoKey(signature);
+                } catch {
+                    // Declined: memos stay readable by anyone, as before
+                }
+                memoKeys.current.set(address, key);
+                apply(key);
+            })();
+        }
+
+        return () => {
+            cancelled = true;
+            api.setMemoKey(null);
+        };
+    }, [wallet.address, walletSignMessage]);
+
     const fetchTreasury = useCallback(async (overrideAddress?: string) => {
         const address = overrideAddress ?? wallet.address;
         if (!address) return;
@@ -241,7 +399,7 @@ export function ShadowFundProvider({ children }: { children: ReactNode }) {
         if (!wallet.address) return;
         fetchTreasury();
         fetchStrategy();
-    }, [runtimeMode, wallet.address, fetchTreasury, fetchStrategy]);
+    }, [runtimeMode, wallet.address, memoKeyWallet, fetchTreasury, fetchStrategy]);
 
     const rebalance = useCallback(async (): Promise<RebalanceResult | null> => {
         if (!wallet.address) return null;
@@ -250,21 +408,22 @@ export function ShadowFundProvider({ children }: { children: ReactNode }) {
         setVaultStats(prev => ({ ...prev, loading: true }));
 
         try {
-            const signatureData = await signMessage("rebalance");
-            const result = await api.rebalance(
-                wallet.address,
-                wallet.risk,
-                signatureData ? { ...signatureData, action: "rebalance" } : undefined
-            );
+            const result = await api.rebalance(wallet.address, wallet.risk);
 
-            if (result.execution?.unsignedTxs && result.execution.unsignedTxs.length > 0) {
-                for (const unsignedTx of result.execution.unsignedTxs) {
-                    await sendUnsignedTransaction(unsignedTx);
-                }
-            }
+            const unwind = await sendTransactionBundles(
+                result.execution?.bundles,
+                result.execution?.compensation,
+                result.execution?.tracking
+            );
 
             if (result.vaultStats) {
-                setVaultStats({ loading: false, error: null, data: result.vaultStats });
+                setVaultStats({
+                    loading: false,
+                    error: unwind
+                        ? `Rebalance partially applied: ${unwind.unwind.map(action => action.description).join('; ')}`
+                        : null,
+                    data: result.vaultStats
+                });
             }
 
             await fetchTreasury();
@@ -275,17 +434,16 @@ export function ShadowFundProvider({ children }: { children: ReactNode }) {
         } finally {
             setIsRebalancing(false);
         }
-    }, [wallet.address, wallet.risk, signMessage, fetchTreasury, sendUnsignedTransaction]);
+    }, [wallet.address, wallet.risk, fetchTreasury, sendTransactionBundles]);
 
     const deposit = useCallback(async (amount: number): Promise<boolean> => {
         if (!wallet.address || !sendTransaction) return false;
         setIsDepositing(true);
         try {
-            const signatureData = await signMessage("deposit");
-            const response = await api.deposit(wallet.address, amount, signatureData || undefined);
+            const response = await api.deposit(wallet.address, amount);
 
             if (response.result?.unsigned_tx_base64) {
-                await sendUnsignedTransaction(response.result.unsigned_tx_base64);
+                await sendTrackedTransactions([response.result.unsigned_tx_base64], response.tracking);
             }
 
             await fetchTreasury();
@@ -295,17 +453,16 @@ export function ShadowFundProvider({ children }: { children: ReactNode }) {
         } finally {
             setIsDepositing(false);
         }
-    }, [wallet.address, signMessage, fetchTreasury, sendUnsignedTransaction]);
+    }, [wallet.address, fetchTreasury, sendTrackedTransactions]);
 
     const withdraw = useCallback(async (amount: number): Promise<boolean> => {
         if (!wallet.address || !sendTransaction) return false;
         setIsWithdrawing(true);
         try {
-            const signatureData = await signMessage("withdraw");
-            const response = await api.withdraw(wallet.address, amount, signatureData || undefined);
+            const response = await api.withdraw(wallet.address, amount);
 
             if (response.result?.unsigned_tx_base64) {
-                await sendUnsignedTransaction(response.result.unsigned_tx_base64);
+                await sendTrackedTransactions([response.result.unsigned_tx_base64], response.tracking);
             }
 
             await fetchTreasury();
@@ -315,7 +472,7 @@ export function ShadowFundProvider({ children }: { children: ReactNode }) {
         } finally {
             setIsWithdrawing(false);
         }
-    }, [wallet.address, signMessage, fetchTreasury, sendUnsignedTransaction]);
+    }, [wallet.address, fetchTreasury, sendTrackedTransactions]);
 
     const withdrawFromVault = useCallback(async (
         vault: "reserve" | "yield" | "growth" | "degen" | "rwa",
@@ -324,15 +481,10 @@ export function ShadowFundProvider({ children }: { children: ReactNode }) {
         if (!wallet.address || !sendTransaction) return false;
         setIsWithdrawingFromVault(vault);
         try {
-            const signatureData = await signMessage(`vault-withdraw-${vault}`);
-            const response = await api.withdrawFromVault(wallet.address, vault, amount, signatureData || undefined);
+            const response = await api.withdrawFromVault(wallet.address, vault, amount);
 
             // Handle unsigned transactions that need user signing
-            if (response.unsigned_txs && response.unsigned_txs.length > 0) {
-                for (const unsignedTx of response.unsigned_txs) {
-                    await sendUnsignedTransaction(unsignedTx);
-                }
-            }
+            await sendTrackedTransactions(response.unsigned_txs, response.tracking);
 
             await fetchTreasury();
             return true;
@@ -341,7 +493,7 @@ export function ShadowFundProvider({ children }: { children: ReactNode }) {
         } finally {
             setIsWithdrawingFromVault(null);
         }
-    }, [wallet.address, signMessage, fetchTreasury, sendUnsignedTransaction]);
+    }, [wallet.address, fetchTreasury, sendTrackedTransactions]);
 
     const manualInvest = useCallback(async (
         amount: number,
@@ -351,19 +503,9 @@ export function ShadowFundProvider({ children }: { children: ReactNode }) {
         setIsInvesting(true);
         setVaultStats(prev => ({ ...prev, loading: true }));
         try {
-            const signatureData = await signMessage("invest");
-            const result = await api.invest(
-                wallet.address,
-                amount,
-                allocations,
-                signatureData ? { ...signatureData, action: "invest" } : undefined
-            );
+            const result = await api.invest(wallet.address, amount, allocations);
 
-            if (result.execution?.unsignedTxs && result.execution.unsignedTxs.length > 0) {
-                for (const unsignedTx of result.execution.unsignedTxs) {
-                    await sendUnsignedTransaction(unsignedTx);
-                }
-            }
+            await sendTrackedTransactions(result.execution?.unsignedTxs, result.execution?.tracking);
 
             if (result.vaultStats) {
                 setVaultStats({ loading: false, error: null, data: result.vaultStats });
@@ -377,7 +519,7 @@ export function ShadowFundProvider({ children }: { children: ReactNode }) {
         } finally {
             setIsInvesting(false);
         }
-    }, [wallet.address, signMessage, fetchTreasury, sendUnsignedTransaction]);
+    }, [wallet.address, fetchTreasury, sendTrackedTransactions]);
 
     const value: ShadowFundContextType = {
         wallet,
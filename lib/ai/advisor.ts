@@ -0,0 +1,40 @@
+/**
+ * Allocation Advisors
+ * An AllocationAdvisor turns market signals and a risk profile into a recommended
+ * allocation. getAIStrategy only talks to this interface; providers.ts picks the
+ * implementation from AI_PROVIDER.
+ */
+
+import { MarketSignals } from "./signals.js";
+import { RiskProfileConfig, SleeveWeights } from "./risk.js";
+import { Allocation } from "./strategy.js";
+import { MacroMood } from "./macro.js";
+
+export interface AllocationAdvice {
+    allocation: Allocation;
+    reasoning: string;
+    confidence: number;
+    marketMood: MacroMood;
+    keyInsights: string[];
+    /** The provider's answer as parsed, before scaling and band fitting (for the decision journal) */
+    raw?: unknown;
+}
+
+/**
+ * Raised when an advisor's answer fails validation; `issues` lists every problem found
+ */
+export class AdvisorResponseError extends Error {
+    constructor(readonly provider: string, readonly issues: string[], readonly raw?: unknown) {
+        super(`${provider} response rejected: ${issues.join("; ")}`);
+        this.name = "AdvisorResponseError";
+    }
+}
+
+export interface AllocationAdvisor {
+    readonly name: string;
+    /** False when the provider is not configured (missing key, URL, ...) */
+    isAvailable(): boolean;
+    /** `sleeves` is how growth and degen split across tokens, for the exposure guard */
+    getAllocation(signals: MarketSignals, profile: RiskProfileConfig, sleeves?: SleeveWeights): Promise<AllocationAdvice>;
+    getMarketAnalysis(signals: MarketSignals): Promise<string>;
+}
@@ -0,0 +1,56 @@
+/**
+ * Fixture Advisor
+ * Deterministic AllocationAdvisor for tests and offline CI: returns a fixed answer
+ * (AI_FIXTURE_PATH JSON file, or the built-in default) passed through the same
+ * validation and risk-profile enforcement as real model output. No network access.
+ */
+
+import { readFileSync } from "fs";
+import { MarketSignals } from "./signals.js";
+import { RiskProfileConfig, SleeveWeights } from "./risk.js";
+import { AllocationAdvice, AllocationAdvisor } from "./advisor.js";
+import { parseAllocationResponse } from "./prompt.js";
+import { logger } from "../logger.js";
+
+export const DEFAULT_FIXTURE: AllocationAdvice = {
+    allocation: { reserve: 30, yield: 35, growth: 25, degen: 10, rwa: 0 },
+    reasoning: "Fixture allocation (deterministic, offline)",
+    confidence: 80,
+    marketMood: "neutral",
+    keyInsights: ["Fixture provider: no model was called"]
+};
+
+export class FixtureAdvisor implements AllocationAdvisor {
+    readonly name = "fixture";
+    private readonly fixture: AllocationAdvice;
+
+    constructor(fixture: AllocationAdvice = DEFAULT_FIXTURE) {
+        this.fixture = fixture;
+    }
+
+    /**
+     * Load a fixture from a JSON file, falling back to the default when unreadable
+     */
+    static fromFile(filePath: string): FixtureAdvisor {
+        try {
+            const parsed = JSON.parse(readFileSync(filePath, "utf8")) as Partial<AllocationAdvice>;
+            return new FixtureAdvisor({ ...DEFAULT_FIXTURE, ...parsed });
+        } catch {
+            logger.warn("AI fixture unreadable, using default fixture", "Fixture");
+            return new FixtureAdvisor();
+        }
+    }
+
+    isAvailable(): boolean {
+        return true;
+    }
+
+    async getAllocation(_signals: MarketSignals, profile: RiskProfileConfig, sleeves?: SleeveWeights): Promise<AllocationAdvice> {
+        // Same validation path as model output, so fixtures can exercise rejections too
+        return parseAllocationResponse(JSON.stringify(this.fixture), profile, this.name, sleeves);
+    }
+
+    async getMarketAnalysis(signals: MarketSignals): Promise<string> {
+        return `Fixture analysis: SOL ${signals.solTrend}, RSI ${signals.solRSI.toFixed(1)}, volatility ${signals.volatility}.`;
+    }
+}
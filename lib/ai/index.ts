@@ -5,29 +5,40 @@
  */
 import { logger } from "../logger.js";
 import { getMarketSignals, MarketSignals } from "./signals.js";
-import { getRiskLimits, RiskProfile } from "./risk.js";
+import { DEFAULT_SLEEVE_WEIGHTS, RiskProfile, RiskProfileConfig, SleeveWeights } from "./risk.js";
+import { resolveRiskProfile } from "./profiles.js";
 import { getMacroMood, MacroMood } from "./macro.js";
 import { buildStrategy, Allocation } from "./strategy.js";
-import { getGeminiStrategy, getMarketAnalysis, isGeminiAvailable, GeminiStrategyResult } from "./gemini.js";
+import { AdvisorResponseError } from "./advisor.js";
+import { getAllocationAdvisor } from "./providers.js";
+import { recordDecision } from "./journal.js";
+import { resolveGrowthTargets } from "../strategies/growthTargets.js";
+import { degenStrategy } from "../strategies/degen.js";
 
 export interface AIStrategyResult {
     signals: MarketSignals;
     mood: MacroMood;
     allocation: Allocation;
-    // Gemini AI enhancements
+    // LLM advisor enhancements
     aiPowered: boolean;
+    provider?: string;
     reasoning?: string;
     confidence?: number;
     keyInsights?: string[];
     marketAnalysis?: string;
+    // Why the advisor's answer was rejected when we fell back to rules
+    rejection?: { provider: string; issues: string[] };
+    // Decision journal entry for this result (see journal.ts)
+    decisionId?: string;
 }
 
 // Simple in-memory cache to prevent hitting Gemini rate limits
 const strategyCache: Record<string, { result: AIStrategyResult; timestamp: number }> = {};
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-let geminiCooldownUntil = 0;
+let advisorCooldownUntil = 0;
 
 function parseRetryDelayMs(error: any): number | null {
+    if (typeof error?.retryAfterMs === "number") return error.retryAfterMs;
     const details = error?.errorDetails;
     if (!Array.isArray(details)) return null;
     for (const detail of details) {
@@ -44,6 +55,20 @@ function parseRetryDelayMs(error: any): number | null {
     return null;
 }
 
+/**
+ * How the growth and degen sleeves split across tokens, for the exposure guard: the
+ * wallet's growth targets and the weights a degen deposit would use right now
+ */
+async function resolveSleeveWeights(growth: Record<string, number>, profile: RiskProfileConfig): Promise<SleeveWeights> {
+    if (!profile.degenEnabled) return { growth, degen: {} };
+    try {
+        return { growth, degen: await degenStrategy.entryWeights() };
+    } catch {
+        logger.warn("Degen weights unavailable, using the core basket split", "AI");
+        return { growth, degen: DEFAULT_SLEEVE_WEIGHTS.degen };
+    }
+}
+
 function isRateLimitError(error: any): boolean {
     const status = error?.status;
     if (status === 429) return true;
@@ -53,67 +78,105 @@ function isRateLimitError(error: any): boolean {
 
 /**
  * Get AI-powered strategy recommendation
- * Uses Gemini AI if available, falls back to rule-based strategy
+ * Uses the configured AllocationAdvisor if available, falls back to rule-based strategy.
+ * A wallet's stored risk profile takes precedence over the `risk` preset.
  */
-export async function getAIStrategy(risk: RiskProfile): Promise<AIStrategyResult> {
+export async function getAIStrategy(risk: RiskProfile, walletAddress?: string): Promise<AIStrategyResult> {
+    const profile = await resolveRiskProfile(walletAddress, risk);
+    const { weights: growthWeights } = await resolveGrowthTargets(walletAddress);
+    // Cache per profile and growth targets so wallets sharing both share a result
+    const cacheKey = JSON.stringify({ profile, growthWeights });
+
     const now = Date.now();
-    if (strategyCache[risk] && (now - strategyCache[risk].timestamp) < CACHE_TTL) {
+    if (strategyCache[cacheKey] && (now - strategyCache[cacheKey].timestamp) < CACHE_TTL) {
         logger.info("Returning cached strategy", "AI");
-        return strategyCache[risk].result;
+        return strategyCache[cacheKey].result;
     }
 
     // Fetch market signals
     const signals = await getMarketSignals();
-    const limits = getRiskLimits(risk);
     const mood = getMacroMood(signals);
+    const sleeves = await resolveSleeveWeights(growthWeights, profile);
 
-    // Check if Gemini AI is available and not in cooldown
-    if (isGeminiAvailable() && Date.now() >= geminiCooldownUntil) {
+    // Check if an AI advisor is available and not in cooldown
+    const advisor = getAllocationAdvisor();
+    let rejection: AIStrategyResult["rejection"];
+    let rejectedRaw: unknown;
+    if (advisor && advisor.isAvailable() && Date.now() >= advisorCooldownUntil) {
         try {
-            logger.info("Using Gemini AI", "AI");
+            logger.info("Using AI advisor", "AI", { provider: advisor.name });
 
             // Get AI-powered strategy
-            const geminiResult = await getGeminiStrategy(signals, limits, risk);
-            const marketAnalysis = await getMarketAnalysis(signals);
+            const advice = await advisor.getAllocation(signals, profile, sleeves);
+            const marketAnalysis = await advisor.getMarketAnalysis(signals);
 
-            const result = {
+            const result: AIStrategyResult = {
                 signals,
-                mood: geminiResult.marketMood || mood,
-                allocation: geminiResult.allocation,
+                mood: advice.marketMood || mood,
+                allocation: advice.allocation,
                 aiPowered: true,
-                reasoning: geminiResult.reasoning,
-                confidence: geminiResult.confidence,
-                keyInsights: geminiResult.keyInsights,
+                provider: advisor.name,
+                reasoning: advice.reasoning,
+                confidence: advice.confidence,
+                keyInsights: advice.keyInsights,
                 marketAnalysis
             };
+            result.decisionId = await recordDecision({
+                profile,
+                signals,
+                mood: result.mood,
+                aiPowered: true,
+                provider: advisor.name,
+                rawAdvice: advice.raw,
+                allocation: result.allocation,
+                reasoning: result.reasoning,
+                confidence: result.confidence
+            });
 
-            strategyCache[risk] = { result, timestamp: now };
+            strategyCache[cacheKey] = { result, timestamp: now };
             return result;
         } catch (error) {
-            if (isRateLimitError(error)) {
+            if (error instanceof AdvisorResponseError) {
+                rejection = { provider: error.provider, issues: error.issues };
+                rejectedRaw = error.raw;
+                logger.warn("AI advisor response rejected, falling back to rules", "AI", { issues: error.issues });
+            } else if (isRateLimitError(error)) {
                 const retryMs = parseRetryDelayMs(error) ?? 60_000;
-                geminiCooldownUntil = Date.now() + retryMs;
-                logger.warn(`Gemini rate-limited. Cooling down for ${Math.ceil(retryMs / 1000)}s`, "AI");
+                advisorCooldownUntil = Date.now() + retryMs;
+                logger.warn(`AI advisor rate-limited. Cooling down for ${Math.ceil(retryMs / 1000)}s`, "AI");
             } else {
-                logger.warn("Gemini AI failed, falling back to rules", "AI");
+                logger.warn("AI advisor failed, falling back to rules", "AI");
             }
         }
     }
 
     // Fallback to rule-based strategy
     logger.info("Using rule-based strategy", "AI");
-    const allocation = buildStrategy(signals, limits, mood);
+    const allocation = buildStrategy(signals, profile, mood, sleeves);
 
-    const fallbackResult = {
+    const fallbackResult: AIStrategyResult = {
         signals,
         mood,
         allocation,
         aiPowered: false,
         reasoning: "Strategy generated using rule-based analysis",
-        confidence: 75
+        confidence: 75,
+        rejection
     };
+    fallbackResult.decisionId = await recordDecision({
+        profile,
+        signals,
+        mood,
+        aiPowered: false,
+        provider: rejection?.provider,
+        rawAdvice: rejectedRaw,
+        rejection,
+        allocation,
+        reasoning: fallbackResult.reasoning,
+        confidence: fallbackResult.confidence
+    });
 
-    // We don't cache fallback as we want to retry Gemini soon
+    // We don't cache fallback as we want to retry the advisor soon
     return fallbackResult;
 }
 
@@ -127,4 +190,4 @@ export async function getQuickMood(): Promise<{ mood: MacroMood; signals: Market
 }
 
 // Re-export types for external use
-export type { MarketSignals, RiskProfile, MacroMood, Allocation };
+export type { MarketSignals, RiskProfile, RiskProfileConfig, MacroMood, Allocation };
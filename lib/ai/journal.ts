@@ -0,0 +1,206 @@
+/**
+ * Strategy Decision Journal
+ * Records every fresh strategy decision with its provenance: signals, risk profile,
+ * raw advisor output, validated allocation, and the rebalances that executed it.
+ * Non-logging policy: entries never hold wallets, amounts or tx hashes — executions
+ * are linked by decision ID and plan ID only, and raw advisor output is redacted.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { config } from "../config.js";
+import { logger, redact } from "../logger.js";
+import { MarketSignals } from "./signals.js";
+import { MacroMood } from "./macro.js";
+import { Allocation } from "./strategy.js";
+import { RiskProfileConfig } from "./risk.js";
+
+export interface DecisionExecution {
+    source: "rebalance" | "rebalance-execute";
+    planId?: string;
+    executedAt: number;
+    success: boolean;
+    transactions: number;
+}
+
+export interface StrategyDecision {
+    id: string;
+    createdAt: number;
+    profile: RiskProfileConfig;
+    signals: MarketSignals;
+    mood: MacroMood;
+    aiPowered: boolean;
+    provider?: string;
+    rawAdvice?: unknown;
+    rejection?: { provider: string; issues: string[] };
+    allocation: Allocation;
+    reasoning?: string;
+    confidence?: number;
+    executions: DecisionExecution[];
+}
+
+export interface DecisionQuery {
+    limit?: number;
+    before?: number;   // Only decisions created strictly before this timestamp (ms)
+}
+
+export interface DecisionJournal {
+    append(decision: StrategyDecision): Promise<void>;
+    addExecution(decisionId: string, execution: DecisionExecution): Promise<void>;
+    /** Newest first */
+    list(query: DecisionQuery): Promise<StrategyDecision[]>;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const clampLimit = (limit?: number) =>
+    Math.min(Math.max(1, Math.floor(limit || DEFAULT_LIMIT)), MAX_LIMIT);
+
+function select(decisions: StrategyDecision[], query: DecisionQuery): StrategyDecision[] {
+    return decisions
+        .filter(d => query.before === undefined || d.createdAt < query.before)
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, clampLimit(query.limit));
+}
+
+export class InMemoryDecisionJournal implements DecisionJournal {
+    private decisions: Map<string, StrategyDecision> = new Map();
+
+    async append(decision: StrategyDecision): Promise<void> {
+        this.decisions.set(decision.id, { ...decision, executions: [...decision.executions] });
+    }
+
+    async addExecution(decisionId: string, execution: DecisionExecution): Promise<void> {
+        this.decisions.get(decisionId)?.executions.push({ ...execution });
+    }
+
+    async list(query: DecisionQuery): Promise<StrategyDecision[]> {
+        return select([...this.decisions.values()], query);
+    }
+}
+
+type JournalLine =
+    | { type: "decision"; decision: StrategyDecision }
+    | { type: "execution"; decisionId: string; execution: DecisionExecution };
+
+/**
+ * Append-only JSON-lines journal: decisions and execution links are separate lines,
+ * merged on read, so writes never rewrite history.
+ */
+export class JsonLinesDecisionJournal implements DecisionJournal {
+    // Serialize appends so concurrent requests can't interleave partial lines
+    private writeChain: Promise<void> = Promise.resolve();
+
+    constructor(private readonly filePath: string) { }
+
+    private appendLine(line: JournalLine): Promise<void> {
+        const next = this.writeChain.then(async () => {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.appendFile(this.filePath, JSON.stringify(line) + "\n", "utf8");
+        });
+
+        this.writeChain = next.catch(() => {
+            logger.error("Failed to append decision journal", "DecisionJournal");
+        });
+        return this.writeChain;
+    }
+
+    async append(decision: StrategyDecision): Promise<void> {
+        await this.appendLine({ type: "decision", decision });
+    }
+
+    async addExecution(decisionId: string, execution: DecisionExecution): Promise<void> {
+        await this.appendLine({ type: "execution", decisionId, execution });
+    }
+
+    async list(query: DecisionQuery): Promise<StrategyDecision[]> {
+        await this.writeChain;
+
+        let raw = "";
+        try {
+            raw = await fs.readFile(this.filePath, "utf8");
+        } catch (error: any) {
+            if (error?.code !== "ENOENT") {
+                logger.warn("Decision journal unreadable", "DecisionJournal");
+            }
+            return [];
+        }
+
+        const decisions: Map<string, StrategyDecision> = new Map();
+        for (const text of raw.split("\n")) {
+            if (!text.trim()) continue;
+            let line: JournalLine;
+            try {
+                line = JSON.parse(text);
+            } catch {
+                continue; // Torn final line after a crash
+            }
+            if (line.type === "decision") {
+                decisions.set(line.decision.id, { ...line.decision, executions: line.decision.executions || [] });
+            } else if (line.type === "execution") {
+                decisions.get(line.decisionId)?.executions.push(line.execution);
+            }
+        }
+
+        return select([...decisions.values()], query);
+    }
+}
+
+let journal: DecisionJournal | null = null;
+
+/**
+ * Get the configured decision journal (lazy singleton)
+ */
+export function getDecisionJournal(): DecisionJournal {
+    if (!journal) {
+        journal = config.decisionJournal === "memory"
+            ? new InMemoryDecisionJournal()
+            : new JsonLinesDecisionJournal(config.decisionJournalPath);
+    }
+    return journal;
+}
+
+/**
+ * Override the decision journal (tests, custom backends)
+ */
+export function setDecisionJournal(next: DecisionJournal): void {
+    journal = next;
+}
+
+/**
+ * Record a decision; journal failures never block the strategy response
+ */
+export async function recordDecision(
+    decision: Omit<StrategyDecision, "id" | "createdAt" | "executions">
+): Promise<string> {
+    const id = randomUUID();
+    try {
+        await getDecisionJournal().append({
+            ...decision,
+            rawAdvice: decision.rawAdvice === undefined ? undefined : redact(decision.rawAdvice),
+            id,
+            createdAt: Date.now(),
+            executions: []
+        });
+    } catch {
+        logger.warn("Failed to record strategy decision", "DecisionJournal");
+    }
+    return id;
+}
+
+/**
+ * Link a rebalance execution to the decision that produced its allocation
+ */
+export async function linkDecisionExecution(
+    decisionId: string | undefined,
+    execution: Omit<DecisionExecution, "executedAt">
+): Promise<void> {
+    if (!decisionId) return;
+    try {
+        await getDecisionJournal().addExecution(decisionId, { ...execution, executedAt: Date.now() });
+    } catch {
+        logger.warn("Failed to link decision execution", "DecisionJournal");
+    }
+}
@@ -0,0 +1,101 @@
+/**
+ * OpenAI-Compatible Advisor
+ * AllocationAdvisor over the /chat/completions HTTP API. Works with OpenAI and with
+ * local servers that speak the same protocol (llama.cpp, Ollama, vLLM) via OPENAI_BASE_URL.
+ * Non-logging policy: no prompts, responses or keys in logs.
+ */
+
+import { MarketSignals } from "./signals.js";
+import { RiskProfileConfig, SleeveWeights } from "./risk.js";
+import { AllocationAdvice, AllocationAdvisor } from "./advisor.js";
+import { SYSTEM_PROMPT, buildAllocationPrompt, buildAnalysisPrompt, parseAllocationResponse } from "./prompt.js";
+import { logger } from "../logger.js";
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export interface OpenAICompatibleOptions {
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+}
+
+interface ChatMessage {
+    role: "system" | "user";
+    content: string;
+}
+
+export class OpenAICompatibleAdvisor implements AllocationAdvisor {
+    readonly name = "openai";
+
+    constructor(private readonly options: OpenAICompatibleOptions) { }
+
+    isAvailable(): boolean {
+        return !!this.options.baseUrl && !!this.options.model;
+    }
+
+    private async complete(messages: ChatMessage[], json: boolean): Promise<string> {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+        try {
+            const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {})
+                },
+                body: JSON.stringify({
+                    model: this.options.model,
+                    messages,
+                    temperature: 0.5,
+                    max_tokens: 2048,
+                    ...(json ? { response_format: { type: "json_object" } } : {})
+                }),
+                signal: controller.signal
+            });
+
+            if (!response.ok) {
+                // Shape the error like the Gemini SDK's so getAIStrategy's rate-limit handling applies
+                const error: any = new Error(`Chat completion failed: ${response.status} ${response.statusText}`);
+                error.status = response.status;
+                const retryAfter = Number(response.headers.get("retry-after"));
+                if (Number.isFinite(retryAfter) && retryAfter > 0) {
+                    error.retryAfterMs = retryAfter * 1000;
+                }
+                throw error;
+            }
+
+            const data: any = await response.json();
+            const content = data?.choices?.[0]?.message?.content;
+            if (typeof content !== "string") {
+                throw new Error("Chat completion returned no content");
+            }
+            return content;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    async getAllocation(signals: MarketSignals, profile: RiskProfileConfig, sleeves?: SleeveWeights): Promise<AllocationAdvice> {
+        logger.info("Starting AI strategy generation", "OpenAI");
+
+        const content = await this.complete([
+            { role: "system", content: SYSTEM_PROMPT },
+            { role: "user", content: buildAllocationPrompt(signals, profile) }
+        ], true);
+
+        return parseAllocationResponse(content, profile, this.name, sleeves);
+    }
+
+    async getMarketAnalysis(signals: MarketSignals): Promise<string> {
+        try {
+            const content = await this.complete([
+                { role: "user", content: buildAnalysisPrompt(signals) }
+            ], false);
+            return content.trim();
+        } catch {
+            logger.warn("Market analysis error", "OpenAI");
+            return "Market analysis temporarily unavailable.";
+        }
+    }
+}
@@ -0,0 +1,103 @@
+/**
+ * Wallet Risk Profiles
+ * Stores user-defined risk profiles per wallet. A wallet without a stored profile
+ * uses the preset named by the request's `risk` parameter.
+ * Non-logging policy: no wallets or profile contents in logs.
+ */
+
+import { config } from "../config.js";
+import { JsonFileDocument } from "../jsonFileStore.js";
+import { logger } from "../logger.js";
+import { RiskProfile, RiskProfileConfig, getPresetProfile } from "./risk.js";
+
+export interface RiskProfileStore {
+    get(walletAddress: string): Promise<RiskProfileConfig | null>;
+    set(walletAddress: string, profile: RiskProfileConfig): Promise<void>;
+    remove(walletAddress: string): Promise<void>;
+}
+
+export class InMemoryRiskProfileStore implements RiskProfileStore {
+    private profiles: Map<string, RiskProfileConfig> = new Map();
+
+    async get(walletAddress: string): Promise<RiskProfileConfig | null> {
+        return this.profiles.get(walletAddress) ?? null;
+    }
+
+    async set(walletAddress: string, profile: RiskProfileConfig): Promise<void> {
+        this.profiles.set(walletAddress, profile);
+    }
+
+    async remove(walletAddress: string): Promise<void> {
+        this.profiles.delete(walletAddress);
+    }
+}
+
+export class JsonFileRiskProfileStore implements RiskProfileStore {
+    private readonly file: JsonFileDocument<{ version: number; profiles: Record<string, RiskProfileConfig> }>;
+
+    constructor(filePath: string) {
+        this.file = new JsonFileDocument(filePath, {
+            empty: () => ({ version: 1, profiles: {} }),
+            parse: parsed => ({ version: 1, profiles: parsed.profiles || {} }),
+            name: "Risk profile store",
+            context: "RiskProfiles"
+        });
+    }
+
+    async get(walletAddress: string): Promise<RiskProfileConfig | null> {
+        const doc = await this.file.read();
+        return doc.profiles[walletAddress] ?? null;
+    }
+
+    async set(walletAddress: string, profile: RiskProfileConfig): Promise<void> {
+        await this.file.update(doc => {
+            doc.profiles[walletAddress] = profile;
+        });
+    }
+
+    async remove(walletAddress: string): Promise<void> {
+        if (!(walletAddress in (await this.file.read()).profiles)) return;
+        await this.file.update(doc => {
+            delete doc.profiles[walletAddress];
+        });
+    }
+}
+
+let store: RiskProfileStore | null = null;
+
+/**
+ * Get the configured risk profile store (lazy singleton)
+ */
+export function getRiskProfileStore(): RiskProfileStore {
+    if (!store) {
+        store = config.riskProfileStore === "memory"
+            ? new InMemoryRiskProfileStore()
+            : new JsonFileRiskProfileStore(config.riskProfileStorePath);
+    }
+    return store;
+}
+
+/**
+ * Override the risk profile store (tests, custom backends)
+ */
+export function setRiskProfileStore(next: RiskProfileStore): void {
+    store = next;
+}
+
+/**
+ * The wallet's stored profile, or the named preset when it has none
+ */
+export async function resolveRiskProfile(
+    walletAddress: string | undefined,
+    risk: RiskProfile
+): Promise<RiskProfileConfig> {
+    if (walletAddress) {
+        try {
+            const custom = await getRiskProfileStore().get(walletAddress);
+            if (custom) return custom;
+        } catch {
+            logger.warn("Risk profile lookup failed, using preset", "RiskProfiles");
+        }
+    }
+    return getPresetProfile(risk);
+}
@@ -0,0 +1,259 @@
+/**
+ * Allocation Prompting
+ * Prompt text and response parsing shared by every LLM-backed AllocationAdvisor,
+ * so switching providers doesn't change what the model is asked or how answers are enforced.
+ */
+
+import { MarketSignals } from "./signals.js";
+import { RiskProfileConfig, SleeveWeights, applyRiskProfile, getEffectiveBands } from "./risk.js";
+import { AllocationAdvice, AdvisorResponseError } from "./advisor.js";
+
+export const SYSTEM_PROMPT = `You are ShadowFund's AI Treasury Manager - an expert in DeFi portfolio management, risk assessment, and capital allocation.
+
+Your role is to analyze market conditions and recommend optimal allocation percentages across 4 vaults:
+- **Reserve**: High-liquidity stable buffer (USD1 stablecoins, lowest risk)
+- **Yield**: Optimized stablecoin farming (lending protocols, medium-low risk)
+- **Growth**: Balanced market exposure (blue-chip tokens, medium risk)
+- **Degen**: High-risk delta neutral strategies (meme coins, highest risk)
+
+Note: The RWA vault (tokenized precious metals) is manual-first and should be excluded from AI allocation.
+
+You must always return a JSON response with this exact structure:
+{
+  "allocation": {
+    "reserve": <number 0-100>,
+    "yield": <number 0-100>,
+    "growth": <number 0-100>,
+    "degen": <number 0-100>
+  },
+  "reasoning": "<string explaining your decision>",
+  "confidence": <number 0-100>,
+  "marketMood": "<risk-on | risk-off | neutral>",
+  "keyInsights": ["<insight 1>", "<insight 2>", "<insight 3>"]
+}
+
+The allocation percentages must sum to 100. Consider the user's risk profile when making recommendations.`;
+
+function describeMacd(signals: MarketSignals): string {
+    if (!signals.macd) return "unavailable";
+    const { line, signal, histogram } = signals.macd;
+    return `line ${line.toFixed(3)}, signal ${signal.toFixed(3)}, histogram ${histogram.toFixed(3)} (${histogram >= 0 ? "bullish" : "bearish"} momentum)`;
+}
+
+function describeMovingAverages(signals: MarketSignals): string {
+    if (!signals.movingAverages) return "unavailable";
+    const { fast, slow, crossover } = signals.movingAverages;
+    const cross = crossover === "none" ? "no recent crossover" : `${crossover} cross in the last 24h`;
+    return `fast ${fast.toFixed(2)} ${fast >= slow ? "above" : "below"} slow ${slow.toFixed(2)}, ${cross}`;
+}
+
+function describeSources(signals: MarketSignals): string {
+    return Object.entries(signals.sources)
+        .map(([source, quality]) => `- ${source}: ${quality.status}`)
+        .join("\n");
+}
+
+export function buildAllocationPrompt(signals: MarketSignals, profile: RiskProfileConfig): string {
+    const bands = getEffectiveBands(profile);
+
+    return `
+Analyze the following market conditions and recommend an optimal treasury allocation:
+
+## Current Market Data
+- **SOL Trend**: ${signals.solTrend}
+- **SOL RSI (14-period)**: ${signals.solRSI.toFixed(1)} ${signals.solRSI < 30 ? "(oversold)" : signals.solRSI > 70 ? "(overbought)" : "(neutral)"}
+- **Market Volatility**: ${signals.volatility} (hourly ATR ${signals.atrPct.toFixed(2)}% of price)
+- **MACD (12/26/9)**: ${describeMacd(signals)}
+- **Moving Averages (SMA 20/50)**: ${describeMovingAverages(signals)}
+- **Meme Coin Activity**: ${signals.memeHype}
+- **SOL Perp Funding (8h)**: ${signals.fundingRatePct === null ? "unavailable" : `${signals.fundingRatePct.toFixed(4)}% (${signals.leverage})`}
+- **Solana DeFi TVL (7d)**: ${signals.tvlChange7dPct === null ? "unavailable" : `${signals.tvlChange7dPct.toFixed(1)}% (${signals.tvlTrend})`}
+- **USD1 Peg**: ${signals.usd1Price === null ? "unavailable" : `$${signals.usd1Price.toFixed(4)} (${signals.usd1Peg})`}
+
+## Data Quality
+${describeSources(signals)}
+Give less weight to stale or missing sources.
+
+## User Risk Profile: ${profile.name.toUpperCase()}
+Allowed range (% per vault):
+- Reserve: ${bands.reserve.min}-${bands.reserve.max}%
+- Yield: ${bands.yield.min}-${bands.yield.max}%
+- Growth: ${bands.growth.min}-${bands.growth.max}%
+- Degen: ${bands.degen.min}-${bands.degen.max}%${profile.degenEnabled ? "" : " (degen disabled)"}
+Portfolio guards:
+- Max single-token exposure: ${profile.maxSingleTokenPct}% of the portfolio
+- Max drawdown tolerance: ${profile.maxDrawdownPct}%
+
+## Instructions
+1. Analyze the market conditions
+2. Consider the user's risk tolerance
+3. Recommend allocation percentages that sum to 100%
+4. Keep every vault inside its allowed range and respect the portfolio guards
+5. Provide clear reasoning for your decision
+
+Return your response as valid JSON only, no markdown formatting.`;
+}
+
+export function buildAnalysisPrompt(signals: MarketSignals): string {
+    return `
+As a crypto market analyst, provide a brief 2-3 sentence analysis of these conditions:
+- SOL Trend: ${signals.solTrend}
+- RSI: ${signals.solRSI.toFixed(1)}
+- Volatility: ${signals.volatility}
+- MACD: ${describeMacd(signals)}
+- Moving Averages: ${describeMovingAverages(signals)}
+- Meme Activity: ${signals.memeHype}
+- Leverage: ${signals.leverage}
+- DeFi TVL: ${signals.tvlTrend}
+- USD1 Peg: ${signals.usd1Peg}
+
+Be concise and actionable. No markdown, just plain text.`;
+}
+
+const MOODS = ["risk-on", "risk-off", "neutral"] as const;
+const AI_VAULTS = ["reserve", "yield", "growth", "degen"] as const;
+
+export type AdviceValidation =
+    | { ok: true; advice: AllocationAdvice }
+    | { ok: false; issues: string[] };
+
+/**
+ * First complete top-level JSON object in the text (fences and prose around it are ignored)
+ */
+export function extractJsonObject(text: string): string | null {
+    const cleaned = text.replace(/```json\s*/gi, "").replace(/```\s*/g, "");
+    const start = cleaned.indexOf("{");
+    if (start === -1) return null;
+
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    for (let i = start; i < cleaned.length; i++) {
+        const ch = cleaned[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === "\\") escaped = true;
+            else if (ch === "\"") inString = false;
+            continue;
+        }
+        if (ch === "\"") inString = true;
+        else if (ch === "{") depth++;
+        else if (ch === "}" && --depth === 0) return cleaned.slice(start, i + 1);
+    }
+    return null;
+}
+
+/**
+ * Check an advisor answer against the response schema. Every problem is reported,
+ * not just the first, so a rejection explains itself.
+ */
+export function validateAdvice(raw: unknown): AdviceValidation {
+    const issues: string[] = [];
+
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+        return { ok: false, issues: ["response is not a JSON object"] };
+    }
+    const body = raw as Record<string, any>;
+
+    const allocation = body.allocation;
+    if (!allocation || typeof allocation !== "object" || Array.isArray(allocation)) {
+        issues.push("allocation is required and must be an object");
+    } else {
+        for (const vault of AI_VAULTS) {
+            const value = allocation[vault];
+            if (value === undefined) {
+                issues.push(`allocation.${vault} is required`);
+            } else if (typeof value !== "number" || !Number.isFinite(value)) {
+                issues.push(`allocation.${vault} must be a number`);
+            } else if (value < 0 || value > 100) {
+                issues.push(`allocation.${vault} must be between 0 and 100`);
+            }
+        }
+        if (allocation.rwa !== undefined && allocation.rwa !== 0) {
+            issues.push("allocation.rwa must be 0 (RWA is manual-only)");
+        }
+        const sum = AI_VAULTS.reduce((acc, v) => acc + (typeof allocation[v] === "number" ? allocation[v] : 0), 0);
+        if (issues.length === 0 && sum <= 0) {
+            issues.push("allocation must not be all zero");
+        }
+    }
+
+    if (typeof body.reasoning !== "string" || body.reasoning.trim().length === 0) {
+        issues.push("reasoning must be a non-empty string");
+    }
+    if (typeof body.confidence !== "number" || !Number.isFinite(body.confidence) || body.confidence < 0 || body.confidence > 100) {
+        issues.push("confidence must be a number between 0 and 100");
+    }
+    if (!MOODS.includes(body.marketMood)) {
+        issues.push(`marketMood must be one of ${MOODS.join(", ")}`);
+    }
+    if (!Array.isArray(body.keyInsights) || body.keyInsights.some((k: unknown) => typeof k !== "string")) {
+        issues.push("keyInsights must be an array of strings");
+    }
+
+    if (issues.length > 0) {
+        return { ok: false, issues };
+    }
+
+    return {
+        ok: true,
+        advice: {
+            allocation: {
+                reserve: allocation.reserve,
+                yield: allocation.yield,
+                growth: allocation.growth,
+                degen: allocation.degen,
+                rwa: 0
+            },
+            reasoning: body.reasoning.trim(),
+            confidence: body.confidence,
+            marketMood: body.marketMood,
+            keyInsights: body.keyInsights
+        }
+    };
+}
+
+/**
+ * Parse raw model text into validated advice, then scale it to 100% and fit it into
+ * the risk profile (constrained redistribution keeps every band and still sums to 100).
+ * Throws AdvisorResponseError listing every issue when the answer is unusable.
+ */
+export function parseAllocationResponse(
+    text: string,
+    profile: RiskProfileConfig,
+    provider: string,
+    sleeves?: SleeveWeights
+): AllocationAdvice {
+    const json = extractJsonObject(text);
+    if (!json) {
+        throw new AdvisorResponseError(provider, ["response contains no JSON object"], text);
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch {
+        throw new AdvisorResponseError(provider, ["response JSON is malformed"], text);
+    }
+
+    const validation = validateAdvice(raw);
+    if ("issues" in validation) {
+        throw new AdvisorResponseError(provider, validation.issues, raw);
+    }
+
+    const { advice } = validation;
+    const { allocation } = advice;
+    const total = allocation.reserve + allocation.yield + allocation.growth + allocation.degen;
+
+    // Scale to 100% before fitting so relative preferences survive the band constraints
+    if (Math.abs(total - 100) > 1e-9) {
+        allocation.reserve = (allocation.reserve / total) * 100;
+        allocation.yield = (allocation.yield / total) * 100;
+        allocation.growth = (allocation.growth / total) * 100;
+        allocation.degen = (allocation.degen / total) * 100;
+    }
+
+    advice.allocation = applyRiskProfile(allocation, profile, sleeves);
+    advice.raw = raw;
+    return advice;
+}
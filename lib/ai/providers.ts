@@ -0,0 +1,46 @@
+/**
+ * Advisor Providers
+ * Selects the AllocationAdvisor named by AI_PROVIDER ("gemini" | "openai" | "fixture" | "none").
+ */
+
+import { config } from "../config.js";
+import { AllocationAdvisor } from "./advisor.js";
+import { geminiAdvisor } from "./gemini.js";
+import { OpenAICompatibleAdvisor } from "./openai.js";
+import { FixtureAdvisor } from "./fixture.js";
+
+let advisor: AllocationAdvisor | null | undefined;
+
+function createAdvisor(): AllocationAdvisor | null {
+    switch (config.aiProvider) {
+        case "gemini":
+            return geminiAdvisor;
+        case "openai":
+            return new OpenAICompatibleAdvisor({
+                baseUrl: config.openaiBaseUrl,
+                model: config.openaiModel,
+                apiKey: config.openaiApiKey
+            });
+        case "fixture":
+            return config.aiFixturePath ? FixtureAdvisor.fromFile(config.aiFixturePath) : new FixtureAdvisor();
+        default:
+            return null;
+    }
+}
+
+/**
+ * The configured advisor, or null when AI_PROVIDER is "none" (rules only)
+ */
+export function getAllocationAdvisor(): AllocationAdvisor | null {
+    if (advisor === undefined) {
+        advisor = createAdvisor();
+    }
+    return advisor;
+}
+
+/**
+ * Override the advisor (tests, custom providers); pass null for rules only
+ */
+export function setAllocationAdvisor(next: AllocationAdvisor | null): void {
+    advisor = next;
+}
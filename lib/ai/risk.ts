@@ -1,19 +1,290 @@
+/**
+ * Risk Profiles
+ * Per-vault allocation bands plus portfolio-level guards (single-token exposure,
+ * drawdown tolerance, degen switch). Built-in presets cover "low" | "medium" | "high";
+ * wallets can store their own profile (see profiles.ts).
+ */
+
+import { GROWTH_ALLOCATION, DEGEN_TOKENS } from "../protocols/types.js";
+
 export type RiskProfile = "low" | "medium" | "high";
 
-export interface RiskLimits {
-    reserve: number;
-    yield: number;
-    growth: number;
-    degen: number;
-    rwa: number;
+export type AllocatedVault = "reserve" | "yield" | "growth" | "degen" | "rwa";
+
+export interface VaultBand {
+    min: number;
+    max: number;
+}
+
+export interface RiskProfileConfig {
+    name: string;
+    bands: Record<AllocatedVault, VaultBand>;
+    maxSingleTokenPct: number;  // Max % of the portfolio in any one token across growth + degen
+    maxDrawdownPct: number;     // Max stress-scenario loss, % of portfolio
+    degenEnabled: boolean;
+}
+
+type VaultWeights = Record<AllocatedVault, number>;
+
+/** How the growth and degen sleeves split across tokens (% of the sleeve per symbol) */
+export interface SleeveWeights {
+    growth: Record<string, number>;
+    degen: Record<string, number>;
+}
+
+/** Static split, for callers without a wallet's targets or a degen scan */
+export const DEFAULT_SLEEVE_WEIGHTS: SleeveWeights = {
+    growth: { ...GROWTH_ALLOCATION },
+    degen: Object.fromEntries(DEGEN_TOKENS.map(symbol => [symbol, 100 / DEGEN_TOKENS.length]))
+};
+
+const VAULTS: AllocatedVault[] = ["reserve", "yield", "growth", "degen", "rwa"];
+
+/** Assumed loss per vault in a stress scenario, used for the drawdown guard */
+const STRESS_LOSS: VaultWeights = {
+    reserve: 0,
+    yield: 0.05,
+    growth: 0.5,
+    degen: 0.8,
+    rwa: 0.3
+};
+
+const band = (max: number, min: number = 0): VaultBand => ({ min, max });
+
+export const RISK_PRESETS: Record<RiskProfile, RiskProfileConfig> = {
+    low: {
+        name: "low",
+        bands: { reserve: band(70), yield: band(30), growth: band(20), degen: band(0), rwa: band(0) },
+        maxSingleTokenPct: 10,
+        maxDrawdownPct: 12,
+        degenEnabled: false
+    },
+    medium: {
+        name: "medium",
+        bands: { reserve: band(50), yield: band(40), growth: band(30), degen: band(10), rwa: band(0) },
+        maxSingleTokenPct: 20,
+        maxDrawdownPct: 25,
+        degenEnabled: true
+    },
+    high: {
+        name: "high",
+        bands: { reserve: band(30), yield: band(40), growth: band(40), degen: band(30), rwa: band(0) },
+        maxSingleTokenPct: 35,
+        maxDrawdownPct: 50,
+        degenEnabled: true
+    }
+};
+
+export function isRiskPreset(value: unknown): value is RiskProfile {
+    return value === "low" || value === "medium" || value === "high";
 }
 
-export function getRiskLimits(risk: RiskProfile): RiskLimits {
-    if (risk === "low") {
-        return { reserve: 70, yield: 30, growth: 20, degen: 0, rwa: 0 };
+/**
+ * Built-in profile for a preset name (unknown names fall back to "medium")
+ */
+export function getPresetProfile(risk: RiskProfile): RiskProfileConfig {
+    const preset = RISK_PRESETS[risk] || RISK_PRESETS.medium;
+    return {
+        ...preset,
+        bands: { ...preset.bands }
+    };
+}
+
+/**
+ * Bands after applying the degen switch
+ */
+export function getEffectiveBands(profile: RiskProfileConfig): Record<AllocatedVault, VaultBand> {
+    return {
+        ...profile.bands,
+        degen: profile.degenEnabled ? profile.bands.degen : { min: 0, max: 0 }
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Schema validation
+// ---------------------------------------------------------------------------
+
+export type RiskProfileValidation =
+    | { ok: true; profile: RiskProfileConfig }
+    | { ok: false; errors: string[] };
+
+const isPercent = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 100;
+
+/**
+ * Validate an untrusted risk profile (e.g. a request body)
+ */
+export function validateRiskProfile(input: unknown): RiskProfileValidation {
+    const errors: string[] = [];
+
+    if (!input || typeof input !== "object") {
+        return { ok: false, errors: ["profile must be an object"] };
+    }
+
+    const raw = input as Record<string, any>;
+    const name = raw.name === undefined ? "custom" : raw.name;
+
+    if (typeof name !== "string" || name.trim().length === 0 || name.length > 40) {
+        errors.push("name must be a non-empty string of at most 40 characters");
+    }
+
+    if (!raw.bands || typeof raw.bands !== "object") {
+        errors.push("bands must be an object keyed by vault");
+    } else {
+        for (const vault of VAULTS) {
+            const b = raw.bands[vault];
+            if (!b || typeof b !== "object") {
+                errors.push(`bands.${vault} is required`);
+                continue;
+            }
+            if (!isPercent(b.min)) errors.push(`bands.${vault}.min must be a number between 0 and 100`);
+            if (!isPercent(b.max)) errors.push(`bands.${vault}.max must be a number between 0 and 100`);
+            if (isPercent(b.min) && isPercent(b.max) && b.min > b.max) {
+                errors.push(`bands.${vault}.min must not exceed bands.${vault}.max`);
+            }
+        }
+        for (const key of Object.keys(raw.bands)) {
+            if (!VAULTS.includes(key as AllocatedVault)) errors.push(`bands.${key} is not a vault`);
+        }
+    }
+
+    if (!isPercent(raw.maxSingleTokenPct) || raw.maxSingleTokenPct === 0) {
+        errors.push("maxSingleTokenPct must be a number greater than 0 and at most 100");
+    }
+    if (!isPercent(raw.maxDrawdownPct)) {
+        errors.push("maxDrawdownPct must be a number between 0 and 100");
     }
-    if (risk === "medium") {
-        return { reserve: 50, yield: 40, growth: 30, degen: 10, rwa: 0 };
+    if (typeof raw.degenEnabled !== "boolean") {
+        errors.push("degenEnabled must be a boolean");
+    }
+
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+
+    const profile: RiskProfileConfig = {
+        name: name.trim(),
+        bands: VAULTS.reduce((acc, vault) => {
+            acc[vault] = { min: raw.bands[vault].min, max: raw.bands[vault].max };
+            return acc;
+        }, {} as Record<AllocatedVault, VaultBand>),
+        maxSingleTokenPct: raw.maxSingleTokenPct,
+        maxDrawdownPct: raw.maxDrawdownPct,
+        degenEnabled: raw.degenEnabled
+    };
+
+    // The bands have to admit at least one allocation that sums to 100%
+    const bands = getEffectiveBands(profile);
+    const minSum = VAULTS.reduce((sum, v) => sum + bands[v].min, 0);
+    const maxSum = VAULTS.reduce((sum, v) => sum + bands[v].max, 0);
+    if (minSum > 100) errors.push("band minimums sum to more than 100%");
+    if (maxSum < 100) errors.push("band maximums sum to less than 100%");
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, profile };
+}
+
+// ---------------------------------------------------------------------------
+// Enforcement
+// ---------------------------------------------------------------------------
+
+/**
+ * Largest single-token share of the portfolio implied by the growth and degen sleeves
+ */
+export function getMaxTokenExposure(allocation: VaultWeights, sleeves: SleeveWeights = DEFAULT_SLEEVE_WEIGHTS): number {
+    const exposure: Record<string, number> = {};
+
+    for (const [symbol, percent] of Object.entries(sleeves.growth)) {
+        exposure[symbol] = (exposure[symbol] || 0) + allocation.growth * (percent / 100);
+    }
+    for (const [symbol, percent] of Object.entries(sleeves.degen)) {
+        exposure[symbol] = (exposure[symbol] || 0) + allocation.degen * (percent / 100);
+    }
+
+    return Math.max(0, ...Object.values(exposure));
+}
+
+/**
+ * Loss (% of portfolio) in the stress scenario
+ */
+export function getStressDrawdown(allocation: VaultWeights): number {
+    return VAULTS.reduce((sum, v) => sum + allocation[v] * STRESS_LOSS[v], 0);
+}
+
+/**
+ * Fit a raw allocation into the profile: clamp to bands, rebalance to 100% using
+ * band headroom, then de-risk growth/degen into reserve/yield until the
+ * single-token and drawdown guards hold (as far as the bands allow).
+ */
+export function applyRiskProfile<T extends VaultWeights>(
+    raw: T,
+    profile: RiskProfileConfig,
+    sleeves: SleeveWeights = DEFAULT_SLEEVE_WEIGHTS
+): T {
+    const bands = getEffectiveBands(profile);
+    const alloc = { ...raw };
+
+    for (const v of VAULTS) {
+        alloc[v] = Math.min(Math.max(alloc[v] || 0, bands[v].min), bands[v].max);
+    }
+
+    // Distribute any deficit by headroom, any surplus by room above the minimum
+    const total = VAULTS.reduce((sum, v) => sum + alloc[v], 0);
+    if (total < 100) {
+        const headroom = VAULTS.reduce((sum, v) => sum + (bands[v].max - alloc[v]), 0);
+        const fill = headroom > 0 ? Math.min(1, (100 - total) / headroom) : 0;
+        for (const v of VAULTS) alloc[v] += (bands[v].max - alloc[v]) * fill;
+    } else if (total > 100) {
+        const slack = VAULTS.reduce((sum, v) => sum + (alloc[v] - bands[v].min), 0);
+        const trim = slack > 0 ? Math.min(1, (total - 100) / slack) : 0;
+        for (const v of VAULTS) alloc[v] -= (alloc[v] - bands[v].min) * trim;
+    }
+
+    // Portfolio guards: scale the risky sleeves down by the tighter of the two limits
+    const exposure = getMaxTokenExposure(alloc, sleeves);
+    const exposureScale = exposure > profile.maxSingleTokenPct ? profile.maxSingleTokenPct / exposure : 1;
+
+    const riskyLoss = alloc.growth * STRESS_LOSS.growth + alloc.degen * STRESS_LOSS.degen;
+    const otherLoss = getStressDrawdown(alloc) - riskyLoss;
+    const drawdownScale = riskyLoss > 0 && otherLoss + riskyLoss > profile.maxDrawdownPct
+        ? Math.max(0, profile.maxDrawdownPct - otherLoss) / riskyLoss
+        : 1;
+
+    const scale = Math.min(exposureScale, drawdownScale);
+    if (scale < 1) {
+        const growth = Math.max(bands.growth.min, alloc.growth * scale);
+        const degen = Math.max(bands.degen.min, alloc.degen * scale);
+        const freed = (alloc.growth - growth) + (alloc.degen - degen);
+        const capacity = (bands.reserve.max - alloc.reserve) + (bands.yield.max - alloc.yield);
+
+        // Only release what reserve + yield can absorb without breaking their bands
+        const release = freed > 0 ? Math.min(1, capacity / freed) : 0;
+        const moved = freed * release;
+        alloc.growth -= (alloc.growth - growth) * release;
+        alloc.degen -= (alloc.degen - degen) * release;
+
+        const toReserve = Math.min(moved, bands.reserve.max - alloc.reserve);
+        alloc.reserve += toReserve;
+        alloc.yield += moved - toReserve;
+    }
+
+    settleResidual(alloc, bands);
+    return alloc;
+}
+
+/**
+ * Absorb floating-point residue so the allocation sums to exactly 100,
+ * preferring reserve and never leaving a band
+ */
+function settleResidual(alloc: VaultWeights, bands: Record<AllocatedVault, VaultBand>): void {
+    let residual = 100 - VAULTS.reduce((sum, v) => sum + alloc[v], 0);
+    if (residual === 0) return;
+
+    for (const v of VAULTS) {
+        const room = residual > 0 ? bands[v].max - alloc[v] : alloc[v] - bands[v].min;
+        if (room <= 0) continue;
+        const step = residual > 0 ? Math.min(residual, room) : -Math.min(-residual, room);
+        alloc[v] += step;
+        residual -= step;
+        if (residual === 0) return;
     }
-    return { reserve: 30, yield: 40, growth: 40, degen: 30, rwa: 0 };
 }
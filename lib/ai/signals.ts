@@ -1,9 +1,8 @@
-import { logger } from "../logger.js";
 
-const COINGECKO = "https://api.coingecko.com/api/v3";
-const DEXSCREENER = "https://api.dexscreener.com/latest/dex";
+import { logger } from "../logger.js";
+import { getMarketDataProvider, MarketDataProvider } from "../marketData/index.js";
 
-function rsi(prices: number[], period = 14): number {
+export function rsi(prices: number[], period = 14): number {
     let gains = 0, losses = 0;
     for (let i = 1; i <= period; i++) {
         const diff = prices[i] - prices[i - 1];
@@ -14,75 +13,293 @@ function rsi(prices: number[], period = 14): number {
     return 100 - 100 / (1 + rs);
 }
 
-function volatility(prices: number[]): number {
+export function volatility(prices: number[]): number {
     const returns = prices.slice(1).map((p, i) => (p - prices[i]) / prices[i]);
     const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
     const variance = returns.reduce((a, b) => a + (b - mean) ** 2, 0) / returns.length;
     return Math.sqrt(variance);
 }
 
+/** Exponential moving average series (seeded with the first value) */
+export function ema(values: number[], period: number): number[] {
+    const k = 2 / (period + 1);
+    const out: number[] = [];
+    values.forEach((v, i) => out.push(i === 0 ? v : v * k + out[i - 1] * (1 - k)));
+    return out;
+}
+
+export function sma(values: number[], period: number): number {
+    const window = values.slice(-period);
+    return window.reduce((a, b) => a + b, 0) / window.length;
+}
+
+/**
+ * MACD(12, 26, 9) at the last close; null without enough history
+ */
+export function macd(
+    prices: number[],
+    fast = 12,
+    slow = 26,
+    signal = 9
+): { line: number; signal: number; histogram: number } | null {
+    if (prices.length < slow + signal) return null;
+    const fastEma = ema(prices, fast);
+    const slowEma = ema(prices, slow);
+    const lineSeries = prices.map((_, i) => fastEma[i] - slowEma[i]).slice(slow - 1);
+    const signalSeries = ema(lineSeries, signal);
+    const line = lineSeries[lineSeries.length - 1];
+    const signalValue = signalSeries[signalSeries.length - 1];
+    return { line, signal: signalValue, histogram: line - signalValue };
+}
+
+/**
+ * Average true range over closes only (true range = |close - previous close|),
+ * since the hourly feeds carry no highs/lows
+ */
+export function atr(prices: number[], period = 14): number {
+    const window = prices.slice(-(period + 1));
+    const ranges = window.slice(1).map((p, i) => Math.abs(p - window[i]));
+    return ranges.reduce((a, b) => a + b, 0) / Math.max(1, ranges.length);
+}
+
+export type SignalLevel = "high" | "medium" | "low";
+
+export type SignalSource = "solPrice" | "memeVolume" | "funding" | "tvl" | "usd1Peg";
+
+export interface SourceQuality {
+    status: "fresh" | "stale" | "missing";
+    asOf?: number;      // Timestamp of the newest data point (ms), when the source reports one
+}
+
+export interface MovingAverageCross {
+    fast: number;       // SMA(20)
+    slow: number;       // SMA(50)
+    crossover: "golden" | "death" | "none";   // Fast crossed the slow SMA within the last 24h
+}
+
 export interface MarketSignals {
-    solTrend: "bullish" | "bearish";
+    solTrend: "bullish" | "bearish" | "neutral";
     solRSI: number;
-    memeHype: "high" | "medium" | "low";
-    volatility: "high" | "medium" | "low";
-}
-
-export async function getMarketSignals(): Promise<MarketSignals> {
-    try {
-        // SOL market data
-        const solRes = await fetch(
-            `${COINGECKO}/coins/solana/market_chart?vs_currency=usd&days=7&interval=hourly`
-        );
-        const sol = await solRes.json();
-
-        const prices: number[] = sol.prices?.map((p: number[]) => p[1]) || [];
-
-        if (prices.length < 15) {
-            // Return default values if not enough data
-            return {
-                solTrend: "neutral" as any,
-                solRSI: 50,
-                memeHype: "medium",
-                volatility: "medium"
-            };
+    memeHype: SignalLevel;
+    volatility: SignalLevel;                    // ATR-based, against daily bands
+    atrPct: number;                             // Hourly ATR(14) as % of the last close
+    macd: { line: number; signal: number; histogram: number } | null;
+    movingAverages: MovingAverageCross | null;
+    fundingRatePct: number | null;              // SOL perp funding per 8h (leverage proxy)
+    leverage: "long-crowded" | "short-crowded" | "balanced" | "unknown";
+    tvlChange7dPct: number | null;              // Solana DeFi TVL (liquidity proxy)
+    tvlTrend: "inflow" | "outflow" | "flat" | "unknown";
+    usd1Price: number | null;
+    usd1Peg: "pegged" | "drifting" | "depegged" | "unknown";
+    sources: Record<SignalSource, SourceQuality>;
+}
+
+/** Minimum hourly closes needed for RSI(14) plus a 24h trend/volatility window */
+export const MIN_SIGNAL_HISTORY = 24;
+
+/** 24h moves smaller than this (%) read as a neutral trend */
+const TREND_DEADBAND_PCT = 0.5;
+const MA_FAST = 20;
+const MA_SLOW = 50;
+const CROSSOVER_LOOKBACK = 24;
+
+/** Volatility bands for a daily ATR (% of price) */
+const DAILY_ATR_HIGH_PCT = 5;
+const DAILY_ATR_MEDIUM_PCT = 2.5;
+const HOURS_PER_DAY = 24;
+
+/** Max data age before a source counts as stale */
+const MAX_AGE_MS: Record<SignalSource, number> = {
+    solPrice: 2 * 60 * 60 * 1000,
+    memeVolume: 60 * 60 * 1000,
+    funding: 60 * 60 * 1000,
+    tvl: 48 * 60 * 60 * 1000,
+    usd1Peg: 60 * 60 * 1000
+};
+
+const MISSING: SourceQuality = { status: "missing" };
+
+export function classifyMemeHype(totalMemeVol: number): SignalLevel {
+    return totalMemeVol > 50_000_000 ? "high" :
+        totalMemeVol > 10_000_000 ? "medium" : "low";
+}
+
+export function classifyFunding(fundingRatePct: number | null): MarketSignals["leverage"] {
+    if (fundingRatePct === null) return "unknown";
+    return fundingRatePct > 0.05 ? "long-crowded" :
+        fundingRatePct < -0.03 ? "short-crowded" : "balanced";
+}
+
+export function classifyTvlTrend(change7dPct: number | null): MarketSignals["tvlTrend"] {
+    if (change7dPct === null) return "unknown";
+    return change7dPct > 3 ? "inflow" : change7dPct < -3 ? "outflow" : "flat";
+}
+
+/**
+ * Volatility level from an hourly ATR (% of price). Ranges grow with the square root of
+ * time, so the hourly ATR is scaled by √24 before it is compared with the daily bands.
+ */
+export function classifyVolatility(hourlyAtrPct: number): SignalLevel {
+    const dailyAtrPct = hourlyAtrPct * Math.sqrt(HOURS_PER_DAY);
+    return dailyAtrPct > DAILY_ATR_HIGH_PCT ? "high" :
+        dailyAtrPct > DAILY_ATR_MEDIUM_PCT ? "medium" : "low";
+}
+
+/** USD1 should trade at $1: >0.5% off is drifting, >2% off is a depeg */
+export function classifyPeg(price: number | null): MarketSignals["usd1Peg"] {
+    if (price === null || !(price > 0)) return "unknown";
+    const deviation = Math.abs(price - 1) * 100;
+    return deviation > 2 ? "depegged" : deviation > 0.5 ? "drifting" : "pegged";
+}
+
+export function sourceQuality(source: SignalSource, asOf: number | undefined, now: number = Date.now()): SourceQuality {
+    if (asOf === undefined) return { status: "fresh" };
+    return { status: now - asOf > MAX_AGE_MS[source] ? "stale" : "fresh", asOf };
+}
+
+function movingAverageCross(prices: number[]): MovingAverageCross | null {
+    if (prices.length < MA_SLOW + 1) return null;
+
+    const fast = sma(prices, MA_FAST);
+    const slow = sma(prices, MA_SLOW);
+
+    // Compare against the relationship one lookback window ago (bounded by history)
+    const back = Math.min(CROSSOVER_LOOKBACK, prices.length - MA_SLOW);
+    const earlier = prices.slice(0, prices.length - back);
+    const wasAbove = sma(earlier, MA_FAST) > sma(earlier, MA_SLOW);
+    const isAbove = fast > slow;
+
+    return {
+        fast,
+        slow,
+        crossover: isAbove && !wasAbove ? "golden" : !isAbove && wasAbove ? "death" : "none"
+    };
+}
+
+/**
+ * Signals when no market data is available at all
+ */
+export function defaultSignals(): MarketSignals {
+    return {
+        solTrend: "neutral",
+        solRSI: 50,
+        memeHype: "medium",
+        volatility: "medium",
+        atrPct: 0,
+        macd: null,
+        movingAverages: null,
+        fundingRatePct: null,
+        leverage: "unknown",
+        tvlChange7dPct: null,
+        tvlTrend: "unknown",
+        usd1Price: null,
+        usd1Peg: "unknown",
+        sources: {
+            solPrice: MISSING,
+            memeVolume: MISSING,
+            funding: MISSING,
+            tvl: MISSING,
+            usd1Peg: MISSING
+        }
+    };
+}
+
+/**
+ * Price-derived signals from hourly SOL closes (oldest first).
+ * Pure, so live trading and the backtester compute identical signals; the
+ * non-price sources stay "missing" until getMarketSignals fills them in.
+ */
+export function signalsFromPrices(
+    prices: number[],
+    memeHype: SignalLevel
+): MarketSignals {
+    const last = prices[prices.length - 1];
+    const solRSI = rsi(prices.slice(-15));
+    const atrPct = (atr(prices) / last) * 100;
+
+    const change24hPct = ((last - prices[prices.length - 24]) / prices[prices.length - 24]) * 100;
+    const solTrend =
+        Math.abs(change24hPct) < TREND_DEADBAND_PCT ? "neutral" :
+            change24hPct > 0 ? "bullish" : "bearish";
+
+    return {
+        ...defaultSignals(),
+        solTrend,
+        solRSI,
+        memeHype,
+        volatility: classifyVolatility(atrPct),
+        atrPct,
+        macd: macd(prices),
+        movingAverages: movingAverageCross(prices),
+        sources: {
+            ...defaultSignals().sources,
+            solPrice: { status: "fresh" },
+            memeVolume: { status: "fresh" }
         }
+    };
+}
+
+async function fetchMemeVolume(provider: MarketDataProvider): Promise<number> {
+    const pairs = await provider.getSolanaPairs();
+    return pairs.slice(0, 50).reduce((a, p) => a + Number(p.volume?.h24 || 0), 0);
+}
+
+async function fetchTvlChange(provider: MarketDataProvider): Promise<{ change7dPct: number; asOf?: number }> {
+    const history = await provider.getTvlHistory();
+    if (history.length < 8) throw new Error("Not enough TVL history");
+    const latest = history[history.length - 1];
+    const weekAgo = history[history.length - 8];
+    return {
+        change7dPct: ((latest.tvl - weekAgo.tvl) / weekAgo.tvl) * 100,
+        asOf: latest.date * 1000
+    };
+}
+
+/**
+ * Signals from the configured MarketDataProvider. Every source is fetched independently;
+ * a failed source is flagged "missing" in `sources` and its signals fall back to "unknown"/neutral.
+ */
+export async function getMarketSignals(provider: MarketDataProvider = getMarketDataProvider()): Promise<MarketSignals> {
+    const [solResult, memeResult, fundingResult, tvlResult, pegResult] = await Promise.allSettled([
+        provider.getSolPriceHistory(),
+        fetchMemeVolume(provider),
+        provider.getFundingRate(),
+        fetchTvlChange(provider),
+        provider.getUSD1Price()
+    ]);
 
-        const solRSI = rsi(prices.slice(-15));
-        const vol = volatility(prices.slice(-24));
-
-        const solTrend =
-            prices[prices.length - 1] > prices[prices.length - 24]
-                ? "bullish"
-                : "bearish";
-
-        // Meme coin activity (volume proxy)
-        const dexRes = await fetch(`${DEXSCREENER}/pairs/solana`);
-        const dex = await dexRes.json();
-        const totalMemeVol =
-            dex.pairs?.slice(0, 50).reduce((a: number, p: any) => a + Number(p.volume?.h24 || 0), 0) || 0;
-
-        const memeHype: "high" | "medium" | "low" =
-            totalMemeVol > 50_000_000 ? "high" :
-                totalMemeVol > 10_000_000 ? "medium" : "low";
-
-        const volatilityLevel: "high" | "medium" | "low" =
-            vol > 0.06 ? "high" : vol > 0.03 ? "medium" : "low";
-
-        return {
-            solTrend,
-            solRSI,
-            memeHype,
-            volatility: volatilityLevel
-        };
-    } catch (error) {
-        logger.error("Error fetching market signals", "Signals");
-        // Return safe defaults on error
-        return {
-            solTrend: "bearish",
-            solRSI: 50,
-            memeHype: "low",
-            volatility: "medium"
-        };
+    const failed = [solResult, memeResult, fundingResult, tvlResult, pegResult]
+        .filter(r => r.status === "rejected").length;
+    if (failed > 0) {
+        logger.warn("Some market data sources unavailable", "Signals", { failed });
     }
+
+    const sol = solResult.status === "fulfilled" && solResult.value.value.length >= MIN_SIGNAL_HISTORY
+        ? solResult.value
+        : null;
+    const memeHype = memeResult.status === "fulfilled" ? classifyMemeHype(memeResult.value) : "medium";
+
+    const signals = sol ? signalsFromPrices(sol.value, memeHype) : { ...defaultSignals(), memeHype };
+    const now = provider.now();
+
+    const fundingRatePct = fundingResult.status === "fulfilled" ? fundingResult.value.value : null;
+    const tvlChange7dPct = tvlResult.status === "fulfilled" ? tvlResult.value.change7dPct : null;
+    const usd1Price = pegResult.status === "fulfilled" ? pegResult.value.value : null;
+
+    return {
+        ...signals,
+        fundingRatePct,
+        leverage: classifyFunding(fundingRatePct),
+        tvlChange7dPct,
+        tvlTrend: classifyTvlTrend(tvlChange7dPct),
+        usd1Price,
+        usd1Peg: classifyPeg(usd1Price),
+        sources: {
+            solPrice: sol ? sourceQuality("solPrice", sol.asOf, now) : MISSING,
+            memeVolume: memeResult.status === "fulfilled" ? sourceQuality("memeVolume", undefined, now) : MISSING,
+            funding: fundingResult.status === "fulfilled" ? sourceQuality("funding", fundingResult.value.asOf, now) : MISSING,
+            tvl: tvlResult.status === "fulfilled" ? sourceQuality("tvl", tvlResult.value.asOf, now) : MISSING,
+            usd1Peg: pegResult.status === "fulfilled" ? sourceQuality("usd1Peg", pegResult.value.asOf, now) : MISSING
+        }
+    };
 }
@@ -1,6 +1,7 @@
 import { MarketSignals } from "./signals.js";
+import { RiskProfileConfig, SleeveWeights, applyRiskProfile } from "./risk.js";
 
-export interface RiskLimits {
+export interface Allocation {
     reserve: number;
     yield: number;
     growth: number;
@@ -8,20 +9,27 @@ export interface RiskLimits {
     rwa: number;
 }
 
-export interface Allocation {
-    reserve: number;
-    yield: number;
-    growth: number;
-    degen: number;
-    rwa: number;
+/** Neutral-market starting point the rules engine adjusts from */
+export const BASE_ALLOCATION: Allocation = { reserve: 40, yield: 30, growth: 20, degen: 10, rwa: 0 };
+
+/**
+ * Allocation for neutral conditions under a profile (used for demo simulation)
+ */
+export function getBaselineAllocation(profile: RiskProfileConfig): Allocation {
+    return applyRiskProfile({ ...BASE_ALLOCATION }, profile);
 }
 
-export function buildStrategy(signals: MarketSignals, limits: RiskLimits, mood: string): Allocation {
-    let reserve = 40;
-    let yieldV = 30;
-    let growth = 20;
-    let degen = 10;
-    let rwa = 0;
+export function buildStrategy(
+    signals: MarketSignals,
+    profile: RiskProfileConfig,
+    mood: string,
+    sleeves?: SleeveWeights
+): Allocation {
+    let reserve = BASE_ALLOCATION.reserve;
+    let yieldV = BASE_ALLOCATION.yield;
+    let growth = BASE_ALLOCATION.growth;
+    let degen = BASE_ALLOCATION.degen;
+    const rwa = BASE_ALLOCATION.rwa;
 
     // Macro regime
     if (mood === "risk-on") {
@@ -48,20 +56,41 @@ export function buildStrategy(signals: MarketSignals, limits: RiskLimits, mood:
         reserve -= 5;
     }
 
-    // Enforce risk hard caps
-    reserve = Math.min(Math.max(reserve, 0), limits.reserve);
-    yieldV = Math.min(Math.max(yieldV, 0), limits.yield);
-    growth = Math.min(Math.max(growth, 0), limits.growth);
-    degen = Math.min(Math.max(degen, 0), limits.degen);
-    rwa = Math.min(Math.max(rwa, 0), limits.rwa);
+    // Momentum confirmation: MACD and the MA crossover agree
+    const histogram = signals.macd?.histogram ?? 0;
+    const crossover = signals.movingAverages?.crossover ?? "none";
+    if (histogram > 0 && crossover === "golden") {
+        growth += 5;
+        reserve -= 5;
+    } else if (histogram < 0 && crossover === "death") {
+        growth -= 5;
+        reserve += 5;
+    }
+
+    // Crowded longs → liquidation cascades hit memecoins first
+    if (signals.leverage === "long-crowded") {
+        degen -= 5;
+        reserve += 5;
+    }
 
-    const total = reserve + yieldV + growth + degen + rwa;
+    // DeFi liquidity leaving Solana → less lending, more buffer
+    if (signals.tvlTrend === "outflow") {
+        yieldV -= 5;
+        reserve += 5;
+    }
+
+    // USD1 depeg → keep funds liquid in reserve so they can exit
+    if (signals.usd1Peg === "depegged") {
+        reserve += yieldV / 2;
+        yieldV /= 2;
+    }
 
-    return {
-        reserve: (reserve / total) * 100,
-        yield: (yieldV / total) * 100,
-        growth: (growth / total) * 100,
-        degen: (degen / total) * 100,
-        rwa: (rwa / total) * 100
-    };
+    // Enforce the risk profile (bands, degen switch, exposure and drawdown guards)
+    return applyRiskProfile({
+        reserve: Math.max(reserve, 0),
+        yield: Math.max(yieldV, 0),
+        growth: Math.max(growth, 0),
+        degen: Math.max(degen, 0),
+        rwa: Math.max(rwa, 0)
+    }, profile, sleeves);
 }
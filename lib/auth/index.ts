@@ -0,0 +1,109 @@
+/**
+ * Signed-Request Authentication
+ * Every state-changing route requires `auth` in its body: a wallet signature over the
+ * route's action, the wallet, the body hash, a single-use nonce and an expiry (see
+ * utils/signedRequest.ts). Failures are always 401 with one of AUTH_ERRORS.
+ * Non-logging policy: no wallets, nonces or signatures in logs.
+ */
+
+import type { NextApiRequest, NextApiResponse } from "../../types/api.js";
+import { timingSafeEqual } from "crypto";
+import { config } from "../config.js";
+import { logger } from "../logger.js";
+import { verifySignature } from "../../utils/verifySignature.js";
+import { buildAuthMessage, hashRequestBody, RequestAuth } from "../../utils/signedRequest.js";
+import { getNonceStore } from "./nonceStore.js";
+
+export { InMemoryNonceStore, FileNonceStore, getNonceStore, setNonceStore } from "./nonceStore.js";
+export type { NonceStore } from "./nonceStore.js";
+
+export const AUTH_ERRORS = {
+    required: "Signature required",
+    expired: "Signature expired",
+    invalid: "Invalid signature",
+    replayed: "Nonce already used"
+} as const;
+
+export type AuthError = typeof AUTH_ERRORS[keyof typeof AUTH_ERRORS];
+
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+function isRequestAuth(value: any): value is RequestAuth {
+    return !!value
+        && typeof value.action === "string"
+        && typeof value.nonce === "string"
+        && typeof value.expiresAt === "number"
+        && typeof value.signature === "string";
+}
+
+/**
+ * Check a request body's `auth` against the route's action. The nonce is only
+ * consumed once the signature has verified, so forged requests cannot burn it.
+ */
+export async function authenticateRequest(
+    body: Record<string, any> | undefined,
+    action: string
+): Promise<{ wallet: string } | { error: AuthError }> {
+    const wallet = body?.wallet;
+    const auth = body?.auth;
+
+    if (typeof wallet !== "string" || !wallet || !isRequestAuth(auth)) {
+        return { error: AUTH_ERRORS.required };
+    }
+
+    const now = Date.now();
+    if (auth.expiresAt <= now) {
+        return { error: AUTH_ERRORS.expired };
+    }
+    if (auth.expiresAt - now > config.authMaxTtlMs || auth.action !== action || !NONCE_PATTERN.test(auth.nonce)) {
+        return { error: AUTH_ERRORS.invalid };
+    }
+
+    const message = buildAuthMessage({
+        action,
+        wallet,
+        bodyHash: await hashRequestBody(body),
+        nonce: auth.nonce,
+        expiresAt: auth.expiresAt
+    });
+    if (!verifySignature(message, auth.signature, wallet)) {
+        return { error: AUTH_ERRORS.invalid };
+    }
+
+    if (!(await getNonceStore().claim(`${wallet}:${auth.nonce}`, auth.expiresAt))) {
+        return { error: AUTH_ERRORS.replayed };
+    }
+
+    return { wallet };
+}
+
+/**
+ * Route guard: the authenticated wallet, or null once a 401 has been sent
+ */
+export async function requireSignedRequest(
+    req: NextApiRequest,
+    res: NextApiResponse,
+    action: string
+): Promise<string | null> {
+    const result = await authenticateRequest(req.body, action);
+    if ("error" in result) {
+        logger.warn("Request authentication failed", "Auth", { action, reason: result.error });
+        res.status(401).json({ error: result.error });
+        return null;
+    }
+    return result.wallet;
+}
+
+/**
+ * Whether a scheduler call carries `Authorization: Bearer <CRON_SECRET>`; always false
+ * while CRON_SECRET is unset
+ */
+export function isCronRequest(req: NextApiRequest): boolean {
+    if (!config.cronSecret) return false;
+
+    const header = req.headers?.["authorization"];
+    const value = Array.isArray(header) ? header[0] : header;
+    const expected = Buffer.from(`Bearer ${config.cronSecret}`);
+    const given = Buffer.from(value || "");
+    return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,111 @@
+/**
+ * Request Nonce Store
+ * Remembers every signed-request nonce until its signature expires, so a captured
+ * request cannot be replayed. File backend survives cold starts, and is shared by
+ * every instance, when its directory is on shared storage.
+ * Non-logging policy: no wallets or nonces in logs.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { config } from "../config.js";
+import { logger } from "../logger.js";
+
+const PRUNE_INTERVAL_MS = 60_000;
+
+export interface NonceStore {
+    /** Record a nonce until `expiresAt`; false when it was already used */
+    claim(key: string, expiresAt: number): Promise<boolean>;
+}
+
+export class InMemoryNonceStore implements NonceStore {
+    private nonces: Map<string, number> = new Map();
+
+    async claim(key: string, expiresAt: number): Promise<boolean> {
+        const now = Date.now();
+        for (const [k, until] of this.nonces) {
+            if (until < now) this.nonces.delete(k);
+        }
+
+        if (this.nonces.has(key)) return false;
+        this.nonces.set(key, expiresAt);
+        return true;
+    }
+}
+
+/**
+ * One file per nonce in a directory, created with O_EXCL: the filesystem decides which
+ * claim wins, so instances sharing the directory see each other's claims. Any error
+ * other than the nonce already existing fails the claim.
+ */
+export class FileNonceStore implements NonceStore {
+    private lastPrune = 0;
+
+    constructor(private readonly dirPath: string) { }
+
+    private nonceFile(key: string): string {
+        return path.join(this.dirPath, `${createHash("sha256").update(key).digest("hex")}.json`);
+    }
+
+    /** Remove expired nonces, at most once per PRUNE_INTERVAL_MS per instance */
+    private async prune(now: number): Promise<void> {
+        if (now - this.lastPrune < PRUNE_INTERVAL_MS) return;
+        this.lastPrune = now;
+
+        try {
+            for (const name of await fs.readdir(this.dirPath)) {
+                const file = path.join(this.dirPath, name);
+                try {
+                    if (Number(await fs.readFile(file, "utf8")) < now) await fs.unlink(file);
+                } catch {
+                    // Claimed or pruned concurrently
+                }
+            }
+        } catch {
+            logger.warn("Nonce store prune failed", "Auth");
+        }
+    }
+
+    async claim(key: string, expiresAt: number): Promise<boolean> {
+        await fs.mkdir(this.dirPath, { recursive: true });
+        await this.prune(Date.now());
+
+        let handle: fs.FileHandle;
+        try {
+            handle = await fs.open(this.nonceFile(key), "wx");
+        } catch (error: any) {
+            if (error?.code === "EEXIST") return false;
+            logger.error("Failed to record nonce", "Auth");
+            throw error;
+        }
+
+        try {
+            await handle.writeFile(String(expiresAt), "utf8");
+        } finally {
+            await handle.close();
+        }
+        return true;
+    }
+}
+
+let store: NonceStore | null = null;
+
+/**
+ * Get the configured nonce store (lazy singleton)
+ */
+export function getNonceStore(): NonceStore {
+    if (!store) {
+        store = config.authNonceStore === "memory"
+            ? new InMemoryNonceStore()
+            : new FileNonceStore(config.authNonceStorePath);
+    }
+    return store;
+}
+
+/**
+ * Override the nonce store (tests, custom backends)
+ */
+export function setNonceStore(next: NonceStore): void {
+    store = next;
+}
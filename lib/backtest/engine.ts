@@ -0,0 +1,224 @@
+/**
+ * Backtest Engine
+ * Replays a price history through the rule-based allocator (signals → macro mood →
+ * buildStrategy) and simulates vault returns: lending APY on the yield vault, token
+ * price moves on growth/degen/rwa, ShadowWire USD1 fees and Jupiter swap costs.
+ * Synchronous and side-effect free: no RPC, no AI calls, no logging.
+ */
+
+import { signalsFromPrices, classifyMemeHype, MIN_SIGNAL_HISTORY } from "../ai/signals.js";
+import { getMacroMood } from "../ai/macro.js";
+import { buildStrategy, Allocation } from "../ai/strategy.js";
+import { getPresetProfile } from "../ai/risk.js";
+import { getUSD1Fees } from "../usd1.js";
+import { GROWTH_ALLOCATION, DEGEN_TOKENS, RWA_TOKENS } from "../protocols/types.js";
+import { BacktestOptions, BacktestReport, BacktestStep, PricePoint } from "./types.js";
+import { YEAR_MS, inferPeriodsPerYear, maxDrawdownPct, sharpeRatio, cagrPct } from "./metrics.js";
+
+type TokenSleeve = "growth" | "degen" | "rwa";
+
+const SLEEVE_WEIGHTS: Record<TokenSleeve, Record<string, number>> = {
+    growth: { ...GROWTH_ALLOCATION },
+    degen: Object.fromEntries(DEGEN_TOKENS.map(s => [s, 100 / DEGEN_TOKENS.length])),
+    rwa: Object.fromEntries(RWA_TOKENS.map(t => [t.symbol, 100 / RWA_TOKENS.length]))
+};
+
+const SLEEVES: TokenSleeve[] = ["growth", "degen", "rwa"];
+
+// Same ShadowWire minimum the live rebalancer applies in real mode
+const DEFAULT_MIN_TRADE_USD1 = 5;
+
+const DEFAULTS = {
+    initialCapital: 10_000,
+    rebalanceEvery: 24,
+    yieldApyPct: 8.5,
+    swapFeeBps: 30,
+    defaultMemeHype: "medium" as const
+};
+
+/**
+ * Token weights for a sleeve limited to tokens that have a price in the history.
+ * Sleeves with no priced tokens are held as flat USD1.
+ */
+function resolveWeights(points: PricePoint[], missing: Set<string>): Record<TokenSleeve, Record<string, number>> {
+    const available = new Set(Object.keys(points[0].prices));
+    const resolved = {} as Record<TokenSleeve, Record<string, number>>;
+
+    for (const sleeve of SLEEVES) {
+        const entries = Object.entries(SLEEVE_WEIGHTS[sleeve]).filter(([symbol]) => {
+            if (available.has(symbol)) return true;
+            missing.add(symbol);
+            return false;
+        });
+        const total = entries.reduce((sum, [, w]) => sum + w, 0);
+        resolved[sleeve] = Object.fromEntries(entries.map(([symbol, w]) => [symbol, w / total]));
+    }
+
+    return resolved;
+}
+
+export function runBacktest(points: PricePoint[], options: BacktestOptions = {}): BacktestReport {
+    if (points.length <= MIN_SIGNAL_HISTORY) {
+        throw new Error(`Backtest needs more than ${MIN_SIGNAL_HISTORY} price points`);
+    }
+
+    const profile = options.profile ?? getPresetProfile(options.risk ?? "medium");
+    const opts = {
+        initialCapital: options.initialCapital ?? DEFAULTS.initialCapital,
+        rebalanceEvery: Math.max(1, Math.floor(options.rebalanceEvery ?? DEFAULTS.rebalanceEvery)),
+        yieldApyPct: options.yieldApyPct ?? DEFAULTS.yieldApyPct,
+        swapFeeBps: options.swapFeeBps ?? DEFAULTS.swapFeeBps,
+        defaultMemeHype: options.defaultMemeHype ?? DEFAULTS.defaultMemeHype
+    };
+    const usd1FeeRate = getUSD1Fees().feePercentage;
+
+    const missing = new Set<string>();
+    const weights = resolveWeights(points, missing);
+    const lastPrice: Record<string, number> = { ...points[0].prices };
+
+    // Portfolio state: USD1 in reserve/yield, token units per sleeve, flat USD1 for untradeable sleeves
+    let reserve = opts.initialCapital;
+    let yieldValue = 0;
+    const units: Record<TokenSleeve, Record<string, number>> = { growth: {}, degen: {}, rwa: {} };
+    const flat: Record<TokenSleeve, number> = { growth: 0, degen: 0, rwa: 0 };
+
+    const sleeveValue = (sleeve: TokenSleeve) =>
+        flat[sleeve] + Object.entries(units[sleeve]).reduce((sum, [symbol, u]) => sum + u * lastPrice[symbol], 0);
+    const equityNow = () => reserve + yieldValue + SLEEVES.reduce((sum, s) => sum + sleeveValue(s), 0);
+
+    const startIndex = MIN_SIGNAL_HISTORY - 1;
+    const solCloses = points.map(p => p.prices.SOL);
+    const equity: number[] = [];
+    const steps: BacktestStep[] = [];
+    let allocation: Allocation = { reserve: 100, yield: 0, growth: 0, degen: 0, rwa: 0 };
+    let traded = 0;
+    let feesPaid = 0;
+    let rebalances = 0;
+
+    for (let i = startIndex; i < points.length; i++) {
+        const point = points[i];
+        Object.assign(lastPrice, point.prices);
+
+        if (i > startIndex) {
+            const dtYears = (point.timestamp - points[i - 1].timestamp) / YEAR_MS;
+            const apy = points[i - 1].yieldApyPct ?? opts.yieldApyPct;
+            yieldValue *= 1 + (apy / 100) * dtYears;
+        }
+
+        const isRebalance = (i - startIndex) % opts.rebalanceEvery === 0;
+        let stepSignals: BacktestStep["signals"];
+        let stepMood: BacktestStep["mood"];
+
+        if (isRebalance) {
+            const memeHype = point.memeVolume !== undefined
+                ? classifyMemeHype(point.memeVolume)
+                : opts.defaultMemeHype;
+            stepSignals = signalsFromPrices(solCloses.slice(0, i + 1), memeHype);
+            stepMood = getMacroMood(stepSignals);
+            allocation = buildStrategy(stepSignals, profile, stepMood);
+
+            const equityBefore = equityNow();
+            let stepFees = 0;
+
+            // Yield vault: USD1 moves in/out of lending
+            const yieldDiff = (allocation.yield / 100) * equityBefore - yieldValue;
+            if (Math.abs(yieldDiff) >= DEFAULT_MIN_TRADE_USD1) {
+                const fee = Math.abs(yieldDiff) * usd1FeeRate;
+                yieldValue += yieldDiff > 0 ? yieldDiff - fee : yieldDiff;
+                reserve -= yieldDiff > 0 ? yieldDiff : yieldDiff + fee;
+                traded += Math.abs(yieldDiff);
+                stepFees += fee;
+            }
+
+            // Token sleeves: USD1 transfer plus swaps into the sleeve's target weights
+            for (const sleeve of SLEEVES) {
+                const current = sleeveValue(sleeve);
+                const diff = (allocation[sleeve] / 100) * equityBefore - current;
+                if (Math.abs(diff) < DEFAULT_MIN_TRADE_USD1) continue;
+
+                const transferFee = Math.abs(diff) * usd1FeeRate;
+                const target = diff > 0 ? current + diff - transferFee : current + diff;
+                const tokens = Object.entries(weights[sleeve]);
+
+                let swapped = 0;
+                if (tokens.length === 0) {
+                    flat[sleeve] = target;
+                } else {
+                    const next: Record<string, number> = {};
+                    for (const [symbol, weight] of tokens) {
+                        const before = (units[sleeve][symbol] || 0) * lastPrice[symbol];
+                        swapped += Math.abs(target * weight - before);
+                        next[symbol] = target * weight;
+                    }
+                    const swapFee = swapped * (opts.swapFeeBps / 10_000);
+                    for (const [symbol, value] of Object.entries(next)) {
+                        const afterFee = target > 0 ? value - swapFee * (value / target) : 0;
+                        units[sleeve][symbol] = afterFee / lastPrice[symbol];
+                    }
+                    stepFees += swapFee;
+                }
+
+                reserve -= diff > 0 ? diff : diff + transferFee;
+                traded += Math.abs(diff);
+                stepFees += transferFee;
+            }
+
+            feesPaid += stepFees;
+            rebalances++;
+        }
+
+        const value = equityNow();
+        equity.push(value);
+
+        if (isRebalance || i === points.length - 1) {
+            steps.push({
+                timestamp: point.timestamp,
+                equity: value,
+                allocation,
+                rebalanced: isRebalance,
+                signals: stepSignals,
+                mood: stepMood
+            });
+        }
+    }
+
+    const timestamps = points.slice(startIndex).map(p => p.timestamp);
+    const periodsPerYear = inferPeriodsPerYear(timestamps);
+    const years = (timestamps[timestamps.length - 1] - timestamps[0]) / YEAR_MS;
+    const startEquity = opts.initialCapital;
+    const endEquity = equity[equity.length - 1];
+    const averageEquity = equity.reduce((a, b) => a + b, 0) / equity.length;
+    const turnover = averageEquity > 0 ? traded / averageEquity : 0;
+
+    const solPath = solCloses.slice(startIndex);
+    const solEquity = solPath.map(p => (p / solPath[0]) * startEquity);
+
+    return {
+        profile,
+        options: opts,
+        periodsPerYear,
+        metrics: {
+            startEquity,
+            endEquity,
+            totalReturnPct: (endEquity / startEquity - 1) * 100,
+            cagrPct: cagrPct(startEquity, endEquity, years),
+            maxDrawdownPct: maxDrawdownPct(equity),
+            sharpe: sharpeRatio(equity, periodsPerYear),
+            turnover,
+            annualizedTurnover: years > 0 ? turnover / years : 0,
+            feesPaid,
+            rebalances,
+            years
+        },
+        benchmark: {
+            holdSOL: {
+                totalReturnPct: (solEquity[solEquity.length - 1] / startEquity - 1) * 100,
+                cagrPct: cagrPct(startEquity, solEquity[solEquity.length - 1], years),
+                maxDrawdownPct: maxDrawdownPct(solEquity),
+                sharpe: sharpeRatio(solEquity, periodsPerYear)
+            }
+        },
+        missingTokens: [...missing],
+        steps
+    };
+}
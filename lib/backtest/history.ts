@@ -0,0 +1,139 @@
+/**
+ * Price History Parsing
+ * Accepts CSV text (header: timestamp,SOL,RADR,...[,memeVolume][,yieldApyPct])
+ * or JSON: an array (or { points: [...] }) of { timestamp, prices: {...} } or flat
+ * { timestamp, SOL, RADR, ... } rows. Timestamps may be ms, seconds or ISO strings.
+ */
+
+import { MIN_SIGNAL_HISTORY } from "../ai/signals.js";
+import { PricePoint } from "./types.js";
+
+export type HistoryParseResult =
+    | { ok: true; points: PricePoint[] }
+    | { ok: false; errors: string[] };
+
+const TIME_KEYS = ["timestamp", "time", "date"];
+const EXTRA_KEYS = ["memeVolume", "yieldApyPct"];
+
+function parseTimestamp(value: unknown): number | null {
+    if (typeof value === "number" && Number.isFinite(value)) {
+        // Seconds vs milliseconds
+        return value < 1e12 ? value * 1000 : value;
+    }
+    if (typeof value === "string" && value.trim()) {
+        const numeric = Number(value);
+        if (Number.isFinite(numeric)) return parseTimestamp(numeric);
+        const parsed = Date.parse(value);
+        return Number.isNaN(parsed) ? null : parsed;
+    }
+    return null;
+}
+
+function toPoint(row: Record<string, unknown>, index: number, errors: string[]): PricePoint | null {
+    const timeKey = TIME_KEYS.find(k => row[k] !== undefined);
+    const timestamp = timeKey ? parseTimestamp(row[timeKey]) : null;
+    if (timestamp === null) {
+        errors.push(`row ${index}: missing or invalid timestamp`);
+        return null;
+    }
+
+    const source = row.prices && typeof row.prices === "object"
+        ? row.prices as Record<string, unknown>
+        : row;
+
+    const prices: Record<string, number> = {};
+    for (const [symbol, raw] of Object.entries(source)) {
+        if (TIME_KEYS.includes(symbol) || EXTRA_KEYS.includes(symbol) || symbol === "prices") continue;
+        if (raw === "" || raw === null || raw === undefined) continue;
+        const price = Number(raw);
+        if (!Number.isFinite(price) || price <= 0) {
+            errors.push(`row ${index}: invalid ${symbol} price`);
+            continue;
+        }
+        prices[symbol] = price;
+    }
+
+    if (!prices.SOL) {
+        errors.push(`row ${index}: SOL price required`);
+        return null;
+    }
+
+    const point: PricePoint = { timestamp, prices };
+    const memeVolume = Number(row.memeVolume);
+    const yieldApyPct = Number(row.yieldApyPct);
+    if (row.memeVolume !== undefined && row.memeVolume !== "" && Number.isFinite(memeVolume)) {
+        point.memeVolume = memeVolume;
+    }
+    if (row.yieldApyPct !== undefined && row.yieldApyPct !== "" && Number.isFinite(yieldApyPct)) {
+        point.yieldApyPct = yieldApyPct;
+    }
+    return point;
+}
+
+function parseCsv(text: string): Record<string, unknown>[] {
+    const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l && !l.startsWith("#"));
+    if (lines.length === 0) return [];
+
+    const header = lines[0].split(",").map(h => h.trim());
+    return lines.slice(1).map(line => {
+        const cells = line.split(",");
+        const row: Record<string, unknown> = {};
+        header.forEach((key, i) => {
+            row[key] = cells[i]?.trim() ?? "";
+        });
+        return row;
+    });
+}
+
+/**
+ * Parse and validate a price history; points come back sorted oldest first
+ */
+export function parsePriceHistory(input: unknown): HistoryParseResult {
+    let rows: unknown;
+
+    if (typeof input === "string") {
+        const trimmed = input.trim();
+        if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+            try {
+                rows = JSON.parse(trimmed);
+            } catch {
+                return { ok: false, errors: ["history is not valid JSON"] };
+            }
+        } else {
+            rows = parseCsv(trimmed);
+        }
+    } else {
+        rows = input;
+    }
+
+    if (rows && !Array.isArray(rows) && typeof rows === "object" && Array.isArray((rows as any).points)) {
+        rows = (rows as any).points;
+    }
+
+    if (!Array.isArray(rows)) {
+        return { ok: false, errors: ["history must be CSV text or a JSON array of price points"] };
+    }
+
+    const errors: string[] = [];
+    const points: PricePoint[] = [];
+    rows.forEach((row, i) => {
+        if (!row || typeof row !== "object") {
+            errors.push(`row ${i}: not an object`);
+            return;
+        }
+        const point = toPoint(row as Record<string, unknown>, i, errors);
+        if (point) points.push(point);
+    });
+
+    if (errors.length > 0) {
+        // Cap the list so a bad file doesn't produce a megabyte of errors
+        return { ok: false, errors: errors.slice(0, 20) };
+    }
+
+    if (points.length <= MIN_SIGNAL_HISTORY) {
+        return { ok: false, errors: [`history needs more than ${MIN_SIGNAL_HISTORY} points`] };
+    }
+
+    points.sort((a, b) => a.timestamp - b.timestamp);
+    return { ok: true, points };
+}
@@ -0,0 +1,10 @@
+/**
+ * Backtest Index
+ * Central export point for the allocator backtester
+ */
+
+export * from "./types.js";
+export { parsePriceHistory } from "./history.js";
+export type { HistoryParseResult } from "./history.js";
+export { runBacktest } from "./engine.js";
+export { inferPeriodsPerYear, maxDrawdownPct, sharpeRatio, cagrPct } from "./metrics.js";
@@ -0,0 +1,43 @@
+/**
+ * Backtest Metrics
+ * Pure helpers over an equity curve.
+ */
+
+export const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Observations per year implied by the median spacing of the timestamps
+ */
+export function inferPeriodsPerYear(timestamps: number[]): number {
+    const gaps = timestamps.slice(1).map((t, i) => t - timestamps[i]).filter(g => g > 0).sort((a, b) => a - b);
+    if (gaps.length === 0) return 8760;
+    return YEAR_MS / gaps[Math.floor(gaps.length / 2)];
+}
+
+export function maxDrawdownPct(equity: number[]): number {
+    let peak = -Infinity;
+    let worst = 0;
+    for (const value of equity) {
+        peak = Math.max(peak, value);
+        if (peak > 0) worst = Math.max(worst, (peak - value) / peak);
+    }
+    return worst * 100;
+}
+
+/**
+ * Annualized Sharpe ratio of per-step returns (risk-free rate 0)
+ */
+export function sharpeRatio(equity: number[], periodsPerYear: number): number {
+    const returns = equity.slice(1).map((v, i) => (equity[i] > 0 ? v / equity[i] - 1 : 0));
+    if (returns.length < 2) return 0;
+
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const variance = returns.reduce((a, b) => a + (b - mean) ** 2, 0) / (returns.length - 1);
+    const std = Math.sqrt(variance);
+    return std > 0 ? (mean / std) * Math.sqrt(periodsPerYear) : 0;
+}
+
+export function cagrPct(start: number, end: number, years: number): number {
+    if (start <= 0 || years <= 0) return 0;
+    return (Math.pow(end / start, 1 / years) - 1) * 100;
+}
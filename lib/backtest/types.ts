@@ -0,0 +1,59 @@
+/**
+ * Backtest Types
+ */
+
+import type { Allocation } from "../ai/strategy.js";
+import type { MacroMood } from "../ai/macro.js";
+import type { MarketSignals } from "../ai/signals.js";
+import type { RiskProfile, RiskProfileConfig } from "../ai/risk.js";
+
+// One observation: USD prices keyed by token symbol (SOL required)
+export interface PricePoint {
+    timestamp: number;
+    prices: Record<string, number>;
+    memeVolume?: number;   // 24h meme volume, drives memeHype when present
+    yieldApyPct?: number;  // Lending APY at this point, overrides the default
+}
+
+export interface BacktestOptions {
+    risk?: RiskProfile;
+    profile?: RiskProfileConfig;   // Overrides the `risk` preset
+    initialCapital?: number;       // USD1, default 10_000
+    rebalanceEvery?: number;       // Steps between rebalances, default 24 (daily on hourly data)
+    yieldApyPct?: number;          // Default lending APY when the history has none
+    swapFeeBps?: number;           // Jupiter swap cost per traded dollar, default 30 bps
+    defaultMemeHype?: MarketSignals["memeHype"];
+}
+
+export interface BacktestStep {
+    timestamp: number;
+    equity: number;
+    allocation: Allocation;
+    rebalanced: boolean;
+    signals?: MarketSignals;
+    mood?: MacroMood;
+}
+
+export interface BacktestMetrics {
+    startEquity: number;
+    endEquity: number;
+    totalReturnPct: number;
+    cagrPct: number;
+    maxDrawdownPct: number;
+    sharpe: number;
+    turnover: number;            // Traded value / average equity over the run
+    annualizedTurnover: number;
+    feesPaid: number;
+    rebalances: number;
+    years: number;
+}
+
+export interface BacktestReport {
+    profile: RiskProfileConfig;
+    options: Required<Omit<BacktestOptions, "profile" | "risk">>;
+    periodsPerYear: number;
+    metrics: BacktestMetrics;
+    benchmark: { holdSOL: Pick<BacktestMetrics, "totalReturnPct" | "cagrPct" | "maxDrawdownPct" | "sharpe"> };
+    missingTokens: string[];
+    steps: BacktestStep[];
+}
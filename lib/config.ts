@@ -3,6 +3,8 @@
  * Validates and exports environment variables.
  * Non-logging policy: no RPC URLs or secrets in logs.
  */
+import os from "os";
+import path from "path";
 import { logger } from "./logger.js";
 
 interface EnvConfig {
@@ -16,11 +18,104 @@ interface EnvConfig {
     // Optional
     geminiApiKey?: string;
     shadowwireApiKey?: string;
+    shadowwireProgramIds: string[];     // Programs a ShadowWire transfer must invoke (/api/verify)
 
     // Feature flags
     shadowwireMock: boolean;
+
+    // AI allocation provider
+    aiProvider: 'gemini' | 'openai' | 'fixture' | 'none';
+    geminiModel: string;
+    openaiBaseUrl: string;
+    openaiModel: string;
+    openaiApiKey?: string;
+    aiFixturePath?: string;
+
+    // Signed-request authentication (replay protection)
+    authNonceStore: 'file' | 'memory';
+    authNonceStorePath: string;
+    authMaxTtlMs: number;
+
+    // Position persistence
+    positionStore: 'file' | 'memory';
+    positionStorePath: string;
+    memoIndexStore: 'file' | 'memory';
+    memoIndexStorePath: string;
+    memoIndexMaxPages: number;
+
+    // Two-phase rebalance
+    rebalancePlanStore: 'file' | 'memory';
+    rebalancePlanStorePath: string;
+    rebalancePlanTtlMs: number;
+    rebalanceDriftTolerancePct: number;
+
+    // Per-wallet risk profiles
+    riskProfileStore: 'file' | 'memory';
+    riskProfileStorePath: string;
+
+    // Per-wallet growth vault targets
+    growthTargetStore: 'file' | 'memory';
+    growthTargetStorePath: string;
+
+    // Strategy decision journal
+    decisionJournal: 'file' | 'memory';
+    decisionJournalPath: string;
+
+    // Market data
+    marketDataProvider: 'live' | 'replay' | 'record';
+    marketDataFixturePath: string;
+    fallbackPrices: Record<string, number>;
+
+    // Swap policy (price-impact / reference-price guards, TWAP) and execution journal
+    swapMaxPriceImpactPct: number;
+    swapMaxPriceDeviationPct: number;
+    swapTwapThresholdUSD: number;
+    swapTwapMaxChunks: number;
+    swapTwapIntervalMs: number;
+    swapTwapMaxWaitMs: number;
+    swapJournal: 'file' | 'memory';
+    swapJournalPath: string;
+
+    // User-signed transaction tracking
+    txTrackerStore: 'file' | 'memory';
+    txTrackerStorePath: string;
+    txExpiryMs: number;
+    cronSecret?: string;
+
+    // Kamino markets searched for yield reserves
+    kaminoMarkets: Array<{ name: string; address: string }>;
+
+    // Degen vault opportunity scanning
+    degenMaxRiskScore: number;
+    degenMinLiquidityUsd: number;
+    degenMaxPositions: number;
+    degenSafetyChecks: 'enforce' | 'warn' | 'off';
 }
 
+/**
+ * USD prices by token symbol, used only when every price source misses
+ * (devnet, API outage). Override per symbol with MARKET_FALLBACK_PRICES='{"SOL":150}'.
+ */
+export const DEFAULT_FALLBACK_PRICES: Record<string, number> = {
+    USD1: 1,
+    USDC: 1,
+    SOL: 145.20,
+    RADR: 0.15,
+    BONK: 0.00002,
+    ORE: 0.02,
+    ANON: 0.01,
+    JIM: 0.005,
+    POKI: 0.001,
+    GLDR: 2300,
+    SLVR: 30,
+    CPER: 4.5
+};
+
+export const DEFAULT_KAMINO_MARKETS: EnvConfig['kaminoMarkets'] = [
+    { name: 'main', address: '7u3HeHxYDLhnCoErrtycNokbQYbWGzLs6JSDqGAv5PfF' },
+    { name: 'jlp', address: 'DxXdAyU3kCjnyggvHmY5nAwg5cRbbmdyX3npfDMjjMek' }
+];
+
 function getEnvVar(key: string, required: boolean = false, defaultValue?: string): string | undefined {
     const value = process.env[key];
 
@@ -31,13 +126,162 @@ function getEnvVar(key: string, required: boolean = false, defaultValue?: string
     return value || defaultValue;
 }
 
+function parseMarketDataProvider(value: string): EnvConfig['marketDataProvider'] {
+    if (value === 'live' || value === 'replay' || value === 'record') {
+        return value;
+    }
+    logger.warn("Unknown MARKET_DATA_PROVIDER, using live", "Config");
+    return 'live';
+}
+
+function parseFallbackPrices(value: string | undefined): Record<string, number> {
+    const prices = { ...DEFAULT_FALLBACK_PRICES };
+    if (!value) return prices;
+
+    try {
+        const overrides = JSON.parse(value);
+        for (const [symbol, price] of Object.entries(overrides || {})) {
+            if (typeof price === 'number' && Number.isFinite(price) && price >= 0) {
+                prices[symbol.toUpperCase()] = price;
+            }
+        }
+    } catch {
+        logger.warn("MARKET_FALLBACK_PRICES is not valid JSON, using defaults", "Config");
+    }
+    return prices;
+}
+
+function parseSafetyMode(value: string): EnvConfig['degenSafetyChecks'] {
+    return value === 'warn' || value === 'off' ? value : 'enforce';
+}
+
+/**
+ * KAMINO_MARKETS="main=<address>,jlp=<address>"; entries without a name are skipped
+ */
+function parseKaminoMarkets(value: string | undefined): EnvConfig['kaminoMarkets'] {
+    if (!value) return DEFAULT_KAMINO_MARKETS;
+
+    const markets = value.split(',')
+        .map(entry => entry.trim().split('='))
+        .filter(([name, address]) => !!name && !!address)
+        .map(([name, address]) => ({ name: name.trim().toLowerCase(), address: address.trim() }));
+
+    if (markets.length === 0) {
+        logger.warn("KAMINO_MARKETS has no valid entries, using defaults", "Config");
+        return DEFAULT_KAMINO_MARKETS;
+    }
+    return markets;
+}
+
+function getPositiveNumber(key: string, defaultValue: number): number {
+    const value = Number(process.env[key]);
+    return Number.isFinite(value) && value > 0 ? value : defaultValue;
+}
+
+function parseAddressList(value: string | undefined): string[] {
+    return (value || '').split(',').map(address => address.trim()).filter(Boolean);
+}
+
+function parseAIProvider(value: string): EnvConfig['aiProvider'] {
+    if (value === 'gemini' || value === 'openai' || value === 'fixture' || value === 'none') {
+        return value;
+    }
+    logger.warn("Unknown AI_PROVIDER, using rules only", "Config");
+    return 'none';
+}
+
 export const config: EnvConfig = {
     nodeEnv: getEnvVar('NODE_ENV', false, 'development') as string,
     solanaRpcUrl: getEnvVar('SOLANA_RPC_URL', false, 'https://api.mainnet-beta.solana.com') as string,
     shadowwireCluster: getEnvVar('SHADOWWIRE_CLUSTER', false, 'mainnet-beta') as string,
     geminiApiKey: getEnvVar('GEMINI_API_KEY'),
     shadowwireApiKey: getEnvVar('SHADOWWIRE_API_KEY'),
+    shadowwireProgramIds: parseAddressList(getEnvVar('SHADOWWIRE_PROGRAM_IDS')),
     shadowwireMock: (getEnvVar('SHADOWWIRE_MOCK', false, 'true') as string) === 'true',
+    aiProvider: parseAIProvider(getEnvVar('AI_PROVIDER', false, 'gemini') as string),
+    geminiModel: getEnvVar('GEMINI_MODEL', false, 'gemini-3-flash-preview') as string,
+    openaiBaseUrl: getEnvVar('OPENAI_BASE_URL', false, 'https://api.openai.com/v1') as string,
+    openaiModel: getEnvVar('OPENAI_MODEL', false, 'gpt-4o-mini') as string,
+    openaiApiKey: getEnvVar('OPENAI_API_KEY'),
+    aiFixturePath: getEnvVar('AI_FIXTURE_PATH'),
+    authNonceStore: getEnvVar('AUTH_NONCE_STORE', false, 'file') === 'memory' ? 'memory' : 'file',
+    authNonceStorePath: getEnvVar(
+        'AUTH_NONCE_STORE_PATH',
+        false,
+        path.join(os.tmpdir(), 'shadowfund', 'auth-nonces')
+    ) as string,
+    authMaxTtlMs: getPositiveNumber('AUTH_MAX_TTL_SECONDS', 300) * 1000,
+    positionStore: getEnvVar('POSITION_STORE', false, 'file') === 'memory' ? 'memory' : 'file',
+    positionStorePath: getEnvVar(
+        'POSITION_STORE_PATH',
+        false,
+        path.join(os.tmpdir(), 'shadowfund', 'positions.json')
+    ) as string,
+    memoIndexStore: getEnvVar('POSITION_MEMO_INDEX_STORE', false, 'file') === 'memory' ? 'memory' : 'file',
+    memoIndexStorePath: getEnvVar(
+        'POSITION_MEMO_INDEX_STORE_PATH',
+        false,
+        path.join(os.tmpdir(), 'shadowfund', 'memo-index.json')
+    ) as string,
+    memoIndexMaxPages: Math.floor(getPositiveNumber('POSITION_MEMO_INDEX_MAX_PAGES', 20)) || 1,
+    rebalancePlanStore: getEnvVar('REBALANCE_PLAN_STORE', false, 'file') === 'memory' ? 'memory' : 'file',
+    rebalancePlanStorePath: getEnvVar(
+        'REBALANCE_PLAN_STORE_PATH',
+        false,
+        path.join(os.tmpdir(), 'shadowfund', 'rebalance-plans.json')
+    ) as string,
+    rebalancePlanTtlMs: getPositiveNumber('REBALANCE_PLAN_TTL_SECONDS', 300) * 1000,
+    rebalanceDriftTolerancePct: getPositiveNumber('REBALANCE_DRIFT_TOLERANCE_PCT', 2),
+    riskProfileStore: getEnvVar('RISK_PROFILE_STORE', false, 'file') === 'memory' ? 'memory' : 'file',
+    riskProfileStorePath: getEnvVar(
+        'RISK_PROFILE_STORE_PATH',
+        false,
+        path.join(os.tmpdir(), 'shadowfund', 'risk-profiles.json')
+    ) as string,
+    growthTargetStore: getEnvVar('GROWTH_TARGET_STORE', false, 'file') === 'memory' ? 'memory' : 'file',
+    growthTargetStorePath: getEnvVar(
+        'GROWTH_TARGET_STORE_PATH',
+        false,
+        path.join(os.tmpdir(), 'shadowfund', 'growth-targets.json')
+    ) as string,
+    decisionJournal: getEnvVar('DECISION_JOURNAL', false, 'file') === 'memory' ? 'memory' : 'file',
+    decisionJournalPath: getEnvVar(
+        'DECISION_JOURNAL_PATH',
+        false,
+        path.join(os.tmpdir(), 'shadowfund', 'decisions.jsonl')
+    ) as string,
+    marketDataProvider: parseMarketDataProvider(getEnvVar('MARKET_DATA_PROVIDER', false, 'live') as string),
+    marketDataFixturePath: getEnvVar(
+        'MARKET_DATA_FIXTURE_PATH',
+        false,
+        path.join(os.tmpdir(), 'shadowfund', 'market-data.json')
+    ) as string,
+    fallbackPrices: parseFallbackPrices(getEnvVar('MARKET_FALLBACK_PRICES')),
+    swapMaxPriceImpactPct: getPositiveNumber('SWAP_MAX_PRICE_IMPACT_PCT', 1.5),
+    swapMaxPriceDeviationPct: getPositiveNumber('SWAP_MAX_PRICE_DEVIATION_PCT', 3),
+    swapTwapThresholdUSD: getPositiveNumber('SWAP_TWAP_THRESHOLD_USD', 2500),
+    swapTwapMaxChunks: Math.floor(getPositiveNumber('SWAP_TWAP_MAX_CHUNKS', 4)) || 1,
+    swapTwapIntervalMs: getPositiveNumber('SWAP_TWAP_INTERVAL_SECONDS', 15) * 1000,
+    swapTwapMaxWaitMs: getPositiveNumber('SWAP_TWAP_MAX_WAIT_SECONDS', 20) * 1000,
+    swapJournal: getEnvVar('SWAP_JOURNAL', false, 'file') === 'memory' ? 'memory' : 'file',
+    swapJournalPath: getEnvVar(
+        'SWAP_JOURNAL_PATH',
+        false,
+        path.join(os.tmpdir(), 'shadowfund', 'swaps.jsonl')
+    ) as string,
+    txTrackerStore: getEnvVar('TX_TRACKER_STORE', false, 'file') === 'memory' ? 'memory' : 'file',
+    txTrackerStorePath: getEnvVar(
+        'TX_TRACKER_STORE_PATH',
+        false,
+        path.join(os.tmpdir(), 'shadowfund', 'transactions.json')
+    ) as string,
+    txExpiryMs: getPositiveNumber('TX_EXPIRY_SECONDS', 180) * 1000,
+    cronSecret: getEnvVar('CRON_SECRET'),
+    kaminoMarkets: parseKaminoMarkets(getEnvVar('KAMINO_MARKETS')),
+    degenMaxRiskScore: Math.min(100, getPositiveNumber('DEGEN_MAX_RISK_SCORE', 65)),
+    degenMinLiquidityUsd: getPositiveNumber('DEGEN_MIN_LIQUIDITY_USD', 50000),
+    degenMaxPositions: Math.floor(getPositiveNumber('DEGEN_MAX_POSITIONS', 5)) || 1,
+    degenSafetyChecks: parseSafetyMode(getEnvVar('DEGEN_SAFETY_CHECKS', false, 'enforce') as string),
 };
 
 export function isProduction(): boolean {
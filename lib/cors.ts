@@ -1,4 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from "../types/api.js";
+import { acceptsMemoKey } from "../utils/memoKey.js";
 
 function parseOrigins(value: string | undefined): string[] {
     if (!value) return [];
@@ -18,6 +19,7 @@ function resolveRequestOrigin(req: NextApiRequest): string | undefined {
  *
  * - In production: allow only CORS_ORIGINS (comma-separated) if provided, else same-origin only.
  * - In development: default to "*" for convenience, unless CORS_ORIGINS is set.
+ * - The position memo key header is only allowed on the routes that use it.
  */
 export function applyCors(req: NextApiRequest, res: NextApiResponse, methods: string[]): void {
     const env = process.env.NODE_ENV;
@@ -47,5 +49,7 @@ export function applyCors(req: NextApiRequest, res: NextApiResponse, methods: st
     }
 
     res.setHeader("Access-Control-Allow-Methods", methods.join(", "));
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, X-Shadowfund-Mode");
+    const headers = ["Content-Type", "Authorization", "X-Shadowfund-Mode"];
+    if (acceptsMemoKey(req.url)) headers.push("X-Shadowfund-Memo-Key");
+    res.setHeader("Access-Control-Allow-Headers", headers.join(", "));
 }
@@ -0,0 +1,159 @@
+/**
+ * JSON File Document
+ * The file backend shared by the JSON stores: one JSON document on disk. Every change
+ * goes through update(), which takes an exclusive lock file, re-reads the document,
+ * applies the change and writes it atomically (temp file + rename) before releasing the
+ * lock, so instances sharing the path do not overwrite each other's changes. The cached
+ * copy is replaced only after a write succeeds, and reads reload it whenever the file
+ * changed on disk. A failed write rejects its caller, so a store never reports success
+ * for data that was not saved.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { logger } from "./logger.js";
+
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 5_000;
+
+/** A lock older than this was left behind by a writer that died; it is broken */
+const STALE_LOCK_MS = 30_000;
+
+export interface JsonFileDocumentOptions<T> {
+    /** The document to start from when the file is missing or unreadable */
+    empty: () => T;
+    /** Build the document from the parsed file (defaults to the parsed value) */
+    parse?: (parsed: any) => T;
+    /** Store name for logs, e.g. "Position store" */
+    name: string;
+    /** Logger context */
+    context: string;
+    /** JSON indentation (compact by default) */
+    space?: number;
+}
+
+export class JsonFileDocument<T> {
+    private doc: T | null = null;
+    private loadedStamp: string | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly filePath: string, private readonly options: JsonFileDocumentOptions<T>) { }
+
+    /**
+     * The document, reloaded when the file changed since it was last read or written.
+     * Treat it as read-only; change it through update().
+     */
+    async read(): Promise<T> {
+        const stamp = await this.stamp();
+        if (this.doc && stamp === this.loadedStamp) return this.doc;
+
+        const doc = await this.load();
+        this.doc = doc;
+        this.loadedStamp = stamp;
+        return doc;
+    }
+
+    /**
+     * Apply `mutate` to the document as it is on disk, under the file lock, and write
+     * the result. Returns what `mutate` returns.
+     */
+    update<R>(mutate: (doc: T) => R): Promise<R> {
+        return this.commit(doc => {
+            const result = mutate(doc);
+            return { doc, result };
+        });
+    }
+
+    /**
+     * Replace the whole document
+     */
+    write(doc: T): Promise<void> {
+        return this.commit(() => ({ doc, result: undefined }));
+    }
+
+    private commit<R>(change: (current: T) => { doc: T; result: R }): Promise<R> {
+        const next = this.queue.then(() => this.withLock(async () => {
+            const { doc, result } = change(await this.load());
+
+            const snapshot = JSON.stringify(doc, null, this.options.space);
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+            await fs.writeFile(tmpPath, snapshot, "utf8");
+            await fs.rename(tmpPath, this.filePath);
+
+            this.doc = doc;
+            this.loadedStamp = await this.stamp();
+            return result;
+        }));
+
+        this.queue = next.catch(() => undefined);
+        return next.catch(error => {
+            logger.error(`Failed to persist ${this.options.name.toLowerCase()}`, this.options.context);
+            throw error;
+        });
+    }
+
+    /**
+     * A fresh copy of the document from disk
+     */
+    private async load(): Promise<T> {
+        const { empty, parse, name, context } = this.options;
+        try {
+            const raw = await fs.readFile(this.filePath, "utf8");
+            const parsed = raw.trim() ? JSON.parse(raw) : {};
+            return parse ? parse(parsed) : parsed as T;
+        } catch (error: any) {
+            if (error?.code !== "ENOENT") {
+                logger.warn(`${name} unreadable, starting empty`, context);
+            }
+            return empty();
+        }
+    }
+
+    /**
+     * Identifies the file's current contents without reading them
+     */
+    private async stamp(): Promise<string> {
+        try {
+            const stat = await fs.stat(this.filePath);
+            return `${stat.ino}:${stat.size}:${stat.mtimeMs}`;
+        } catch {
+            return "missing";
+        }
+    }
+
+    /**
+     * Run `fn` holding `<file>.lock`, created exclusively so only one process holds it
+     */
+    private async withLock<R>(fn: () => Promise<R>): Promise<R> {
+        const lockPath = `${this.filePath}.lock`;
+        const deadline = Date.now() + LOCK_TIMEOUT_MS;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+        for (;;) {
+            try {
+                await (await fs.open(lockPath, "wx")).close();
+                break;
+            } catch (error: any) {
+                if (error?.code !== "EEXIST") throw error;
+
+                const age = await fs.stat(lockPath).then(stat => Date.now() - stat.mtimeMs, () => 0);
+                if (age > STALE_LOCK_MS) {
+                    logger.warn(`${this.options.name} lock is stale, breaking it`, this.options.context);
+                    await fs.rm(lockPath, { force: true });
+                    continue;
+                }
+                if (Date.now() > deadline) {
+                    throw new Error(`${this.options.name} is locked by another writer`);
+                }
+                await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+            }
+        }
+
+        try {
+            return await fn();
+        } finally {
+            await fs.rm(lockPath, { force: true });
+        }
+    }
+}
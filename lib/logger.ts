@@ -22,7 +22,7 @@ function isNonLoggingPolicy(): boolean {
     );
 }
 
-function redact(data: unknown): unknown {
+export function redact(data: unknown): unknown {
     if (data === null || data === undefined) return data;
     if (typeof data === 'object' && !Array.isArray(data)) {
         const out: Record<string, unknown> = {};
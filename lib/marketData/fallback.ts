@@ -0,0 +1,36 @@
+/**
+ * Fallback Prices
+ * Last-resort USD prices from config.fallbackPrices (DEFAULT_FALLBACK_PRICES plus
+ * MARKET_FALLBACK_PRICES overrides), looked up by the mint's symbol in TOKENS.
+ */
+
+import { config } from "../config.js";
+import { TOKENS } from "../protocols/types.js";
+
+/**
+ * Symbol for a mint; placeholder mints shared by several symbols resolve to the first
+ */
+function symbolForMint(mint: string): string | undefined {
+    const m = mint.toLowerCase();
+    const entry = Object.entries(TOKENS).find(([, tokenMint]) => tokenMint.toLowerCase() === m);
+    return entry?.[0];
+}
+
+/**
+ * Configured fallback price for a mint, or 0 when none is configured
+ */
+export function getFallbackPrice(mint: string): number {
+    const symbol = symbolForMint(mint);
+    return symbol ? config.fallbackPrices[symbol] ?? 0 : 0;
+}
+
+/**
+ * Quote estimated from fallback prices (devnet / quote API down), or null when
+ * either side has no configured price
+ */
+export function estimateQuoteFromFallback(inputMint: string, outputMint: string, amount: number) {
+    const inputPrice = getFallbackPrice(inputMint);
+    const outputPrice = getFallbackPrice(outputMint);
+    if (!inputPrice || !outputPrice) return null;
+    return { outputAmount: (amount * inputPrice) / outputPrice };
+}
@@ -0,0 +1,46 @@
+/**
+ * Market Data
+ * Selects the MarketDataProvider named by MARKET_DATA_PROVIDER ("live" | "replay" | "record").
+ */
+
+import { config } from "../config.js";
+import { MarketDataProvider } from "./types.js";
+import { LiveMarketDataProvider } from "./live.js";
+import { ReplayMarketDataProvider } from "./replay.js";
+import { RecordingMarketDataProvider } from "./recording.js";
+
+export * from "./types.js";
+export { LiveMarketDataProvider } from "./live.js";
+export { ReplayMarketDataProvider } from "./replay.js";
+export { RecordingMarketDataProvider } from "./recording.js";
+export { getFallbackPrice, estimateQuoteFromFallback } from "./fallback.js";
+
+let provider: MarketDataProvider | null = null;
+
+function createProvider(): MarketDataProvider {
+    switch (config.marketDataProvider) {
+        case "replay":
+            return ReplayMarketDataProvider.fromFile(config.marketDataFixturePath);
+        case "record":
+            return new RecordingMarketDataProvider(new LiveMarketDataProvider(), config.marketDataFixturePath);
+        default:
+            return new LiveMarketDataProvider();
+    }
+}
+
+/**
+ * Get the configured market data provider (lazy singleton)
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+    if (!provider) {
+        provider = createProvider();
+    }
+    return provider;
+}
+
+/**
+ * Override the market data provider (tests, custom sources)
+ */
+export function setMarketDataProvider(next: MarketDataProvider): void {
+    provider = next;
+}
@@ -0,0 +1,145 @@
+/**
+ * Live Market Data
+ * HTTP implementation of MarketDataProvider: CoinGecko, DexScreener, Jupiter,
+ * Binance futures (funding) and DefiLlama (TVL).
+ */
+
+import { requireTokenDecimals, SwapParams, SwapQuote } from "../protocols/types.js";
+import { TokenAmount } from "../money.js";
+import { DexPair, JupiterQuoteResponse, MarketDataProvider, TimedValue, TvlPoint } from "./types.js";
+
+const COINGECKO = "https://api.coingecko.com/api/v3";
+const DEXSCREENER = "https://api.dexscreener.com/latest/dex";
+const JUPITER_QUOTE_API = "https://quote-api.jup.ag/v6";
+const JUPITER_PRICE_API = "https://price.jup.ag/v6";
+const BINANCE_FUTURES = "https://fapi.binance.com/fapi/v1";
+const DEFILLAMA = "https://api.llama.fi";
+
+const FETCH_TIMEOUT_MS = 10_000;
+
+async function fetchJson(url: string, init: RequestInit = {}): Promise<any> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    try {
+        const res = await fetch(url, { ...init, signal: controller.signal });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return await res.json();
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+const quoteUrl = ({ inputMint, outputMint, amount, slippageBps = 50 }: SwapParams) =>
+    `${JUPITER_QUOTE_API}/quote?` +
+    `inputMint=${inputMint}&` +
+    `outputMint=${outputMint}&` +
+    `amount=${amount.units}&` +
+    `slippageBps=${slippageBps}`;
+
+export class LiveMarketDataProvider implements MarketDataProvider {
+    readonly name = "live";
+
+    now(): number {
+        return Date.now();
+    }
+
+    async getSolPriceHistory(): Promise<TimedValue<number[]>> {
+        const sol = await fetchJson(`${COINGECKO}/coins/solana/market_chart?vs_currency=usd&days=7&interval=hourly`);
+        const points: number[][] = sol.prices || [];
+        return {
+            value: points.map(p => p[1]),
+            asOf: points.length > 0 ? points[points.length - 1][0] : undefined
+        };
+    }
+
+    async getSolanaPairs(): Promise<DexPair[]> {
+        const data = await fetchJson(`${DEXSCREENER}/pairs/solana`);
+        return data.pairs || [];
+    }
+
+    async getTokenPairs(address: string): Promise<DexPair[]> {
+        const data = await fetchJson(`${DEXSCREENER}/tokens/${address}`);
+        return data.pairs || [];
+    }
+
+    async getTokenPrices(mints: string[]): Promise<Record<string, number>> {
+        const data = await fetchJson(`${JUPITER_PRICE_API}/price?ids=${mints.join(",")}`);
+        const prices: Record<string, number> = {};
+        for (const mint of mints) {
+            const price = Number(data.data?.[mint]?.price || 0);
+            if (price > 0) prices[mint] = price;
+        }
+        return prices;
+    }
+
+    async getSwapQuote(params: SwapParams): Promise<SwapQuote | null> {
+        const inputDecimals = params.amount.decimals;
+        const outputDecimals = requireTokenDecimals(params.outputMint, params.outputDecimals);
+
+        let quote: any;
+        try {
+            quote = await fetchJson(quoteUrl(params));
+        } catch (error) {
+            if (error instanceof Error && error.message.startsWith("HTTP ")) return null;
+            throw error;
+        }
+        return {
+            inputAmount: TokenAmount.fromUnits(String(quote.inAmount), inputDecimals).toNumber(),
+            outputAmount: TokenAmount.fromUnits(String(quote.outAmount), outputDecimals).toNumber(),
+            priceImpact: Number(quote.priceImpactPct) * 100,
+            // Jupiter charges the platform fee in the output token
+            fee: TokenAmount.fromUnits(String(quote.platformFee?.amount || 0), outputDecimals).toNumber(),
+            route: quote.routePlan?.map((r: any) => r.swapInfo?.label).join(" → ") || "Direct"
+        };
+    }
+
+    async getExecutableQuote(params: SwapParams): Promise<JupiterQuoteResponse> {
+        try {
+            return await fetchJson(quoteUrl(params));
+        } catch (error) {
+            throw new Error(`Quote failed: ${error instanceof Error ? error.message : "no response"}`);
+        }
+    }
+
+    async buildSwapTransaction(quote: JupiterQuoteResponse, userPublicKey: string): Promise<string> {
+        let built: any;
+        try {
+            built = await fetchJson(`${JUPITER_QUOTE_API}/swap`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    quoteResponse: quote,
+                    userPublicKey,
+                    wrapAndUnwrapSol: true,
+                    dynamicComputeUnitLimit: true,
+                    prioritizationFeeLamports: "auto"
+                })
+            });
+        } catch (error) {
+            throw new Error(`Swap API error: ${error instanceof Error ? error.message : "no response"}`);
+        }
+        if (typeof built?.swapTransaction !== "string") throw new Error("Swap API returned no transaction");
+        return built.swapTransaction;
+    }
+
+    async getFundingRate(): Promise<TimedValue<number>> {
+        const index = await fetchJson(`${BINANCE_FUTURES}/premiumIndex?symbol=SOLUSDT`);
+        const rate = Number(index.lastFundingRate);
+        if (!Number.isFinite(rate)) throw new Error("No funding rate");
+        return { value: rate * 100, asOf: Number(index.time) || undefined };
+    }
+
+    async getTvlHistory(): Promise<TvlPoint[]> {
+        const history = await fetchJson(`${DEFILLAMA}/v2/historicalChainTvl/Solana`);
+        if (!Array.isArray(history)) throw new Error("Unexpected TVL response");
+        return history;
+    }
+
+    async getUSD1Price(): Promise<TimedValue<number>> {
+        const data = await fetchJson(`${COINGECKO}/simple/price?ids=usd1-wlfi&vs_currencies=usd&include_last_updated_at=true`);
+        const entry = data["usd1-wlfi"];
+        const price = Number(entry?.usd);
+        if (!(price > 0)) throw new Error("No USD1 price");
+        return { value: price, asOf: entry.last_updated_at ? entry.last_updated_at * 1000 : undefined };
+    }
+}
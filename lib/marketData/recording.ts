@@ -0,0 +1,106 @@
+/**
+ * Recording Market Data
+ * Wraps a provider and saves every successful response into a MarketDataFixture
+ * on disk, producing the file the replay provider reads.
+ */
+
+import type { SwapParams, SwapQuote } from "../protocols/types.js";
+import { JsonFileDocument } from "../jsonFileStore.js";
+import {
+    DexPair,
+    JupiterQuoteResponse,
+    MarketDataFixture,
+    MarketDataProvider,
+    TimedValue,
+    TvlPoint,
+    quoteKey
+} from "./types.js";
+
+export class RecordingMarketDataProvider implements MarketDataProvider {
+    readonly name = "record";
+    private fixture: MarketDataFixture;
+    private readonly file: JsonFileDocument<MarketDataFixture>;
+
+    constructor(private readonly inner: MarketDataProvider, filePath: string) {
+        this.fixture = { recordedAt: inner.now() };
+        this.file = new JsonFileDocument(filePath, {
+            empty: () => ({ recordedAt: inner.now() }),
+            name: "Market data fixture",
+            context: "MarketData",
+            space: 2
+        });
+    }
+
+    private record(update: (fixture: MarketDataFixture) => void): Promise<void> {
+        update(this.fixture);
+        this.fixture.recordedAt = this.inner.now();
+        return this.file.write(this.fixture);
+    }
+
+    now(): number {
+        return this.inner.now();
+    }
+
+    async getSolPriceHistory(): Promise<TimedValue<number[]>> {
+        const history = await this.inner.getSolPriceHistory();
+        await this.record(f => { f.solPriceHistory = history; });
+        return history;
+    }
+
+    async getSolanaPairs(): Promise<DexPair[]> {
+        const pairs = await this.inner.getSolanaPairs();
+        await this.record(f => { f.solanaPairs = pairs; });
+        return pairs;
+    }
+
+    async getTokenPairs(address: string): Promise<DexPair[]> {
+        const pairs = await this.inner.getTokenPairs(address);
+        await this.record(f => { f.tokenPairs = { ...f.tokenPairs, [address]: pairs }; });
+        return pairs;
+    }
+
+    async getTokenPrices(mints: string[]): Promise<Record<string, number>> {
+        const prices = await this.inner.getTokenPrices(mints);
+        await this.record(f => { f.tokenPrices = { ...f.tokenPrices, ...prices }; });
+        return prices;
+    }
+
+    async getSwapQuote(params: SwapParams): Promise<SwapQuote | null> {
+        const quote = await this.inner.getSwapQuote(params);
+        if (quote) {
+            await this.record(f => { f.quotes = { ...f.quotes, [quoteKey(params)]: quote }; });
+        }
+        return quote;
+    }
+
+    async getExecutableQuote(params: SwapParams): Promise<JupiterQuoteResponse> {
+        const quote = await this.inner.getExecutableQuote(params);
+        await this.record(f => { f.executableQuotes = { ...f.executableQuotes, [quoteKey(params)]: quote }; });
+        return quote;
+    }
+
+    /**
+     * Not recorded: a swap transaction is tied to its blockhash and can't be replayed
+     */
+    buildSwapTransaction(quote: JupiterQuoteResponse, userPublicKey: string): Promise<string> {
+        return this.inner.buildSwapTransaction(quote, userPublicKey);
+    }
+
+    async getFundingRate(): Promise<TimedValue<number>> {
+        const funding = await this.inner.getFundingRate();
+        await this.record(f => { f.fundingRate = funding; });
+        return funding;
+    }
+
+    async getTvlHistory(): Promise<TvlPoint[]> {
+        const history = await this.inner.getTvlHistory();
+        await this.record(f => { f.tvlHistory = history; });
+        return history;
+    }
+
+    async getUSD1Price(): Promise<TimedValue<number>> {
+        const price = await this.inner.getUSD1Price();
+        await this.record(f => { f.usd1Price = price; });
+        return price;
+    }
+}
@@ -0,0 +1,127 @@
+/**
+ * Replay Market Data
+ * Serves a recorded MarketDataFixture with no network access, so signals, degen
+ * scanning and growth valuation run deterministically offline. The clock is pinned
+ * to the recording time so freshness and token-age checks replay identically.
+ */
+
+import { readFileSync } from "fs";
+import { requireTokenDecimals, SwapParams, SwapQuote } from "../protocols/types.js";
+import { TokenAmount } from "../money.js";
+import { logger } from "../logger.js";
+import {
+    DexPair,
+    JupiterQuoteResponse,
+    MarketDataFixture,
+    MarketDataProvider,
+    TimedValue,
+    TvlPoint,
+    quoteKey
+} from "./types.js";
+
+const REPLAY_PRICE_IMPACT_PCT = 0.1;
+
+export class ReplayMarketDataProvider implements MarketDataProvider {
+    readonly name = "replay";
+
+    constructor(private readonly fixture: MarketDataFixture) { }
+
+    /**
+     * Load a fixture from disk; an unreadable file replays as "no data"
+     */
+    static fromFile(filePath: string): ReplayMarketDataProvider {
+        try {
+            const parsed = JSON.parse(readFileSync(filePath, "utf8")) as MarketDataFixture;
+            return new ReplayMarketDataProvider({ ...parsed, recordedAt: parsed.recordedAt || Date.now() });
+        } catch {
+            logger.warn("Market data fixture unreadable, replaying empty data", "MarketData");
+            return new ReplayMarketDataProvider({ recordedAt: Date.now() });
+        }
+    }
+
+    private require<T>(value: T | undefined, what: string): T {
+        if (value === undefined) throw new Error(`Fixture has no ${what}`);
+        return value;
+    }
+
+    now(): number {
+        return this.fixture.recordedAt;
+    }
+
+    async getSolPriceHistory(): Promise<TimedValue<number[]>> {
+        return this.require(this.fixture.solPriceHistory, "SOL price history");
+    }
+
+    async getSolanaPairs(): Promise<DexPair[]> {
+        return this.fixture.solanaPairs || [];
+    }
+
+    async getTokenPairs(address: string): Promise<DexPair[]> {
+        return this.fixture.tokenPairs?.[address] || [];
+    }
+
+    async getTokenPrices(mints: string[]): Promise<Record<string, number>> {
+        const prices: Record<string, number> = {};
+        for (const mint of mints) {
+            const price = this.fixture.tokenPrices?.[mint];
+            if (price !== undefined && price > 0) prices[mint] = price;
+        }
+        return prices;
+    }
+
+    /**
+     * Recorded quote for the exact request, else one derived from the recorded prices
+     */
+    async getSwapQuote(params: SwapParams): Promise<SwapQuote | null> {
+        const recorded = this.fixture.quotes?.[quoteKey(params)];
+        if (recorded) return recorded;
+
+        const prices = await this.getTokenPrices([params.inputMint, params.outputMint]);
+        const inputPrice = prices[params.inputMint];
+        const outputPrice = prices[params.outputMint];
+        if (!inputPrice || !outputPrice) return null;
+
+        return {
+            inputAmount: params.amount.toNumber(),
+            outputAmount: (params.amount.toNumber() * inputPrice) / outputPrice,
+            priceImpact: REPLAY_PRICE_IMPACT_PCT,
+            fee: 0,
+            route: "Replay"
+        };
+    }
+
+    /**
+     * Recorded executable quote, else one built from the replayed quote
+     */
+    async getExecutableQuote(params: SwapParams): Promise<JupiterQuoteResponse> {
+        const recorded = this.fixture.executableQuotes?.[quoteKey(params)];
+        if (recorded) return recorded;
+
+        const quote = await this.getSwapQuote(params);
+        if (!quote) throw new Error("Fixture has no quote for this swap");
+
+        const outputDecimals = requireTokenDecimals(params.outputMint, params.outputDecimals);
+        return {
+            inAmount: params.amount.units.toString(),
+            outAmount: TokenAmount.fromDecimal(quote.outputAmount, outputDecimals).units.toString(),
+            priceImpactPct: String(quote.priceImpact / 100),
+            routePlan: []
+        };
+    }
+
+    async buildSwapTransaction(): Promise<string> {
+        throw new Error("Swap transactions can't be built in replay");
+    }
+
+    async getFundingRate(): Promise<TimedValue<number>> {
+        return this.require(this.fixture.fundingRate, "funding rate");
+    }
+
+    async getTvlHistory(): Promise<TvlPoint[]> {
+        return this.require(this.fixture.tvlHistory, "TVL history");
+    }
+
+    async getUSD1Price(): Promise<TimedValue<number>> {
+        return this.require(this.fixture.usd1Price, "USD1 price");
+    }
+}
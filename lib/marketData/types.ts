@@ -0,0 +1,82 @@
+/**
+ * Market Data Types
+ * Everything the strategy stack reads from the outside world goes through a
+ * MarketDataProvider, so it can be served live or replayed from a fixture.
+ */
+
+import type { SwapParams, SwapQuote } from "../protocols/types.js";
+
+/** Raw DexScreener pair object (only the fields we read are typed) */
+export interface DexPair {
+    baseToken?: { address?: string; symbol?: string; name?: string };
+    priceUsd?: string | number;
+    priceChange?: { h24?: number };
+    volume?: { h24?: number };
+    liquidity?: { usd?: number };
+    fdv?: number;
+    pairCreatedAt?: number;
+    [key: string]: unknown;
+}
+
+export interface TimedValue<T> {
+    value: T;
+    asOf?: number;   // Timestamp of the data point (ms), when the source reports one
+}
+
+/** Raw Jupiter quote response (only the fields we read are typed); swaps are built from it as-is */
+export interface JupiterQuoteResponse {
+    inAmount: string;
+    outAmount: string;
+    priceImpactPct: string;
+    [key: string]: unknown;
+}
+
+export interface TvlPoint {
+    date: number;    // Unix seconds (DefiLlama)
+    tvl: number;
+}
+
+export interface MarketDataProvider {
+    readonly name: string;
+    /** Clock for freshness and age checks; replay pins it to the recording time */
+    now(): number;
+    /** Hourly SOL closes in USD, oldest first (7 days) */
+    getSolPriceHistory(): Promise<TimedValue<number[]>>;
+    /** Top Solana pairs from DexScreener */
+    getSolanaPairs(): Promise<DexPair[]>;
+    /** All DexScreener pairs for one token */
+    getTokenPairs(address: string): Promise<DexPair[]>;
+    /** USD prices; mints without a positive price are omitted */
+    getTokenPrices(mints: string[]): Promise<Record<string, number>>;
+    /** Jupiter quote; null when no route/quote is available, throws on transport errors */
+    getSwapQuote(params: SwapParams): Promise<SwapQuote | null>;
+    /** Raw Jupiter quote to execute; throws when no quote is available */
+    getExecutableQuote(params: SwapParams): Promise<JupiterQuoteResponse>;
+    /** Unsigned swap transaction (base64) for an executable quote, paid by `userPublicKey` */
+    buildSwapTransaction(quote: JupiterQuoteResponse, userPublicKey: string): Promise<string>;
+    /** SOL perp funding per 8h, in % */
+    getFundingRate(): Promise<TimedValue<number>>;
+    /** Daily Solana DeFi TVL, oldest first */
+    getTvlHistory(): Promise<TvlPoint[]>;
+    getUSD1Price(): Promise<TimedValue<number>>;
+}
+
+/**
+ * Recorded provider responses (MARKET_DATA_FIXTURE_PATH). Written by the
+ * recording provider, read by the replay provider.
+ */
+export interface MarketDataFixture {
+    recordedAt: number;
+    solPriceHistory?: TimedValue<number[]>;
+    solanaPairs?: DexPair[];
+    tokenPairs?: Record<string, DexPair[]>;
+    tokenPrices?: Record<string, number>;
+    quotes?: Record<string, SwapQuote>;   // Keyed by quoteKey()
+    executableQuotes?: Record<string, JupiterQuoteResponse>;   // Keyed by quoteKey()
+    fundingRate?: TimedValue<number>;
+    tvlHistory?: TvlPoint[];
+    usd1Price?: TimedValue<number>;
+}
+
+export const quoteKey = (params: SwapParams) =>
+    `${params.inputMint}:${params.outputMint}:${params.amount}`;
@@ -0,0 +1,213 @@
+/**
+ * Fixed-Point Token Amounts
+ * Amounts held as bigint base units with the token's decimals, so conversions to and
+ * from on-chain units are exact and every rounding step is explicit. Decimal input is
+ * parsed from its shortest string form (0.29 is 290000 USD1 units, not 289999).
+ */
+
+export type Rounding = "floor" | "ceil" | "round";
+
+export const USD1_DECIMALS = 6;
+
+const MAX_DECIMALS = 18;
+
+const pow10 = (n: number): bigint => 10n ** BigInt(n);
+
+/** a / b (b > 0) under a rounding mode; "round" is half away from zero */
+function divide(a: bigint, b: bigint, rounding: Rounding): bigint {
+    const q = a / b;
+    const r = a % b;
+    if (r === 0n) return q;
+    const sign = a < 0n ? -1n : 1n;
+    switch (rounding) {
+        case "floor":
+            return sign < 0n ? q - 1n : q;
+        case "ceil":
+            return sign > 0n ? q + 1n : q;
+        default:
+            return 2n * (r < 0n ? -r : r) >= b ? q + sign : q;
+    }
+}
+
+/**
+ * A decimal number as digits × 10^exponent, parsed from its shortest string form
+ * (exponent notation included)
+ */
+function parseDecimal(value: number | string): { digits: bigint; exponent: number } {
+    if (typeof value === "number" && !Number.isFinite(value)) {
+        throw new Error("Invalid amount");
+    }
+    const match = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(String(value).trim());
+    if (!match || (!match[2] && !match[3])) {
+        throw new Error("Invalid amount");
+    }
+    const [, sign, whole = "", fraction = "", exp = "0"] = match;
+    const digits = BigInt(`${whole}${fraction}` || "0");
+    return { digits: sign === "-" ? -digits : digits, exponent: Number(exp) - fraction.length };
+}
+
+/** digits × 10^exponent in whole units, rounded */
+function toInteger(digits: bigint, exponent: number, rounding: Rounding): bigint {
+    return exponent >= 0 ? digits * pow10(exponent) : divide(digits, pow10(-exponent), rounding);
+}
+
+export class TokenAmount {
+    private constructor(readonly units: bigint, readonly decimals: number) { }
+
+    private static checkDecimals(decimals: number): number {
+        if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+            throw new Error(`Invalid token decimals: ${decimals}`);
+        }
+        return decimals;
+    }
+
+    /** From base units (lamports, USD1 micro-units, ...) */
+    static fromUnits(units: bigint | number | string, decimals: number): TokenAmount {
+        if (typeof units === "number" && !Number.isSafeInteger(units)) {
+            throw new Error("Base units must be a safe integer");
+        }
+        return new TokenAmount(BigInt(units), TokenAmount.checkDecimals(decimals));
+    }
+
+    /** From a display amount, rounded to the token's precision (down by default) */
+    static fromDecimal(value: number | string, decimals: number, rounding: Rounding = "floor"): TokenAmount {
+        const { digits, exponent } = parseDecimal(value);
+        return new TokenAmount(toInteger(digits, exponent + TokenAmount.checkDecimals(decimals), rounding), decimals);
+    }
+
+    static zero(decimals: number): TokenAmount {
+        return new TokenAmount(0n, TokenAmount.checkDecimals(decimals));
+    }
+
+    private same(other: TokenAmount): void {
+        if (other.decimals !== this.decimals) {
+            throw new Error(`Cannot combine amounts with ${this.decimals} and ${other.decimals} decimals`);
+        }
+    }
+
+    add(other: TokenAmount): TokenAmount {
+        this.same(other);
+        return new TokenAmount(this.units + other.units, this.decimals);
+    }
+
+    sub(other: TokenAmount): TokenAmount {
+        this.same(other);
+        return new TokenAmount(this.units - other.units, this.decimals);
+    }
+
+    /** -1, 0 or 1 */
+    compare(other: TokenAmount): number {
+        this.same(other);
+        return this.units < other.units ? -1 : this.units > other.units ? 1 : 0;
+    }
+
+    min(other: TokenAmount): TokenAmount {
+        return this.compare(other) <= 0 ? this : other;
+    }
+
+    isZero(): boolean {
+        return this.units === 0n;
+    }
+
+    isPositive(): boolean {
+        return this.units > 0n;
+    }
+
+    /** Multiply by a decimal factor, rounded back to whole base units */
+    scale(factor: number | string, rounding: Rounding = "floor"): TokenAmount {
+        const { digits, exponent } = parseDecimal(factor);
+        return new TokenAmount(toInteger(this.units * digits, exponent, rounding), this.decimals);
+    }
+
+    /** `percent`% of this amount (0.5 → half a percent) */
+    percent(percent: number | string, rounding: Rounding = "floor"): TokenAmount {
+        const { digits, exponent } = parseDecimal(percent);
+        return new TokenAmount(toInteger(this.units * digits, exponent - 2, rounding), this.decimals);
+    }
+
+    /** Split into `parts` amounts that differ by at most one unit and sum to this one exactly */
+    split(parts: number): TokenAmount[] {
+        if (!Number.isInteger(parts) || parts < 1) {
+            throw new Error("Parts must be a positive integer");
+        }
+        const count = BigInt(parts);
+        const base = this.units / count;
+        const remainder = this.units % count;
+        return Array.from({ length: parts }, (_, i) =>
+            new TokenAmount(base + (BigInt(i) < remainder ? 1n : 0n), this.decimals));
+    }
+
+    /** The same amount at another precision (rounded down when precision is lost) */
+    withDecimals(decimals: number, rounding: Rounding = "floor"): TokenAmount {
+        return new TokenAmount(
+            toInteger(this.units, TokenAmount.checkDecimals(decimals) - this.decimals, rounding),
+            decimals
+        );
+    }
+
+    /** Base units as a number, for SDKs that take one; throws past 2^53 */
+    toUnitsNumber(): number {
+        const units = Number(this.units);
+        if (!Number.isSafeInteger(units)) {
+            throw new Error("Amount exceeds safe integer precision");
+        }
+        return units;
+    }
+
+    /** Display amount as a number (may lose precision past 15-16 significant digits) */
+    toNumber(): number {
+        return Number(this.toString());
+    }
+
+    private parts(): { sign: string; whole: string; fraction: string } {
+        const negative = this.units < 0n;
+        const digits = (negative ? -this.units : this.units).toString().padStart(this.decimals + 1, "0");
+        const point = digits.length - this.decimals;
+        return { sign: negative ? "-" : "", whole: digits.slice(0, point), fraction: digits.slice(point) };
+    }
+
+    /** Exact display amount, without trailing zeros */
+    toString(): string {
+        const { sign, whole, fraction } = this.parts();
+        const trimmed = fraction.replace(/0+$/, "");
+        return `${sign}${whole}${trimmed ? `.${trimmed}` : ""}`;
+    }
+
+    /** Display amount with exactly the token's decimals */
+    toFixed(): string {
+        const { sign, whole, fraction } = this.parts();
+        return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+    }
+}
+
+/**
+ * How much of a token `value` buys at `price` (value per whole token), at the token's
+ * decimals. Worked out at the finer of the two precisions, then rounded once.
+ */
+export function quantityAt(value: TokenAmount, price: number, decimals: number, rounding: Rounding = "floor"): TokenAmount {
+    if (!(price > 0)) {
+        throw new Error("Price must be positive");
+    }
+    return value
+        .withDecimals(Math.max(value.decimals, decimals))
+        .scale(1 / price, rounding)
+        .withDecimals(decimals, rounding);
+}
+
+/** USD1 (and other dollar stablecoin) amounts */
+export type Money = TokenAmount;
+
+export const usd1 = (value: number | string, rounding: Rounding = "floor"): Money =>
+    TokenAmount.fromDecimal(value, USD1_DECIMALS, rounding);
+
+/** An amount as JSON records carry it (positions, memos): base units as a string, with their decimals */
+export interface UnitsAmount {
+    units: string;
+    decimals: number;
+}
+
+export const unitsOf = (amount: TokenAmount): UnitsAmount =>
+    ({ units: amount.units.toString(), decimals: amount.decimals });
+
+export const amountOf = (record: UnitsAmount): TokenAmount =>
+    TokenAmount.fromUnits(record.units, record.decimals);
@@ -4,67 +4,125 @@
  * Stores position data on-chain using Solana's Memo Program.
  * Positions are fully decentralized and permanent - no database needed.
  * 
- * Memo format: SHADOWFUND|{vault}|{action}|{token}|{amount}|{price}|{timestamp}
+ * Memos are written encrypted (v3) under the wallet owner's memo key, which the
+ * request must carry; only demo mode writes the plaintext binary v2 format. Legacy
+ * v1 text memos are still read (positionMemoCodec.ts). Encrypted memos are only
+ * readable with that key.
+ * History is read through the per-wallet memo index (positionMemoIndex.ts).
  */
 
+import { randomUUID } from 'crypto';
 import { Connection, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
 import { MEMO_PROGRAM_ID } from '@solana/spl-memo';
 import { logger } from './logger.js';
+import { amountOf, TokenAmount, unitsOf } from './money.js';
+import { getMemoKey, getRuntimeMode } from './runtimeMode.js';
+import { decodePositionMemo, encodePositionMemoV2, encryptPositionMemo, V3_PREFIX } from './positionMemoCodec.js';
+import { extractPositionMemoTexts, indexPositionMemos, MemoIndexEntry } from './positionMemoIndex.js';
+
+export { extractPositionMemoTexts };
 
-const MEMO_PREFIX = 'SHADOWFUND';
 const log = (msg: string) => logger.info(msg, 'PositionMemo');
 
 // In-memory memo cache (serverless instance lifetime).
 // This avoids re-scanning the same wallet multiple times per request (yield + growth + degen),
 // which can easily trip public RPC rate limits (429).
 const MEMO_CACHE_TTL_MS = Number(process.env.POSITION_MEMO_CACHE_TTL_MS) || 120_000;
-const DEFAULT_MEMO_SIGNATURE_LIMIT =
-    Number(process.env.POSITION_MEMO_SIGNATURE_LIMIT) || 60;
 type MemoCacheEntry =
-    | { fetchedAt: number; memos: PositionMemo[] }
-    | { fetchedAt: number; inflight: Promise<PositionMemo[]> };
+    | { fetchedAt: number; index: MemoIndexEntry }
+    | { fetchedAt: number; inflight: Promise<MemoIndexEntry> };
 const memoCache: Map<string, MemoCacheEntry> = new Map();
 
+/**
+ * Raised when the request carries no memo key to write new memos with, or, once a
+ * wallet's memo history holds encrypted memos, no key that opens them, so its
+ * positions can neither be reconstructed nor extended with new memos yet
+ */
+export class MemoKeyRequiredError extends Error {
+    constructor(readonly encryptedMemos: number) {
+        super(encryptedMemos > 0
+            ? 'Memo key required: this wallet has encrypted position memos'
+            : 'Memo key required: position memos are written encrypted');
+        this.name = 'MemoKeyRequiredError';
+    }
+}
+
+/**
+ * Raised when the backfill of a wallet's memo history has not reached its first
+ * transaction yet, so replaying it would miss older positions
+ */
+export class MemoIndexIncompleteError extends Error {
+    constructor() {
+        super('Position memo history is still being indexed');
+        this.name = 'MemoIndexIncompleteError';
+    }
+}
+
 // Position data stored in memo
 export interface PositionMemo {
     vault: 'growth' | 'degen' | 'yield' | 'rwa';
     action: 'open' | 'close' | 'add' | 'reduce';
     tokenSymbol: string;
     tokenMint: string;
-    amount: number;
+    units: string;          // Token amount in base units
+    decimals: number;       // Mint decimals
     priceUSD: number;
     timestamp: number;
     signature?: string;
+    operationId?: string;   // UUID shared by the memos of one operation (v2 only)
 }
 
 // Reconstructed position from memos
 export interface ReconstructedPosition {
     tokenMint: string;
     tokenSymbol: string;
-    amount: number;
+    units: string;       // Base units
+    decimals: number;
     entryPrice: number;  // Weighted average
     totalCost: number;
     openedAt: number;
 }
 
 /**
- * Create a memo instruction for a position action
+ * The key a wallet's new memos are written under. Without a key, writing is refused
+ * rather than downgraded to plaintext, except in demo mode, which writes v2 (undefined)
+ * for wallets with no encrypted history. Once a wallet's history holds encrypted memos,
+ * writing is refused without a key that opens them, so its history never mixes v2 into
+ * v3 or two different keys.
  */
-export function createPositionMemoInstruction(
+async function memoWriteKey(
+    connection: Connection,
+    wallet: PublicKey,
+    memoKey: Buffer | undefined
+): Promise<Buffer | undefined> {
+    const index = await fetchAllPositionMemos(connection, wallet.toBase58());
+    if (!index.complete) {
+        throw new MemoIndexIncompleteError();
+    }
+
+    const encrypted = index.memos.filter(m => m.text.startsWith(V3_PREFIX));
+    if (!memoKey && (encrypted.length > 0 || getRuntimeMode() !== 'demo')) {
+        throw new MemoKeyRequiredError(encrypted.length);
+    }
+    if (encrypted.length === 0) return memoKey;
+
+    if (!memoKey || !encrypted.some(m => decodePositionMemo(m.text, m.signature, memoKey))) {
+        throw new MemoKeyRequiredError(encrypted.length);
+    }
+    return memoKey;
+}
+
+function memoInstruction(
     wallet: PublicKey,
     data: Omit<PositionMemo, 'signature'>,
-    requireSigner: boolean = true
+    requireSigner: boolean,
+    memoKey: Buffer | undefined
 ): TransactionInstruction {
-    const memoString = [
-        MEMO_PREFIX,
-        data.vault,
-        data.action,
-        data.tokenSymbol,
-        data.tokenMint,
-        data.amount.toFixed(8),
-        data.priceUSD.toFixed(6),
-        data.timestamp.toString()
-    ].join('|');
+    const memo = {
+        ...data,
+        operationId: data.operationId || randomUUID()
+    };
+    const memoString = memoKey ? encryptPositionMemo(memo, memoKey) : encodePositionMemoV2(memo);
 
     return new TransactionInstruction({
         programId: MEMO_PROGRAM_ID,
@@ -79,22 +137,50 @@ export function createPositionMemoInstruction(
     });
 }
 
+/**
+ * Throw MemoKeyRequiredError when the wallet's new memos could not be written with
+ * the memo key (by default the request's). Check this before moving funds.
+ */
+export async function assertPositionMemosWritable(
+    connection: Connection,
+    walletAddress: string,
+    memoKey: Buffer | undefined = getMemoKey()
+): Promise<void> {
+    await memoWriteKey(connection, new PublicKey(walletAddress), memoKey);
+}
+
+/**
+ * Create a memo instruction for a position action: v3 under the memo key (by default
+ * the request's), v2 only in demo mode. Without an operation id the memo gets one of
+ * its own.
+ */
+export async function createPositionMemoInstruction(
+    connection: Connection,
+    wallet: PublicKey,
+    data: Omit<PositionMemo, 'signature'>,
+    requireSigner: boolean = true,
+    memoKey: Buffer | undefined = getMemoKey()
+): Promise<TransactionInstruction> {
+    return memoInstruction(wallet, data, requireSigner, await memoWriteKey(connection, wallet, memoKey));
+}
+
 /**
  * Add position memo to an existing transaction
  */
-export function addPositionMemoToTransaction(
+export async function addPositionMemoToTransaction(
+    connection: Connection,
     transaction: Transaction,
     wallet: PublicKey,
     data: Omit<PositionMemo, 'signature'>,
     requireSigner: boolean = true
-): Transaction {
-    const memoIx = createPositionMemoInstruction(wallet, data, requireSigner);
-    transaction.add(memoIx);
+): Promise<Transaction> {
+    transaction.add(await createPositionMemoInstruction(connection, wallet, data, requireSigner));
     return transaction;
 }
 
 /**
- * Build a standalone memo transaction (useful for user-signed memo-only txs)
+ * Build a standalone memo transaction (useful for user-signed memo-only txs). Its
+ * memos share one operation id unless they carry their own.
  */
 export async function buildPositionMemoTransaction(
     connection: Connection,
@@ -103,9 +189,11 @@ export async function buildPositionMemoTransaction(
     requireSigner: boolean = true
 ): Promise<Transaction> {
     const transaction = new Transaction();
+    const operationId = randomUUID();
+    const memoKey = await memoWriteKey(connection, wallet, getMemoKey());
 
     for (const memo of memos) {
-        transaction.add(createPositionMemoInstruction(wallet, memo, requireSigner));
+        transaction.add(memoInstruction(wallet, { ...memo, operationId: memo.operationId || operationId }, requireSigner, memoKey));
     }
 
     const { blockhash } = await connection.getLatestBlockhash();
@@ -116,168 +204,109 @@ export async function buildPositionMemoTransaction(
 }
 
 /**
- * Parse a memo string back to PositionMemo
+ * Position memos carried by a transaction that decode under the memo key (by default
+ * the request's); encrypted memos for another key are skipped
  */
-function parseMemoString(memo: string, signature: string): PositionMemo | null {
-    try {
-        const parts = memo.split('|');
-        if (parts.length < 8 || parts[0] !== MEMO_PREFIX) {
-            return null;
-        }
-
-        return {
-            vault: parts[1] as 'growth' | 'degen' | 'yield',
-            action: parts[2] as 'open' | 'close' | 'add' | 'reduce',
-            tokenSymbol: parts[3],
-            tokenMint: parts[4],
-            amount: parseFloat(parts[5]),
-            priceUSD: parseFloat(parts[6]),
-            timestamp: parseInt(parts[7]),
-            signature
-        };
-    } catch {
-        return null;
-    }
-}
-
-async function rpcWithBackoff<T>(
-    fn: () => Promise<T>,
-    retries: number = 5,
-    delayMs: number = 500
-): Promise<T> {
-    try {
-        return await fn();
-    } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        const isRateLimit =
-            message.includes("429") ||
-            message.toLowerCase().includes("too many requests") ||
-            message.toLowerCase().includes("rate limit");
-
-        if (!isRateLimit || retries <= 0) {
-            throw error;
-        }
-
-        // Exponential backoff with small jitter
-        const jitter = Math.floor(Math.random() * 150);
-        const sleep = delayMs + jitter;
-        await new Promise((r) => setTimeout(r, sleep));
-        return rpcWithBackoff(fn, retries - 1, Math.min(delayMs * 2, 8_000));
-    }
+export function extractPositionMemos(
+    logMessages: string[],
+    signature: string,
+    memoKey: Buffer | undefined = getMemoKey()
+): PositionMemo[] {
+    return extractPositionMemoTexts(logMessages)
+        .map(text => decodePositionMemo(text, signature, memoKey))
+        .filter((memo): memo is PositionMemo => memo !== null);
 }
 
-async function fetchAllPositionMemos(
-    connection: Connection,
-    wallet: string,
-    limit: number
-): Promise<PositionMemo[]> {
-    const cacheKey = `${wallet}:${limit}`;
-    const cached = memoCache.get(cacheKey);
+async function fetchAllPositionMemos(connection: Connection, wallet: string): Promise<MemoIndexEntry> {
+    const cached = memoCache.get(wallet);
     const now = Date.now();
     if (cached) {
-        if ("memos" in cached && now - cached.fetchedAt < MEMO_CACHE_TTL_MS) {
-            return cached.memos;
+        if ("index" in cached && now - cached.fetchedAt < MEMO_CACHE_TTL_MS) {
+            return cached.index;
         }
         if ("inflight" in cached) {
             return cached.inflight;
         }
     }
 
-    const previousMemos = cached && "memos" in cached ? cached.memos : undefined;
+    const previousIndex = cached && "index" in cached ? cached.index : undefined;
 
-    // De-dupe concurrent scans for the same wallet/limit within a warm serverless instance.
+    // De-dupe concurrent scans for the same wallet within a warm serverless instance.
     // Without this, getVaultStats() triggers three parallel scans (yield + growth + degen),
     // which often trips public RPC 429 limits.
-    const inflight = (async () => {
-        const walletPubkey = new PublicKey(wallet);
-
-        // Get recent transaction signatures for this wallet
-        const signatures = await rpcWithBackoff(() =>
-            connection.getSignaturesForAddress(walletPubkey, { limit })
-        );
-
-        if (signatures.length === 0) {
-            return [];
-        }
-
-        const memos: PositionMemo[] = [];
-
-        // Fetch transactions in batches
-        const batchSize = 20;
-        for (let i = 0; i < signatures.length; i += batchSize) {
-            const batch = signatures.slice(i, i + batchSize);
-            const txs = await rpcWithBackoff(() =>
-                connection.getParsedTransactions(
-                    batch.map((s) => s.signature),
-                    { maxSupportedTransactionVersion: 0 }
-                )
-            );
-
-            for (let j = 0; j < txs.length; j++) {
-                const tx = txs[j];
-                if (!tx?.meta?.logMessages) continue;
-
-                for (const logMsg of tx.meta.logMessages) {
-                    if (logMsg.includes('Program log: Memo') || logMsg.includes(MEMO_PREFIX)) {
-                        const memoMatch = logMsg.match(/Memo \(len \d+\): "(.+)"/);
-                        if (memoMatch) {
-                            const parsed = parseMemoString(memoMatch[1], batch[j].signature);
-                            if (parsed) memos.push(parsed);
-                        }
-                        if (logMsg.includes(MEMO_PREFIX)) {
-                            const parsed = parseMemoString(logMsg, batch[j].signature);
-                            if (parsed) memos.push(parsed);
-                        }
-                    }
-                }
-            }
-        }
+    const inflight = indexPositionMemos(connection, wallet);
 
-        return memos.sort((a, b) => a.timestamp - b.timestamp);
-    })();
-
-    memoCache.set(cacheKey, { fetchedAt: now, inflight });
+    memoCache.set(wallet, { fetchedAt: now, inflight });
 
     try {
-        const memos = await inflight;
-        memoCache.set(cacheKey, { fetchedAt: Date.now(), memos });
-        return memos;
+        const index = await inflight;
+        memoCache.set(wallet, { fetchedAt: Date.now(), index });
+        return index;
     } catch (error) {
         // If we're rate-limited, fall back to the last cached memos (stale but useful)
         // instead of zeroing out the user's positions.
-        if (previousMemos) {
+        if (previousIndex) {
             logger.warn("RPC limited while scanning memos; using cached results", "PositionMemo");
-            memoCache.set(cacheKey, { fetchedAt: Date.now(), memos: previousMemos });
-            return previousMemos;
+            memoCache.set(wallet, { fetchedAt: Date.now(), index: previousIndex });
+            return previousIndex;
         }
 
-        memoCache.delete(cacheKey);
+        memoCache.delete(wallet);
         throw error;
     }
 }
 
+export interface PositionMemoScan {
+    memos: PositionMemo[];      // Oldest first
+    unreadable: number;         // Encrypted memos the key could not open (any vault)
+    complete: boolean;          // The whole history was indexed and read
+}
+
 /**
- * Query all position memos for a wallet from the blockchain
+ * Scan a wallet's position memos, decoding them under the memo key (by default the
+ * request's). Encrypted memos that do not open are counted, never guessed at.
  */
-export async function queryPositionMemos(
+export async function scanPositionMemos(
     connection: Connection,
     wallet: string,
     vault?: 'growth' | 'degen' | 'yield' | 'rwa',
-    limit: number = DEFAULT_MEMO_SIGNATURE_LIMIT
-): Promise<PositionMemo[]> {
+    memoKey: Buffer | undefined = getMemoKey()
+): Promise<PositionMemoScan> {
     try {
         log('Querying position memos from blockchain');
-        const memos = await fetchAllPositionMemos(connection, wallet, limit);
-        const filtered = vault ? memos.filter((m) => m.vault === vault) : memos;
+        const index = await fetchAllPositionMemos(connection, wallet);
+
+        const memos: PositionMemo[] = [];
+        let unreadable = 0;
+        for (const { text, signature } of index.memos) {
+            const memo = decodePositionMemo(text, signature, memoKey);
+            if (memo) memos.push(memo);
+            else if (text.startsWith(V3_PREFIX)) unreadable++;
+        }
+
+        const filtered = (vault ? memos.filter((m) => m.vault === vault) : memos)
+            .sort((a, b) => a.timestamp - b.timestamp);
         log(`Found ${filtered.length} position memos`);
-        return filtered;
+        return { memos: filtered, unreadable, complete: index.complete };
 
     } catch (error) {
         logger.error('Failed to query position memos', 'PositionMemo');
-        return [];
+        return { memos: [], unreadable: 0, complete: false };
     }
 }
 
+/**
+ * Query all readable position memos for a wallet from the blockchain
+ */
+export async function queryPositionMemos(
+    connection: Connection,
+    wallet: string,
+    vault?: 'growth' | 'degen' | 'yield' | 'rwa',
+    memoKey: Buffer | undefined = getMemoKey()
+): Promise<PositionMemo[]> {
+    return (await scanPositionMemos(connection, wallet, vault, memoKey)).memos;
+}
+
 /**
  * Reconstruct current positions from memo history
  * 
@@ -287,15 +316,22 @@ export async function queryPositionMemos(
 export async function reconstructPositions(
     connection: Connection,
     wallet: string,
-    vault: 'growth' | 'degen' | 'yield' | 'rwa'
+    vault: 'growth' | 'degen' | 'yield' | 'rwa',
+    memoKey: Buffer | undefined = getMemoKey()
 ): Promise<ReconstructedPosition[]> {
     log(`Reconstructing ${vault} positions from on-chain memos`);
 
-    const memos = await queryPositionMemos(connection, wallet, vault);
+    const { memos, unreadable, complete } = await scanPositionMemos(connection, wallet, vault, memoKey);
+    if (!complete) {
+        throw new MemoIndexIncompleteError();
+    }
+    if (unreadable > 0) {
+        throw new MemoKeyRequiredError(unreadable);
+    }
 
     // Track positions by token
     const positionMap = new Map<string, {
-        amount: number;
+        amount: TokenAmount;
         totalCost: number;
         symbol: string;
         openedAt: number;
@@ -304,18 +340,19 @@ export async function reconstructPositions(
     for (const memo of memos) {
         const key = memo.tokenMint;
         const existing = positionMap.get(key) || {
-            amount: 0,
+            amount: TokenAmount.zero(memo.decimals),
             totalCost: 0,
             symbol: memo.tokenSymbol,
             openedAt: memo.timestamp
         };
+        const amount = amountOf(memo).withDecimals(existing.amount.decimals);
 
         switch (memo.action) {
             case 'open':
             case 'add':
                 // Add to position
-                existing.amount += memo.amount;
-                existing.totalCost += memo.amount * memo.priceUSD;
+                existing.amount = existing.amount.add(amount);
+                existing.totalCost += amount.toNumber() * memo.priceUSD;
                 if (!positionMap.has(key)) {
                     existing.openedAt = memo.timestamp;
                 }
@@ -323,15 +360,16 @@ export async function reconstructPositions(
 
             case 'close':
                 // Close entire position
-                existing.amount = 0;
+                existing.amount = TokenAmount.zero(existing.amount.decimals);
                 existing.totalCost = 0;
                 break;
 
             case 'reduce':
                 // Reduce position proportionally
-                if (existing.amount > 0) {
-                    const reducePercent = memo.amount / existing.amount;
-                    existing.amount -= memo.amount;
+                if (existing.amount.isPositive()) {
+                    const reduced = amount.min(existing.amount);
+                    const reducePercent = reduced.toNumber() / existing.amount.toNumber();
+                    existing.amount = existing.amount.sub(reduced);
                     existing.totalCost -= existing.totalCost * reducePercent;
                 }
                 break;
@@ -343,12 +381,12 @@ export async function reconstructPositions(
     // Convert to array, filter out closed positions
     const positions: ReconstructedPosition[] = [];
     for (const [mint, data] of positionMap) {
-        if (data.amount > 0.000001) {
+        if (data.amount.isPositive()) {
             positions.push({
                 tokenMint: mint,
                 tokenSymbol: data.symbol,
-                amount: data.amount,
-                entryPrice: data.totalCost / data.amount,
+                ...unitsOf(data.amount),
+                entryPrice: data.totalCost / data.amount.toNumber(),
                 totalCost: data.totalCost,
                 openedAt: data.openedAt
             });
@@ -366,8 +404,8 @@ export async function hasPositionHistory(
     connection: Connection,
     wallet: string
 ): Promise<boolean> {
-    const memos = await queryPositionMemos(connection, wallet, undefined, 10);
-    return memos.length > 0;
+    const { memos, unreadable } = await scanPositionMemos(connection, wallet);
+    return memos.length > 0 || unreadable > 0;
 }
 
 /**
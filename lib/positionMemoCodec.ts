@@ -0,0 +1,229 @@
+/**
+ * Position Memo Codec
+ * Text encodings of a PositionMemo, by version:
+ *
+ * v1 (legacy, read only): SHADOWFUND|{vault}|{action}|{symbol}|{mint}|{amount}|{price}|{timestamp}
+ *
+ * v2: "SF2:" + base64url of
+ *   version u8 (2) | vault << 4 | action | operation id (16 bytes) | mint (32 bytes) |
+ *   decimals u8 | amount (base units) | price (pico-USD) | timestamp (ms) |
+ *   symbol length u8 | symbol (UTF-8) | checksum (first 4 bytes of SHA-256 of all before it)
+ * with amount, price and timestamp as unsigned LEB128 varints.
+ *
+ * v3 (encrypted): "SF3:" + base64url of
+ *   version u8 (3) | nonce (12 bytes) | AES-256-GCM ciphertext of the v2 bytes | tag (16 bytes)
+ * under the wallet owner's memo key (utils/memoKey.ts), with the version byte as
+ * associated data. Without the key a v3 memo reveals nothing but its length.
+ *
+ * A memo that fails its checksum, tag or length checks is dropped, never half-read.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { TokenAmount } from './money.js';
+import { getRADRDecimals, getTokenDecimals } from './protocols/types.js';
+import type { PositionMemo } from './positionMemo.js';
+
+export const V1_PREFIX = 'SHADOWFUND';
+export const V2_PREFIX = 'SF2:';
+export const V3_PREFIX = 'SF3:';
+
+const V2 = 2;
+const V3 = 3;
+const NONCE_BYTES = 12;
+const TAG_BYTES = 16;
+const VAULTS: PositionMemo['vault'][] = ['growth', 'degen', 'yield', 'rwa'];
+const ACTIONS: PositionMemo['action'][] = ['open', 'close', 'add', 'reduce'];
+
+/** Prices are stored in pico-USD, so sub-cent meme tokens keep their precision */
+const PRICE_DECIMALS = 12;
+const CHECKSUM_BYTES = 4;
+const MAX_SYMBOL_BYTES = 255;
+
+export type EncodablePositionMemo = Omit<PositionMemo, 'signature'> & { operationId: string };
+
+const checksum = (bytes: Uint8Array): Buffer =>
+    createHash('sha256').update(bytes).digest().subarray(0, CHECKSUM_BYTES);
+
+function writeVarint(value: bigint, out: number[]): void {
+    if (value < 0n) throw new Error('Memo values must not be negative');
+    do {
+        const byte = Number(value & 0x7fn);
+        value >>= 7n;
+        out.push(value > 0n ? byte | 0x80 : byte);
+    } while (value > 0n);
+}
+
+/** Reads sequentially through a payload; any read past the end throws */
+class Reader {
+    private offset = 0;
+
+    constructor(private readonly bytes: Buffer) { }
+
+    get done(): boolean {
+        return this.offset === this.bytes.length;
+    }
+
+    take(length: number): Buffer {
+        if (this.offset + length > this.bytes.length) throw new Error('Truncated memo');
+        const slice = this.bytes.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return slice;
+    }
+
+    u8(): number {
+        return this.take(1)[0];
+    }
+
+    varint(): bigint {
+        let value = 0n;
+        for (let shift = 0n; shift < 128n; shift += 7n) {
+            const byte = this.u8();
+            value |= BigInt(byte & 0x7f) << shift;
+            if ((byte & 0x80) === 0) return value;
+        }
+        throw new Error('Varint too long');
+    }
+}
+
+function uuidBytes(id: string): Buffer {
+    const hex = id.replace(/-/g, '');
+    if (!/^[0-9a-f]{32}$/i.test(hex)) throw new Error('Operation id must be a UUID');
+    return Buffer.from(hex, 'hex');
+}
+
+function uuidString(bytes: Buffer): string {
+    const hex = bytes.toString('hex');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function encodeV2Bytes(memo: EncodablePositionMemo): Buffer {
+    const vault = VAULTS.indexOf(memo.vault);
+    const action = ACTIONS.indexOf(memo.action);
+    if (vault < 0 || action < 0) throw new Error('Unknown memo vault or action');
+
+    const symbol = Buffer.from(memo.tokenSymbol, 'utf8');
+    if (symbol.length > MAX_SYMBOL_BYTES) throw new Error('Token symbol too long for a memo');
+
+    const bytes: number[] = [V2, (vault << 4) | action];
+    bytes.push(...uuidBytes(memo.operationId));
+    bytes.push(...new PublicKey(memo.tokenMint).toBytes());
+    bytes.push(memo.decimals);
+    writeVarint(BigInt(memo.units), bytes);
+    writeVarint(TokenAmount.fromDecimal(memo.priceUSD, PRICE_DECIMALS, 'round').units, bytes);
+    writeVarint(BigInt(Math.floor(memo.timestamp)), bytes);
+    bytes.push(symbol.length, ...symbol);
+
+    const payload = Buffer.from(bytes);
+    return Buffer.concat([payload, checksum(payload)]);
+}
+
+/**
+ * Encode a memo as v2 text
+ */
+export function encodePositionMemoV2(memo: EncodablePositionMemo): string {
+    return V2_PREFIX + encodeV2Bytes(memo).toString('base64url');
+}
+
+/**
+ * Encode a memo as v3 text, encrypted under a 32-byte memo key
+ */
+export function encryptPositionMemo(memo: EncodablePositionMemo, key: Buffer): string {
+    const header = Buffer.from([V3]);
+    const nonce = randomBytes(NONCE_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', key, nonce);
+    cipher.setAAD(header);
+    const ciphertext = Buffer.concat([cipher.update(encodeV2Bytes(memo)), cipher.final()]);
+    return V3_PREFIX + Buffer.concat([header, nonce, ciphertext, cipher.getAuthTag()]).toString('base64url');
+}
+
+function decodeV2Bytes(raw: Buffer, signature: string): PositionMemo | null {
+    try {
+        if (raw.length <= CHECKSUM_BYTES) return null;
+
+        const payload = raw.subarray(0, raw.length - CHECKSUM_BYTES);
+        if (!checksum(payload).equals(raw.subarray(raw.length - CHECKSUM_BYTES))) return null;
+
+        const reader = new Reader(payload);
+        if (reader.u8() !== V2) return null;
+
+        const kind = reader.u8();
+        const vault = VAULTS[kind >> 4];
+        const action = ACTIONS[kind & 0x0f];
+        if (!vault || !action) return null;
+
+        const operationId = uuidString(reader.take(16));
+        const tokenMint = new PublicKey(reader.take(32)).toBase58();
+        const decimals = reader.u8();
+        const units = reader.varint().toString();
+        const priceUSD = TokenAmount.fromUnits(reader.varint(), PRICE_DECIMALS).toNumber();
+        const timestamp = Number(reader.varint());
+        const tokenSymbol = reader.take(reader.u8()).toString('utf8');
+        if (!reader.done) return null;
+
+        return { vault, action, tokenSymbol, tokenMint, units, decimals, priceUSD, timestamp, signature, operationId };
+    } catch {
+        return null;
+    }
+}
+
+function decryptV3(text: string, signature: string, key: Buffer): PositionMemo | null {
+    try {
+        const raw = Buffer.from(text.slice(V3_PREFIX.length), 'base64url');
+        if (raw.length <= 1 + NONCE_BYTES + TAG_BYTES || raw[0] !== V3) return null;
+
+        const decipher = createDecipheriv('aes-256-gcm', key, raw.subarray(1, 1 + NONCE_BYTES));
+        decipher.setAAD(raw.subarray(0, 1));
+        decipher.setAuthTag(raw.subarray(raw.length - TAG_BYTES));
+        const plain = Buffer.concat([
+            decipher.update(raw.subarray(1 + NONCE_BYTES, raw.length - TAG_BYTES)),
+            decipher.final()
+        ]);
+        return decodeV2Bytes(plain, signature);
+    } catch {
+        return null;    // Another key, or tampered
+    }
+}
+
+function decodeV1(text: string, signature: string): PositionMemo | null {
+    const parts = text.split('|');
+    if (parts.length < 8 || parts[0] !== V1_PREFIX) {
+        return null;
+    }
+
+    try {
+        // v1 carried no decimals; its amounts are read at the token's known precision
+        const decimals = getTokenDecimals(parts[4]) ?? getRADRDecimals(parts[3]);
+        return {
+            vault: parts[1] as PositionMemo['vault'],
+            action: parts[2] as PositionMemo['action'],
+            tokenSymbol: parts[3],
+            tokenMint: parts[4],
+            units: TokenAmount.fromDecimal(parts[5], decimals).units.toString(),
+            decimals,
+            priceUSD: parseFloat(parts[6]),
+            timestamp: parseInt(parts[7]),
+            signature
+        };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Whether memo text is a ShadowFund position memo of any version, readable or not
+ */
+export function isPositionMemoText(text: string): boolean {
+    return text.startsWith(V3_PREFIX) || text.startsWith(V2_PREFIX) || text.startsWith(V1_PREFIX);
+}
+
+/**
+ * Decode memo text of any supported version, or null when it is not a valid
+ * ShadowFund position memo. Encrypted memos need the owner's memo key.
+ */
+export function decodePositionMemo(text: string, signature: string, key?: Buffer): PositionMemo | null {
+    if (text.startsWith(V3_PREFIX)) return key ? decryptV3(text, signature, key) : null;
+    if (text.startsWith(V2_PREFIX)) return decodeV2Bytes(Buffer.from(text.slice(V2_PREFIX.length), 'base64url'), signature);
+    if (text.startsWith(V1_PREFIX)) return decodeV1(text, signature);
+    return null;
+}
@@ -0,0 +1,249 @@
+/**
+ * Position Memo Index
+ * Per-wallet index of position memo texts. The first scan pages back through the
+ * wallet's whole signature history; later scans only fetch signatures newer than
+ * the last one indexed. Only transactions whose signature info carries a ShadowFund
+ * memo are fetched. Memo texts are stored as found on chain (encrypted ones stay
+ * encrypted) and decoded per request. File backend survives cold starts when the
+ * path is on shared storage.
+ * Non-logging policy: no wallets, signatures or memo contents in logs.
+ */
+
+import { ConfirmedSignatureInfo, Connection, PublicKey } from "@solana/web3.js";
+import { config } from "./config.js";
+import { JsonFileDocument } from "./jsonFileStore.js";
+import { logger } from "./logger.js";
+import { isPositionMemoText, V1_PREFIX, V2_PREFIX, V3_PREFIX } from "./positionMemoCodec.js";
+
+const log = (msg: string) => logger.info(msg, "MemoIndex");
+
+/** Most signatures getSignaturesForAddress returns per call */
+const SIGNATURE_PAGE_SIZE = 1000;
+const TRANSACTION_BATCH_SIZE = 20;
+const MEMO_PREFIXES = [V1_PREFIX, V2_PREFIX, V3_PREFIX];
+
+// Memo texts as found on chain; decoding (and decryption) happens per request
+export interface RawMemo {
+    text: string;
+    signature: string;
+}
+
+export interface MemoIndexEntry {
+    newest: string | null;      // Newest signature indexed; later scans stop here
+    oldest: string | null;      // Oldest signature indexed; backfill resumes before it
+    complete: boolean;          // Backfill reached the wallet's first transaction
+    memos: RawMemo[];
+}
+
+export interface MemoIndexStore {
+    get(wallet: string): Promise<MemoIndexEntry | null>;
+    put(wallet: string, entry: MemoIndexEntry): Promise<void>;
+}
+
+export class InMemoryMemoIndexStore implements MemoIndexStore {
+    private entries: Map<string, MemoIndexEntry> = new Map();
+
+    async get(wallet: string): Promise<MemoIndexEntry | null> {
+        return this.entries.get(wallet) || null;
+    }
+
+    async put(wallet: string, entry: MemoIndexEntry): Promise<void> {
+        this.entries.set(wallet, entry);
+    }
+}
+
+export class JsonFileMemoIndexStore implements MemoIndexStore {
+    private readonly file: JsonFileDocument<{ version: number; wallets: Record<string, MemoIndexEntry> }>;
+
+    constructor(filePath: string) {
+        this.file = new JsonFileDocument(filePath, {
+            empty: () => ({ version: 1, wallets: {} }),
+            parse: parsed => ({ version: 1, wallets: parsed.wallets || {} }),
+            name: "Memo index",
+            context: "MemoIndex"
+        });
+    }
+
+    async get(wallet: string): Promise<MemoIndexEntry | null> {
+        return (await this.file.read()).wallets[wallet] || null;
+    }
+
+    async put(wallet: string, entry: MemoIndexEntry): Promise<void> {
+        await this.file.update(doc => {
+            doc.wallets[wallet] = entry;
+        });
+    }
+}
+
+let store: MemoIndexStore | null = null;
+
+/**
+ * Get the configured memo index store (lazy singleton)
+ */
+export function getMemoIndexStore(): MemoIndexStore {
+    if (!store) {
+        store = config.memoIndexStore === "memory"
+            ? new InMemoryMemoIndexStore()
+            : new JsonFileMemoIndexStore(config.memoIndexStorePath);
+    }
+    return store;
+}
+
+/**
+ * Override the memo index store (tests, custom backends)
+ */
+export function setMemoIndexStore(next: MemoIndexStore): void {
+    store = next;
+}
+
+/**
+ * Position memo texts carried by a transaction, read from its log messages,
+ * whether or not they can be decoded
+ */
+export function extractPositionMemoTexts(logMessages: string[]): string[] {
+    const texts: string[] = [];
+
+    for (const logMsg of logMessages) {
+        if (logMsg.includes("Program log: Memo") || MEMO_PREFIXES.some(p => logMsg.includes(p))) {
+            // Memo program logs quote the memo; anything else must be a bare memo
+            const memoMatch = logMsg.match(/Memo \(len \d+\): "(.+)"/);
+            const text = memoMatch ? memoMatch[1] : logMsg;
+            if (isPositionMemoText(text)) texts.push(text);
+        }
+    }
+
+    return texts;
+}
+
+export async function rpcWithBackoff<T>(
+    fn: () => Promise<T>,
+    retries: number = 5,
+    delayMs: number = 500
+): Promise<T> {
+    try {
+        return await fn();
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const isRateLimit =
+            message.includes("429") ||
+            message.toLowerCase().includes("too many requests") ||
+            message.toLowerCase().includes("rate limit");
+
+        if (!isRateLimit || retries <= 0) {
+            throw error;
+        }
+
+        // Exponential backoff with small jitter
+        const jitter = Math.floor(Math.random() * 150);
+        const sleep = delayMs + jitter;
+        await new Promise((r) => setTimeout(r, sleep));
+        return rpcWithBackoff(fn, retries - 1, Math.min(delayMs * 2, 8_000));
+    }
+}
+
+/**
+ * Page back from `before` (or the latest signature) until `until`, the end of the
+ * wallet's history, or `maxPages` pages; newest first
+ */
+async function pageSignatures(
+    connection: Connection,
+    wallet: PublicKey,
+    range: { before?: string; until?: string },
+    maxPages: number = Infinity
+): Promise<{ signatures: ConfirmedSignatureInfo[]; exhausted: boolean }> {
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before = range.before;
+
+    for (let pages = 0; pages < maxPages; pages++) {
+        const page = await rpcWithBackoff(() =>
+            connection.getSignaturesForAddress(wallet, { before, until: range.until, limit: SIGNATURE_PAGE_SIZE })
+        );
+        signatures.push(...page);
+        if (page.length < SIGNATURE_PAGE_SIZE) {
+            return { signatures, exhausted: true };
+        }
+        before = page[page.length - 1].signature;
+    }
+
+    return { signatures, exhausted: false };
+}
+
+/**
+ * Memo texts of the signatures whose memo field names a ShadowFund position memo
+ */
+async function fetchMemoTexts(connection: Connection, signatures: ConfirmedSignatureInfo[]): Promise<RawMemo[]> {
+    const carrying = signatures
+        .filter(s => s.memo && MEMO_PREFIXES.some(p => s.memo!.includes(p)))
+        .map(s => s.signature);
+    const memos: RawMemo[] = [];
+
+    for (let i = 0; i < carrying.length; i += TRANSACTION_BATCH_SIZE) {
+        const batch = carrying.slice(i, i + TRANSACTION_BATCH_SIZE);
+        const txs = await rpcWithBackoff(() =>
+            connection.getParsedTransactions(batch, { maxSupportedTransactionVersion: 0 })
+        );
+
+        txs.forEach((tx, j) => {
+            if (!tx?.meta?.logMessages) return;
+            memos.push(...extractPositionMemoTexts(tx.meta.logMessages).map(text => ({ text, signature: batch[j] })));
+        });
+    }
+
+    return memos;
+}
+
+/**
+ * Bring a wallet's memo index up to date and return its memo texts. Signatures newer
+ * than the last indexed one are always fetched in full; the backfill of older history
+ * pages through at most POSITION_MEMO_INDEX_MAX_PAGES pages per call and resumes on
+ * the next one.
+ */
+export async function indexPositionMemos(connection: Connection, wallet: string): Promise<MemoIndexEntry> {
+    const indexStore = getMemoIndexStore();
+    const walletPubkey = new PublicKey(wallet);
+    const stored = await indexStore.get(wallet);
+    const entry: MemoIndexEntry = stored
+        ? { ...stored, memos: [...stored.memos] }
+        : { newest: null, oldest: null, complete: false, memos: [] };
+    let changed = false;
+
+    const add = (found: RawMemo[]) => {
+        const known = new Set(entry.memos.map(m => `${m.signature}:${m.text}`));
+        entry.memos.push(...found.filter(m => !known.has(`${m.signature}:${m.text}`)));
+    };
+
+    if (entry.newest) {
+        const { signatures } = await pageSignatures(connection, walletPubkey, { until: entry.newest });
+        if (signatures.length > 0) {
+            add(await fetchMemoTexts(connection, signatures));
+            entry.newest = signatures[0].signature;
+            changed = true;
+        }
+    }
+
+    if (!entry.complete) {
+        const { signatures, exhausted } = await pageSignatures(
+            connection,
+            walletPubkey,
+            { before: entry.oldest || undefined },
+            config.memoIndexMaxPages
+        );
+        add(await fetchMemoTexts(connection, signatures));
+        if (signatures.length > 0) {
+            entry.newest = entry.newest || signatures[0].signature;
+            entry.oldest = signatures[signatures.length - 1].signature;
+        }
+        entry.complete = exhausted;
+        changed = true;
+
+        if (!exhausted) {
+            logger.warn("Memo history backfill incomplete, resuming on the next scan", "MemoIndex");
+        }
+    }
+
+    if (changed) {
+        await indexStore.put(wallet, entry);
+        log(`Indexed ${entry.memos.length} position memos`);
+    }
+    return entry;
+}
@@ -0,0 +1,118 @@
+/**
+ * JSON-File Position Repository
+ * Persists positions to a single JSON document on disk so balances survive
+ * process restarts and serverless cold starts (when the path is on shared storage).
+ * Each change re-reads the document under the file lock (see jsonFileStore.ts), so
+ * instances sharing the path do not overwrite each other's positions.
+ * Non-logging policy: no wallets or amounts in logs.
+ */
+
+import { JsonFileDocument } from "../jsonFileStore.js";
+import { TokenAmount, unitsOf, USD1_DECIMALS } from "../money.js";
+import { getRADRDecimals, getTokenDecimals } from "../protocols/types.js";
+import { PositionRepository, PositionVault, StoredPosition } from "./types.js";
+
+const STORE_VERSION = 2;
+
+interface StoreDocument {
+    version: number;
+    positions: Record<string, StoredPosition[]>;
+    hydrated: string[];
+}
+
+const bucketKey = (walletAddress: string, vault: PositionVault) => `${walletAddress}:${vault}`;
+
+function emptyDocument(): StoreDocument {
+    return { version: STORE_VERSION, positions: {}, hydrated: [] };
+}
+
+/**
+ * Version 1 stored a decimal `amount` (and decimals only for some tokens); carry it
+ * over as base units at the token's known decimals
+ */
+function migratePosition(position: any): StoredPosition {
+    if (typeof position.units === "string") return position;
+
+    const { amount, ...rest } = position;
+    const decimals = position.decimals
+        ?? (position.vault === "yield" ? USD1_DECIMALS : getTokenDecimals(position.token) ?? getRADRDecimals(position.symbol));
+    return { ...rest, ...unitsOf(TokenAmount.fromDecimal(amount || 0, decimals)) };
+}
+
+export class JsonFilePositionRepository implements PositionRepository {
+    private readonly file: JsonFileDocument<StoreDocument>;
+
+    constructor(filePath: string) {
+        this.file = new JsonFileDocument(filePath, {
+            empty: emptyDocument,
+            parse: (parsed: Partial<StoreDocument>) => ({
+                version: STORE_VERSION,
+                positions: Object.fromEntries(
+                    Object.entries(parsed.positions || {}).map(([key, bucket]) => [key, bucket.map(migratePosition)])
+                ),
+                hydrated: parsed.hydrated || []
+            }),
+            name: "Position store",
+            context: "PositionStore"
+        });
+    }
+
+    async list(walletAddress: string, vault: PositionVault): Promise<StoredPosition[]> {
+        const doc = await this.file.read();
+        return (doc.positions[bucketKey(walletAddress, vault)] || []).map(p => ({ ...p }));
+    }
+
+    async wallets(vault: PositionVault): Promise<string[]> {
+        const doc = await this.file.read();
+        const suffix = `:${vault}`;
+        return Object.entries(doc.positions)
+            .filter(([key, bucket]) => key.endsWith(suffix) && bucket.length > 0)
+            .map(([key]) => key.slice(0, -suffix.length));
+    }
+
+    async get(walletAddress: string, vault: PositionVault, token: string): Promise<StoredPosition | null> {
+        const doc = await this.file.read();
+        const found = (doc.positions[bucketKey(walletAddress, vault)] || []).find(p => p.token === token);
+        return found ? { ...found } : null;
+    }
+
+    async upsert(position: StoredPosition): Promise<void> {
+        await this.file.update(doc => {
+            const key = bucketKey(position.walletAddress, position.vault);
+            const bucket = (doc.positions[key] || []).filter(p => p.token !== position.token);
+            bucket.push({ ...position });
+            doc.positions[key] = bucket;
+        });
+    }
+
+    async replace(walletAddress: string, vault: PositionVault, positions: StoredPosition[]): Promise<void> {
+        await this.file.update(doc => {
+            const key = bucketKey(walletAddress, vault);
+            if (positions.length > 0) {
+                doc.positions[key] = positions.map(p => ({ ...p }));
+            } else {
+                delete doc.positions[key];
+            }
+        });
+    }
+
+    async remove(walletAddress: string, vault: PositionVault, token: string): Promise<void> {
+        await this.file.update(doc => {
+            const key = bucketKey(walletAddress, vault);
+            doc.positions[key] = (doc.positions[key] || []).filter(p => p.token !== token);
+        });
+    }
+
+    async isHydrated(walletAddress: string, vault: PositionVault): Promise<boolean> {
+        const doc = await this.file.read();
+        return doc.hydrated.includes(bucketKey(walletAddress, vault));
+    }
+
+    async markHydrated(walletAddress: string, vault: PositionVault): Promise<void> {
+        const key = bucketKey(walletAddress, vault);
+        if ((await this.file.read()).hydrated.includes(key)) return;
+        await this.file.update(doc => {
+            if (!doc.hydrated.includes(key)) doc.hydrated.push(key);
+        });
+    }
+}
@@ -0,0 +1,140 @@
+/**
+ * Position Store
+ * Single source of truth for vault positions. Strategies read and write through
+ * the PositionRepository selected by POSITION_STORE ("file" | "memory").
+ * On-chain memo replay is one way to hydrate an empty store.
+ */
+
+import { Connection } from "@solana/web3.js";
+import { config } from "../config.js";
+import { logger } from "../logger.js";
+import { amountOf } from "../money.js";
+import { MemoIndexIncompleteError, MemoKeyRequiredError, reconstructPositions } from "../positionMemo.js";
+import { InMemoryPositionRepository } from "./memory.js";
+import { JsonFilePositionRepository } from "./file.js";
+import { PositionRepository, PositionVault, StoredPosition } from "./types.js";
+
+export * from "./types.js";
+export { InMemoryPositionRepository } from "./memory.js";
+export { JsonFilePositionRepository } from "./file.js";
+
+let repository: PositionRepository | null = null;
+const hydrating: Map<string, Promise<void>> = new Map();
+
+function createRepository(): PositionRepository {
+    if (config.positionStore === "memory") {
+        return new InMemoryPositionRepository();
+    }
+    return new JsonFilePositionRepository(config.positionStorePath);
+}
+
+/**
+ * Get the configured position repository (lazy singleton)
+ */
+export function getPositionRepository(): PositionRepository {
+    if (!repository) {
+        repository = createRepository();
+    }
+    return repository;
+}
+
+/**
+ * Override the position repository (tests, custom backends)
+ */
+export function setPositionRepository(repo: PositionRepository): void {
+    repository = repo;
+    hydrating.clear();
+}
+
+/**
+ * Hydrate a wallet/vault once using the given loader.
+ * The store remains the source of truth: the loader only runs while the
+ * wallet/vault has never been hydrated and holds no positions. A loader that fails
+ * (RPC errors, a missing memo key, memo history still being indexed) leaves the
+ * wallet/vault unhydrated so a later request can try again.
+ */
+export async function ensureHydrated(
+    walletAddress: string,
+    vault: PositionVault,
+    loader: () => Promise<StoredPosition[]>
+): Promise<void> {
+    const repo = getPositionRepository();
+    const key = `${walletAddress}:${vault}`;
+
+    const inflight = hydrating.get(key);
+    if (inflight) return inflight;
+
+    const task = (async () => {
+        if (await repo.isHydrated(walletAddress, vault)) return;
+
+        const existing = await repo.list(walletAddress, vault);
+        if (existing.length === 0) {
+            try {
+                const loaded = await loader();
+                if (loaded.length > 0) {
+                    await repo.replace(walletAddress, vault, loaded);
+                }
+            } catch (error) {
+                if (error instanceof MemoKeyRequiredError) {
+                    logger.warn("Position memos are encrypted and no memo key was sent, deferring hydration", "PositionStore");
+                } else if (error instanceof MemoIndexIncompleteError) {
+                    logger.warn("Position memo history not fully indexed yet, deferring hydration", "PositionStore");
+                } else {
+                    logger.warn("Position hydration failed, deferring to the next request", "PositionStore");
+                }
+                return;
+            }
+        }
+
+        await repo.markHydrated(walletAddress, vault);
+    })();
+
+    hydrating.set(key, task);
+    try {
+        await task;
+    } finally {
+        hydrating.delete(key);
+    }
+}
+
+/**
+ * Loader that rebuilds token positions by replaying on-chain position memos
+ */
+export function memoHydrator(
+    connection: Connection,
+    walletAddress: string,
+    vault: PositionVault
+): () => Promise<StoredPosition[]> {
+    return async () => {
+        const onChain = await reconstructPositions(connection, walletAddress, vault);
+        return onChain.map(p => ({
+            walletAddress,
+            vault,
+            token: p.tokenMint,
+            symbol: p.tokenSymbol,
+            units: p.units,
+            decimals: p.decimals,
+            entryPrice: p.entryPrice,
+            entryTimestamp: p.openedAt
+        }));
+    };
+}
+
+/**
+ * Merge a newly acquired lot into a position list (weighted average entry price)
+ */
+export function mergePosition(existing: StoredPosition[], lot: StoredPosition): StoredPosition[] {
+    const current = existing.find(p => p.token === lot.token);
+    if (!current) {
+        return [...existing, lot];
+    }
+
+    const currentAmount = amountOf(current);
+    const lotAmount = amountOf(lot).withDecimals(current.decimals);
+    const totalAmount = currentAmount.add(lotAmount);
+    current.entryPrice = totalAmount.isPositive()
+        ? (current.entryPrice * currentAmount.toNumber() + lot.entryPrice * lotAmount.toNumber()) / totalAmount.toNumber()
+        : lot.entryPrice;
+    current.units = totalAmount.units.toString();
+    return existing;
+}
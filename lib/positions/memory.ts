@@ -0,0 +1,60 @@
+/**
+ * In-Memory Position Repository
+ * Used for tests and as a fallback when no writable disk is available.
+ * Contents live only for the process lifetime.
+ */
+
+import { PositionRepository, PositionVault, StoredPosition } from "./types.js";
+
+const bucketKey = (walletAddress: string, vault: PositionVault) => `${walletAddress}:${vault}`;
+
+export class InMemoryPositionRepository implements PositionRepository {
+    private buckets: Map<string, StoredPosition[]> = new Map();
+    private hydrated: Set<string> = new Set();
+
+    async list(walletAddress: string, vault: PositionVault): Promise<StoredPosition[]> {
+        return (this.buckets.get(bucketKey(walletAddress, vault)) || []).map(p => ({ ...p }));
+    }
+
+    async wallets(vault: PositionVault): Promise<string[]> {
+        const suffix = `:${vault}`;
+        return [...this.buckets.entries()]
+            .filter(([key, bucket]) => key.endsWith(suffix) && bucket.length > 0)
+            .map(([key]) => key.slice(0, -suffix.length));
+    }
+
+    async get(walletAddress: string, vault: PositionVault, token: string): Promise<StoredPosition | null> {
+        const found = (this.buckets.get(bucketKey(walletAddress, vault)) || []).find(p => p.token === token);
+        return found ? { ...found } : null;
+    }
+
+    async upsert(position: StoredPosition): Promise<void> {
+        const key = bucketKey(position.walletAddress, position.vault);
+        const bucket = (this.buckets.get(key) || []).filter(p => p.token !== position.token);
+        bucket.push({ ...position });
+        this.buckets.set(key, bucket);
+    }
+
+    async replace(walletAddress: string, vault: PositionVault, positions: StoredPosition[]): Promise<void> {
+        this.buckets.set(bucketKey(walletAddress, vault), positions.map(p => ({ ...p })));
+    }
+
+    async remove(walletAddress: string, vault: PositionVault, token: string): Promise<void> {
+        const key = bucketKey(walletAddress, vault);
+        this.buckets.set(key, (this.buckets.get(key) || []).filter(p => p.token !== token));
+    }
+
+    async isHydrated(walletAddress: string, vault: PositionVault): Promise<boolean> {
+        return this.hydrated.has(bucketKey(walletAddress, vault));
+    }
+
+    async markHydrated(walletAddress: string, vault: PositionVault): Promise<void> {
+        this.hydrated.add(bucketKey(walletAddress, vault));
+    }
+
+    /** Drop everything (tests only) */
+    clear(): void {
+        this.buckets.clear();
+        this.hydrated.clear();
+    }
+}
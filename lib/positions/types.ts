@@ -0,0 +1,66 @@
+/**
+ * Position Repository Types
+ * Storage-agnostic interface for vault positions.
+ */
+
+export type PositionVault = 'growth' | 'degen' | 'yield' | 'rwa';
+
+// Extra accounting carried by lending (Kamino) positions
+export interface LendingDetails {
+    currentValue: number;
+    apy: number;
+    earnedYield: number;
+}
+
+export type ExitOrderType = 'stop-loss' | 'take-profit' | 'trailing-stop';
+
+// Price-triggered sell order attached to a position (degen vault)
+export interface ExitOrder {
+    id: string;
+    type: ExitOrderType;
+    triggerPrice?: number;      // stop-loss / take-profit: USD price that fires the order
+    trailPercent?: number;      // trailing-stop: % below the high-water mark that fires the order
+    highWaterPrice?: number;    // trailing-stop: highest price seen since the order was placed
+    sellPercent: number;        // % of the position to sell when fired (100 = full exit)
+    createdAt: number;
+}
+
+export interface StoredPosition {
+    walletAddress: string;
+    vault: PositionVault;
+    token: string;          // Mint address (or strategy id for lending positions)
+    symbol: string;
+    units: string;          // Token amount in base units (deposited USD1 for lending positions)
+    decimals: number;       // Mint decimals (USD1's for lending positions)
+    entryPrice: number;     // Weighted average entry price in USD1
+    entryTimestamp: number;
+    lending?: LendingDetails;
+    exitOrders?: ExitOrder[];
+    strategy?: string;      // Entry signal (degen: "momentum" | "dip-buy" | "new-launch" | "core")
+}
+
+export interface PositionRepository {
+    /** All open positions for a wallet in a vault */
+    list(walletAddress: string, vault: PositionVault): Promise<StoredPosition[]>;
+
+    /** Wallets holding at least one position in a vault */
+    wallets(vault: PositionVault): Promise<string[]>;
+
+    /** Single position by token, or null */
+    get(walletAddress: string, vault: PositionVault, token: string): Promise<StoredPosition | null>;
+
+    /** Insert or overwrite a single position (keyed by wallet + vault + token) */
+    upsert(position: StoredPosition): Promise<void>;
+
+    /** Replace every position for a wallet in a vault */
+    replace(walletAddress: string, vault: PositionVault, positions: StoredPosition[]): Promise<void>;
+
+    /** Remove a single position */
+    remove(walletAddress: string, vault: PositionVault, token: string): Promise<void>;
+
+    /** Whether the wallet/vault has been hydrated from an external source (e.g. memos) */
+    isHydrated(walletAddress: string, vault: PositionVault): Promise<boolean>;
+
+    /** Record that the wallet/vault has been hydrated */
+    markHydrated(walletAddress: string, vault: PositionVault): Promise<void>;
+}
@@ -4,9 +4,9 @@
  * Non-logging policy: no addresses or amounts in logs.
  */
 import { MemeToken } from "./types.js";
+import type { TokenSafetyReport } from "./tokenSafety.js";
 import { logger } from "../logger.js";
-
-const DEXSCREENER_API = "https://api.dexscreener.com/latest/dex";
+import { getMarketDataProvider } from "../marketData/index.js";
 
 const log = (msg: string) => logger.info(msg, "DexScreener");
 
@@ -26,14 +26,7 @@ export async function getTrendingTokens(limit: number = 20): Promise<MemeToken[]
     try {
         log("Fetching trending tokens");
 
-        const response = await fetch(`${DEXSCREENER_API}/pairs/solana`);
-
-        if (!response.ok) {
-            throw new Error(`API error: ${response.status}`);
-        }
-
-        const data = await response.json();
-        const pairs = data.pairs || [];
+        const pairs = await getMarketDataProvider().getSolanaPairs();
 
         // Fallback for devnet/mock mode
         if (pairs.length === 0) {
@@ -81,11 +74,10 @@ export async function getNewLaunches(limit: number = 10): Promise<MemeToken[]> {
     try {
         log("Fetching new launches");
 
-        const response = await fetch(`${DEXSCREENER_API}/pairs/solana`);
-        const data = await response.json();
-        const pairs = data.pairs || [];
+        const provider = getMarketDataProvider();
+        const pairs = await provider.getSolanaPairs();
 
-        const now = Date.now();
+        const now = provider.now();
         const oneDayAgo = now - 24 * 60 * 60 * 1000;
 
         const newTokens: MemeToken[] = pairs
@@ -116,19 +108,18 @@ export async function getNewLaunches(limit: number = 10): Promise<MemeToken[]> {
  */
 export async function getTokenInfo(address: string): Promise<MemeToken | null> {
     try {
-        const response = await fetch(`${DEXSCREENER_API}/tokens/${address}`);
-        const data = await response.json();
+        const pairs = await getMarketDataProvider().getTokenPairs(address);
 
-        if (!data.pairs || data.pairs.length === 0) {
+        if (pairs.length === 0) {
             return null;
         }
 
         // Get the pair with highest liquidity
-        const bestPair = data.pairs.reduce((best: any, pair: any) => {
+        const bestPair = pairs.reduce((best: any, pair: any) => {
             const pairLiquidity = Number(pair.liquidity?.usd || 0);
             const bestLiquidity = Number(best.liquidity?.usd || 0);
             return pairLiquidity > bestLiquidity ? pair : best;
-        }, data.pairs[0]);
+        }, pairs[0]);
 
         return transformToMemeToken(bestPair);
     } catch (error) {
@@ -140,7 +131,11 @@ export async function getTokenInfo(address: string): Promise<MemeToken | null> {
 /**
  * Calculate risk score for a token (0-100, higher = riskier)
  */
-export function calculateRiskScore(token: MemeToken): number {
+export function calculateRiskScore(
+    token: MemeToken,
+    now: number = Date.now(),
+    safety?: Pick<TokenSafetyReport, "riskPenalty">
+): number {
     let score = 50; // Base risk score
 
     // Liquidity factor (lower liquidity = higher risk)
@@ -154,7 +149,7 @@ export function calculateRiskScore(token: MemeToken): number {
     else if (token.volume24h > 500000) score -= 10;
 
     // Age factor (new tokens are riskier)
-    const ageHours = (Date.now() - token.createdAt) / (1000 * 60 * 60);
+    const ageHours = (now - token.createdAt) / (1000 * 60 * 60);
     if (ageHours < 1) score += 25;
     else if (ageHours < 6) score += 15;
     else if (ageHours < 24) score += 10;
@@ -169,6 +164,9 @@ export function calculateRiskScore(token: MemeToken): number {
     if (token.fdv < 100000) score += 15;
     else if (token.fdv > 100000000) score += 10;
 
+    // On-chain safety findings (see tokenSafety.ts), when the token has been inspected
+    if (safety) score += safety.riskPenalty;
+
     // Clamp to 0-100
     return Math.max(0, Math.min(100, score));
 }
@@ -225,6 +223,7 @@ export async function getDipBuyOpportunities(limit: number = 5): Promise<MemeTok
  * Transform DexScreener pair data to MemeToken
  */
 function transformToMemeToken(pair: any): MemeToken {
+    const now = getMarketDataProvider().now();
     const token: MemeToken = {
         address: pair.baseToken?.address || "",
         symbol: pair.baseToken?.symbol || "UNKNOWN",
@@ -234,12 +233,14 @@ function transformToMemeToken(pair: any): MemeToken {
         volume24h: Number(pair.volume?.h24 || 0),
         liquidity: Number(pair.liquidity?.usd || 0),
         fdv: Number(pair.fdv || 0),
-        createdAt: pair.pairCreatedAt || Date.now(),
-        riskScore: 50 // Will be calculated
+        createdAt: pair.pairCreatedAt || now,
+        riskScore: 50, // Will be calculated
+        pairAddress: pair.pairAddress,
+        dexId: pair.dexId
     };
 
     // Calculate actual risk score
-    token.riskScore = calculateRiskScore(token);
+    token.riskScore = calculateRiskScore(token, now);
 
     return token;
 }
@@ -249,9 +250,7 @@ function transformToMemeToken(pair: any): MemeToken {
  */
 export async function getTotalSolanaVolume(): Promise<number> {
     try {
-        const response = await fetch(`${DEXSCREENER_API}/pairs/solana`);
-        const data = await response.json();
-        const pairs = data.pairs || [];
+        const pairs = await getMarketDataProvider().getSolanaPairs();
 
         return pairs
             .slice(0, 100)
@@ -18,6 +18,10 @@ export { kamino };
 import * as dexscreener from "./dexscreener.js";
 export { dexscreener };
 
+// Token Safety - Rug-pull / honeypot screening
+import * as tokenSafety from "./tokenSafety.js";
+export { tokenSafety };
+
 // Protocol status check
 export async function checkProtocolHealth(): Promise<{
     jupiter: boolean;
@@ -8,11 +8,12 @@
 
 import { Connection, VersionedTransaction, PublicKey } from '@solana/web3.js';
 import { getServerWallet, getWalletInfo } from '../wallet.js';
-import { SwapParams, SwapQuote, TxResult, TOKENS, TokenInfo } from "./types.js";
+import { SwapParams, SwapQuote, TxResult, TOKENS, TokenInfo, requireTokenDecimals } from "./types.js";
 import { logger } from "../logger.js";
-
-const JUPITER_API = "https://quote-api.jup.ag/v6";
-const JUPITER_PRICE_API = "https://price.jup.ag/v6";
+import { TokenAmount, USD1_DECIMALS } from "../money.js";
+import { getMarketDataProvider, getFallbackPrice, estimateQuoteFromFallback } from "../marketData/index.js";
+import { getSwapPolicy, checkQuote, splitOrder, shortfallPct, twapInterval, ReferencePrices } from "./swapPolicy.js";
+import { recordSwap, SwapRecord, SwapStatus, SwapVault } from "./swapJournal.js";
 
 const getRpcUrl = () => process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
 const connection = new Connection(getRpcUrl(), 'confirmed');
@@ -32,34 +33,8 @@ function isDemoMode(): boolean {
  * ✅ REAL API - Always works
  */
 export async function getTokenPrice(mint: string): Promise<number> {
-    try {
-        const response = await fetch(
-            `${JUPITER_PRICE_API}/price?ids=${mint}`
-        );
-
-        if (response.ok) {
-            const data = await response.json();
-            const price = data.data?.[mint]?.price || 0;
-            if (price > 0) return price;
-        }
-    } catch {
-        logger.warn("Price fetch fallback", "Jupiter");
-    }
-
-    // Fallback for devnet / when price API misses (RADR Labs supported tokens)
-    const m = mint.toLowerCase();
-    if (m === TOKENS.SOL.toLowerCase()) return 145.20;
-    if (m === TOKENS.RADR.toLowerCase()) return 0.15;
-    if (m === TOKENS.BONK.toLowerCase()) return 0.00002;
-    if (m === TOKENS.ORE?.toLowerCase()) return 0.02;
-    if (m === TOKENS.ANON?.toLowerCase()) return 0.01;
-    if (m === TOKENS.JIM?.toLowerCase()) return 0.005;
-    if (m === TOKENS.POKI?.toLowerCase()) return 0.001;
-    if (m === TOKENS.GLDR?.toLowerCase()) return 2300;
-    if (m === TOKENS.SLVR?.toLowerCase()) return 30;
-    if (m === TOKENS.CPER?.toLowerCase()) return 4.5;
-
-    return 0;
+    const prices = await getTokenPrices([mint]);
+    return prices[mint];
 }
 
 /**
@@ -67,39 +42,17 @@ export async function getTokenPrice(mint: string): Promise<number> {
  * ✅ REAL API - Always works
  */
 export async function getTokenPrices(mints: string[]): Promise<Record<string, number>> {
-    const prices: Record<string, number> = {};
+    let prices: Record<string, number> = {};
 
     try {
-        const ids = mints.join(",");
-        const response = await fetch(`${JUPITER_PRICE_API}/price?ids=${ids}`);
-
-        if (response.ok) {
-            const data = await response.json();
-            for (const mint of mints) {
-                const price = data.data?.[mint]?.price || 0;
-                if (price > 0) prices[mint] = price;
-            }
-        }
+        prices = await getMarketDataProvider().getTokenPrices(mints);
     } catch {
-        logger.warn("Multi-price fetch fallback", "Jupiter");
+        logger.warn("Price fetch fallback", "Jupiter");
     }
 
-    // Ensure every mint has a price (fallback or default)
+    // Ensure every mint has a price (configured fallback, or 0 when unknown)
     for (const mint of mints) {
-        if (!prices[mint]) {
-            const m = mint.toLowerCase();
-            if (m === TOKENS.SOL.toLowerCase()) prices[mint] = 145.20;
-            else if (m === TOKENS.RADR.toLowerCase()) prices[mint] = 0.15;
-            else if (m === TOKENS.BONK.toLowerCase()) prices[mint] = 0.00002;
-            else if (TOKENS.ORE && m === TOKENS.ORE.toLowerCase()) prices[mint] = 0.02;
-            else if (TOKENS.ANON && m === TOKENS.ANON.toLowerCase()) prices[mint] = 0.01;
-            else if (TOKENS.JIM && m === TOKENS.JIM.toLowerCase()) prices[mint] = 0.005;
-            else if (TOKENS.POKI && m === TOKENS.POKI.toLowerCase()) prices[mint] = 0.001;
-            else if (TOKENS.GLDR && m === TOKENS.GLDR.toLowerCase()) prices[mint] = 2300;
-            else if (TOKENS.SLVR && m === TOKENS.SLVR.toLowerCase()) prices[mint] = 30;
-            else if (TOKENS.CPER && m === TOKENS.CPER.toLowerCase()) prices[mint] = 4.5;
-            else prices[mint] = 0;
-        }
+        if (!prices[mint]) prices[mint] = getFallbackPrice(mint);
     }
 
     return prices;
@@ -111,48 +64,233 @@ export async function getTokenPrices(mints: string[]): Promise<Record<string, nu
  */
 export async function getSwapQuote(params: SwapParams): Promise<SwapQuote | null> {
     try {
-        const { inputMint, outputMint, amount, slippageBps = 50 } = params;
-
         log("Getting quote");
 
-        const response = await fetch(
-            `${JUPITER_API}/quote?` +
-            `inputMint=${inputMint}&` +
-            `outputMint=${outputMint}&` +
-            `amount=${Math.floor(amount * 1e6)}&` +
-            `slippageBps=${slippageBps}`
-        );
+        const quote = await getMarketDataProvider().getSwapQuote(params);
 
-        if (!response.ok) {
-            // Fallback for devnet
-            return {
-                inputAmount: amount,
-                outputAmount: amount / 145.20, // Simple SOL price mock
+        if (!quote) {
+            // Fallback for devnet: estimate from the configured fallback prices
+            const estimate = estimateQuoteFromFallback(params.inputMint, params.outputMint, params.amount.toNumber());
+            return estimate && {
+                inputAmount: params.amount.toNumber(),
+                outputAmount: estimate.outputAmount,
                 priceImpact: 0.1,
                 fee: 0,
                 route: "Devnet-Swap"
             };
         }
 
-        const quote = await response.json();
-
-        const result: SwapQuote = {
-            inputAmount: Number(quote.inAmount) / 1e6,
-            outputAmount: Number(quote.outAmount) / 1e9,
-            priceImpact: Number(quote.priceImpactPct) * 100,
-            fee: Number(quote.platformFee?.amount || 0) / 1e6,
-            route: quote.routePlan?.map((r: any) => r.swapInfo?.label).join(" → ") || "Direct"
-        };
-
         log("Quote received");
 
-        return result;
+        return quote;
     } catch {
         logger.error("Quote error", "Jupiter");
         return null;
     }
 }
 
+export interface SwapContext {
+    vault?: SwapVault;
+    inputSymbol?: string;
+    outputSymbol?: string;
+}
+
+export type SwapExecution = TxResult & {
+    unsigned_tx_base64?: string;
+    inputAmount?: TokenAmount;  // Input actually swapped (less than requested after a partial TWAP fill)
+    outputAmount?: TokenAmount;
+    record?: Omit<SwapRecord, "id" | "createdAt">;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const symbolFor = (mint: string): string =>
+    Object.entries(TOKENS).find(([symbol, m]) => m === mint && symbol !== "WSOL")?.[0] || "UNKNOWN";
+
+/**
+ * Output the owner actually received in a confirmed swap, from the transaction's
+ * balance changes; null when the transaction can't be read
+ */
+async function realizedOutput(
+    signature: string,
+    owner: string,
+    outputMint: string,
+    outputDecimals: number
+): Promise<TokenAmount | null> {
+    try {
+        const tx = await connection.getParsedTransaction(signature, { maxSupportedTransactionVersion: 0 });
+        if (!tx?.meta) return null;
+
+        // wrapAndUnwrapSol pays native SOL out to the owner (the fee payer)
+        if (outputMint === TOKENS.SOL) {
+            const index = tx.transaction.message.accountKeys.findIndex(k => k.pubkey.toBase58() === owner);
+            if (index < 0) return null;
+            const lamports = tx.meta.postBalances[index] - tx.meta.preBalances[index] + tx.meta.fee;
+            return TokenAmount.fromUnits(lamports, outputDecimals);
+        }
+
+        const balance = (list: typeof tx.meta.postTokenBalances) => (list || [])
+            .filter(b => b.owner === owner && b.mint === outputMint)
+            .reduce((sum, b) => sum + BigInt(b.uiTokenAmount.amount), 0n);
+        const received = balance(tx.meta.postTokenBalances) - balance(tx.meta.preTokenBalances);
+        return TokenAmount.fromUnits(received, outputDecimals);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Quote, guard and execute a swap under the swap policy (real RPC only).
+ * Server-signed orders above the TWAP threshold are sent in time-sliced chunks;
+ * user-signed swaps are a single transaction, since chunks would share one
+ * blockhash window anyway.
+ */
+async function executeWithPolicy(
+    params: SwapParams,
+    userWalletAddress: string | undefined,
+    context: SwapContext
+): Promise<SwapExecution> {
+    const policy = getSwapPolicy();
+    const market = getMarketDataProvider();
+    const amount = params.amount;
+    const outputDecimals = requireTokenDecimals(params.outputMint, params.outputDecimals);
+
+    let reference: ReferencePrices = {};
+    try {
+        const prices = await market.getTokenPrices([params.inputMint, params.outputMint]);
+        reference = { inputPrice: prices[params.inputMint], outputPrice: prices[params.outputMint] };
+    } catch {
+        log("Reference prices unavailable, skipping the deviation guard");
+    }
+
+    // Determine which wallet to use
+    const serverWallet = isDemoMode() ? null : getServerWallet();
+    const walletPubkey = serverWallet?.publicKey.toBase58() || userWalletAddress;
+
+    const chunks = serverWallet ? splitOrder(amount, reference.inputPrice, policy) : [amount];
+    if (chunks.length > 1) log(`Splitting swap into ${chunks.length} chunks`);
+    const interval = twapInterval(chunks.length, policy);
+
+    const signatures: string[] = [];
+    const reasons: string[] = [];
+    let unsignedTx: string | undefined;
+    let filledInput = TokenAmount.zero(amount.decimals);
+    let quotedOutput = TokenAmount.zero(outputDecimals);
+    let realized = TokenAmount.zero(outputDecimals);
+    let expected = 0;
+    let worstImpact: number | null = null;
+    let realizedOnChain = !!serverWallet;
+    let failure: string | undefined;
+
+    for (let i = 0; i < chunks.length; i++) {
+        if (i > 0) await sleep(interval);
+
+        try {
+            const quoteData = await market.getExecutableQuote({ ...params, amount: chunks[i] });
+            const chunkOutput = TokenAmount.fromUnits(String(quoteData.outAmount), outputDecimals);
+            const check = checkQuote(
+                {
+                    inputAmount: chunks[i].toNumber(),
+                    outputAmount: chunkOutput.toNumber(),
+                    priceImpactPct: Number(quoteData.priceImpactPct) * 100
+                },
+                reference,
+                policy
+            );
+            worstImpact = Math.max(worstImpact ?? 0, check.priceImpactPct);
+
+            if (!check.ok) {
+                log(`Quote rejected by swap policy (chunk ${i + 1}/${chunks.length})`);
+                reasons.push(...check.reasons);
+                break;
+            }
+
+            let chunkRealized = chunkOutput;
+            if (!walletPubkey) {
+                // No wallet available - simulate
+                log("No wallet configured, simulating");
+                signatures.push(`jupiter_sim_${Date.now()}_${Math.random().toString(36).slice(2)}`);
+            } else if (!serverWallet) {
+                // USER WALLET MODE: Return unsigned transaction for frontend signing
+                log("Returning unsigned swap transaction for user signing");
+                unsignedTx = await market.buildSwapTransaction(quoteData, walletPubkey);
+                signatures.push(`pending_user_sign_${Date.now()}`);
+            } else {
+                // SERVER MODE: Sign and send transaction
+                log("Executing swap (server wallet)");
+                const transaction = VersionedTransaction.deserialize(
+                    Buffer.from(await market.buildSwapTransaction(quoteData, walletPubkey), 'base64')
+                );
+                transaction.sign([serverWallet]);
+
+                const signature = await connection.sendRawTransaction(
+                    transaction.serialize(),
+                    { skipPreflight: false, maxRetries: 3 }
+                );
+
+                log("Confirming transaction");
+                await connection.confirmTransaction(signature, 'confirmed');
+                signatures.push(signature);
+
+                const onChain = await realizedOutput(signature, walletPubkey, params.outputMint, outputDecimals);
+                if (onChain === null) realizedOnChain = false;
+                else chunkRealized = onChain;
+            }
+
+            filledInput = filledInput.add(chunks[i]);
+            quotedOutput = quotedOutput.add(chunkOutput);
+            realized = realized.add(chunkRealized);
+            if (check.expectedOutput !== null) expected += check.expectedOutput;
+        } catch (error) {
+            failure = error instanceof Error ? error.message : "Swap failed";
+            break;
+        }
+    }
+
+    const filled = signatures.length;
+    const status: SwapStatus =
+        filled === 0 ? (reasons.length > 0 ? "rejected" : "failed") :
+            filled < chunks.length ? "partial" :
+                serverWallet || !walletPubkey ? "filled" : "pending-signature";
+
+    const record: Omit<SwapRecord, "id" | "createdAt"> = {
+        vault: context.vault || "unassigned",
+        inputSymbol: context.inputSymbol || symbolFor(params.inputMint),
+        outputSymbol: context.outputSymbol || symbolFor(params.outputMint),
+        status,
+        chunks: chunks.length,
+        chunksFilled: filled,
+        priceImpactPct: worstImpact,
+        quoteDeviationPct: expected > 0 ? shortfallPct(expected, quotedOutput.toNumber()) : null,
+        slippagePct: expected > 0 && status !== "pending-signature" ? shortfallPct(expected, realized.toNumber()) : null,
+        realizedOnChain: realizedOnChain && filled > 0,
+        reasons: reasons.length > 0 ? reasons : undefined
+    };
+    await recordSwap(record);
+
+    if (filled === 0) {
+        return {
+            success: false,
+            error: reasons.length > 0 ? `Swap rejected: ${reasons.join("; ")}` : failure || "Swap failed",
+            record,
+            timestamp: Date.now()
+        };
+    }
+
+    if (status === "filled" || status === "pending-signature") log("Swap successful");
+    else log(`Swap partially filled (${filled}/${chunks.length} chunks)`);
+
+    return {
+        success: true,
+        txSignature: signatures.join(","),
+        unsigned_tx_base64: unsignedTx,
+        inputAmount: filledInput,
+        outputAmount: realized,
+        record,
+        timestamp: Date.now()
+    };
+}
+
 /**
  * Execute a swap via Jupiter
  * 
@@ -160,11 +298,15 @@ export async function getSwapQuote(params: SwapParams): Promise<SwapQuote | null
  * 1. Server wallet configured: Signs and sends transaction server-side
  * 2. User wallet mode: Returns unsigned transaction for user to sign in browser
  * 3. Demo/Devnet mode: Simulates execution
+ *
+ * Real swaps go through the swap policy (swapPolicy.ts) and are recorded in the
+ * swap journal under `context.vault`.
  */
 export async function executeSwap(
     params: SwapParams,
-    userWalletAddress?: string
-): Promise<TxResult & { unsigned_tx_base64?: string }> {
+    userWalletAddress?: string,
+    context: SwapContext = {}
+): Promise<SwapExecution> {
     try {
         log("Executing swap");
 
@@ -180,90 +322,7 @@ export async function executeSwap(
             };
         }
 
-        // Step 1: Get quote (always real)
-        const quoteResponse = await fetch(
-            `${JUPITER_API}/quote?` +
-            `inputMint=${params.inputMint}&` +
-            `outputMint=${params.outputMint}&` +
-            `amount=${Math.floor(params.amount * 1e6)}&` +
-            `slippageBps=${params.slippageBps || 50}`
-        );
-
-        if (!quoteResponse.ok) {
-            throw new Error(`Quote failed: ${quoteResponse.statusText}`);
-        }
-
-        const quoteData = await quoteResponse.json();
-        log("Quote received");
-
-        // Determine which wallet to use
-        const serverWallet = isDemoMode() ? null : getServerWallet();
-        const walletPubkey = serverWallet?.publicKey.toBase58() || userWalletAddress;
-
-        if (!walletPubkey) {
-            // No wallet available - simulate
-            log("No wallet configured, simulating");
-            return {
-                success: true,
-                txSignature: `jupiter_sim_${Date.now()}_${Math.random().toString(36).slice(2)}`,
-                timestamp: Date.now()
-            };
-        }
-
-        // Step 2: Get swap transaction
-        const swapResponse = await fetch(`${JUPITER_API}/swap`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                quoteResponse: quoteData,
-                userPublicKey: walletPubkey,
-                wrapAndUnwrapSol: true,
-                dynamicComputeUnitLimit: true,
-                prioritizationFeeLamports: 'auto'
-            })
-        });
-
-        if (!swapResponse.ok) {
-            throw new Error(`Swap API error: ${swapResponse.statusText}`);
-        }
-
-        const { swapTransaction } = await swapResponse.json();
-
-        // Step 3: Deserialize transaction
-        const transactionBuf = Buffer.from(swapTransaction, 'base64');
-        const transaction = VersionedTransaction.deserialize(transactionBuf);
-
-        if (serverWallet) {
-            // SERVER MODE: Sign and send transaction
-            log("Executing swap (server wallet)");
-            transaction.sign([serverWallet]);
-
-            const signature = await connection.sendRawTransaction(
-                transaction.serialize(),
-                { skipPreflight: false, maxRetries: 3 }
-            );
-
-            log("Confirming transaction");
-            await connection.confirmTransaction(signature, 'confirmed');
-
-            log("Swap successful");
-
-            return {
-                success: true,
-                txSignature: signature,
-                timestamp: Date.now()
-            };
-        } else {
-            // USER WALLET MODE: Return unsigned transaction for frontend signing
-            log("Returning unsigned swap transaction for user signing");
-
-            return {
-                success: true,
-                txSignature: `pending_user_sign_${Date.now()}`,
-                unsigned_tx_base64: swapTransaction, // Already base64 from Jupiter
-                timestamp: Date.now()
-            };
-        }
+        return await executeWithPolicy(params, userWalletAddress, context);
     } catch (error) {
         logger.error("Swap execution error", "Jupiter");
         return {
@@ -292,21 +351,18 @@ export function calculateSwapAmount(
  */
 export async function swapToUSD1(
     tokenMint: string,
-    tokenAmount: number,
-    tokenDecimals: number,
-    userWalletAddress?: string
-): Promise<TxResult & { unsigned_tx_base64?: string; outputAmount?: number }> {
+    tokenAmount: TokenAmount,
+    userWalletAddress?: string,
+    context: SwapContext = {}
+): Promise<SwapExecution> {
     try {
         log("Swapping token to USD1");
 
-        // Convert token amount to smallest units based on decimals
-        const amountInSmallestUnits = Math.floor(tokenAmount * Math.pow(10, tokenDecimals));
-
         // DEVNET MODE: Simulate
         if (getRpcUrl().includes('devnet')) {
             log("Simulating swap to USD1 (devnet)");
             const price = await getTokenPrice(tokenMint);
-            const outputAmount = tokenAmount * price;
+            const outputAmount = tokenAmount.withDecimals(USD1_DECIMALS).scale(price);
 
             return {
                 success: true,
@@ -316,92 +372,13 @@ export async function swapToUSD1(
             };
         }
 
-        // Step 1: Get quote (Token → USD1)
-        const quoteResponse = await fetch(
-            `${JUPITER_API}/quote?` +
-            `inputMint=${tokenMint}&` +
-            `outputMint=${TOKENS.USD1}&` +
-            `amount=${amountInSmallestUnits}&` +
-            `slippageBps=100` // 1% slippage for sells
-        );
-
-        if (!quoteResponse.ok) {
-            throw new Error(`Quote failed: ${quoteResponse.statusText}`);
-        }
-
-        const quoteData = await quoteResponse.json();
-        log("Quote received for token → USD1");
-
-        // Calculate output amount (USD1 has 6 decimals)
-        const outputAmount = Number(quoteData.outAmount) / 1e6;
-
-        // Determine which wallet to use
-        const serverWallet = isDemoMode() ? null : getServerWallet();
-        const walletPubkey = serverWallet?.publicKey.toBase58() || userWalletAddress;
-
-        if (!walletPubkey) {
-            // No wallet - return simulated result with output amount
-            log("No wallet configured, simulating");
-            return {
-                success: true,
-                txSignature: `jupiter_to_usd1_sim_${Date.now()}`,
-                outputAmount,
-                timestamp: Date.now()
-            };
-        }
-
-        // Step 2: Get swap transaction
-        const swapResponse = await fetch(`${JUPITER_API}/swap`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                quoteResponse: quoteData,
-                userPublicKey: walletPubkey,
-                wrapAndUnwrapSol: true,
-                dynamicComputeUnitLimit: true,
-                prioritizationFeeLamports: 'auto'
-            })
-        });
-
-        if (!swapResponse.ok) {
-            throw new Error(`Swap API error: ${swapResponse.statusText}`);
-        }
-
-        const { swapTransaction } = await swapResponse.json();
-        const transactionBuf = Buffer.from(swapTransaction, 'base64');
-        const transaction = VersionedTransaction.deserialize(transactionBuf);
-
-        if (serverWallet) {
-            // SERVER MODE: Sign and send
-            log("Executing swap to USD1 (server wallet)");
-            transaction.sign([serverWallet]);
-
-            const signature = await connection.sendRawTransaction(
-                transaction.serialize(),
-                { skipPreflight: false, maxRetries: 3 }
-            );
-
-            await connection.confirmTransaction(signature, 'confirmed');
-            log("Swap to USD1 successful");
-
-            return {
-                success: true,
-                txSignature: signature,
-                outputAmount,
-                timestamp: Date.now()
-            };
-        } else {
-            // USER WALLET MODE: Return unsigned transaction
-            log("Returning unsigned swap-to-USD1 transaction for user signing");
-
-            return {
-                success: true,
-                txSignature: `pending_user_sign_${Date.now()}`,
-                unsigned_tx_base64: swapTransaction,
-                outputAmount,
-                timestamp: Date.now()
-            };
-        }
+        return await executeWithPolicy({
+            inputMint: tokenMint,
+            outputMint: TOKENS.USD1,
+            amount: tokenAmount,
+            slippageBps: 100, // 1% slippage for sells
+            outputDecimals: USD1_DECIMALS
+        }, userWalletAddress, context);
     } catch (error) {
         logger.error("Swap to USD1 failed", "Jupiter");
         return {
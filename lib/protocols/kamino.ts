@@ -2,28 +2,93 @@
  * Kamino Finance - PRODUCTION IMPLEMENTATION (Updated for SDK 5.15.4)
  * Real yield farming via Kamino Lend protocol
  * 
- * Based on official Kamino documentation and best practices
+ * Based on official Kamino documentation and best practices.
+ * Stablecoin reserves from every market in KAMINO_MARKETS are ranked per risk
+ * tolerance (see kaminoReserves.ts); each yield position is one reserve, keyed by
+ * its reserve id (e.g. "USDC-MAIN").
  */
 
 import { Connection, PublicKey, Transaction, Keypair, sendAndConfirmTransaction } from '@solana/web3.js';
-import { KaminoMarket, KaminoAction, VanillaObligation } from '@kamino-finance/klend-sdk';
+import { KaminoMarket, KaminoAction, KaminoObligation, VanillaObligation } from '@kamino-finance/klend-sdk';
 import { LendingPosition, TxResult } from './types.js';
 import * as fs from 'fs';
 import { logger } from '../logger.js';
+import { amountOf, TokenAmount, unitsOf, usd1, USD1_DECIMALS } from '../money.js';
 import { createPositionMemoInstruction, reconstructPositions } from '../positionMemo.js';
+import { getPositionRepository, ensureHydrated, StoredPosition } from '../positions/index.js';
+import { config } from '../config.js';
+import { executeSwap, swapToUSD1 } from './jupiter.js';
+import {
+    ReserveSnapshot,
+    ReservePlan,
+    RiskTolerance,
+    STABLE_RESERVE_MINTS,
+    LEGACY_STRATEGY_ID,
+    reserveId,
+    rankReserves,
+    allocateAcrossReserves
+} from './kaminoReserves.js';
 
 const KAMINO_MAIN_MARKET = new PublicKey('7u3HeHxYDLhnCoErrtycNokbQYbWGzLs6JSDqGAv5PfF');
-const USD1_MINT = new PublicKey('USD1ttGY1N17NEEHLmELoaybftRBUSErhqYiQzvEmuB'); // Correct USD1 mint
-const USDC_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+
+const MARKET_CACHE_TTL_MS = 60_000;
+const marketCache: Map<string, { market: KaminoMarket; loadedAt: number }> = new Map();
+
+const FALLBACK_APY = 8.5;
+
+const STABLE_SYMBOL_BY_MINT = new Map(Object.entries(STABLE_RESERVE_MINTS).map(([symbol, mint]) => [mint, symbol]));
+
+export type KaminoTxResult = TxResult & {
+    unsigned_txs?: string[];    // In signing order (e.g. USD1 → USDC swap, then the deposit)
+};
 
 const getRpcUrl = () => process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
 const connection = new Connection(getRpcUrl(), 'confirmed');
 
-const positionCache: Map<string, LendingPosition> = new Map();
-const positionsLoaded: Set<string> = new Set();
 
 const log = (msg: string) => logger.info(msg, "Kamino");
 
+/**
+ * Map a stored yield-vault record to a LendingPosition
+ */
+function toLendingPosition(stored: StoredPosition): LendingPosition {
+    const deposited = amountOf(stored).toNumber();
+    return {
+        protocol: "Kamino",
+        asset: stored.symbol,
+        deposited,
+        currentValue: stored.lending?.currentValue ?? deposited,
+        apy: stored.lending?.apy ?? 0,
+        earnedYield: stored.lending?.earnedYield ?? 0
+    };
+}
+
+/**
+ * Map a deposit and its lending accounting to a stored yield-vault record (token = strategy id)
+ */
+function toStoredPosition(
+    walletAddress: string,
+    strategy: string,
+    deposited: TokenAmount,
+    position: Omit<LendingPosition, 'deposited'>,
+    openedAt?: number
+): StoredPosition {
+    return {
+        walletAddress,
+        vault: 'yield',
+        token: strategy,
+        symbol: position.asset,
+        ...unitsOf(deposited),
+        entryPrice: 1,
+        entryTimestamp: openedAt ?? Date.now(),
+        lending: {
+            currentValue: position.currentValue,
+            apy: position.apy,
+            earnedYield: position.earnedYield
+        }
+    };
+}
+
 /**
  * Check if server wallet is configured
  */
@@ -53,14 +118,18 @@ function loadWalletKeypair(): Keypair | null {
 }
 
 /**
- * Initialize Kamino Market with retry logic
+ * Initialize a Kamino Market with retry logic (cached briefly, since routing
+ * reads every market before a deposit)
  */
-async function initializeMarket(retries = 3): Promise<KaminoMarket> {
+async function initializeMarket(address: PublicKey = KAMINO_MAIN_MARKET, retries = 3): Promise<KaminoMarket> {
+    const cached = marketCache.get(address.toBase58());
+    if (cached && Date.now() - cached.loadedAt < MARKET_CACHE_TTL_MS) return cached.market;
+
     for (let i = 0; i < retries; i++) {
         try {
             log("Initializing Kamino market");
             // SDK 5.15.4 requires recentSlotDurationMs (400-450)
-            const market = await KaminoMarket.load(connection, KAMINO_MAIN_MARKET, 450);
+            const market = await KaminoMarket.load(connection, address, 450);
 
             if (!market) {
                 throw new Error('Failed to load Kamino market');
@@ -68,6 +137,7 @@ async function initializeMarket(retries = 3): Promise<KaminoMarket> {
 
             log("Market loaded");
 
+            marketCache.set(address.toBase58(), { market, loadedAt: Date.now() });
             return market;
         } catch (error) {
             if (i === retries - 1) {
@@ -82,93 +152,179 @@ async function initializeMarket(retries = 3): Promise<KaminoMarket> {
 }
 
 /**
- * Get the best available stablecoin reserve
+ * Snapshot every stablecoin reserve across the configured markets.
+ * A market that fails to load is skipped.
  */
-async function getStablecoinReserve(market: KaminoMarket): Promise<{ mint: PublicKey; reserve: any; symbol: string }> {
-    // Try USD1 first
-    let reserve = market.getReserveByMint(USD1_MINT);
-    if (reserve) {
-        log("USD1 reserve found");
-        return { mint: USD1_MINT, reserve, symbol: 'USD1' };
+export async function getReserveSnapshots(): Promise<ReserveSnapshot[]> {
+    const snapshots: ReserveSnapshot[] = [];
+
+    for (const info of config.kaminoMarkets) {
+        try {
+            const market = await initializeMarket(new PublicKey(info.address));
+            const slot = await connection.getSlot();
+
+            for (const reserve of market.getReserves()) {
+                const mint = reserve.getLiquidityMint().toBase58();
+                const symbol = STABLE_SYMBOL_BY_MINT.get(mint);
+                if (!symbol) continue;
+
+                const price = reserve.getOracleMarketPrice().toNumber() || 1;
+                const available = reserve.getLiquidityAvailableAmount().div(reserve.getMintFactor()).toNumber();
+
+                snapshots.push({
+                    id: reserveId(symbol, info.name),
+                    market: info.name,
+                    marketAddress: info.address,
+                    reserveAddress: reserve.address.toBase58(),
+                    symbol,
+                    mint,
+                    cTokenMint: reserve.getCTokenMint().toBase58(),
+                    decimals: reserve.getMintDecimals(),
+                    supplyAPY: reserve.totalSupplyAPY(slot) * 100,
+                    utilizationPct: reserve.calculateUtilizationRatio() * 100,
+                    availableLiquidityUSD: available * price,
+                    depositTvlUSD: reserve.getDepositTvl().toNumber(),
+                    depositLimitReached: reserve.depositLimitCrossed()
+                });
+            }
+        } catch {
+            logger.warn(`Kamino market ${info.name} unavailable, skipping`, "Kamino");
+        }
     }
 
-    // Fallback to USDC
-    log("USD1 not found, using USDC");
-    reserve = market.getReserveByMint(USDC_MINT);
+    return snapshots;
+}
 
-    if (!reserve) {
-        throw new Error('No USDC or USD1 reserve found in Kamino market');
+/**
+ * The reserve behind a strategy id. The legacy "USD1-LENDING" id is the main
+ * market's USD1 reserve, or its USDC reserve when USD1 is not listed.
+ */
+async function resolveReserve(strategy: string): Promise<ReserveSnapshot> {
+    const snapshots = await getReserveSnapshots();
+
+    if (strategy === LEGACY_STRATEGY_ID) {
+        const main = snapshots.filter(r => r.marketAddress === KAMINO_MAIN_MARKET.toBase58());
+        const reserve = main.find(r => r.symbol === 'USD1') || main.find(r => r.symbol === 'USDC');
+        if (!reserve) {
+            throw new Error('No USDC or USD1 reserve found in Kamino market');
+        }
+        return reserve;
     }
 
-    return { mint: USDC_MINT, reserve, symbol: 'USDC' };
+    const reserve = snapshots.find(r => r.id === strategy);
+    if (!reserve) {
+        throw new Error(`Unknown Kamino reserve: ${strategy}`);
+    }
+    return reserve;
 }
 
 /**
- * Restore positions from on-chain memos (no DB)
- * Uses memo history to rebuild deposited amount for USD1/USDC.
+ * Hydrate the position store from on-chain memos (first use per wallet only).
+ * Memos carry the reserve's cToken mint; older memos carry the USD1/USDC mint and
+ * map to the legacy main-market strategy.
  */
-export async function loadPositionsFromChain(walletAddress: string, strategy: string = "USD1-LENDING"): Promise<void> {
-    const cacheKey = `${walletAddress}:${strategy}`;
-    if (positionsLoaded.has(cacheKey)) return;
-
-    try {
+export async function loadPositionsFromChain(walletAddress: string): Promise<void> {
+    await ensureHydrated(walletAddress, 'yield', async () => {
         const positions = await reconstructPositions(connection, walletAddress, 'yield');
-        if (positions.length > 0) {
-            const totalDeposited = positions.reduce((sum, p) => sum + p.amount, 0);
-            const symbol = positions[0]?.tokenSymbol || "USD1";
-            const apy = await getCurrentAPY(strategy);
+        if (positions.length === 0) return [];
+
+        const snapshots = await getReserveSnapshots();
+        const legacyMints = [STABLE_RESERVE_MINTS.USD1, STABLE_RESERVE_MINTS.USDC];
+        const stored: StoredPosition[] = [];
+
+        for (const position of positions) {
+            const reserve = snapshots.find(r => r.cTokenMint === position.tokenMint);
+            const strategy = reserve?.id || (legacyMints.includes(position.tokenMint) ? LEGACY_STRATEGY_ID : null);
+            if (!strategy) {
+                logger.warn("Yield memo references an unknown Kamino reserve, skipping", "Kamino");
+                continue;
+            }
 
-            positionCache.set(cacheKey, {
+            stored.push(toStoredPosition(walletAddress, strategy, amountOf(position), {
                 protocol: "Kamino",
-                asset: symbol,
-                deposited: totalDeposited,
-                currentValue: totalDeposited,
-                apy,
+                asset: position.tokenSymbol || "USD1",
+                currentValue: amountOf(position).toNumber(),
+                apy: reserve?.supplyAPY ?? await getCurrentAPY(strategy),
                 earnedYield: 0
-            });
+            }, position.openedAt));
         }
-    } catch (error) {
-        logger.warn("Failed to restore Kamino positions from memos", "Kamino");
-    } finally {
-        positionsLoaded.add(cacheKey);
+
+        return stored;
+    });
+}
+
+/**
+ * Collect a KaminoAction's instructions into one transaction
+ */
+function actionTransaction(action: any, kind: string): Transaction {
+    const transaction = new Transaction();
+    const setupIxs = ((action?.setupIxs ?? action?.setupInstructions) ?? []) as any[];
+    const lendingIxs = ((action?.lendingIxs ?? action?.lendingInstructions) ?? []) as any[];
+    const cleanupIxs = ((action?.cleanupIxs ?? action?.cleanupInstructions) ?? []) as any[];
+    const allIxs = [...setupIxs, ...lendingIxs, ...cleanupIxs].filter(Boolean);
+    if (allIxs.length === 0) {
+        throw new Error(`Kamino SDK returned no ${kind} instructions`);
     }
+    transaction.add(...allIxs);
+    return transaction;
 }
 
 /**
- * Deposit into Kamino lending pool
+ * Deposit into a Kamino reserve. Reserves for other stablecoins are funded with a
+ * policy-guarded USD1 swap first.
  * 
  * Two modes:
  * 1. Server wallet configured: Signs and sends transaction server-side
- * 2. No server wallet: Returns unsigned transaction for user to sign in browser
+ * 2. No server wallet: Returns unsigned transactions for user to sign in browser
  */
 export async function deposit(
     walletAddress: string,
     amount: number,
-    strategy: string = "USD1-LENDING"
-): Promise<TxResult & { unsigned_tx_base64?: string }> {
+    strategy: string = LEGACY_STRATEGY_ID
+): Promise<KaminoTxResult> {
     try {
         log("Depositing into Kamino");
 
-        const market = await initializeMarket();
-        const { mint, reserve, symbol } = await getStablecoinReserve(market);
-
-        const slot = await connection.getSlot();
-        const currentAPY = Number(reserve.totalSupplyAPY(slot)) / 100;
-
-        log(`Using ${symbol} reserve`);
+        const target = await resolveReserve(strategy);
+        const market = await initializeMarket(new PublicKey(target.marketAddress));
+        const mint = new PublicKey(target.mint);
+        const { symbol } = target;
+        const currentAPY = target.supplyAPY;
+
+        log(`Using ${target.id} reserve`);
+
+        const unsignedTxs: string[] = [];
+        const requested = usd1(amount);
+        let depositAmount = requested.withDecimals(target.decimals);
+
+        if (symbol !== 'USD1') {
+            const swap = await executeSwap({
+                inputMint: STABLE_RESERVE_MINTS.USD1,
+                outputMint: target.mint,
+                amount: requested,
+                slippageBps: 20,
+                outputDecimals: target.decimals
+            }, walletAddress, { vault: 'yield', inputSymbol: 'USD1', outputSymbol: symbol });
+
+            if (!swap.success) {
+                return { success: false, error: swap.error || `USD1 → ${symbol} swap failed`, timestamp: Date.now() };
+            }
+            if (swap.unsigned_tx_base64) unsignedTxs.push(swap.unsigned_tx_base64);
+            const swapped = swap.outputAmount?.isPositive() ? swap.outputAmount : (swap.inputAmount ?? requested);
+            depositAmount = swapped.withDecimals(target.decimals);
+        }
 
         const walletPubkey = new PublicKey(walletAddress);
-        const amountLamports = Math.floor(amount * 1_000_000);
 
         log("Building deposit transaction");
 
         // SDK 5.15.4 buildDepositTxns arguments
         const depositAction = await KaminoAction.buildDepositTxns(
             market,
-            amountLamports.toString(),
+            depositAmount.units.toString(),
             mint,
             walletPubkey,
-            new VanillaObligation(KAMINO_MAIN_MARKET),
+            new VanillaObligation(market.programId),
             true, // useV2Ixs
             undefined, // scopeRefreshConfig
             undefined, // extraComputeBudget
@@ -178,19 +334,10 @@ export async function deposit(
         log("Deposit instructions created");
 
         // Build transaction
-        const transaction = new Transaction();
-        const setupIxs = (((depositAction as any)?.setupIxs ?? (depositAction as any)?.setupInstructions) ?? []) as any[];
-        const lendingIxs = (((depositAction as any)?.lendingIxs ?? (depositAction as any)?.lendingInstructions) ?? []) as any[];
-        const cleanupIxs = (((depositAction as any)?.cleanupIxs ?? (depositAction as any)?.cleanupInstructions) ?? []) as any[];
-        const allIxs = [...setupIxs, ...lendingIxs, ...cleanupIxs].filter(Boolean);
-        if (allIxs.length === 0) {
-            throw new Error("Kamino SDK returned no deposit instructions");
-        }
-        transaction.add(...allIxs);
-
+        const transaction = actionTransaction(depositAction, "deposit");
 
         // Get recent blockhash
-        const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+        const { blockhash } = await connection.getLatestBlockhash();
         transaction.recentBlockhash = blockhash;
         transaction.feePayer = walletPubkey;
 
@@ -208,8 +355,8 @@ export async function deposit(
             );
             log("Transaction confirmed");
 
-            // Update cache
-            updatePositionCache(walletAddress, strategy, symbol, amount, currentAPY);
+            // Update position store
+            await updatePositionCache(walletAddress, target.id, symbol, depositAmount, currentAPY);
 
             return {
                 success: true,
@@ -220,29 +367,30 @@ export async function deposit(
             // USER WALLET MODE: Return unsigned transaction for frontend signing
             log("Returning unsigned transaction for user signing");
 
-            // Attach on-chain memo for yield position persistence (no DB)
+            // Attach on-chain memo for yield position persistence (no DB).
+            // The cToken mint identifies the reserve and its market.
             transaction.add(
-                createPositionMemoInstruction(walletPubkey, {
+                await createPositionMemoInstruction(connection, walletPubkey, {
                     vault: 'yield',
                     action: 'add',
                     tokenSymbol: symbol,
-                    tokenMint: mint.toBase58(),
-                    amount,
+                    tokenMint: target.cTokenMint,
+                    ...unitsOf(depositAmount),
                     priceUSD: 1,
                     timestamp: Date.now()
                 })
             );
 
             const serialized = transaction.serialize({ requireAllSignatures: false });
-            const base64Tx = serialized.toString('base64');
+            unsignedTxs.push(serialized.toString('base64'));
 
-            // Update cache optimistically (will be confirmed when tx succeeds)
-            updatePositionCache(walletAddress, strategy, symbol, amount, currentAPY);
+            // Update store optimistically (will be confirmed when tx succeeds)
+            await updatePositionCache(walletAddress, target.id, symbol, depositAmount, currentAPY);
 
             return {
                 success: true,
                 txSignature: `pending_user_sign_${Date.now()}`,
-                unsigned_tx_base64: base64Tx,
+                unsigned_txs: unsignedTxs,
                 timestamp: Date.now()
             };
         }
@@ -264,45 +412,107 @@ export async function deposit(
 }
 
 /**
- * Helper to update position cache
+ * Rank the reserves for a risk tolerance and split a deposit across the best ones
+ */
+export async function planDeposit(amount: number, riskTolerance: RiskTolerance = "low"): Promise<ReservePlan> {
+    const ranked = rankReserves(await getReserveSnapshots(), riskTolerance);
+    return allocateAcrossReserves(amount, ranked, riskTolerance);
+}
+
+/**
+ * Deposit across the top reserves for a risk tolerance. Succeeds when at least one
+ * reserve deposit succeeds; the failed and unallocated remainders stay in USD1.
+ */
+export async function depositAcrossReserves(
+    walletAddress: string,
+    amount: number,
+    riskTolerance: RiskTolerance = "low"
+): Promise<KaminoTxResult & { deposited: Record<string, number>; unallocated: number }> {
+    const plan = await planDeposit(amount, riskTolerance);
+
+    if (plan.allocations.length === 0) {
+        return {
+            success: false,
+            error: `No Kamino reserve meets the ${riskTolerance} risk limits`,
+            deposited: {},
+            unallocated: amount,
+            timestamp: Date.now()
+        };
+    }
+
+    log(`Routing deposit across ${plan.allocations.length} reserve(s)`);
+
+    const deposited: Record<string, number> = {};
+    const signatures: string[] = [];
+    const unsignedTxs: string[] = [];
+    const errors: string[] = [];
+    let unallocated = plan.unallocated;
+
+    for (const { reserve, amount: share } of plan.allocations) {
+        const result = await deposit(walletAddress, share, reserve.id);
+        if (!result.success) {
+            errors.push(`${reserve.id}: ${result.error}`);
+            unallocated += share;
+            continue;
+        }
+        deposited[reserve.id] = share;
+        if (result.txSignature) signatures.push(result.txSignature);
+        if (result.unsigned_txs) unsignedTxs.push(...result.unsigned_txs);
+    }
+
+    return {
+        success: signatures.length > 0,
+        txSignature: signatures.join(',') || undefined,
+        unsigned_txs: unsignedTxs.length > 0 ? unsignedTxs : undefined,
+        error: errors.length > 0 ? errors.join('; ') : undefined,
+        deposited,
+        unallocated,
+        timestamp: Date.now()
+    };
+}
+
+/**
+ * Helper to record a deposit in the position store
  */
-function updatePositionCache(
+async function updatePositionCache(
     walletAddress: string,
     strategy: string,
     symbol: string,
-    amount: number,
+    amount: TokenAmount,
     currentAPY: number
-) {
-    const positionKey = `${walletAddress}:${strategy}`;
-    const existing = positionCache.get(positionKey);
+): Promise<void> {
+    const store = getPositionRepository();
+    const stored = await store.get(walletAddress, 'yield', strategy);
+    const existing = stored ? toLendingPosition(stored) : null;
+    const deposited = stored ? amountOf(stored).add(amount.withDecimals(stored.decimals)) : amount;
 
-    positionCache.set(positionKey, {
+    await store.upsert(toStoredPosition(walletAddress, strategy, deposited, {
         protocol: "Kamino",
         asset: symbol,
-        deposited: (existing?.deposited || 0) + amount,
-        currentValue: (existing?.currentValue || 0) + amount,
+        currentValue: (existing?.currentValue || 0) + amount.toNumber(),
         apy: currentAPY,
         earnedYield: existing?.earnedYield || 0
-    });
+    }, stored?.entryTimestamp));
 }
 
 /**
- * Withdraw from Kamino lending pool
+ * Withdraw from a Kamino reserve. Withdrawals from other stablecoin reserves are
+ * swapped back to USD1; if that swap fails the proceeds stay in the reserve's token.
  * 
  * Two modes:
  * 1. Server wallet configured: Signs and sends transaction server-side
- * 2. No server wallet: Returns unsigned transaction for user to sign in browser
+ * 2. No server wallet: Returns unsigned transactions for user to sign in browser
  */
 export async function withdraw(
     walletAddress: string,
     amount: number,
-    strategy: string = "USD1-LENDING"
-): Promise<TxResult & { unsigned_tx_base64?: string }> {
+    strategy: string = LEGACY_STRATEGY_ID
+): Promise<KaminoTxResult> {
     try {
         log("Withdrawing from Kamino");
 
-        const positionKey = `${walletAddress}:${strategy}`;
-        const position = positionCache.get(positionKey);
+        const stored = await getPositionRepository().get(walletAddress, 'yield', strategy);
+        const position = stored ? toLendingPosition(stored) : null;
 
         if (!position || position.currentValue < amount) {
             return {
@@ -312,21 +522,23 @@ export async function withdraw(
             };
         }
 
-        const market = await initializeMarket();
-        const { mint, symbol } = await getStablecoinReserve(market);
+        const target = await resolveReserve(strategy);
+        const market = await initializeMarket(new PublicKey(target.marketAddress));
+        const mint = new PublicKey(target.mint);
+        const { symbol } = target;
 
         const walletPubkey = new PublicKey(walletAddress);
-        const amountLamports = Math.floor(amount * 1_000_000);
+        const amountUnits = TokenAmount.fromDecimal(amount, target.decimals);
 
         log("Building withdrawal transaction");
 
         // SDK 5.15.4 buildWithdrawTxns arguments
         const withdrawAction = await KaminoAction.buildWithdrawTxns(
             market,
-            amountLamports.toString(),
+            amountUnits.units.toString(),
             mint,
             walletPubkey,
-            new VanillaObligation(KAMINO_MAIN_MARKET),
+            new VanillaObligation(market.programId),
             true, // useV2Ixs
             undefined, // scopeRefreshConfig
             undefined, // extraComputeBudget
@@ -336,15 +548,7 @@ export async function withdraw(
         log("Withdrawal instructions created");
 
         // Build transaction
-        const transaction = new Transaction();
-        const setupIxs = (((withdrawAction as any)?.setupIxs ?? (withdrawAction as any)?.setupInstructions) ?? []) as any[];
-        const lendingIxs = (((withdrawAction as any)?.lendingIxs ?? (withdrawAction as any)?.lendingInstructions) ?? []) as any[];
-        const cleanupIxs = (((withdrawAction as any)?.cleanupIxs ?? (withdrawAction as any)?.cleanupInstructions) ?? []) as any[];
-        const allIxs = [...setupIxs, ...lendingIxs, ...cleanupIxs].filter(Boolean);
-        if (allIxs.length === 0) {
-            throw new Error("Kamino SDK returned no withdraw instructions");
-        }
-        transaction.add(...allIxs);
+        const transaction = actionTransaction(withdrawAction, "withdraw");
 
         // Get recent blockhash
         const { blockhash } = await connection.getLatestBlockhash();
@@ -353,57 +557,64 @@ export async function withdraw(
 
         // Check if server wallet is configured
         const signer = loadWalletKeypair();
+        const unsignedTxs: string[] = [];
+        let txSignature: string;
 
         if (signer) {
             // SERVER MODE: Sign and send transaction
             log("Sending withdrawal transaction (server wallet)");
-            const signature = await sendAndConfirmTransaction(
+            txSignature = await sendAndConfirmTransaction(
                 connection,
                 transaction,
                 [signer],
                 { skipPreflight: true, commitment: 'confirmed' }
             );
             log("Transaction confirmed");
-
-            // Update position
-            reducePositionCache(walletAddress, strategy, amount);
-
-            return {
-                success: true,
-                txSignature: signature,
-                timestamp: Date.now()
-            };
         } else {
             // USER WALLET MODE: Return unsigned transaction for frontend signing
             log("Returning unsigned transaction for user signing");
 
             // Attach on-chain memo for yield position persistence (no DB)
             transaction.add(
-                createPositionMemoInstruction(walletPubkey, {
+                await createPositionMemoInstruction(connection, walletPubkey, {
                     vault: 'yield',
                     action: 'reduce',
                     tokenSymbol: symbol,
-                    tokenMint: mint.toBase58(),
-                    amount,
+                    tokenMint: strategy === LEGACY_STRATEGY_ID ? target.mint : target.cTokenMint,
+                    ...unitsOf(amountUnits),
                     priceUSD: 1,
                     timestamp: Date.now()
                 })
             );
 
             const serialized = transaction.serialize({ requireAllSignatures: false });
-            const base64Tx = serialized.toString('base64');
-
-            // Update cache optimistically
-            reducePositionCache(walletAddress, strategy, amount);
+            unsignedTxs.push(serialized.toString('base64'));
+            txSignature = `pending_user_sign_${Date.now()}`;
+        }
 
-            return {
-                success: true,
-                txSignature: `pending_user_sign_${Date.now()}`,
-                unsigned_tx_base64: base64Tx,
-                timestamp: Date.now()
-            };
+        if (symbol !== 'USD1') {
+            const swap = await swapToUSD1(target.mint, amountUnits, walletAddress, {
+                vault: 'yield',
+                inputSymbol: symbol,
+                outputSymbol: 'USD1'
+            });
+            if (!swap.success) {
+                log(`Warning: ${symbol} → USD1 swap failed, proceeds stay in ${symbol}`);
+            } else if (swap.unsigned_tx_base64) {
+                unsignedTxs.push(swap.unsigned_tx_base64);
+            }
         }
 
+        // Update position (optimistically in user wallet mode)
+        await reducePositionCache(walletAddress, strategy, amountUnits);
+
+        return {
+            success: true,
+            txSignature,
+            unsigned_txs: unsignedTxs.length > 0 ? unsignedTxs : undefined,
+            timestamp: Date.now()
+        };
+
     } catch (error) {
         if (error instanceof Error && error.message.includes('0x17a3')) {
             log("Retrying after error");
@@ -421,35 +632,80 @@ export async function withdraw(
 }
 
 /**
- * Helper to reduce position cache on withdraw
+ * Withdraw across the wallet's reserves, lowest APY first
+ */
+export async function withdrawAcrossReserves(walletAddress: string, amount: number): Promise<KaminoTxResult> {
+    const stored = await getPositionRepository().list(walletAddress, 'yield');
+    const byAPY = [...stored].sort((a, b) => (a.lending?.apy ?? 0) - (b.lending?.apy ?? 0));
+
+    const signatures: string[] = [];
+    const unsignedTxs: string[] = [];
+    let remaining = amount;
+
+    for (const record of byAPY) {
+        if (remaining <= 0.000001) break;
+        const take = Math.min(remaining, toLendingPosition(record).currentValue);
+        if (take <= 0) continue;
+
+        const result = await withdraw(walletAddress, take, record.token);
+        if (!result.success) {
+            return { ...result, txSignature: signatures.join(',') || undefined };
+        }
+        if (result.txSignature) signatures.push(result.txSignature);
+        if (result.unsigned_txs) unsignedTxs.push(...result.unsigned_txs);
+        remaining -= take;
+    }
+
+    if (remaining > 0.000001 && signatures.length === 0) {
+        return {
+            success: false,
+            error: `Insufficient balance. Available: ${amount - remaining}`,
+            timestamp: Date.now()
+        };
+    }
+
+    return {
+        success: true,
+        txSignature: signatures.join(','),
+        unsigned_txs: unsignedTxs.length > 0 ? unsignedTxs : undefined,
+        timestamp: Date.now()
+    };
+}
+
+/**
+ * Helper to reduce the stored position on withdraw
  */
-function reducePositionCache(walletAddress: string, strategy: string, amount: number) {
-    const positionKey = `${walletAddress}:${strategy}`;
-    const position = positionCache.get(positionKey);
+async function reducePositionCache(walletAddress: string, strategy: string, amount: TokenAmount): Promise<void> {
+    const store = getPositionRepository();
+    const stored = await store.get(walletAddress, 'yield', strategy);
 
-    if (position) {
-        position.deposited = Math.max(0, position.deposited - amount);
-        position.currentValue = Math.max(0, position.currentValue - amount);
+    if (stored) {
+        const position = toLendingPosition(stored);
+        const deposited = amountOf(stored).sub(amount.withDecimals(stored.decimals));
+        position.currentValue = Math.max(0, position.currentValue - amount.toNumber());
 
-        if (position.deposited <= 0) {
-            positionCache.delete(positionKey);
+        if (!deposited.isPositive()) {
+            await store.remove(walletAddress, 'yield', strategy);
         } else {
-            positionCache.set(positionKey, position);
+            await store.upsert(toStoredPosition(walletAddress, strategy, deposited, position, stored.entryTimestamp));
         }
     }
 }
 
 /**
- * Get user's obligation (position) from Kamino
+ * Get user's obligation (position) in a Kamino market, or null when it has none
  */
-export async function getUserObligation(walletAddress: string): Promise<any> {
+export async function getUserObligation(
+    walletAddress: string,
+    marketAddress: string = KAMINO_MAIN_MARKET.toBase58()
+): Promise<KaminoObligation | null> {
     try {
-        const market = await initializeMarket();
+        const market = await initializeMarket(new PublicKey(marketAddress));
         const walletPubkey = new PublicKey(walletAddress);
 
         const obligation = await market.getObligationByWallet(
             walletPubkey,
-            new VanillaObligation(KAMINO_MAIN_MARKET)
+            new VanillaObligation(market.programId)
         );
 
         return obligation;
@@ -462,136 +718,282 @@ export async function getUserObligation(walletAddress: string): Promise<any> {
 /**
  * Get current position
  */
-export function getPosition(walletAddress: string, strategy?: string): LendingPosition | null {
+export async function getPosition(walletAddress: string, strategy?: string): Promise<LendingPosition | null> {
+    const store = getPositionRepository();
+
     if (strategy) {
-        return positionCache.get(`${walletAddress}:${strategy}`) || null;
+        const stored = await store.get(walletAddress, 'yield', strategy);
+        return stored ? toLendingPosition(stored) : null;
     }
 
+    const positions = await getAllPositions(walletAddress);
     let totalPosition: LendingPosition | null = null;
 
-    for (const [key, position] of positionCache) {
-        if (key.startsWith(walletAddress)) {
-            if (!totalPosition) {
-                totalPosition = { ...position };
-            } else {
-                totalPosition.deposited += position.deposited;
-                totalPosition.currentValue += position.currentValue;
-                totalPosition.earnedYield += position.earnedYield;
-                totalPosition.apy = (totalPosition.apy + position.apy) / 2;
-            }
+    for (const position of positions) {
+        if (!totalPosition) {
+            totalPosition = { ...position };
+        } else {
+            totalPosition.deposited += position.deposited;
+            totalPosition.currentValue += position.currentValue;
+            totalPosition.earnedYield += position.earnedYield;
         }
     }
 
+    // Value-weighted APY across reserves
+    if (totalPosition && totalPosition.currentValue > 0) {
+        totalPosition.apy = positions.reduce((sum, p) => sum + p.apy * p.currentValue, 0) / totalPosition.currentValue;
+    }
+
     return totalPosition;
 }
 
 /**
  * Get all positions for a wallet
  */
-export function getAllPositions(walletAddress: string): LendingPosition[] {
-    const result: LendingPosition[] = [];
+export async function getAllPositions(walletAddress: string): Promise<LendingPosition[]> {
+    const stored = await getPositionRepository().list(walletAddress, 'yield');
+    return stored.map(toLendingPosition);
+}
+
+interface OnChainDeposit {
+    strategy: string;       // Reserve id
+    symbol: string;
+    mint: string;
+    cTokenMint: string;
+    marketAddress: string;
+    amount: number;         // Liquidity tokens the collateral redeems for now
+    valueUSD: number;
+    apy: number;
+}
+
+/**
+ * The wallet's stablecoin deposits in every configured market, valued through each
+ * reserve's collateral exchange rate; null when no market could be read
+ */
+async function readOnChainDeposits(walletAddress: string): Promise<OnChainDeposit[] | null> {
+    const deposits: OnChainDeposit[] = [];
+    let marketsRead = 0;
 
-    for (const [key, position] of positionCache) {
-        if (key.startsWith(walletAddress)) {
-            result.push(position);
+    for (const info of config.kaminoMarkets) {
+        try {
+            const market = await initializeMarket(new PublicKey(info.address));
+            marketsRead++;
+
+            const obligation = await getUserObligation(walletAddress, info.address);
+            if (!obligation) continue;
+
+            const slot = await connection.getSlot();
+            for (const collateral of obligation.state.deposits) {
+                if (collateral.depositedAmount.isZero()) continue;
+
+                const reserve = market.getReserveByAddress(collateral.depositReserve);
+                const mint = reserve?.getLiquidityMint().toBase58();
+                const symbol = mint && STABLE_SYMBOL_BY_MINT.get(mint);
+                if (!reserve || !symbol) continue;
+
+                // cTokens per liquidity token
+                const rate = reserve.getEstimatedCollateralExchangeRate(slot, 0).toNumber();
+                const amount = Number(collateral.depositedAmount.toString()) / rate / reserve.getMintFactor().toNumber();
+
+                deposits.push({
+                    strategy: reserveId(symbol, info.name),
+                    symbol,
+                    mint,
+                    cTokenMint: reserve.getCTokenMint().toBase58(),
+                    marketAddress: info.address,
+                    amount,
+                    valueUSD: amount * (reserve.getOracleMarketPrice().toNumber() || 1),
+                    apy: reserve.totalSupplyAPY(slot) * 100
+                });
+            }
+        } catch {
+            logger.warn(`Kamino market ${info.name} unavailable, skipping`, "Kamino");
         }
     }
 
-    return result;
+    return marketsRead > 0 ? deposits : null;
 }
 
 /**
- * Accrue yield
+ * Net deposited principal per memo token mint (cToken mint, or USD1/USDC for
+ * legacy memos); null when the memo history can't be read
  */
-export function accrueYield(walletAddress: string): void {
-    for (const [key, position] of positionCache) {
-        if (key.startsWith(walletAddress)) {
-            const hourlyRate = position.apy / 100 / 8760;
-            const yield_ = position.currentValue * hourlyRate;
-
-            position.currentValue += yield_;
-            position.earnedYield += yield_;
+async function memoPrincipals(walletAddress: string): Promise<Map<string, TokenAmount> | null> {
+    try {
+        const positions = await reconstructPositions(connection, walletAddress, 'yield');
+        return new Map(positions.map(p => [p.tokenMint, amountOf(p).withDecimals(USD1_DECIMALS)]));
+    } catch {
+        return null;
+    }
+}
 
-            positionCache.set(key, position);
+/**
+ * Update stored yield positions from the chain: current value from the obligation's
+ * collateral at the reserve exchange rate, principal from the position memos (or the
+ * stored deposit when a reserve has no memos, e.g. server-signed deposits), and
+ * earned yield as the difference. Positions not found on chain (unsigned deposits)
+ * are left as they are; nothing changes when no market can be read.
+ */
+export async function syncYieldFromChain(walletAddress: string): Promise<void> {
+    const onChain = await readOnChainDeposits(walletAddress);
+    if (!onChain || onChain.length === 0) return;
+
+    const principals = await memoPrincipals(walletAddress);
+    const store = getPositionRepository();
+    const updated = await store.list(walletAddress, 'yield');
+
+    for (const deposit of onChain) {
+        let index = updated.findIndex(r => r.token === deposit.strategy);
+
+        // Records from before multi-reserve routing hold the main market's USD1/USDC reserve
+        const isLegacyReserve = deposit.marketAddress === KAMINO_MAIN_MARKET.toBase58()
+            && (deposit.symbol === 'USD1' || deposit.symbol === 'USDC');
+        if (index < 0 && isLegacyReserve) {
+            index = updated.findIndex(r => r.token === LEGACY_STRATEGY_ID);
         }
+
+        const record = index >= 0 ? updated[index] : null;
+        const strategy = record?.token ?? deposit.strategy;
+
+        const none = TokenAmount.zero(USD1_DECIMALS);
+        const fromMemos = (principals?.get(deposit.cTokenMint) || none)
+            .add(strategy === LEGACY_STRATEGY_ID ? principals?.get(deposit.mint) || none : none);
+        const principal = fromMemos.isPositive()
+            ? fromMemos
+            : (record ? amountOf(record) : usd1(deposit.valueUSD));
+
+        const next = toStoredPosition(walletAddress, strategy, principal, {
+            protocol: "Kamino",
+            asset: deposit.symbol,
+            currentValue: deposit.valueUSD,
+            apy: deposit.apy,
+            earnedYield: Math.max(0, deposit.valueUSD - principal.toNumber())
+        }, record?.entryTimestamp);
+
+        if (index >= 0) updated[index] = next;
+        else updated.push(next);
     }
+
+    await store.replace(walletAddress, 'yield', updated);
 }
 
 /**
- * Get current APY
+ * Refresh the reserves and obligation on chain in every market the wallet has
+ * deposits in, settling accrued interest into the collateral exchange rate, then
+ * re-read the positions. Supplied interest compounds inside the reserve, so this is
+ * the whole compounding step.
  */
-export async function getCurrentAPY(strategy: string = "USD1-LENDING"): Promise<number> {
+export async function compound(walletAddress: string): Promise<KaminoTxResult> {
     try {
-        const market = await initializeMarket();
-        const slot = await connection.getSlot();
+        log("Refreshing Kamino obligations");
 
-        let reserve = market.getReserveByMint(USD1_MINT);
-        if (!reserve) {
-            reserve = market.getReserveByMint(USDC_MINT);
+        const walletPubkey = new PublicKey(walletAddress);
+        const signer = loadWalletKeypair();
+        const signatures: string[] = [];
+        const unsignedTxs: string[] = [];
+
+        for (const info of config.kaminoMarkets) {
+            const obligation = await getUserObligation(walletAddress, info.address);
+            if (!obligation || obligation.state.deposits.every(d => d.depositedAmount.isZero())) continue;
+
+            const market = await initializeMarket(new PublicKey(info.address));
+            const refreshAction = await KaminoAction.buildRefreshObligationTxns(market, walletPubkey, obligation);
+            const transaction = actionTransaction(refreshAction, "refresh");
+
+            const { blockhash } = await connection.getLatestBlockhash();
+            transaction.recentBlockhash = blockhash;
+            transaction.feePayer = walletPubkey;
+
+            if (signer) {
+                signatures.push(await sendAndConfirmTransaction(
+                    connection,
+                    transaction,
+                    [signer],
+                    { skipPreflight: true, commitment: 'confirmed' }
+                ));
+            } else {
+                unsignedTxs.push(transaction.serialize({ requireAllSignatures: false }).toString('base64'));
+            }
         }
 
-        if (!reserve) {
-            return 8.5;
+        await syncYieldFromChain(walletAddress);
+
+        if (signatures.length === 0 && unsignedTxs.length === 0) {
+            log("No Kamino deposits to refresh");
         }
 
-        return Number(reserve.totalSupplyAPY(slot)) / 100;
+        return {
+            success: true,
+            txSignature: signatures.join(',') || (unsignedTxs.length > 0 ? `pending_user_sign_${Date.now()}` : undefined),
+            unsigned_txs: unsignedTxs.length > 0 ? unsignedTxs : undefined,
+            timestamp: Date.now()
+        };
     } catch (error) {
-        logger.warn("Failed to fetch APY, using default", "Kamino");
-        return 8.5;
+        logger.error("Compound failed", "Kamino");
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Compound failed',
+            timestamp: Date.now()
+        };
     }
 }
 
 /**
- * Get total value
+ * Get current supply APY (%) of a strategy's reserve
  */
-export function getTotalValue(walletAddress: string): number {
-    let total = 0;
-
-    for (const [key, position] of positionCache) {
-        if (key.startsWith(walletAddress)) {
-            total += position.currentValue;
-        }
+export async function getCurrentAPY(strategy: string = LEGACY_STRATEGY_ID): Promise<number> {
+    try {
+        return (await resolveReserve(strategy)).supplyAPY;
+    } catch (error) {
+        logger.warn("Failed to fetch APY, using default", "Kamino");
+        return FALLBACK_APY;
     }
+}
 
-    return total;
+/**
+ * Get total value
+ */
+export async function getTotalValue(walletAddress: string): Promise<number> {
+    const positions = await getAllPositions(walletAddress);
+    return positions.reduce((total, position) => total + position.currentValue, 0);
 }
 
 /**
  * Get total earned
  */
-export function getTotalEarned(walletAddress: string): number {
-    let total = 0;
-
-    for (const [key, position] of positionCache) {
-        if (key.startsWith(walletAddress)) {
-            total += position.earnedYield;
-        }
-    }
-
-    return total;
+export async function getTotalEarned(walletAddress: string): Promise<number> {
+    const positions = await getAllPositions(walletAddress);
+    return positions.reduce((total, position) => total + position.earnedYield, 0);
 }
 
 /**
- * Get available strategies
+ * Get available strategies: every reserve that at least one risk tolerance may use,
+ * labelled with the most conservative such tolerance, best first
  */
-export function getAvailableStrategies() {
-    return [
-        {
-            id: "USD1-LENDING",
-            name: "Stablecoin Lending",
-            description: "USD1 or USDC lending (auto-detected)",
-            baseAPY: 8.5,
-            boostAPY: 2.3,
-            totalAPY: 10.8,
-            risk: "low" as const,
-            tvl: 45_000_000
-        }
-    ];
+export async function getAvailableStrategies() {
+    const snapshots = await getReserveSnapshots();
+    const tolerances: RiskTolerance[] = ["low", "medium", "high"];
+    const rankings = tolerances.map(t => ({ tolerance: t, ranked: rankReserves(snapshots, t) }));
+
+    return rankReserves(snapshots, "high").map(reserve => ({
+        id: reserve.id,
+        name: `${reserve.symbol} Lending (${reserve.market})`,
+        description: `${reserve.symbol} supplied to the Kamino ${reserve.market} market`,
+        baseAPY: reserve.supplyAPY,
+        boostAPY: 0,
+        totalAPY: reserve.supplyAPY,
+        risk: rankings.find(r => r.ranked.some(x => x.id === reserve.id))!.tolerance,
+        tvl: reserve.depositTvlUSD,
+        utilizationPct: reserve.utilizationPct,
+        availableLiquidityUSD: reserve.availableLiquidityUSD
+    }));
 }
 
 /**
- * Get best strategy
+ * Get best strategy: the top-ranked reserve for the risk tolerance, or the legacy
+ * main-market strategy when no reserve qualifies (or markets are unreachable)
  */
-export function getBestStrategy(riskTolerance: "low" | "medium" | "high"): string {
-    return "USD1-LENDING";
+export async function getBestStrategy(riskTolerance: RiskTolerance): Promise<string> {
+    const ranked = rankReserves(await getReserveSnapshots(), riskTolerance);
+    return ranked[0]?.id ?? LEGACY_STRATEGY_ID;
 }
@@ -0,0 +1,159 @@
+/**
+ * Kamino Reserve Routing
+ * Pure ranking and allocation over stablecoin reserve snapshots from every configured
+ * Kamino market: reserves are filtered by the risk tolerance's limits, ranked by live
+ * supply APY discounted for utilization and shallow liquidity, and a deposit is split
+ * across the top reserves within per-reserve caps.
+ */
+
+export type RiskTolerance = "low" | "medium" | "high";
+
+export interface KaminoMarketInfo {
+    name: string;       // Short name used in reserve ids, e.g. "main"
+    address: string;
+}
+
+/** Stablecoins the yield vault may lend, by symbol */
+export const STABLE_RESERVE_MINTS: Record<string, string> = {
+    USD1: "USD1ttGY1N17NEEHLmELoaybftRBUSErhqYiQzvEmuB",
+    USDC: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+    USDT: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+    PYUSD: "2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo"
+};
+
+/** Strategy id stored before multi-reserve routing: the main market's USD1 (or USDC) reserve */
+export const LEGACY_STRATEGY_ID = "USD1-LENDING";
+
+export interface ReserveSnapshot {
+    id: string;                     // `${symbol}-${market}` in upper case, e.g. "USDC-MAIN"
+    market: string;
+    marketAddress: string;
+    reserveAddress: string;
+    symbol: string;
+    mint: string;
+    cTokenMint: string;
+    decimals: number;
+    supplyAPY: number;              // %
+    utilizationPct: number;
+    availableLiquidityUSD: number;  // Withdrawable right now
+    depositTvlUSD: number;
+    depositLimitReached: boolean;
+}
+
+export interface RankedReserve extends ReserveSnapshot {
+    score: number;
+    capUSD: number;                 // Most a single deposit may put into this reserve
+}
+
+export interface ReserveAllocation {
+    reserve: RankedReserve;
+    amount: number;
+}
+
+export interface ReservePlan {
+    allocations: ReserveAllocation[];
+    unallocated: number;            // Left as USD1 once every eligible reserve is at its cap
+}
+
+interface ReserveLimits {
+    markets: string[] | "all";
+    symbols: string[];
+    maxUtilizationPct: number;      // Above this withdrawals risk being stuck
+    minLiquidityUSD: number;
+    maxReserves: number;
+    maxSharePct: number;            // Of the deposit, per reserve
+    utilizationWeight: number;      // How strongly utilization discounts the score
+}
+
+export const RESERVE_LIMITS: Record<RiskTolerance, ReserveLimits> = {
+    low: {
+        markets: ["main"],
+        symbols: ["USD1", "USDC"],
+        maxUtilizationPct: 85,
+        minLiquidityUSD: 5_000_000,
+        maxReserves: 2,
+        maxSharePct: 60,
+        utilizationWeight: 0.5
+    },
+    medium: {
+        markets: "all",
+        symbols: ["USD1", "USDC", "USDT", "PYUSD"],
+        maxUtilizationPct: 90,
+        minLiquidityUSD: 1_000_000,
+        maxReserves: 3,
+        maxSharePct: 50,
+        utilizationWeight: 0.3
+    },
+    high: {
+        markets: "all",
+        symbols: ["USD1", "USDC", "USDT", "PYUSD"],
+        maxUtilizationPct: 95,
+        minLiquidityUSD: 250_000,
+        maxReserves: 4,
+        maxSharePct: 40,
+        utilizationWeight: 0.1
+    }
+};
+
+/** A deposit never takes more than this share of a reserve's available liquidity */
+const MAX_LIQUIDITY_SHARE = 0.01;
+
+/** Allocations smaller than this are skipped */
+const MIN_ALLOCATION_USD = 1;
+
+export const reserveId = (symbol: string, market: string): string =>
+    `${symbol}-${market}`.toUpperCase();
+
+/**
+ * Eligible reserves for a risk tolerance, best first.
+ * score = supplyAPY × (1 - utilization × weight) × depth, where depth reaches 1 at
+ * ten times the liquidity floor.
+ */
+export function rankReserves(snapshots: ReserveSnapshot[], riskTolerance: RiskTolerance): RankedReserve[] {
+    const limits = RESERVE_LIMITS[riskTolerance];
+
+    return snapshots
+        .filter(r => limits.markets === "all" || limits.markets.includes(r.market))
+        .filter(r => limits.symbols.includes(r.symbol))
+        .filter(r => !r.depositLimitReached)
+        .filter(r => r.supplyAPY > 0 && Number.isFinite(r.supplyAPY))
+        .filter(r => r.utilizationPct <= limits.maxUtilizationPct)
+        .filter(r => r.availableLiquidityUSD >= limits.minLiquidityUSD)
+        .map(r => {
+            const depth = Math.min(1, r.availableLiquidityUSD / (limits.minLiquidityUSD * 10));
+            const utilization = 1 - (r.utilizationPct / 100) * limits.utilizationWeight;
+            return {
+                ...r,
+                score: r.supplyAPY * utilization * depth,
+                capUSD: r.availableLiquidityUSD * MAX_LIQUIDITY_SHARE
+            };
+        })
+        .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Split a deposit across the top reserves, best first, each up to the tolerance's
+ * share cap and its liquidity cap. What no reserve can take stays unallocated (USD1).
+ */
+export function allocateAcrossReserves(
+    amount: number,
+    ranked: RankedReserve[],
+    riskTolerance: RiskTolerance
+): ReservePlan {
+    const limits = RESERVE_LIMITS[riskTolerance];
+    const top = ranked.slice(0, limits.maxReserves);
+    // With fewer reserves than it takes to place the whole deposit, the share cap loosens
+    const shareCap = amount * (Math.max(limits.maxSharePct, 100 / Math.max(1, top.length)) / 100);
+    const cap = (r: RankedReserve) => Math.min(shareCap, r.capUSD);
+
+    const allocations: ReserveAllocation[] = [];
+    let remaining = amount;
+    for (const reserve of top) {
+        const take = Math.min(remaining, cap(reserve));
+        if (take < MIN_ALLOCATION_USD) continue;
+        allocations.push({ reserve, amount: take });
+        remaining -= take;
+    }
+
+    return { allocations, unallocated: Math.max(0, remaining) };
+}
@@ -0,0 +1,191 @@
+/**
+ * Swap Execution Journal
+ * One record per swap: policy verdict, price impact, and realized slippage against
+ * the reference price, so slippage can be measured per vault.
+ * Non-logging policy: records never hold wallets, amounts or tx hashes — only
+ * symbols, percentages and outcomes.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { config } from "../config.js";
+import { logger } from "../logger.js";
+import type { PositionVault } from "../positions/types.js";
+
+export type SwapVault = PositionVault | "unassigned";
+
+export type SwapStatus =
+    | "filled"              // Every chunk executed (or simulated)
+    | "partial"             // A later TWAP chunk was rejected or failed
+    | "pending-signature"   // Returned unsigned to the user's wallet
+    | "rejected"            // The policy refused the first quote
+    | "failed";
+
+export interface SwapRecord {
+    id: string;
+    createdAt: number;
+    vault: SwapVault;
+    inputSymbol: string;
+    outputSymbol: string;
+    status: SwapStatus;
+    chunks: number;
+    chunksFilled: number;
+    priceImpactPct: number | null;      // Worst chunk
+    quoteDeviationPct: number | null;   // Quoted output vs reference-price output
+    slippagePct: number | null;         // Realized output vs reference-price output
+    realizedOnChain: boolean;           // false: realized output taken from the quote
+    reasons?: string[];
+}
+
+export interface SwapQuery {
+    vault?: SwapVault;
+    since?: number;
+    limit?: number;
+}
+
+export interface SlippageSummary {
+    vault: SwapVault;
+    swaps: number;
+    filled: number;
+    rejected: number;
+    avgSlippagePct: number | null;
+    worstSlippagePct: number | null;
+    avgPriceImpactPct: number | null;
+}
+
+export interface SwapJournal {
+    append(record: SwapRecord): Promise<void>;
+    /** Newest first */
+    list(query: SwapQuery): Promise<SwapRecord[]>;
+}
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+function select(records: SwapRecord[], query: SwapQuery): SwapRecord[] {
+    const limit = Math.min(Math.max(1, Math.floor(query.limit || DEFAULT_LIMIT)), MAX_LIMIT);
+    return records
+        .filter(r => !query.vault || r.vault === query.vault)
+        .filter(r => query.since === undefined || r.createdAt >= query.since)
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, limit);
+}
+
+export class InMemorySwapJournal implements SwapJournal {
+    private records: SwapRecord[] = [];
+
+    async append(record: SwapRecord): Promise<void> {
+        this.records.push({ ...record });
+    }
+
+    async list(query: SwapQuery): Promise<SwapRecord[]> {
+        return select(this.records, query);
+    }
+}
+
+/**
+ * Append-only JSON-lines journal
+ */
+export class JsonLinesSwapJournal implements SwapJournal {
+    // Serialize appends so concurrent requests can't interleave partial lines
+    private writeChain: Promise<void> = Promise.resolve();
+
+    constructor(private readonly filePath: string) { }
+
+    async append(record: SwapRecord): Promise<void> {
+        const next = this.writeChain.then(async () => {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.appendFile(this.filePath, JSON.stringify(record) + "\n", "utf8");
+        });
+
+        this.writeChain = next.catch(() => {
+            logger.error("Failed to append swap journal", "SwapJournal");
+        });
+        return this.writeChain;
+    }
+
+    async list(query: SwapQuery): Promise<SwapRecord[]> {
+        await this.writeChain;
+
+        let raw = "";
+        try {
+            raw = await fs.readFile(this.filePath, "utf8");
+        } catch (error: any) {
+            if (error?.code !== "ENOENT") {
+                logger.warn("Swap journal unreadable", "SwapJournal");
+            }
+            return [];
+        }
+
+        const records: SwapRecord[] = [];
+        for (const text of raw.split("\n")) {
+            if (!text.trim()) continue;
+            try {
+                records.push(JSON.parse(text));
+            } catch {
+                continue; // Torn final line after a crash
+            }
+        }
+        return select(records, query);
+    }
+}
+
+let journal: SwapJournal | null = null;
+
+/**
+ * Get the configured swap journal (lazy singleton)
+ */
+export function getSwapJournal(): SwapJournal {
+    if (!journal) {
+        journal = config.swapJournal === "memory"
+            ? new InMemorySwapJournal()
+            : new JsonLinesSwapJournal(config.swapJournalPath);
+    }
+    return journal;
+}
+
+/**
+ * Override the swap journal (tests, custom backends)
+ */
+export function setSwapJournal(next: SwapJournal): void {
+    journal = next;
+}
+
+/**
+ * Record a swap; journal failures never fail the swap
+ */
+export async function recordSwap(record: Omit<SwapRecord, "id" | "createdAt">): Promise<void> {
+    try {
+        await getSwapJournal().append({ ...record, id: randomUUID(), createdAt: Date.now() });
+    } catch {
+        logger.warn("Failed to record swap", "SwapJournal");
+    }
+}
+
+const average = (values: number[]): number | null =>
+    values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+/**
+ * Per-vault slippage statistics
+ */
+export function summarizeSlippage(records: SwapRecord[]): SlippageSummary[] {
+    const byVault: Map<SwapVault, SwapRecord[]> = new Map();
+    for (const record of records) {
+        byVault.set(record.vault, [...(byVault.get(record.vault) || []), record]);
+    }
+
+    return [...byVault.entries()].map(([vault, list]) => {
+        const slippage = list.map(r => r.slippagePct).filter((v): v is number => typeof v === "number");
+        const impact = list.map(r => r.priceImpactPct).filter((v): v is number => typeof v === "number");
+        return {
+            vault,
+            swaps: list.length,
+            filled: list.filter(r => r.status === "filled" || r.status === "partial").length,
+            rejected: list.filter(r => r.status === "rejected").length,
+            avgSlippagePct: average(slippage),
+            worstSlippagePct: slippage.length > 0 ? Math.max(...slippage) : null,
+            avgPriceImpactPct: average(impact)
+        };
+    });
+}
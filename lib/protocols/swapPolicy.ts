@@ -0,0 +1,106 @@
+/**
+ * Swap Policy
+ * Guards every Jupiter swap: quotes whose price impact is too high, or whose output
+ * falls too far below the reference price (provider prices, not the static fallbacks),
+ * are rejected; large orders are split into time-sliced chunks (TWAP).
+ */
+
+import { config } from "../config.js";
+import { TokenAmount } from "../money.js";
+
+export interface SwapPolicy {
+    maxPriceImpactPct: number;
+    maxPriceDeviationPct: number;   // Quote output vs reference-price output
+    twapThresholdUSD: number;       // Orders above this are split...
+    twapMaxChunks: number;          // ...into at most this many chunks...
+    twapIntervalMs: number;         // ...sent this far apart...
+    twapMaxWaitMs: number;          // ...waiting at most this long in total (it runs inside the request)
+}
+
+export interface ReferencePrices {
+    inputPrice?: number;
+    outputPrice?: number;
+}
+
+export interface QuoteCheck {
+    ok: boolean;
+    reasons: string[];
+    expectedOutput: number | null;  // Output at reference prices, when both are known
+    deviationPct: number | null;    // How far the quote falls short of expectedOutput (negative = better)
+    priceImpactPct: number;
+}
+
+export function getSwapPolicy(): SwapPolicy {
+    return {
+        maxPriceImpactPct: config.swapMaxPriceImpactPct,
+        maxPriceDeviationPct: config.swapMaxPriceDeviationPct,
+        twapThresholdUSD: config.swapTwapThresholdUSD,
+        twapMaxChunks: config.swapTwapMaxChunks,
+        twapIntervalMs: config.swapTwapIntervalMs,
+        twapMaxWaitMs: config.swapTwapMaxWaitMs
+    };
+}
+
+/**
+ * Output expected at reference prices, or null when either price is unknown
+ */
+export function expectedOutput(inputAmount: number, reference: ReferencePrices): number | null {
+    const { inputPrice, outputPrice } = reference;
+    if (!(inputPrice > 0) || !(outputPrice > 0)) return null;
+    return (inputAmount * inputPrice) / outputPrice;
+}
+
+/**
+ * Shortfall (%) of `actual` against `expected`; positive means worse than expected
+ */
+export function shortfallPct(expected: number, actual: number): number {
+    return ((expected - actual) / expected) * 100;
+}
+
+/**
+ * Apply the price-impact and reference-price guards to a quote
+ */
+export function checkQuote(
+    quote: { inputAmount: number; outputAmount: number; priceImpactPct: number },
+    reference: ReferencePrices,
+    policy: SwapPolicy
+): QuoteCheck {
+    const reasons: string[] = [];
+    const priceImpactPct = Number.isFinite(quote.priceImpactPct) ? quote.priceImpactPct : 0;
+
+    if (!(quote.outputAmount > 0)) {
+        reasons.push("quote has no output");
+    }
+    if (priceImpactPct > policy.maxPriceImpactPct) {
+        reasons.push(`price impact ${priceImpactPct.toFixed(2)}% exceeds ${policy.maxPriceImpactPct}%`);
+    }
+
+    const expected = expectedOutput(quote.inputAmount, reference);
+    const deviationPct = expected === null ? null : shortfallPct(expected, quote.outputAmount);
+    if (deviationPct !== null && deviationPct > policy.maxPriceDeviationPct) {
+        reasons.push(`quote is ${deviationPct.toFixed(2)}% below the reference price (max ${policy.maxPriceDeviationPct}%)`);
+    }
+
+    return { ok: reasons.length === 0, reasons, expectedOutput: expected, deviationPct, priceImpactPct };
+}
+
+/**
+ * Chunks for an order, equal to within one base unit and summing to it exactly; a single
+ * chunk when it is under the TWAP threshold or its USD value is unknown
+ */
+export function splitOrder(amount: TokenAmount, inputPrice: number | undefined, policy: SwapPolicy): TokenAmount[] {
+    const valueUSD = inputPrice > 0 ? amount.toNumber() * inputPrice : 0;
+    if (valueUSD <= policy.twapThresholdUSD || policy.twapMaxChunks <= 1) return [amount];
+
+    const count = Math.min(policy.twapMaxChunks, Math.ceil(valueUSD / policy.twapThresholdUSD));
+    return amount.split(count);
+}
+
+/**
+ * Wait between chunks: the configured interval, shortened so the waits of one order
+ * add up to at most twapMaxWaitMs and the request finishes inside the function timeout
+ */
+export function twapInterval(chunks: number, policy: SwapPolicy): number {
+    if (chunks <= 1) return 0;
+    return Math.min(policy.twapIntervalMs, policy.twapMaxWaitMs / (chunks - 1));
+}
@@ -0,0 +1,319 @@
+/**
+ * Token Safety Checks
+ * On-chain rug-pull / honeypot screening run before the degen vault buys a token:
+ * mint and freeze authorities, Token-2022 extensions (transfer fees, permanent
+ * delegates, ...), top-10 holder concentration, LP lock status and a round-trip
+ * USD1 → token → USD1 quote. Hard failures block the entry; warnings only raise
+ * the token's risk score (see calculateRiskScore).
+ */
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import { TOKENS } from "./types.js";
+import { getMarketDataProvider, MarketDataProvider } from "../marketData/index.js";
+import { logger } from "../logger.js";
+import { TokenAmount, usd1, USD1_DECIMALS } from "../money.js";
+
+export type SafetyCheck =
+    | "mint"
+    | "mint-authority"
+    | "freeze-authority"
+    | "token-extensions"
+    | "holder-concentration"
+    | "lp-lock"
+    | "round-trip";
+
+export interface SafetyFinding {
+    check: SafetyCheck;
+    severity: "fail" | "warn";
+    reason: string;
+}
+
+export interface TokenSafetyReport {
+    mint: string;
+    passed: boolean;                    // No hard failures
+    findings: SafetyFinding[];
+    riskPenalty: number;                // Added to the token's risk score
+    decimals: number | null;
+    top10HolderPct: number | null;      // Supply share of the 10 largest wallet-owned accounts
+    lpLockedPct: number | null;         // null when the pool type is not inspected
+    roundTripLossPct: number | null;
+    transferFeeBps: number;
+    checkedAt: number;
+}
+
+export interface SafetyTarget {
+    address: string;
+    pairAddress?: string;   // DexScreener pair, used for the LP lock check
+    dexId?: string;
+}
+
+const RAYDIUM_AMM_V4 = "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8";
+const RAYDIUM_V4_POOL_SIZE = 752;
+const RAYDIUM_V4_LP_MINT_OFFSET = 464;
+
+/** USD1 pushed through the round-trip quote */
+const PROBE_USD1 = 10;
+
+const THRESHOLDS = {
+    top10FailPct: 50,
+    top10WarnPct: 30,
+    lpLockedFailPct: 50,
+    lpLockedWarnPct: 90,
+    roundTripFailPct: 15,
+    roundTripWarnPct: 5,
+    transferFeeFailBps: 500
+};
+
+const PENALTY = { fail: 40, warn: 10 };
+
+const REPORT_TTL_MS = 10 * 60 * 1000;
+const reportCache: Map<string, TokenSafetyReport> = new Map();
+
+const log = (msg: string) => logger.info(msg, "TokenSafety");
+
+const isWalletOwned = (owner: string | undefined): boolean => {
+    try {
+        return !!owner && PublicKey.isOnCurve(new PublicKey(owner).toBytes());
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Share (%) of `supply` held by wallet-owned accounts among the largest holders.
+ * Accounts owned by PDAs (pool vaults, lockers) are not counted.
+ */
+async function walletHeldPct(connection: Connection, mint: PublicKey, supply: number, top: number): Promise<number> {
+    if (!(supply > 0)) return 0;
+
+    const largest = await connection.getTokenLargestAccounts(mint);
+    const accounts = largest.value.slice(0, 20);
+    const parsed = await connection.getMultipleParsedAccounts(accounts.map(a => a.address));
+
+    const held = accounts
+        .map((account, i) => ({
+            amount: Number(account.amount),
+            owner: (parsed.value[i]?.data as any)?.parsed?.info?.owner as string | undefined
+        }))
+        .filter(a => isWalletOwned(a.owner))
+        .slice(0, top)
+        .reduce((sum, a) => sum + a.amount, 0);
+
+    return (held / supply) * 100;
+}
+
+function checkExtensions(extensions: any[], findings: SafetyFinding[]): number {
+    let transferFeeBps = 0;
+
+    for (const ext of extensions || []) {
+        const state = ext?.state || {};
+        switch (ext?.extension) {
+            case "transferFeeConfig":
+                transferFeeBps = Math.max(
+                    Number(state.newerTransferFee?.transferFeeBasisPoints || 0),
+                    Number(state.olderTransferFee?.transferFeeBasisPoints || 0)
+                );
+                break;
+            case "permanentDelegate":
+                if (state.delegate) {
+                    findings.push({ check: "token-extensions", severity: "fail", reason: "permanent delegate can move any holder's tokens" });
+                }
+                break;
+            case "nonTransferable":
+                findings.push({ check: "token-extensions", severity: "fail", reason: "token is non-transferable" });
+                break;
+            case "defaultAccountState":
+                if (state.accountState === "frozen") {
+                    findings.push({ check: "token-extensions", severity: "fail", reason: "new token accounts start frozen" });
+                }
+                break;
+            case "transferHook":
+                if (state.programId) {
+                    findings.push({ check: "token-extensions", severity: "warn", reason: "transfer hook program can block transfers" });
+                }
+                break;
+        }
+    }
+
+    if (transferFeeBps >= THRESHOLDS.transferFeeFailBps) {
+        findings.push({ check: "token-extensions", severity: "fail", reason: `transfer fee of ${transferFeeBps / 100}%` });
+    } else if (transferFeeBps > 0) {
+        findings.push({ check: "token-extensions", severity: "warn", reason: `transfer fee of ${transferFeeBps / 100}%` });
+    }
+
+    return transferFeeBps;
+}
+
+/**
+ * Locked share (%) of a Raydium AMM v4 pool's LP supply, or null for other pool types
+ */
+async function lpLockedPct(connection: Connection, target: SafetyTarget): Promise<number | null> {
+    if (!target.pairAddress) return null;
+
+    const pool = await connection.getAccountInfo(new PublicKey(target.pairAddress));
+    if (!pool || pool.owner.toBase58() !== RAYDIUM_AMM_V4 || pool.data.length !== RAYDIUM_V4_POOL_SIZE) {
+        return null;
+    }
+
+    const lpMint = new PublicKey(pool.data.subarray(RAYDIUM_V4_LP_MINT_OFFSET, RAYDIUM_V4_LP_MINT_OFFSET + 32));
+    const supply = Number((await connection.getTokenSupply(lpMint)).value.amount);
+
+    // Burned LP leaves no supply behind; otherwise anything a wallet holds can be pulled
+    if (!(supply > 0)) return 100;
+    return 100 - await walletHeldPct(connection, lpMint, supply, 20);
+}
+
+/**
+ * Quote USD1 → token → USD1 and report the loss (%), or a finding when no sell route exists
+ */
+async function roundTripLoss(
+    provider: MarketDataProvider,
+    mint: string,
+    decimals: number,
+    findings: SafetyFinding[]
+): Promise<number | null> {
+    const buy = await provider.getSwapQuote({
+        inputMint: TOKENS.USD1,
+        outputMint: mint,
+        amount: usd1(PROBE_USD1),
+        outputDecimals: decimals
+    });
+    if (!buy || !(buy.outputAmount > 0)) {
+        findings.push({ check: "round-trip", severity: "fail", reason: "no buy route" });
+        return null;
+    }
+
+    const sell = await provider.getSwapQuote({
+        inputMint: mint,
+        outputMint: TOKENS.USD1,
+        amount: TokenAmount.fromDecimal(buy.outputAmount, decimals),
+        outputDecimals: USD1_DECIMALS
+    });
+    if (!sell || !(sell.outputAmount > 0)) {
+        findings.push({ check: "round-trip", severity: "fail", reason: "no sell route (possible honeypot)" });
+        return null;
+    }
+
+    const lossPct = ((PROBE_USD1 - sell.outputAmount) / PROBE_USD1) * 100;
+    if (lossPct > THRESHOLDS.roundTripFailPct) {
+        findings.push({ check: "round-trip", severity: "fail", reason: `round trip loses ${lossPct.toFixed(1)}%` });
+    } else if (lossPct > THRESHOLDS.roundTripWarnPct) {
+        findings.push({ check: "round-trip", severity: "warn", reason: `round trip loses ${lossPct.toFixed(1)}%` });
+    }
+    return lossPct;
+}
+
+function buildReport(mint: string, findings: SafetyFinding[], fields: Partial<TokenSafetyReport>, now: number): TokenSafetyReport {
+    return {
+        mint,
+        passed: !findings.some(f => f.severity === "fail"),
+        findings,
+        riskPenalty: findings.reduce((sum, f) => sum + PENALTY[f.severity], 0),
+        decimals: null,
+        top10HolderPct: null,
+        lpLockedPct: null,
+        roundTripLossPct: null,
+        transferFeeBps: 0,
+        checkedAt: now,
+        ...fields
+    };
+}
+
+/**
+ * Inspect a token before buying it. Every check that cannot complete counts as a
+ * failure, so an RPC outage blocks entries rather than waving them through.
+ */
+export async function checkTokenSafety(
+    connection: Connection,
+    target: SafetyTarget,
+    provider: MarketDataProvider = getMarketDataProvider()
+): Promise<TokenSafetyReport> {
+    const now = provider.now();
+    const cached = reportCache.get(target.address);
+    if (cached && now - cached.checkedAt < REPORT_TTL_MS) return cached;
+
+    // Native SOL has no authorities, extensions or meaningful holder set
+    if (target.address === TOKENS.SOL) {
+        return buildReport(target.address, [], { decimals: 9 }, now);
+    }
+
+    const findings: SafetyFinding[] = [];
+    let mintKey: PublicKey;
+    let info: any;
+    try {
+        mintKey = new PublicKey(target.address);
+        const account = await connection.getParsedAccountInfo(mintKey);
+        const data = account.value?.data as any;
+        info = data?.parsed?.type === "mint" ? data.parsed.info : null;
+    } catch {
+        info = null;
+    }
+    if (!info) {
+        return buildReport(target.address, [
+            { check: "mint", severity: "fail", reason: "mint account not found" }
+        ], {}, now);
+    }
+
+    const decimals = Number(info.decimals);
+    const supply = Number(info.supply);
+
+    if (info.mintAuthority) {
+        findings.push({ check: "mint-authority", severity: "fail", reason: "mint authority is still active" });
+    }
+    if (info.freezeAuthority) {
+        findings.push({ check: "freeze-authority", severity: "fail", reason: "freeze authority is still active" });
+    }
+    const transferFeeBps = checkExtensions(info.extensions, findings);
+
+    let top10HolderPct: number | null = null;
+    try {
+        top10HolderPct = await walletHeldPct(connection, mintKey, supply, 10);
+        if (top10HolderPct > THRESHOLDS.top10FailPct) {
+            findings.push({ check: "holder-concentration", severity: "fail", reason: `top 10 wallets hold ${top10HolderPct.toFixed(1)}%` });
+        } else if (top10HolderPct > THRESHOLDS.top10WarnPct) {
+            findings.push({ check: "holder-concentration", severity: "warn", reason: `top 10 wallets hold ${top10HolderPct.toFixed(1)}%` });
+        }
+    } catch {
+        findings.push({ check: "holder-concentration", severity: "fail", reason: "holder distribution unavailable" });
+    }
+
+    let locked: number | null = null;
+    try {
+        locked = await lpLockedPct(connection, target);
+        if (locked === null) {
+            findings.push({ check: "lp-lock", severity: "warn", reason: "LP lock status unknown" });
+        } else if (locked < THRESHOLDS.lpLockedFailPct) {
+            findings.push({ check: "lp-lock", severity: "fail", reason: `only ${locked.toFixed(1)}% of LP is locked or burned` });
+        } else if (locked < THRESHOLDS.lpLockedWarnPct) {
+            findings.push({ check: "lp-lock", severity: "warn", reason: `only ${locked.toFixed(1)}% of LP is locked or burned` });
+        }
+    } catch {
+        findings.push({ check: "lp-lock", severity: "warn", reason: "LP lock status unknown" });
+    }
+
+    let roundTripLossPct: number | null = null;
+    try {
+        roundTripLossPct = await roundTripLoss(provider, target.address, decimals, findings);
+    } catch {
+        findings.push({ check: "round-trip", severity: "fail", reason: "round-trip quote unavailable" });
+    }
+
+    const report = buildReport(target.address, findings, {
+        decimals,
+        top10HolderPct,
+        lpLockedPct: locked,
+        roundTripLossPct,
+        transferFeeBps
+    }, now);
+
+    if (!report.passed) log(`Token failed ${findings.filter(f => f.severity === "fail").length} safety checks`);
+    reportCache.set(target.address, report);
+    return report;
+}
+
+/**
+ * Human-readable reasons for a report's hard failures
+ */
+export function safetyFailures(report: TokenSafetyReport): string[] {
+    return report.findings.filter(f => f.severity === "fail").map(f => f.reason);
+}
@@ -3,6 +3,8 @@
  * Shared types for all DeFi protocol integrations
  */
 
+import type { TokenAmount } from "../money.js";
+
 export interface TxResult {
     success: boolean;
     txSignature?: string;
@@ -30,8 +32,9 @@ export interface Position {
 export interface SwapParams {
     inputMint: string;
     outputMint: string;
-    amount: number;
+    amount: TokenAmount;  // In the input mint's decimals
     slippageBps?: number; // Default 50 = 0.5%
+    outputDecimals?: number; // Default: the known token list
 }
 
 export interface SwapQuote {
@@ -62,12 +65,17 @@ export interface MemeToken {
     fdv: number;
     createdAt: number;
     riskScore: number;
+    pairAddress?: string;   // DexScreener pair the token was found on
+    dexId?: string;
 }
 
+// Scanner that surfaced a degen entry
+export type DegenEntryStrategy = "momentum" | "dip-buy" | "new-launch";
+
 export interface DegenPosition extends Position {
     stopLossPrice?: number;
     takeProfitPrice?: number;
-    strategy: "momentum" | "dip-buy" | "new-launch";
+    strategy: DegenEntryStrategy | "core";   // "core": static DEGEN_TOKENS basket or manual entry
 }
 
 // Token mint addresses
@@ -168,3 +176,32 @@ export const RWA_TOKENS = [
     { symbol: "SLVr", token: TOKENS.SLVR, min: 0.05, feePercent: 0.5, decimals: 6 },
     { symbol: "CPERr", token: TOKENS.CPER, min: 0.1, feePercent: 0.5, decimals: 6 }
 ] as const;
+
+/** Decimals of tokens traded here that RADR does not shield */
+const OTHER_DECIMALS: Record<string, number> = { WSOL: 9, WETH: 8, WBTC: 8 };
+
+/**
+ * Decimals of a token by mint or symbol (symbols match case-insensitively), or null
+ * when unknown. Placeholder mints shared by several symbols resolve as SOL.
+ */
+export function getTokenDecimals(mintOrSymbol: string): number | null {
+    const rwa = RWA_TOKENS.find(t => t.token === mintOrSymbol);
+    if (rwa) return rwa.decimals;
+
+    const symbol = Object.entries(TOKENS).find(([, mint]) => mint === mintOrSymbol)?.[0] || mintOrSymbol;
+    const upper = symbol.toUpperCase();
+    const radr = RADR_SUPPORTED_TOKENS.find(t => t.symbol.toUpperCase() === upper);
+    return radr?.decimals ?? OTHER_DECIMALS[upper] ?? null;
+}
+
+/**
+ * Decimals from the caller's hint, else the known token list; unknown tokens throw
+ * rather than guess
+ */
+export function requireTokenDecimals(mint: string, hint?: number): number {
+    const decimals = hint ?? getTokenDecimals(mint);
+    if (decimals === null || decimals === undefined) {
+        throw new Error("Unknown token decimals");
+    }
+    return decimals;
+}
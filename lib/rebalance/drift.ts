@@ -0,0 +1,93 @@
+/**
+ * Plan Drift Check
+ * Compares a stored plan against fresh balances and Jupiter quotes before it is executed.
+ * Non-logging policy: no wallets or amounts in logs.
+ */
+
+import { Treasury } from "../../types.js";
+import { jupiter } from "../protocols/index.js";
+import { TokenAmount } from "../money.js";
+import { RuntimeMode } from "../runtimeMode.js";
+import { BalanceDrift, DriftReport, PriceDrift, RebalancePlan } from "./types.js";
+
+/**
+ * Balance drift is measured against the planned portfolio total so empty vaults
+ * don't produce infinite percentages; price drift compares quoted swap output.
+ * In demo mode a missing quote is tolerated, in real mode it blocks execution.
+ */
+export async function checkPlanDrift(
+    plan: RebalancePlan,
+    treasury: Treasury,
+    tolerancePct: number,
+    runtimeMode: RuntimeMode | undefined
+): Promise<DriftReport> {
+    const reasons: string[] = [];
+    const base = Math.max(plan.totalUSD1, 1);
+
+    const balances: BalanceDrift[] = [{
+        vault: "total",
+        planned: plan.totalUSD1,
+        current: treasury.totalUSD1,
+        driftPct: (Math.abs(treasury.totalUSD1 - plan.totalUSD1) / base) * 100
+    }];
+
+    for (const planned of plan.vaultDiffs) {
+        const current = treasury.vaults.find(v => v.id === planned.vault)?.balance || 0;
+        balances.push({
+            vault: planned.vault,
+            planned: planned.currentValue,
+            current,
+            driftPct: (Math.abs(current - planned.currentValue) / base) * 100
+        });
+    }
+
+    for (const drift of balances) {
+        if (drift.driftPct > tolerancePct) {
+            reasons.push(`balance_drift_${drift.vault}`);
+        }
+    }
+
+    const prices: PriceDrift[] = [];
+    for (const action of plan.vaultActions) {
+        for (const swap of action.swaps) {
+            if (!swap.quote || swap.quote.outputAmount <= 0) continue;
+
+            const fresh = await jupiter.getSwapQuote({
+                inputMint: swap.inputMint,
+                outputMint: swap.outputMint,
+                amount: TokenAmount.fromDecimal(swap.inputAmount, swap.inputDecimals),
+                slippageBps: 100,
+                outputDecimals: swap.outputDecimals
+            });
+
+            if (!fresh) {
+                prices.push({
+                    vault: swap.vault,
+                    symbol: swap.symbol,
+                    plannedOutput: swap.quote.outputAmount,
+                    currentOutput: null,
+                    driftPct: null
+                });
+                if (runtimeMode === "real") {
+                    reasons.push(`quote_unavailable_${swap.symbol}`);
+                }
+                continue;
+            }
+
+            const driftPct =
+                (Math.abs(fresh.outputAmount - swap.quote.outputAmount) / swap.quote.outputAmount) * 100;
+            prices.push({
+                vault: swap.vault,
+                symbol: swap.symbol,
+                plannedOutput: swap.quote.outputAmount,
+                currentOutput: fresh.outputAmount,
+                driftPct
+            });
+            if (driftPct > tolerancePct) {
+                reasons.push(`price_drift_${swap.symbol}`);
+            }
+        }
+    }
+
+    return { ok: reasons.length === 0, tolerancePct, balances, prices, reasons };
+}
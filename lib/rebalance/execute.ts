@@ -0,0 +1,203 @@
+/**
+ * Rebalance Execution
+ * Issues planned USD1 transfers via ShadowWire, bundles the strategies' unsigned transactions
+ * and shapes strategy results for API responses.
+ * Non-logging policy: no wallets or amounts in logs.
+ */
+
+import { moveUSD1 } from "../usd1.js";
+import { ApprovedVaultActions, StrategyExecutionResult, VaultStats } from "../strategies/index.js";
+import { RuntimeMode } from "../runtimeMode.js";
+import { logger } from "../logger.js";
+import { bundleTransactions } from "../transactions/bundler.js";
+import type { BundlePlan } from "../transactions/types.js";
+import { PlannedTransfer, RebalancePlan, SkippedMove } from "./types.js";
+
+const log = (msg: string) => logger.info(msg, "REBALANCE-EXEC");
+
+export interface ExecutedTransfer {
+    vault: string;
+    direction: "in" | "out";
+    amount: number;
+    txHash?: string;
+}
+
+export interface TransferError {
+    vault: string;
+    error?: string;
+}
+
+/**
+ * Execute USD1 transfers in order. ShadowWire minimum rejections become skips;
+ * in demo mode a failing transfer falls back to a simulated hash.
+ */
+export async function executeUSD1Transfers(
+    transfers: PlannedTransfer[],
+    runtimeMode: RuntimeMode | undefined
+): Promise<{ executed: ExecutedTransfer[]; skipped: SkippedMove[]; errors: TransferError[] }> {
+    const executed: ExecutedTransfer[] = [];
+    const skipped: SkippedMove[] = [];
+    const errors: TransferError[] = [];
+
+    for (const transfer of transfers) {
+        let result;
+        try {
+            result = await moveUSD1(transfer.from, transfer.to, transfer.amount);
+
+            if (!result.success) {
+                const errMsg = result.error || 'Transfer failed';
+                const lower = errMsg.toLowerCase();
+                const isMinimum =
+                    lower.includes("below minimum") ||
+                    lower.includes("anti-spam") ||
+                    lower.includes("minimum");
+
+                if (isMinimum) {
+                    skipped.push({ vault: transfer.vault, reason: "shadowwire_minimum" });
+                    continue;
+                }
+
+                errors.push({ vault: transfer.vault, error: errMsg });
+                continue;
+            }
+        } catch (moveError: any) {
+            if (runtimeMode === "demo") {
+                log("Transfer simulation fallback");
+                result = {
+                    success: true,
+                    txHash: `sim_${transfer.vault}_${Date.now()}`,
+                    demo: true,
+                };
+            } else {
+                errors.push({
+                    vault: transfer.vault,
+                    error: moveError instanceof Error ? moveError.message : String(moveError)
+                });
+                continue;
+            }
+        }
+
+        executed.push({
+            vault: transfer.vault,
+            direction: transfer.direction,
+            amount: transfer.amount,
+            txHash: result.txHash
+        });
+    }
+
+    return { executed, skipped, errors };
+}
+
+/**
+ * The plan's vault actions as the strategies execute them, so the stored buys run
+ * instead of legs recomputed at execution time (swaps are still re-quoted)
+ */
+export function approvedVaultActions(plan: RebalancePlan): ApprovedVaultActions {
+    const approved: ApprovedVaultActions = {};
+    for (const action of plan.vaultActions) {
+        approved[action.vault] = {
+            action: action.action,
+            amount: action.amount,
+            buys: action.swaps
+                .filter(swap => swap.side === "buy")
+                .map(swap => ({
+                    symbol: swap.symbol,
+                    mint: swap.outputMint,
+                    amount: swap.inputAmount,
+                    decimals: swap.outputDecimals,
+                    strategy: swap.strategy
+                }))
+        };
+    }
+    return approved;
+}
+
+/**
+ * Bundle every vault's unsigned transactions, in vault order, for one signing prompt
+ */
+export function bundleStrategyTransactions(
+    walletAddress: string,
+    results: Record<string, StrategyExecutionResult>
+): Promise<BundlePlan> {
+    const inputs = Object.entries(results).flatMap(([vault, result]) =>
+        (result?.unsignedTxs || []).map(transaction => ({ vault, transaction }))
+    );
+    return bundleTransactions(walletAddress, inputs);
+}
+
+/**
+ * Per-vault strategy outcome for API responses
+ */
+export function summarizeStrategyResults(
+    results: Record<string, StrategyExecutionResult>,
+    vaultStats: VaultStats
+) {
+    return {
+        reserve: {
+            success: results.reserve?.success,
+            transactions: results.reserve?.txSignatures?.length || 0
+        },
+        yield: {
+            success: results.yield?.success,
+            apy: vaultStats.yield.apy,
+            earned: vaultStats.yield.earned,
+            transactions: results.yield?.txSignatures?.length || 0
+        },
+        growth: {
+            success: results.growth?.success,
+            positions: vaultStats.growth.positions?.length || 0,
+            pnl: vaultStats.growth.pnl,
+            transactions: results.growth?.txSignatures?.length || 0
+        },
+        degen: {
+            success: results.degen?.success,
+            positions: vaultStats.degen.positions?.length || 0,
+            pnl: vaultStats.degen.pnl,
+            transactions: results.degen?.txSignatures?.length || 0,
+            blocked: results.degen?.blocked || []
+        },
+        rwa: {
+            success: results.rwa?.success,
+            positions: vaultStats.rwa.positions?.length || 0,
+            pnl: vaultStats.rwa.pnl,
+            transactions: results.rwa?.txSignatures?.length || 0
+        }
+    };
+}
+
+/**
+ * Vault balances and positions for API responses
+ */
+export function summarizeVaultStats(vaultStats: VaultStats) {
+    return {
+        reserve: {
+            balance: vaultStats.reserve.balance,
+            percentage: vaultStats.reserve.percentage
+        },
+        yield: {
+            balance: vaultStats.yield.balance,
+            percentage: vaultStats.yield.percentage,
+            apy: vaultStats.yield.apy,
+            earnedYield: vaultStats.yield.earned
+        },
+        growth: {
+            balance: vaultStats.growth.balance,
+            percentage: vaultStats.growth.percentage,
+            positions: vaultStats.growth.positions,
+            pnl: vaultStats.growth.pnl
+        },
+        degen: {
+            balance: vaultStats.degen.balance,
+            percentage: vaultStats.degen.percentage,
+            positions: vaultStats.degen.positions,
+            pnl: vaultStats.degen.pnl
+        },
+        rwa: {
+            balance: vaultStats.rwa.balance,
+            percentage: vaultStats.rwa.percentage,
+            positions: vaultStats.rwa.positions,
+            pnl: vaultStats.rwa.pnl
+        },
+        total: vaultStats.total
+    };
+}
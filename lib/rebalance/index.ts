@@ -0,0 +1,77 @@
+/**
+ * Rebalance Index
+ * Central export point for rebalance planning and the two-phase plan store.
+ * Plans are kept in the RebalancePlanStore selected by REBALANCE_PLAN_STORE ("file" | "memory").
+ */
+
+import { randomUUID } from "crypto";
+import { config } from "../config.js";
+import { RiskProfile } from "../../types.js";
+import { buildRebalancePlan } from "./plan.js";
+import { InMemoryRebalancePlanStore, JsonFileRebalancePlanStore } from "./store.js";
+import { RebalancePlanStore, StoredRebalancePlan } from "./types.js";
+
+export * from "./types.js";
+export {
+    buildRebalancePlan,
+    adjustAllocation,
+    computeVaultDiffs,
+    planUSD1Transfers,
+    planVaultActions,
+    projectBridgedTreasury,
+    getRealInternalMinimum
+} from "./plan.js";
+export { checkPlanDrift } from "./drift.js";
+export {
+    approvedVaultActions,
+    executeUSD1Transfers,
+    bundleStrategyTransactions,
+    summarizeStrategyResults,
+    summarizeVaultStats
+} from "./execute.js";
+export type { ExecutedTransfer, TransferError } from "./execute.js";
+export { InMemoryRebalancePlanStore, JsonFileRebalancePlanStore } from "./store.js";
+
+let planStore: RebalancePlanStore | null = null;
+
+/**
+ * Get the configured plan store (lazy singleton)
+ */
+export function getRebalancePlanStore(): RebalancePlanStore {
+    if (!planStore) {
+        planStore = config.rebalancePlanStore === "memory"
+            ? new InMemoryRebalancePlanStore()
+            : new JsonFileRebalancePlanStore(config.rebalancePlanStorePath);
+    }
+    return planStore;
+}
+
+/**
+ * Override the plan store (tests, custom backends)
+ */
+export function setRebalancePlanStore(store: RebalancePlanStore): void {
+    planStore = store;
+}
+
+/**
+ * Build a plan and persist it for later execution by ID
+ */
+export async function createStoredPlan(wallet: string, risk: RiskProfile): Promise<StoredRebalancePlan> {
+    const store = getRebalancePlanStore();
+    const plan = await buildRebalancePlan(wallet, risk);
+    const now = Date.now();
+
+    await store.prune(now);
+
+    const entry: StoredRebalancePlan = {
+        id: randomUUID(),
+        wallet,
+        plan,
+        status: "pending",
+        createdAt: now,
+        expiresAt: now + config.rebalancePlanTtlMs
+    };
+
+    await store.save(entry);
+    return entry;
+}
@@ -0,0 +1,433 @@
+/**
+ * Rebalance Planner
+ * Computes the adjusted allocation, per-vault diffs, USD1 transfers and swap quotes
+ * a rebalance would perform — without calling any ShadowWire, Kamino or Jupiter
+ * execution path.
+ * Non-logging policy: no wallets, amounts or allocations in logs.
+ */
+
+import { Treasury, RiskProfile } from "../../types.js";
+import { Allocation } from "../ai/strategy.js";
+import { getAIStrategy } from "../ai/index.js";
+import { loadTreasury } from "../treasury.js";
+import { getVaultAddress } from "../vaults.js";
+import { getUSD1Fees } from "../usd1.js";
+import { jupiter } from "../protocols/index.js";
+import { TOKENS, RWA_TOKENS, getRADRDecimals, DegenPosition } from "../protocols/types.js";
+import { growthStrategy, degenStrategy, rwaStrategy } from "../strategies/index.js";
+import { resolveGrowthTargets } from "../strategies/growthTargets.js";
+import { getRuntimeMode, RuntimeMode } from "../runtimeMode.js";
+import { logger } from "../logger.js";
+import { TokenAmount, usd1 } from "../money.js";
+import {
+    RebalancePlan,
+    VaultDiff,
+    PlannedTransfer,
+    SkippedMove,
+    PlannedSwap,
+    PlannedVaultAction,
+    PlannedVaultId
+} from "./types.js";
+
+const log = (msg: string) => logger.info(msg, "REBALANCE-PLAN");
+
+const DEFAULT_REAL_INTERNAL_MIN = 5; // ShadowWire anti-spam: 5 USDC min per internal transfer
+
+// Mirrors the thresholds each execute*Strategy uses before it acts on a diff
+const STRATEGY_TRADE_THRESHOLDS: Record<PlannedVaultId, number> = {
+    yield: 1,
+    growth: 10,
+    degen: 1,
+    rwa: 1
+};
+
+/**
+ * Minimum ShadowWire internal transfer in real mode (SHADOWWIRE_MIN_INTERNAL_TRANSFER_USD1 override)
+ */
+export function getRealInternalMinimum(): number {
+    const envMin = Number(process.env.SHADOWWIRE_MIN_INTERNAL_TRANSFER_USD1);
+    return Number.isFinite(envMin) && envMin > 0 ? envMin : DEFAULT_REAL_INTERNAL_MIN;
+}
+
+/**
+ * Freeze the RWA vault at its current share, scale the AI allocation to the remaining
+ * budget and, in real mode, fold vault targets below the ShadowWire minimum into reserve.
+ */
+export function adjustAllocation(
+    allocation: Allocation,
+    treasury: Treasury,
+    runtimeMode: RuntimeMode | undefined,
+    realInternalMin: number
+): Allocation {
+    const rwaBalance = treasury.vaults.find(v => v.id === "rwa")?.balance || 0;
+    const rwaPercent =
+        treasury.totalUSD1 > 0 ? (rwaBalance / treasury.totalUSD1) * 100 : 0;
+    const nonRwaBudget = Math.max(0, 100 - rwaPercent);
+
+    // Keep RWA vault manual-only by freezing its percentage, then scale AI allocations to the remaining budget.
+    const adjusted = { ...allocation };
+    const baseSum = adjusted.reserve + adjusted.yield + adjusted.growth + adjusted.degen;
+
+    if (baseSum > 0) {
+        const scale = nonRwaBudget / baseSum;
+        adjusted.reserve *= scale;
+        adjusted.yield *= scale;
+        adjusted.growth *= scale;
+        adjusted.degen *= scale;
+    } else {
+        adjusted.reserve = nonRwaBudget;
+        adjusted.yield = 0;
+        adjusted.growth = 0;
+        adjusted.degen = 0;
+    }
+
+    adjusted.rwa = rwaPercent;
+
+    // ShadowWire internal transfers have a minimum size on mainnet (anti-spam).
+    // For small portfolios, adjust allocation so we don't target impossible (< min) vault moves.
+    if (runtimeMode === "real" && treasury.totalUSD1 > 0) {
+        const vaultIds = ["yield", "growth", "degen"] as const;
+        let shifted = 0;
+
+        for (const id of vaultIds) {
+            const target = (adjusted[id] / 100) * treasury.totalUSD1;
+            if (target > 0 && target < realInternalMin) {
+                shifted += adjusted[id];
+                adjusted[id] = 0;
+            }
+        }
+
+        adjusted.reserve += shifted;
+
+        const nonRwaSum = adjusted.reserve + adjusted.yield + adjusted.growth + adjusted.degen;
+        if (nonRwaSum > 0 && Math.abs(nonRwaSum - nonRwaBudget) > 0.0001) {
+            const scale = nonRwaBudget / nonRwaSum;
+            adjusted.reserve *= scale;
+            adjusted.yield *= scale;
+            adjusted.growth *= scale;
+            adjusted.degen *= scale;
+        } else if (nonRwaSum === 0) {
+            adjusted.reserve = nonRwaBudget;
+        }
+
+        adjusted.rwa = rwaPercent;
+    }
+
+    const totalAllocation =
+        adjusted.reserve + adjusted.yield + adjusted.growth + adjusted.degen + adjusted.rwa;
+    if (totalAllocation > 0 && Math.abs(totalAllocation - 100) > 0.0001) {
+        adjusted.reserve += 100 - totalAllocation;
+    }
+
+    return adjusted;
+}
+
+/**
+ * Current vs target value for every vault
+ */
+export function computeVaultDiffs(treasury: Treasury, allocation: Allocation): VaultDiff[] {
+    return treasury.vaults.map(vault => {
+        const targetPercent = allocation[vault.id];
+        const targetValue = (targetPercent / 100) * treasury.totalUSD1;
+        return {
+            vault: vault.id,
+            currentValue: vault.balance,
+            currentPercent: treasury.totalUSD1 > 0 ? (vault.balance / treasury.totalUSD1) * 100 : 0,
+            targetValue,
+            targetPercent,
+            diff: targetValue - vault.balance
+        };
+    });
+}
+
+/**
+ * USD1 moves between the reserve (or wallet) and each vault PDA.
+ * Diffs below the internal minimum are reported as skipped instead of attempted.
+ */
+export async function planUSD1Transfers(
+    wallet: string,
+    treasury: Treasury,
+    allocation: Allocation,
+    internalMin: number
+): Promise<{ transfers: PlannedTransfer[]; skipped: SkippedMove[] }> {
+    const feeInfo = getUSD1Fees();
+    const reserveVault = await getVaultAddress(wallet, "reserve");
+    const transfers: PlannedTransfer[] = [];
+    const skipped: SkippedMove[] = [];
+
+    for (const vault of treasury.vaults) {
+        if (vault.id === "reserve" || vault.id === "rwa") {
+            continue;
+        }
+
+        const target = (allocation[vault.id] / 100) * treasury.totalUSD1;
+        const diff = target - vault.balance;
+        const absDiff = Math.abs(diff);
+
+        if (absDiff < internalMin) {
+            // Skip dust allocations that ShadowWire would reject (anti-spam minimum).
+            // We keep the funds in the reserve vault until the portfolio is large enough.
+            if (absDiff > 0) {
+                skipped.push({
+                    vault: vault.id,
+                    reason: `below_minimum_${internalMin.toFixed(2)}`
+                });
+            }
+            continue;
+        }
+
+        if (absDiff <= feeInfo.minimumAmount) {
+            continue;
+        }
+
+        // Use vault PDA addresses for ShadowWire (real pubkeys required)
+        const vaultPda = await getVaultAddress(wallet, vault.id);
+        let from = diff > 0 ? reserveVault : vaultPda;
+        const to = diff > 0 ? vaultPda : reserveVault;
+
+        // Funding with an empty reserve: unallocated wallet cash is the source (initial deposit scenario)
+        if (diff > 0 && treasury.walletBalance > 0) {
+            from = wallet;
+        }
+
+        if (from === to) {
+            continue;
+        }
+
+        transfers.push({
+            vault: vault.id,
+            direction: diff > 0 ? "in" : "out",
+            from,
+            to,
+            amount: absDiff,
+            estimatedFee: absDiff * feeInfo.feePercentage
+        });
+    }
+
+    return { transfers, skipped };
+}
+
+async function quoteBuys(
+    vault: PlannedVaultId,
+    legs: Array<{ symbol: string; mint: string; amount: number; decimals: number; strategy?: DegenPosition["strategy"] }>,
+    slippageBps: number
+): Promise<PlannedSwap[]> {
+    const swaps: PlannedSwap[] = [];
+
+    for (const leg of legs) {
+        if (leg.amount < 0.1) continue;
+
+        const quote = await jupiter.getSwapQuote({
+            inputMint: TOKENS.USD1,
+            outputMint: leg.mint,
+            amount: usd1(leg.amount),
+            slippageBps,
+            outputDecimals: leg.decimals
+        });
+
+        swaps.push({
+            vault,
+            side: "buy",
+            symbol: leg.symbol,
+            inputMint: TOKENS.USD1,
+            outputMint: leg.mint,
+            inputAmount: leg.amount,
+            inputDecimals: 6,
+            outputDecimals: leg.decimals,
+            strategy: leg.strategy,
+            quote
+        });
+    }
+
+    return swaps;
+}
+
+async function quoteSells(
+    vault: PlannedVaultId,
+    walletAddress: string,
+    amount: number,
+    currentValue: number
+): Promise<PlannedSwap[]> {
+    const strategy = vault === "growth" ? growthStrategy : vault === "degen" ? degenStrategy : rwaStrategy;
+    const positions = await strategy.getPositions(walletAddress);
+    const sellPercent = currentValue > 0 ? Math.min(1, amount / currentValue) : 0;
+    const swaps: PlannedSwap[] = [];
+
+    for (const pos of positions) {
+        const tokenAmount = pos.amount * sellPercent;
+        if (tokenAmount <= 0.000001) continue;
+
+        const quote = await jupiter.getSwapQuote({
+            inputMint: pos.token.mint,
+            outputMint: TOKENS.USD1,
+            amount: TokenAmount.fromDecimal(tokenAmount, pos.token.decimals),
+            slippageBps: 100,
+            outputDecimals: 6
+        });
+
+        swaps.push({
+            vault,
+            side: "sell",
+            symbol: pos.token.symbol,
+            inputMint: pos.token.mint,
+            outputMint: TOKENS.USD1,
+            inputAmount: tokenAmount,
+            inputDecimals: pos.token.decimals,
+            outputDecimals: 6,
+            quote
+        });
+    }
+
+    return swaps;
+}
+
+/**
+ * What each vault strategy would do to reach its target, with Jupiter quotes for swaps
+ */
+export async function planVaultActions(
+    walletAddress: string,
+    treasury: Treasury,
+    allocation: Allocation
+): Promise<PlannedVaultAction[]> {
+    const actions: PlannedVaultAction[] = [];
+    const vaults: PlannedVaultId[] = ["yield", "growth", "degen", "rwa"];
+
+    for (const vault of vaults) {
+        const currentValue = treasury.vaults.find(v => v.id === vault)?.balance || 0;
+        const target = treasury.totalUSD1 * (allocation[vault] / 100);
+        const diff = target - currentValue;
+        const amount = Math.abs(diff);
+
+        if (amount <= STRATEGY_TRADE_THRESHOLDS[vault]) {
+            actions.push({ vault, action: "hold", amount: 0, protocol: "none", swaps: [] });
+            continue;
+        }
+
+        if (vault === "yield") {
+            actions.push({
+                vault,
+                action: diff > 0 ? "deposit" : "withdraw",
+                amount,
+                protocol: "kamino",
+                swaps: []
+            });
+            continue;
+        }
+
+        let swaps: PlannedSwap[];
+        if (diff < 0) {
+            swaps = await quoteSells(vault, walletAddress, amount, currentValue);
+        } else if (vault === "growth") {
+            const { weights } = await resolveGrowthTargets(walletAddress);
+            swaps = await quoteBuys(vault, Object.entries(weights).map(([symbol, percent]) => ({
+                symbol,
+                mint: (TOKENS as Record<string, string>)[symbol],
+                amount: amount * (percent / 100),
+                decimals: getRADRDecimals(symbol)
+            })), 80);
+        } else if (vault === "degen") {
+            // Same scanner candidates, safety screening and conviction sizing as the deposit
+            const { entries } = await degenStrategy.planEntries(amount);
+            swaps = await quoteBuys(vault, entries.map(entry => ({
+                symbol: entry.symbol,
+                mint: entry.mint,
+                amount: entry.amount,
+                decimals: entry.decimals,
+                strategy: entry.strategy
+            })), 100);
+        } else {
+            swaps = await quoteBuys(vault, RWA_TOKENS.map(asset => ({
+                symbol: asset.symbol,
+                mint: asset.token,
+                amount: amount / RWA_TOKENS.length,
+                decimals: asset.decimals
+            })), 80);
+        }
+
+        actions.push({
+            vault,
+            action: diff > 0 ? "buy" : "sell",
+            amount,
+            protocol: "jupiter",
+            swaps
+        });
+    }
+
+    return actions;
+}
+
+/**
+ * Treasury as it will look once public USD1 is bridged into the wallet's private balance
+ */
+export function projectBridgedTreasury(treasury: Treasury, bridgeAmount: number): Treasury {
+    return {
+        ...treasury,
+        totalUSD1: treasury.totalUSD1 + bridgeAmount,
+        walletBalance: treasury.walletBalance + bridgeAmount,
+        publicBalance: Math.max(0, treasury.publicBalance - bridgeAmount)
+    };
+}
+
+/**
+ * Build a full rebalance plan for a wallet without moving any funds.
+ * When a bridge deposit is pending, the plan targets the post-bridge treasury.
+ */
+export async function buildRebalancePlan(wallet: string, risk: RiskProfile): Promise<RebalancePlan> {
+    const runtimeMode = getRuntimeMode();
+    const realInternalMin = getRealInternalMinimum();
+    const feeInfo = getUSD1Fees();
+    const internalMin = runtimeMode === "real" ? realInternalMin : feeInfo.minimumAmount;
+
+    log("Loading treasury state");
+    const loaded = await loadTreasury(wallet, risk);
+    const bridgeRequired = loaded.publicBalance > 0 && loaded.totalUSD1 < 1;
+    const bridgeAmount = bridgeRequired ? loaded.publicBalance : 0;
+    const treasury = bridgeRequired ? projectBridgedTreasury(loaded, bridgeAmount) : loaded;
+
+    log("Calling AI strategy");
+    const strategyResult = await getAIStrategy(risk, wallet);
+    const adjustedAllocation = adjustAllocation(strategyResult.allocation, treasury, runtimeMode, realInternalMin);
+
+    log("Planning USD1 transfers");
+    const { transfers, skipped } = await planUSD1Transfers(wallet, treasury, adjustedAllocation, internalMin);
+
+    log("Quoting vault strategies");
+    const vaultActions = await planVaultActions(wallet, treasury, adjustedAllocation);
+
+    const allSwaps = vaultActions.flatMap(a => a.swaps);
+    const usd1TransferFees = transfers.reduce((sum, t) => sum + t.estimatedFee, 0);
+    const swapFees = allSwaps.reduce((sum, s) => sum + (s.quote?.fee || 0), 0);
+    const maxPriceImpactPct = allSwaps.reduce((max, s) => Math.max(max, s.quote?.priceImpact || 0), 0);
+
+    return {
+        wallet,
+        risk,
+        runtimeMode,
+        strategy: {
+            signals: strategyResult.signals,
+            mood: strategyResult.mood,
+            allocation: strategyResult.allocation,
+            aiPowered: strategyResult.aiPowered,
+            reasoning: strategyResult.reasoning,
+            confidence: strategyResult.confidence,
+            decisionId: strategyResult.decisionId
+        },
+        totalUSD1: treasury.totalUSD1,
+        bridge: {
+            required: bridgeRequired,
+            amount: bridgeAmount
+        },
+        adjustedAllocation,
+        vaultDiffs: computeVaultDiffs(treasury, adjustedAllocation),
+        usd1Transfers: transfers,
+        usd1Skipped: skipped,
+        vaultActions,
+        fees: {
+            usd1Transfers: usd1TransferFees,
+            swaps: swapFees,
+            total: usd1TransferFees + swapFees,
+            maxPriceImpactPct
+        },
+        createdAt: Date.now()
+    };
+}
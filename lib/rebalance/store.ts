@@ -0,0 +1,104 @@
+/**
+ * Rebalance Plan Store
+ * Holds plans between POST /api/rebalance/plan and POST /api/rebalance/execute.
+ * File backend survives cold starts when the path is on shared storage.
+ * Non-logging policy: no wallets or plan contents in logs.
+ */
+
+import { JsonFileDocument } from "../jsonFileStore.js";
+import { RebalancePlanStore, StoredPlanStatus, StoredRebalancePlan } from "./types.js";
+
+const STORE_VERSION = 1;
+
+interface StoreDocument {
+    version: number;
+    plans: Record<string, StoredRebalancePlan>;
+}
+
+export class InMemoryRebalancePlanStore implements RebalancePlanStore {
+    private plans: Map<string, StoredRebalancePlan> = new Map();
+
+    async save(entry: StoredRebalancePlan): Promise<void> {
+        this.plans.set(entry.id, { ...entry });
+    }
+
+    async get(id: string): Promise<StoredRebalancePlan | null> {
+        const found = this.plans.get(id);
+        return found ? { ...found } : null;
+    }
+
+    async claim(id: string): Promise<StoredRebalancePlan | null> {
+        const found = this.plans.get(id);
+        if (!found || found.status !== "pending") return null;
+        found.status = "executing";
+        return { ...found };
+    }
+
+    async setStatus(id: string, status: StoredPlanStatus): Promise<void> {
+        const found = this.plans.get(id);
+        if (!found) return;
+        found.status = status;
+        if (status === "executed") found.executedAt = Date.now();
+    }
+
+    async prune(now: number): Promise<void> {
+        for (const [id, entry] of this.plans) {
+            if (entry.expiresAt < now) this.plans.delete(id);
+        }
+    }
+}
+
+export class JsonFileRebalancePlanStore implements RebalancePlanStore {
+    private readonly file: JsonFileDocument<StoreDocument>;
+
+    constructor(filePath: string) {
+        this.file = new JsonFileDocument(filePath, {
+            empty: () => ({ version: STORE_VERSION, plans: {} }),
+            parse: (parsed: Partial<StoreDocument>) => ({ version: STORE_VERSION, plans: parsed.plans || {} }),
+            name: "Plan store",
+            context: "PlanStore"
+        });
+    }
+
+    async save(entry: StoredRebalancePlan): Promise<void> {
+        await this.file.update(doc => {
+            doc.plans[entry.id] = { ...entry };
+        });
+    }
+
+    async get(id: string): Promise<StoredRebalancePlan | null> {
+        const doc = await this.file.read();
+        const found = doc.plans[id];
+        return found ? { ...found } : null;
+    }
+
+    async claim(id: string): Promise<StoredRebalancePlan | null> {
+        // Checked under the file lock, so only one instance can claim a plan
+        return this.file.update(doc => {
+            const found = doc.plans[id];
+            if (!found || found.status !== "pending") return null;
+            found.status = "executing";
+            return { ...found };
+        });
+    }
+
+    async setStatus(id: string, status: StoredPlanStatus): Promise<void> {
+        if (!(await this.file.read()).plans[id]) return;
+        await this.file.update(doc => {
+            const found = doc.plans[id];
+            if (!found) return;
+            found.status = status;
+            if (status === "executed") found.executedAt = Date.now();
+        });
+    }
+
+    async prune(now: number): Promise<void> {
+        if (!Object.values((await this.file.read()).plans).some(entry => entry.expiresAt < now)) return;
+
+        await this.file.update(doc => {
+            for (const [id, entry] of Object.entries(doc.plans)) {
+                if (entry.expiresAt < now) delete doc.plans[id];
+            }
+        });
+    }
+}
@@ -0,0 +1,137 @@
+/**
+ * Rebalance Plan Types
+ * Structured description of what a rebalance would do, computed without moving funds.
+ */
+
+import type { Allocation } from "../ai/strategy.js";
+import type { MarketSignals } from "../ai/signals.js";
+import type { MacroMood } from "../ai/macro.js";
+import type { DegenPosition, SwapQuote } from "../protocols/types.js";
+import type { RiskProfile, VaultId } from "../../types.js";
+
+export type PlannedVaultId = Exclude<VaultId, "reserve">;
+
+// Per-vault comparison of current vs target holdings
+export interface VaultDiff {
+    vault: VaultId;
+    currentValue: number;
+    currentPercent: number;
+    targetValue: number;
+    targetPercent: number;
+    diff: number;
+}
+
+// A ShadowWire USD1 move between vault PDAs
+export interface PlannedTransfer {
+    vault: VaultId;
+    direction: "in" | "out";
+    from: string;
+    to: string;
+    amount: number;
+    estimatedFee: number;
+}
+
+export interface SkippedMove {
+    vault: string;
+    reason: string;
+}
+
+// A Jupiter swap the strategy layer would issue
+export interface PlannedSwap {
+    vault: PlannedVaultId;
+    side: "buy" | "sell";
+    symbol: string;
+    inputMint: string;
+    outputMint: string;
+    inputAmount: number;
+    inputDecimals: number;
+    outputDecimals: number;
+    strategy?: DegenPosition["strategy"];   // Degen scanner strategy of a buy
+    quote: SwapQuote | null;
+}
+
+// What each vault strategy would do with its diff
+export interface PlannedVaultAction {
+    vault: PlannedVaultId;
+    action: "buy" | "sell" | "deposit" | "withdraw" | "hold";
+    amount: number;
+    protocol: "jupiter" | "kamino" | "none";
+    swaps: PlannedSwap[];
+}
+
+export interface FeeEstimate {
+    usd1Transfers: number;
+    swaps: number;
+    total: number;
+    maxPriceImpactPct: number;
+}
+
+export interface RebalancePlan {
+    wallet: string;
+    risk: RiskProfile;
+    runtimeMode: "demo" | "real" | undefined;
+    strategy: {
+        signals: MarketSignals;
+        mood: MacroMood;
+        allocation: Allocation;
+        aiPowered: boolean;
+        reasoning?: string;
+        confidence?: number;
+        decisionId?: string;
+    };
+    totalUSD1: number;
+    bridge: { required: boolean; amount: number };
+    adjustedAllocation: Allocation;
+    vaultDiffs: VaultDiff[];
+    usd1Transfers: PlannedTransfer[];
+    usd1Skipped: SkippedMove[];
+    vaultActions: PlannedVaultAction[];
+    fees: FeeEstimate;
+    createdAt: number;
+}
+
+export type StoredPlanStatus = "pending" | "executing" | "executed" | "failed";
+
+// A persisted plan awaiting (or past) execution
+export interface StoredRebalancePlan {
+    id: string;
+    wallet: string;
+    plan: RebalancePlan;
+    status: StoredPlanStatus;
+    createdAt: number;
+    expiresAt: number;
+    executedAt?: number;
+}
+
+export interface RebalancePlanStore {
+    save(entry: StoredRebalancePlan): Promise<void>;
+    get(id: string): Promise<StoredRebalancePlan | null>;
+    /** Atomically move a pending plan to "executing"; null if it is not pending */
+    claim(id: string): Promise<StoredRebalancePlan | null>;
+    setStatus(id: string, status: StoredPlanStatus): Promise<void>;
+    /** Drop plans that expired before `now` */
+    prune(now: number): Promise<void>;
+}
+
+export interface BalanceDrift {
+    vault: VaultId | "total";
+    planned: number;
+    current: number;
+    driftPct: number;
+}
+
+export interface PriceDrift {
+    vault: PlannedVaultId;
+    symbol: string;
+    plannedOutput: number;
+    currentOutput: number | null;
+    driftPct: number | null;
+}
+
+export interface DriftReport {
+    ok: boolean;
+    tolerancePct: number;
+    balances: BalanceDrift[];
+    prices: PriceDrift[];
+    reasons: string[];
+}
@@ -1,10 +1,12 @@
 import { AsyncLocalStorage } from "node:async_hooks";
 import type { NextApiRequest } from "../types/api.js";
+import { acceptsMemoKey, isMemoKey, MEMO_KEY_HEADER } from "../utils/memoKey.js";
 
 export type RuntimeMode = "demo" | "real";
 
 type RuntimeContext = {
     mode?: RuntimeMode;
+    memoKey?: Buffer;
 };
 
 const storage = new AsyncLocalStorage<RuntimeContext>();
@@ -24,9 +26,17 @@ export function withRuntimeMode<T>(req: NextApiRequest, fn: () => Promise<T>): P
     const queryMode = parseMode(req.query?.["mode"]);
     const mode = headerMode || queryMode;
 
-    return storage.run({ mode }, fn);
+    // The owner's position memo key (utils/memoKey.ts), only on routes that use it; never logged
+    const rawKey = acceptsMemoKey(req.url) ? req.headers?.[MEMO_KEY_HEADER] : undefined;
+    const memoKey = isMemoKey(rawKey) ? Buffer.from(rawKey, "hex") : undefined;
+
+    return storage.run({ mode, memoKey }, fn);
 }
 
 export function getRuntimeMode(): RuntimeMode | undefined {
     return storage.getStore()?.mode;
 }
+
+export function getMemoKey(): Buffer | undefined {
+    return storage.getStore()?.memoKey;
+}
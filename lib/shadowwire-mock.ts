@@ -6,6 +6,8 @@
  */
 
 import { logger } from "./logger.js";
+import { TokenAmount, USD1_DECIMALS, usd1 } from "./money.js";
+import { getTokenDecimals } from "./protocols/types.js";
 
 // In-memory balance storage (persists for server lifetime)
 // Maps wallet address -> private balance in smallest units (6 decimals)
@@ -77,7 +79,7 @@ export class MockShadowWireClient {
         await simulateDelay(800);
 
         // Calculate 1% fee
-        const fee = Math.floor(amount * 0.01);
+        const fee = TokenAmount.fromUnits(amount, USD1_DECIMALS).percent(1).toUnitsNumber();
         const netAmount = amount - fee;
 
         // Credit the private balance
@@ -126,7 +128,7 @@ export class MockShadowWireClient {
         }
 
         // Calculate 1% fee
-        const fee = Math.floor(amount * 0.01);
+        const fee = TokenAmount.fromUnits(amount, USD1_DECIMALS).percent(1).toUnitsNumber();
         const netAmount = amount - fee;
 
         // Debit the private balance
@@ -172,7 +174,7 @@ export class MockShadowWireClient {
         await simulateDelay(600);
 
         const senderBalance = privateBalances.get(sender) || 0;
-        const amountSmallest = Math.floor(amount * 1_000_000);
+        const amountSmallest = usd1(amount).toUnitsNumber();
 
         // Check sufficient balance
         if (senderBalance < amountSmallest) {
@@ -221,8 +223,9 @@ export class MockShadowWireClient {
     }
 
     calculateFee(amount: number, token: string): { fee: number; netAmount: number } {
-        const fee = amount * 0.01;
-        return { fee, netAmount: amount - fee };
+        const gross = TokenAmount.fromDecimal(amount, getTokenDecimals(token) ?? USD1_DECIMALS);
+        const fee = gross.percent(1);
+        return { fee: fee.toNumber(), netAmount: gross.sub(fee).toNumber() };
     }
 }
 
@@ -230,13 +233,10 @@ export class MockShadowWireClient {
  * Mock TokenUtils
  */
 export const MockTokenUtils = {
-    toSmallestUnit: (amount: number, token: string): number => {
-        // USD1/USDC = 6 decimals
-        return Math.floor(amount * 1_000_000);
-    },
-    fromSmallestUnit: (amount: number, token: string): number => {
-        return amount / 1_000_000;
-    }
+    toSmallestUnit: (amount: number, token: string): number =>
+        TokenAmount.fromDecimal(amount, getTokenDecimals(token) ?? USD1_DECIMALS).toUnitsNumber(),
+    fromSmallestUnit: (amount: number, token: string): number =>
+        TokenAmount.fromUnits(amount, getTokenDecimals(token) ?? USD1_DECIMALS).toNumber()
 };
 
 /**
@@ -251,7 +251,7 @@ export function getMockTransactions(): MockTransaction[] {
 }
 
 export function setMockBalance(wallet: string, amount: number): void {
-    privateBalances.set(wallet, Math.floor(amount * 1_000_000));
+    privateBalances.set(wallet, usd1(amount).toUnitsNumber());
     logger.debug("Set mock balance", "ShadowWire-Mock");
 }
 
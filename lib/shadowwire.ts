@@ -4,6 +4,7 @@ import { connection } from "./rpc.js";
 import { config } from "./config.js";
 import { MockShadowWireClient, MockTokenUtils } from "./shadowwire-mock.js";
 import { TOKENS } from "./protocols/types.js";
+import { TokenAmount, USD1_DECIMALS, usd1 } from "./money.js";
 import { logger } from "./logger.js";
 import { getRuntimeMode } from "./runtimeMode.js";
 
@@ -279,13 +280,14 @@ export async function getPublicBalance(wallet: string): Promise<number> {
 
 // Helper to convert USD1 amounts
 export const USD1Utils = {
-    toSmallestUnit: (amount: number) => Math.floor(amount * 1_000_000),
-    fromSmallestUnit: (amount: number) => amount / 1_000_000,
+    toSmallestUnit: (amount: number) => usd1(amount).toUnitsNumber(),
+    fromSmallestUnit: (amount: number) => TokenAmount.fromUnits(amount, USD1_DECIMALS).toNumber(),
     getFee: () => 0.01,
     getMinimum: () => 0.01,
     calculateFee: (amount: number) => {
-        const fee = amount * 0.01;
-        return { fee, netAmount: amount - fee };
+        const gross = usd1(amount);
+        const fee = gross.percent(1);
+        return { fee: fee.toNumber(), netAmount: gross.sub(fee).toNumber() };
     }
 };
 
@@ -350,7 +352,7 @@ export async function deposit(wallet: string, amount: number) {
     logger.info("Deposit started", "ShadowWire");
 
     try {
-        const smallestUnit = Math.floor(amount * 1_000_000);
+        const smallestUnit = usd1(amount).toUnitsNumber();
 
         const response = await shadowwire.deposit({
             wallet,
@@ -376,8 +378,7 @@ export async function deposit(wallet: string, amount: number) {
 export async function withdraw(wallet: string, amount: number) {
     logger.info("Withdraw started", "ShadowWire");
 
-    // standard 6 decimals
-    const smallestUnit = Math.floor(amount * 1_000_000);
+    const smallestUnit = usd1(amount).toUnitsNumber();
     try {
         return await shadowwire.withdraw({
             wallet,
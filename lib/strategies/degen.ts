@@ -1,40 +1,158 @@
 /**
  * Degen Vault Strategy
- * High-conviction memecoin trading (SOL, BONK, RADR).
- * 
- * POSITION PERSISTENCE: Uses Solana Memo Program for on-chain storage.
- * Positions are reconstructed from transaction history - fully decentralized.
+ * High-conviction memecoin trading. Entries come from the DexScreener scanners
+ * (momentum, dip-buy, new launches; see opportunities.ts), sized by conviction,
+ * with the static DEGEN_TOKENS basket as the fallback.
+ *
+ * POSITION PERSISTENCE: Positions live in the shared PositionRepository.
+ * On-chain memos are written for every trade and replayed to hydrate an empty store.
+ * Stop-loss / take-profit / trailing-stop orders are stored on each position and
+ * fired by evaluateExitOrders (run before every degen rebalance, via the API, or for
+ * every wallet by the scheduled sweepExitOrders in server-wallet mode).
  */
 
 import { Connection, PublicKey, clusterApiUrl } from "@solana/web3.js";
-import { DegenStrategy, VaultStatus, StrategyExecutionResult } from "./types.js";
-import { TxResult, Position, TOKENS, DEGEN_TOKENS, getRADRDecimals } from "../protocols/types.js";
-import { jupiter } from "../protocols/index.js";
+import {
+    DegenStrategy,
+    VaultStatus,
+    StrategyExecutionResult,
+    BlockedEntry,
+    PlannedBuy,
+    ApprovedVaultAction,
+    approvedDifference
+} from "./types.js";
+import {
+    TxResult,
+    Position,
+    TOKENS,
+    DEGEN_TOKENS,
+    getRADRDecimals,
+    getTokenDecimals,
+    MemeToken,
+    DegenPosition
+} from "../protocols/types.js";
+import { jupiter, tokenSafety } from "../protocols/index.js";
+import { calculateRiskScore } from "../protocols/dexscreener.js";
+import { getMarketDataProvider } from "../marketData/index.js";
+import type { SafetyTarget, TokenSafetyReport } from "../protocols/tokenSafety.js";
 import { getVaultAddress } from "../vaults.js";
+import { getWalletInfo } from "../wallet.js";
 import { logger } from "../logger.js";
-import { 
-    reconstructPositions, 
+import { amountOf, quantityAt, TokenAmount, unitsOf, usd1, USD1_DECIMALS } from "../money.js";
+import { config } from "../config.js";
+import {
     PositionMemo,
+    assertPositionMemosWritable,
     buildPositionMemoTransaction
 } from "../positionMemo.js";
+import {
+    getPositionRepository,
+    ensureHydrated,
+    memoHydrator,
+    mergePosition,
+    StoredPosition,
+    ExitOrder
+} from "../positions/index.js";
+import {
+    ExitOrderInput,
+    ExitOrderCreation,
+    createExitOrder,
+    evaluateExitOrders
+} from "./exitOrders.js";
+import { DegenCandidate, scanDegenOpportunities, sizeByConviction, convictionFor } from "./opportunities.js";
 
 const log = (msg: string) => logger.info(msg, "DEGEN");
 
 const getRpcUrl = () => process.env.SOLANA_RPC_URL || clusterApiUrl('mainnet-beta');
 const connection = new Connection(getRpcUrl(), 'confirmed');
 
-interface DegenPositionInternal {
-    walletAddress: string;
-    token: string; // Mint address
+const pendingMemos: Map<string, PositionMemo[]> = new Map();
+
+/** Entries smaller than this (USD1) are not worth the swap */
+const MIN_ENTRY_USD1 = 0.1;
+
+export interface PlannedEntry {
+    mint: string;
     symbol: string;
-    amount: number; // Token amount
-    entryPrice: number; // Price in USD1
-    entryTimestamp: number;
+    amount: number;                         // USD1 to swap in
+    strategy: DegenPosition["strategy"];
+    decimals: number;
+    scannedPrice?: number;                  // DexScreener price, used when Jupiter has none
 }
 
-const positions: Map<string, DegenPositionInternal[]> = new Map();
-const positionsLoaded: Set<string> = new Set();
-const pendingMemos: Map<string, PositionMemo[]> = new Map();
+/**
+ * Decimals of an SPL mint, or null when the account is missing or not a mint
+ */
+async function getMintDecimals(mint: string): Promise<number | null> {
+    try {
+        const info = await connection.getParsedAccountInfo(new PublicKey(mint));
+        const decimals = (info.value?.data as any)?.parsed?.info?.decimals;
+        return typeof decimals === "number" ? decimals : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Run the token safety checks (DEGEN_SAFETY_CHECKS). In "enforce" mode a hard
+ * failure blocks the entry; in "warn" mode it is logged and the entry proceeds.
+ */
+async function screenEntry(
+    token: SafetyTarget & { symbol: string },
+    strategy: DegenPosition["strategy"]
+): Promise<{ report: TokenSafetyReport | null; blocked?: BlockedEntry }> {
+    if (config.degenSafetyChecks === "off") return { report: null };
+
+    const report = await tokenSafety.checkTokenSafety(connection, token);
+    if (report.passed) return { report };
+
+    if (config.degenSafetyChecks === "warn") {
+        log(`Warning: ${token.symbol} failed safety checks, entering anyway`);
+        return { report };
+    }
+
+    log(`Blocked ${token.symbol}: failed safety checks`);
+    return {
+        report,
+        blocked: { symbol: token.symbol, mint: token.address, strategy, reasons: tokenSafety.safetyFailures(report) }
+    };
+}
+
+/**
+ * Fold safety warnings into a candidate's risk score and conviction
+ */
+function rescoreCandidate(candidate: DegenCandidate, report: TokenSafetyReport | null): DegenCandidate {
+    if (!report) return candidate;
+    const rescored = { ...candidate, riskScore: calculateRiskScore(candidate, report.checkedAt, report) };
+    return { ...rescored, conviction: convictionFor(rescored, candidate.strategy, config.degenMinLiquidityUsd) };
+}
+
+type SaleResult = TxResult & { unsigned_txs?: string[]; totalUSD1?: number; positionMemos?: PositionMemo[] };
+
+export interface PositionOrders {
+    token: string;
+    symbol: string;
+    orders: ExitOrder[];
+}
+
+export interface FiredExitOrder {
+    token: string;
+    symbol: string;
+    order: ExitOrder;
+    price: number;
+    result: SaleResult;
+}
+
+export interface ExitOrderRun {
+    fired: FiredExitOrder[];
+    unsignedTxs: string[];
+}
+
+export interface ExitOrderSweep {
+    wallets: number;
+    fired: number;      // Orders whose sale succeeded
+    failed: number;     // Wallets whose pass threw; they are retried on the next sweep
+}
 
 class DegenVaultStrategy implements DegenStrategy {
     vaultId = "degen";
@@ -43,36 +161,10 @@ class DegenVaultStrategy implements DegenStrategy {
     riskLevel = "high" as const;
 
     /**
-     * Load positions from on-chain memos
+     * Hydrate the position store from on-chain memos (first use per wallet only)
      */
     async loadPositionsFromChain(walletAddress: string): Promise<void> {
-        if (positionsLoaded.has(walletAddress)) {
-            return;
-        }
-
-        try {
-            log("Loading positions from on-chain memos...");
-            const onChainPositions = await reconstructPositions(connection, walletAddress, 'degen');
-
-            if (onChainPositions.length > 0) {
-                const loadedPositions: DegenPositionInternal[] = onChainPositions.map(p => ({
-                    walletAddress,
-                    token: p.tokenMint,
-                    symbol: p.tokenSymbol,
-                    amount: p.amount,
-                    entryPrice: p.entryPrice,
-                    entryTimestamp: p.openedAt
-                }));
-
-                positions.set(walletAddress, loadedPositions);
-                log(`Loaded ${loadedPositions.length} degen positions from blockchain`);
-            }
-
-            positionsLoaded.add(walletAddress);
-        } catch (error) {
-            log("Failed to load from chain, using empty positions");
-            positionsLoaded.add(walletAddress);
-        }
+        await ensureHydrated(walletAddress, 'degen', memoHydrator(connection, walletAddress, 'degen'));
     }
 
     getPendingMemos(walletAddress: string): PositionMemo[] {
@@ -83,38 +175,141 @@ class DegenVaultStrategy implements DegenStrategy {
         pendingMemos.delete(walletAddress);
     }
 
+    /**
+     * Split a deposit across scanner candidates by conviction; falls back to an even
+     * split over the static DEGEN_TOKENS basket when no candidate survives the filters.
+     * Every token is safety-checked first; blocked tokens are returned with their reasons.
+     * Rebalance plans quote these same entries.
+     */
+    async planEntries(amount: number): Promise<{ entries: PlannedEntry[]; blocked: BlockedEntry[] }> {
+        let candidates: DegenCandidate[] = [];
+        try {
+            candidates = await this.scanOpportunities();
+        } catch {
+            log("Opportunity scan failed, using the core basket");
+        }
+
+        // Screen before sizing so blocked tokens do not take a share of the deposit
+        const blocked: BlockedEntry[] = [];
+        const screened: DegenCandidate[] = [];
+        const decimalsByMint: Map<string, number> = new Map();
+
+        for (const candidate of candidates) {
+            const screening = await screenEntry(candidate, candidate.strategy);
+            if (screening.blocked) {
+                blocked.push(screening.blocked);
+                continue;
+            }
+
+            // Scanner tokens are outside the RADR list, so read decimals from the mint
+            const decimals = screening.report?.decimals ?? await getMintDecimals(candidate.address);
+            if (decimals === null) {
+                log(`Warning: Could not read mint for ${candidate.symbol}, skipping.`);
+                continue;
+            }
+            decimalsByMint.set(candidate.address, decimals);
+
+            const rescored = rescoreCandidate(candidate, screening.report);
+            if (rescored.riskScore > config.degenMaxRiskScore) {
+                blocked.push({
+                    symbol: candidate.symbol,
+                    mint: candidate.address,
+                    strategy: candidate.strategy,
+                    reasons: [`risk score ${rescored.riskScore} is above the ${config.degenMaxRiskScore} ceiling`]
+                });
+                continue;
+            }
+            screened.push(rescored);
+        }
+
+        const entries: PlannedEntry[] = sizeByConviction(screened, amount, MIN_ENTRY_USD1)
+            .map(({ candidate, amount: size }) => ({
+                mint: candidate.address,
+                symbol: candidate.symbol,
+                amount: size,
+                strategy: candidate.strategy,
+                decimals: decimalsByMint.get(candidate.address)!,
+                scannedPrice: candidate.price
+            }));
+        if (entries.length > 0) return { entries, blocked };
+
+        const core: PlannedEntry[] = [];
+        for (const symbol of DEGEN_TOKENS) {
+            const mint = (TOKENS as Record<string, string>)[symbol];
+            if (!mint) {
+                log(`Warning: Token mint not found for symbol ${symbol}`);
+                continue;
+            }
+            const screening = await screenEntry({ address: mint, symbol }, "core");
+            if (screening.blocked) {
+                blocked.push(screening.blocked);
+                continue;
+            }
+            const decimals = screening.report?.decimals ?? getTokenDecimals(mint) ?? getRADRDecimals(symbol);
+            core.push({ mint, symbol, amount: 0, strategy: "core", decimals });
+        }
+
+        const share = core.length > 0 ? amount / core.length : 0;
+        if (share < MIN_ENTRY_USD1) return { entries: [], blocked };
+        return { entries: core.map(entry => ({ ...entry, amount: share })), blocked };
+    }
+
+    /**
+     * Percent of a deposit each token would get right now (the same plan a deposit uses)
+     */
+    async entryWeights(): Promise<Record<string, number>> {
+        const { entries } = await this.planEntries(100);
+        const weights: Record<string, number> = {};
+        for (const entry of entries) {
+            weights[entry.symbol] = (weights[entry.symbol] || 0) + entry.amount;
+        }
+        return weights;
+    }
+
+    /**
+     * Enter the planned entries for `amount`, or exactly the `buys` legs when they are
+     * given (an approved rebalance plan, screened when it was built)
+     */
     async deposit(
         walletAddress: string,
-        amount: number
-    ): Promise<TxResult & { positionMemos?: PositionMemo[]; memo_tx_base64?: string }> {
+        amount: number,
+        buys?: PlannedBuy[]
+    ): Promise<TxResult & { positionMemos?: PositionMemo[]; unsigned_txs?: string[]; blocked?: BlockedEntry[] }> {
         log("Deploying into degen assets");
+        const { entries, blocked } = buys
+            ? { entries: buys.map(buy => ({ ...buy, strategy: buy.strategy || "core" })), blocked: [] }
+            : await this.planEntries(amount);
+        const result = await this.openEntries(walletAddress, entries);
+        return { ...result, blocked };
+    }
 
+    /**
+     * Swap USD1 into each planned entry and record the positions
+     */
+    private async openEntries(
+        walletAddress: string,
+        entries: PlannedEntry[]
+    ): Promise<TxResult & { positionMemos?: PositionMemo[]; unsigned_txs?: string[] }> {
         // Load existing positions from chain
         await this.loadPositionsFromChain(walletAddress);
+        await assertPositionMemosWritable(connection, walletAddress);
 
         const txSignatures: string[] = [];
-        const newPositions: DegenPositionInternal[] = [];
+        const unsignedTxs: string[] = [];
+        const store = getPositionRepository();
+        const newPositions: StoredPosition[] = [];
         const memos: PositionMemo[] = [];
+        let existingPositions = await store.list(walletAddress, 'degen');
 
-        // Pick top performers from DEGEN_TOKENS (weighted distribution)
-        const candidates = [...DEGEN_TOKENS];
-
-        for (const symbol of candidates) {
-            const investAmount = amount / candidates.length;
-            if (investAmount < 0.1) continue;
-
-            const mint = (TOKENS as Record<string, string>)[symbol];
-            if (!mint) {
-                log(`Warning: Token mint not found for symbol ${symbol}`);
-                continue;
-            }
+        for (const entry of entries) {
+            const { mint, symbol } = entry;
 
-            const price = await jupiter.getTokenPrice(mint);
+            const price = (await jupiter.getTokenPrice(mint)) || entry.scannedPrice;
             if (!price || price <= 0) {
                 log(`Warning: Could not get price for ${symbol}, skipping.`);
                 continue;
             }
-            const tokenAmount = investAmount / price;
+            const investAmount = usd1(entry.amount);
 
             // Execute real swap when server wallet + mainnet; otherwise simulate
             const swapResult = await jupiter.executeSwap({
@@ -122,24 +317,38 @@ class DegenVaultStrategy implements DegenStrategy {
                 outputMint: mint,
                 amount: investAmount,
                 slippageBps: 100,
-            }, walletAddress);
+                outputDecimals: entry.decimals
+            }, walletAddress, { vault: 'degen', outputSymbol: symbol });
+
+            if (swapResult.record?.status === "rejected") {
+                log(`Skipping ${symbol}: ${swapResult.error}`);
+                continue;
+            }
+            // A partial TWAP fill books only the input that executed
+            const invested = swapResult.record?.status === "partial" && swapResult.inputAmount
+                ? swapResult.inputAmount
+                : investAmount;
+            const tokenAmount = quantityAt(invested, price, entry.decimals);
 
             if (swapResult.success && swapResult.txSignature) {
                 txSignatures.push(swapResult.txSignature);
             } else {
                 txSignatures.push(`degen_shield_${symbol.toLowerCase()}_${Date.now()}`);
             }
+            if (swapResult.unsigned_tx_base64) {
+                unsignedTxs.push(swapResult.unsigned_tx_base64);
+            }
 
-            log(`Shielding ${symbol}`);
+            log(`Shielding ${symbol} (${entry.strategy})`);
 
             // Create position memo for on-chain persistence
-            const existingPos = (positions.get(walletAddress) || []).find(p => p.token === mint);
+            const existingPos = existingPositions.find(p => p.token === mint);
             const memo: PositionMemo = {
                 vault: 'degen',
                 action: existingPos ? 'add' : 'open',
                 tokenSymbol: symbol,
                 tokenMint: mint,
-                amount: tokenAmount,
+                ...unitsOf(tokenAmount),
                 priceUSD: price,
                 timestamp: Date.now()
             };
@@ -147,38 +356,31 @@ class DegenVaultStrategy implements DegenStrategy {
 
             newPositions.push({
                 walletAddress,
+                vault: 'degen',
                 token: mint,
                 symbol: symbol,
-                amount: tokenAmount,
+                ...unitsOf(tokenAmount),
                 entryPrice: price,
-                entryTimestamp: Date.now()
+                entryTimestamp: Date.now(),
+                strategy: entry.strategy
             });
         }
 
-        // Merge with existing positions
-        const existing = positions.get(walletAddress) || [];
+        // Merge with existing positions (weighted average entry price) and persist
         for (const newPos of newPositions) {
-            const existingPos = existing.find(p => p.token === newPos.token);
-            if (existingPos) {
-                const totalAmount = existingPos.amount + newPos.amount;
-                existingPos.entryPrice = (existingPos.entryPrice * existingPos.amount + newPos.entryPrice * newPos.amount) / totalAmount;
-                existingPos.amount = totalAmount;
-            } else {
-                existing.push(newPos);
-            }
+            existingPositions = mergePosition(existingPositions, newPos);
         }
-        positions.set(walletAddress, existing);
+        await store.replace(walletAddress, 'degen', existingPositions);
 
         // Store pending memos
         pendingMemos.set(walletAddress, memos);
 
-        let memoTxBase64: string | undefined;
         if (memos.length > 0) {
             try {
                 const walletPubkey = new PublicKey(walletAddress);
                 const memoTx = await buildPositionMemoTransaction(connection, walletPubkey, memos);
                 const serialized = memoTx.serialize({ requireAllSignatures: false });
-                memoTxBase64 = serialized.toString('base64');
+                unsignedTxs.push(serialized.toString('base64'));
             } catch {
                 log("Memo transaction build failed");
             }
@@ -187,8 +389,8 @@ class DegenVaultStrategy implements DegenStrategy {
         return {
             success: true,
             txSignature: txSignatures.join(","),
+            unsigned_txs: unsignedTxs.length > 0 ? unsignedTxs : undefined,
             positionMemos: memos,
-            memo_tx_base64: memoTxBase64,
             timestamp: Date.now()
         };
     }
@@ -198,8 +400,10 @@ class DegenVaultStrategy implements DegenStrategy {
 
         // Load positions from chain
         await this.loadPositionsFromChain(walletAddress);
+        await assertPositionMemosWritable(connection, walletAddress);
 
-        const currentPositions = positions.get(walletAddress) || [];
+        const store = getPositionRepository();
+        const currentPositions = await store.list(walletAddress, 'degen');
         const totalValue = await this.getValue(walletAddress);
 
         if (totalValue < amount) {
@@ -214,85 +418,112 @@ class DegenVaultStrategy implements DegenStrategy {
         const txSignatures: string[] = [];
         const unsignedTxs: string[] = [];
         const memos: PositionMemo[] = [];
-        let totalUSD1Received = 0;
+        let totalUSD1Received = TokenAmount.zero(USD1_DECIMALS);
 
         for (const pos of currentPositions) {
-            const withdrawTokenAmount = pos.amount * sellPercent;
-            if (withdrawTokenAmount <= 0.000001) continue;
-
-            log(`Selling ${pos.symbol} → USD1`);
-
-            const decimals = getRADRDecimals(pos.symbol);
-            const currentPrice = await jupiter.getTokenPrice(pos.token);
-
-            // Execute real swap: Token → USD1
-            const swapResult = await jupiter.swapToUSD1(
-                pos.token,
-                withdrawTokenAmount,
-                decimals,
-                walletAddress
-            );
-
-            if (swapResult.success) {
-                if (swapResult.txSignature) {
-                    txSignatures.push(swapResult.txSignature);
-                }
-                if (swapResult.unsigned_tx_base64) {
-                    unsignedTxs.push(swapResult.unsigned_tx_base64);
-                }
-                if (swapResult.outputAmount) {
-                    totalUSD1Received += swapResult.outputAmount;
-                }
-
-                // Create memo for on-chain persistence
-                const isClosingFully = pos.amount - withdrawTokenAmount < 0.000001;
-                const memo: PositionMemo = {
-                    vault: 'degen',
-                    action: isClosingFully ? 'close' : 'reduce',
-                    tokenSymbol: pos.symbol,
-                    tokenMint: pos.token,
-                    amount: withdrawTokenAmount,
-                    priceUSD: currentPrice,
-                    timestamp: Date.now()
-                };
-                memos.push(memo);
-
-                // Reduce position
-                pos.amount -= withdrawTokenAmount;
-                log(`Sold ${pos.symbol}, received ~$${swapResult.outputAmount?.toFixed(2) || '?'} USD1`);
-            } else {
-                log(`Warning: Failed to sell ${pos.symbol}: ${swapResult.error}`);
+            const withdrawTokenAmount = amountOf(pos).scale(sellPercent);
+            if (!withdrawTokenAmount.isPositive()) continue;
+
+            const sale = await this.sellFromPosition(walletAddress, pos, withdrawTokenAmount);
+            if (!sale.swapResult.success) continue;
+
+            if (sale.swapResult.txSignature) {
+                txSignatures.push(sale.swapResult.txSignature);
+            }
+            if (sale.swapResult.unsigned_tx_base64) {
+                unsignedTxs.push(sale.swapResult.unsigned_tx_base64);
+            }
+            if (sale.swapResult.outputAmount) {
+                totalUSD1Received = totalUSD1Received.add(sale.swapResult.outputAmount.withDecimals(USD1_DECIMALS));
             }
+            memos.push(sale.memo);
         }
 
         // Cleanup empty positions
-        positions.set(walletAddress, currentPositions.filter(p => p.amount > 0.000001));
+        await store.replace(walletAddress, 'degen', currentPositions.filter(p => amountOf(p).isPositive()));
 
-        // Store pending memos
-        const existingMemos = pendingMemos.get(walletAddress) || [];
-        pendingMemos.set(walletAddress, [...existingMemos, ...memos]);
-
-        if (memos.length > 0) {
-            try {
-                const walletPubkey = new PublicKey(walletAddress);
-                const memoTx = await buildPositionMemoTransaction(connection, walletPubkey, memos);
-                const serialized = memoTx.serialize({ requireAllSignatures: false });
-                unsignedTxs.push(serialized.toString('base64'));
-            } catch {
-                log("Memo transaction build failed");
-            }
-        }
+        const memoTx = await this.queueMemos(walletAddress, memos);
+        if (memoTx) unsignedTxs.push(memoTx);
 
         return {
             success: true,
             txSignature: txSignatures.join(","),
             unsigned_txs: unsignedTxs.length > 0 ? unsignedTxs : undefined,
-            totalUSD1: totalUSD1Received,
+            totalUSD1: totalUSD1Received.toNumber(),
             positionMemos: memos,
             timestamp: Date.now()
         };
     }
 
+    /**
+     * Swap part of one position back to USD1 and shrink it in place (caller persists)
+     */
+    private async sellFromPosition(
+        walletAddress: string,
+        pos: StoredPosition,
+        tokenAmount: TokenAmount
+    ): Promise<{ swapResult: Awaited<ReturnType<typeof jupiter.swapToUSD1>>; memo?: PositionMemo }> {
+        log(`Selling ${pos.symbol} → USD1`);
+
+        const held = amountOf(pos);
+        const currentPrice = await jupiter.getTokenPrice(pos.token);
+
+        // Execute real swap: Token → USD1
+        const swapResult = await jupiter.swapToUSD1(
+            pos.token,
+            tokenAmount,
+            walletAddress,
+            { vault: 'degen', inputSymbol: pos.symbol }
+        );
+
+        if (!swapResult.success) {
+            log(`Warning: Failed to sell ${pos.symbol}: ${swapResult.error}`);
+            return { swapResult };
+        }
+        if (swapResult.record?.status === "partial" && swapResult.inputAmount) {
+            tokenAmount = swapResult.inputAmount;
+        }
+        const sold = tokenAmount.min(held);
+        const remaining = held.sub(sold);
+
+        // Create memo for on-chain persistence
+        const memo: PositionMemo = {
+            vault: 'degen',
+            action: remaining.isZero() ? 'close' : 'reduce',
+            tokenSymbol: pos.symbol,
+            tokenMint: pos.token,
+            ...unitsOf(sold),
+            priceUSD: currentPrice,
+            timestamp: Date.now()
+        };
+
+        // Reduce position
+        pos.units = remaining.units.toString();
+        log(`Sold ${pos.symbol}, received ~$${swapResult.outputAmount?.toNumber().toFixed(2) || '?'} USD1`);
+
+        return { swapResult, memo };
+    }
+
+    /**
+     * Queue memos for the wallet and build the unsigned memo transaction
+     */
+    private async queueMemos(walletAddress: string, memos: PositionMemo[]): Promise<string | undefined> {
+        if (memos.length === 0) return undefined;
+
+        const existingMemos = pendingMemos.get(walletAddress) || [];
+        pendingMemos.set(walletAddress, [...existingMemos, ...memos]);
+
+        try {
+            const walletPubkey = new PublicKey(walletAddress);
+            const memoTx = await buildPositionMemoTransaction(connection, walletPubkey, memos);
+            const serialized = memoTx.serialize({ requireAllSignatures: false });
+            return serialized.toString('base64');
+        } catch {
+            log("Memo transaction build failed");
+            return undefined;
+        }
+    }
+
     async getBalance(walletAddress: string): Promise<number> {
         return await this.getValue(walletAddress);
     }
@@ -301,7 +532,7 @@ class DegenVaultStrategy implements DegenStrategy {
         // Load positions from chain first
         await this.loadPositionsFromChain(walletAddress);
 
-        const userPositions = positions.get(walletAddress) || [];
+        const userPositions = await getPositionRepository().list(walletAddress, 'degen');
         const vaultAddress = await getVaultAddress(walletAddress, "degen");
 
         // Include any uninvested USD1 in the private vault
@@ -315,65 +546,251 @@ class DegenVaultStrategy implements DegenStrategy {
 
         for (const pos of userPositions) {
             const price = prices[pos.token] || pos.entryPrice; // Fallback to entryPrice if current price unavailable
-            total += pos.amount * price;
+            total += amountOf(pos).toNumber() * price;
         }
 
         return total;
     }
 
     async getPositions(walletAddress: string): Promise<Position[]> {
-        const userPositions = positions.get(walletAddress) || [];
+        const userPositions = await getPositionRepository().list(walletAddress, 'degen');
         if (userPositions.length === 0) return [];
 
         const prices = await jupiter.getTokenPrices(userPositions.map(p => p.token));
 
         return userPositions.map(pos => {
+            const amount = amountOf(pos).toNumber();
             const currentPrice = prices[pos.token] || pos.entryPrice;
             return {
                 token: {
                     mint: pos.token,
                     symbol: pos.symbol,
-                    decimals: getRADRDecimals(pos.symbol),
+                    decimals: pos.decimals,
                     price: currentPrice
                 },
-                amount: pos.amount,
-                valueUSD: pos.amount * currentPrice,
+                amount,
+                valueUSD: amount * currentPrice,
                 entryPrice: pos.entryPrice,
                 currentPrice,
-                pnl: (currentPrice - pos.entryPrice) * pos.amount,
+                pnl: (currentPrice - pos.entryPrice) * amount,
                 pnlPercent: ((currentPrice - pos.entryPrice) / pos.entryPrice) * 100
             };
         });
     }
 
-    // Required by interface for production compatibility
-    async getActivePositions(walletAddress: string): Promise<any[]> {
-        return await this.getPositions(walletAddress);
+    /**
+     * Positions tagged with their entry strategy and the nearest stop / take-profit prices
+     */
+    async getActivePositions(walletAddress: string): Promise<DegenPosition[]> {
+        const stored = await getPositionRepository().list(walletAddress, 'degen');
+        const positions = await this.getPositions(walletAddress);
+
+        return positions.map(position => {
+            const pos = stored.find(p => p.token === position.token.mint);
+            const orders = pos?.exitOrders || [];
+            const stops = orders
+                .map(o => o.type === 'trailing-stop' && o.highWaterPrice
+                    ? o.highWaterPrice * (1 - (o.trailPercent || 0) / 100)
+                    : o.type === 'stop-loss' ? o.triggerPrice : undefined)
+                .filter((p): p is number => typeof p === 'number');
+            const targets = orders
+                .filter(o => o.type === 'take-profit')
+                .map(o => o.triggerPrice);
+
+            return {
+                ...position,
+                strategy: (pos?.strategy as DegenPosition["strategy"]) || "core",
+                stopLossPrice: stops.length > 0 ? Math.max(...stops) : undefined,
+                takeProfitPrice: targets.length > 0 ? Math.min(...targets) : undefined
+            };
+        });
     }
 
-    async scanOpportunities(): Promise<any[]> {
-        log("Scanning RADR ecosystem for high-conviction moonshots...");
-        return []; // In production, we use the pre-defined DEGEN_TOKENS
+    /**
+     * Momentum, dip-buy and new-launch candidates that clear the configured risk
+     * ceiling and liquidity floor, highest conviction first
+     */
+    async scanOpportunities(): Promise<DegenCandidate[]> {
+        log("Scanning for degen opportunities...");
+        const candidates = await scanDegenOpportunities({
+            maxRiskScore: config.degenMaxRiskScore,
+            minLiquidityUsd: config.degenMinLiquidityUsd,
+            maxCandidates: config.degenMaxPositions
+        });
+        log(`Found ${candidates.length} candidates`);
+        return candidates;
+    }
+
+    /**
+     * Buy a single token, tagged with its scanner strategy when it is a scan candidate
+     */
+    async enterPosition(walletAddress: string, token: MemeToken | DegenCandidate, amount: number): Promise<TxResult> {
+        const strategy = "strategy" in token ? token.strategy : "core";
+        const screening = await screenEntry(token, strategy);
+        if (screening.blocked) {
+            return { success: false, error: `Token failed safety checks: ${screening.blocked.reasons.join("; ")}`, timestamp: Date.now() };
+        }
+
+        const decimals = screening.report?.decimals ?? await getMintDecimals(token.address);
+        if (decimals === null) {
+            return { success: false, error: "Token mint not found", timestamp: Date.now() };
+        }
+
+        const riskScore = screening.report ? calculateRiskScore(token, screening.report.checkedAt, screening.report) : token.riskScore;
+        if (riskScore > config.degenMaxRiskScore || token.liquidity < config.degenMinLiquidityUsd) {
+            return { success: false, error: "Token is outside the degen risk limits", timestamp: Date.now() };
+        }
+        return await this.openEntries(walletAddress, [{
+            mint: token.address,
+            symbol: token.symbol,
+            amount,
+            strategy,
+            decimals,
+            scannedPrice: token.price
+        }]);
     }
 
-    async enterPosition(walletAddress: string, token: any, amount: number): Promise<TxResult> {
-        return await this.deposit(walletAddress, amount);
+    async exitPosition(walletAddress: string, tokenAddress: string): Promise<SaleResult> {
+        return await this.reducePosition(walletAddress, tokenAddress, 100);
     }
 
-    async exitPosition(walletAddress: string, tokenAddress: string): Promise<TxResult> {
-        // Find position and calculate its USD value to withdraw
-        const userPositions = positions.get(walletAddress) || [];
-        const pos = userPositions.find(p => p.token === tokenAddress);
+    /**
+     * Sell `percent` of a single position (100 closes it); other positions are untouched
+     */
+    async reducePosition(walletAddress: string, tokenAddress: string, percent: number): Promise<SaleResult> {
+        await this.loadPositionsFromChain(walletAddress);
+
+        const store = getPositionRepository();
+        const currentPositions = await store.list(walletAddress, 'degen');
+        const pos = currentPositions.find(p => p.token === tokenAddress);
         if (!pos) return { success: false, error: "Position not found", timestamp: Date.now() };
 
-        const prices = await jupiter.getTokenPrices([tokenAddress]);
-        const value = pos.amount * (prices[tokenAddress] || pos.entryPrice);
+        const held = amountOf(pos);
+        const tokenAmount = percent >= 100 ? held : held.percent(percent);
+        const sale = await this.sellFromPosition(walletAddress, pos, tokenAmount);
+        if (!sale.swapResult.success) {
+            return { success: false, error: sale.swapResult.error || "Sell failed", timestamp: Date.now() };
+        }
+
+        await store.replace(walletAddress, 'degen', currentPositions.filter(p => amountOf(p).isPositive()));
 
-        return await this.withdraw(walletAddress, value);
+        const unsignedTxs: string[] = [];
+        if (sale.swapResult.unsigned_tx_base64) unsignedTxs.push(sale.swapResult.unsigned_tx_base64);
+        const memoTx = await this.queueMemos(walletAddress, [sale.memo]);
+        if (memoTx) unsignedTxs.push(memoTx);
+
+        return {
+            success: true,
+            txSignature: sale.swapResult.txSignature,
+            unsigned_txs: unsignedTxs.length > 0 ? unsignedTxs : undefined,
+            totalUSD1: sale.swapResult.outputAmount?.toNumber() || 0,
+            positionMemos: [sale.memo],
+            timestamp: Date.now()
+        };
+    }
+
+    /**
+     * Stop-loss `percent` below the position's entry price (full exit when hit)
+     */
+    async setStopLoss(walletAddress: string, tokenAddress: string, percent: number): Promise<ExitOrderCreation> {
+        return await this.placeExitOrder(walletAddress, tokenAddress, {
+            type: "stop-loss",
+            triggerPercent: percent,
+            sellPercent: 100
+        });
+    }
+
+    /**
+     * Attach a validated exit order to an open position
+     */
+    async placeExitOrder(walletAddress: string, tokenAddress: string, input: ExitOrderInput): Promise<ExitOrderCreation> {
+        await this.loadPositionsFromChain(walletAddress);
+
+        const store = getPositionRepository();
+        const pos = await store.get(walletAddress, 'degen', tokenAddress);
+        if (!pos) return { ok: false, errors: ["no open degen position for this token"] };
+
+        const currentPrice = await jupiter.getTokenPrice(tokenAddress);
+        const creation = createExitOrder(input, pos, currentPrice);
+        if ("errors" in creation) return creation;
+
+        await store.upsert({ ...pos, exitOrders: [...(pos.exitOrders || []), creation.order] });
+        log(`Placed ${input.type} order on ${pos.symbol}`);
+        return creation;
     }
 
-    async setStopLoss(walletAddress: string, tokenAddress: string, percent: number): Promise<void> {
-        log("Setting stop-loss");
+    async listExitOrders(walletAddress: string): Promise<PositionOrders[]> {
+        await this.loadPositionsFromChain(walletAddress);
+
+        const userPositions = await getPositionRepository().list(walletAddress, 'degen');
+        return userPositions
+            .filter(p => (p.exitOrders?.length || 0) > 0)
+            .map(p => ({ token: p.token, symbol: p.symbol, orders: p.exitOrders as ExitOrder[] }));
+    }
+
+    /**
+     * Cancel an order by ID; false when no position holds it
+     */
+    async cancelExitOrder(walletAddress: string, orderId: string): Promise<boolean> {
+        const store = getPositionRepository();
+        const userPositions = await store.list(walletAddress, 'degen');
+        const pos = userPositions.find(p => p.exitOrders?.some(o => o.id === orderId));
+        if (!pos) return false;
+
+        await store.upsert({ ...pos, exitOrders: (pos.exitOrders || []).filter(o => o.id !== orderId) });
+        log("Cancelled exit order");
+        return true;
+    }
+
+    /**
+     * Price-watch pass: advance trailing stops and sell positions whose orders fire.
+     * Only live market prices count; the configured fallback prices never fire an order or
+     * move a high-water mark, so tokens without a live price wait for the next pass.
+     * A fired order is removed once its sale succeeds; a failed sale keeps it for the next pass.
+     */
+    async evaluateExitOrders(walletAddress: string): Promise<ExitOrderRun> {
+        await this.loadPositionsFromChain(walletAddress);
+
+        const store = getPositionRepository();
+        const watched = (await store.list(walletAddress, 'degen')).filter(p => (p.exitOrders?.length || 0) > 0);
+        const run: ExitOrderRun = { fired: [], unsignedTxs: [] };
+        if (watched.length === 0) return run;
+
+        let prices: Record<string, number>;
+        try {
+            prices = await getMarketDataProvider().getTokenPrices(watched.map(p => p.token));
+        } catch {
+            logger.warn("Live prices unavailable, exit orders not evaluated", "DEGEN");
+            return run;
+        }
+
+        for (const pos of watched) {
+            const price = prices[pos.token];
+            if (!(price > 0)) continue;
+            const { orders, fired } = evaluateExitOrders(pos.exitOrders as ExitOrder[], price);
+
+            // Persist moved high-water marks first so a failed sale doesn't lose them
+            await store.upsert({ ...pos, exitOrders: orders });
+            if (!fired) continue;
+
+            log(`Exit order fired (${fired.type}) on ${pos.symbol}`);
+            const result = await this.reducePosition(walletAddress, pos.token, fired.sellPercent);
+            run.fired.push({ token: pos.token, symbol: pos.symbol, order: fired, price, result });
+            if (!result.success) continue;
+
+            run.unsignedTxs.push(...(result.unsigned_txs || []));
+
+            // Drop the fired order from what is left of the position
+            const remaining = await store.get(walletAddress, 'degen', pos.token);
+            if (remaining) {
+                await store.upsert({
+                    ...remaining,
+                    exitOrders: (remaining.exitOrders || []).filter(o => o.id !== fired.id)
+                });
+            }
+        }
+
+        return run;
     }
 
     async getStatus(walletAddress: string): Promise<VaultStatus> {
@@ -398,28 +815,66 @@ class DegenVaultStrategy implements DegenStrategy {
 // Export singleton
 export const degenStrategy = new DegenVaultStrategy();
 
+/**
+ * Scheduled price-watch pass over every wallet holding degen positions. Only the server
+ * wallet can sell unattended, so in user-wallet mode nothing runs and null is returned.
+ */
+export async function sweepExitOrders(): Promise<ExitOrderSweep | null> {
+    if (!getWalletInfo().isConfigured) return null;
+
+    const wallets = await getPositionRepository().wallets('degen');
+    const sweep: ExitOrderSweep = { wallets: wallets.length, fired: 0, failed: 0 };
+
+    for (const wallet of wallets) {
+        try {
+            const run = await degenStrategy.evaluateExitOrders(wallet);
+            sweep.fired += run.fired.filter(f => f.result.success).length;
+        } catch {
+            sweep.failed++;
+            logger.warn("Exit order pass failed for a wallet", "DEGEN");
+        }
+    }
+
+    return sweep;
+}
+
 /**
  * Execute Degen Strategy
  */
 export async function executeDegenStrategy(
     walletAddress: string,
     targetAmount: number,
-    memeHype: "high" | "medium" | "low" // This parameter is now advisory, actual trading is based on RADR assets
+    memeHype: "high" | "medium" | "low", // This parameter is now advisory, actual trading is based on RADR assets
+    approved?: ApprovedVaultAction
 ): Promise<StrategyExecutionResult> {
     log("Executing strategy");
 
-    const currentValue = await degenStrategy.getValue(walletAddress);
-    const difference = targetAmount - currentValue;
     const txSignatures: string[] = [];
     const unsignedTxs: string[] = [];
+    let blocked: BlockedEntry[] = [];
+
+    // Honour stop-loss / take-profit orders before sizing the vault. An approved plan's
+    // trades are the only ones it runs; orders still fire on their own passes.
+    if (!approved) {
+        const orderRun = await degenStrategy.evaluateExitOrders(walletAddress);
+        for (const fired of orderRun.fired) {
+            if (fired.result.txSignature) txSignatures.push(fired.result.txSignature);
+        }
+        unsignedTxs.push(...orderRun.unsignedTxs);
+    }
+
+    const difference = approved
+        ? approvedDifference(approved)
+        : targetAmount - await degenStrategy.getValue(walletAddress);
 
     if (difference > 1) { // Deploy more capital if target is higher
         log(`Deploying additional capital: $${difference.toFixed(2)}`);
-        const res = await degenStrategy.deposit(walletAddress, difference);
+        const res = await degenStrategy.deposit(walletAddress, difference, approved?.buys);
         if (res.txSignature) txSignatures.push(...res.txSignature.split(","));
-        if ((res as any).memo_tx_base64) {
-            unsignedTxs.push((res as any).memo_tx_base64);
+        if (res.unsigned_txs && res.unsigned_txs.length > 0) {
+            unsignedTxs.push(...res.unsigned_txs);
         }
+        blocked = res.blocked || [];
     } else if (difference < -1) { // Withdraw capital if target is lower
         log("De-risking");
         const res = await degenStrategy.withdraw(walletAddress, Math.abs(difference));
@@ -429,10 +884,6 @@ export async function executeDegenStrategy(
         }
     }
 
-    // No active trading logic (scanning, entering/exiting positions based on signals)
-    // in this production version. Deposits/withdrawals simply adjust exposure to
-    // the pre-selected DEGEN_TOKENS via ShadowWire shielding.
-
     const finalValue = await degenStrategy.getValue(walletAddress);
     const posList = await degenStrategy.getPositions(walletAddress);
 
@@ -444,6 +895,7 @@ export async function executeDegenStrategy(
         txSignatures: txSignatures.filter(Boolean),
         unsignedTxs: unsignedTxs.length > 0 ? unsignedTxs : undefined,
         positions: posList,
+        blocked: blocked.length > 0 ? blocked : undefined,
         timestamp: Date.now()
     };
 }
@@ -0,0 +1,170 @@
+/**
+ * Exit Orders
+ * Stop-loss, take-profit and trailing-stop orders for degen positions. Orders are
+ * stored on the position itself (StoredPosition.exitOrders); this module validates
+ * new orders and decides which ones fire at a given price. Selling is up to the caller.
+ */
+
+import { randomUUID } from "crypto";
+import type { ExitOrder, ExitOrderType, StoredPosition } from "../positions/index.js";
+
+const ORDER_TYPES: ExitOrderType[] = ["stop-loss", "take-profit", "trailing-stop"];
+
+/** Max orders per position, so a wallet can't grow its position record without bound */
+export const MAX_ORDERS_PER_POSITION = 10;
+
+export interface ExitOrderInput {
+    type: ExitOrderType;
+    triggerPrice?: number;      // Absolute trigger (stop-loss / take-profit)
+    triggerPercent?: number;    // Or relative to the entry price: -x% for stop-loss, +x% for take-profit
+    trailPercent?: number;      // Trailing-stop distance
+    sellPercent?: number;       // Default 100 (full exit)
+}
+
+export type ExitOrderInputValidation =
+    | { ok: true; input: ExitOrderInput }
+    | { ok: false; errors: string[] };
+
+const isPositive = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value) && value > 0;
+
+/**
+ * Validate an untrusted order request (e.g. a request body)
+ */
+export function validateExitOrderInput(raw: any): ExitOrderInputValidation {
+    const errors: string[] = [];
+
+    if (!raw || typeof raw !== "object") {
+        return { ok: false, errors: ["order must be an object"] };
+    }
+    if (!ORDER_TYPES.includes(raw.type)) {
+        return { ok: false, errors: [`type must be one of ${ORDER_TYPES.join(", ")}`] };
+    }
+
+    if (raw.type === "trailing-stop") {
+        if (!isPositive(raw.trailPercent) || raw.trailPercent >= 100) {
+            errors.push("trailPercent must be a number greater than 0 and below 100");
+        }
+        if (raw.triggerPrice !== undefined || raw.triggerPercent !== undefined) {
+            errors.push("trailing-stop takes trailPercent, not triggerPrice/triggerPercent");
+        }
+    } else {
+        const hasPrice = raw.triggerPrice !== undefined;
+        const hasPercent = raw.triggerPercent !== undefined;
+        if (hasPrice === hasPercent) {
+            errors.push("exactly one of triggerPrice or triggerPercent is required");
+        } else if (hasPrice && !isPositive(raw.triggerPrice)) {
+            errors.push("triggerPrice must be a positive number");
+        } else if (hasPercent && !isPositive(raw.triggerPercent)) {
+            errors.push("triggerPercent must be a positive number");
+        } else if (hasPercent && raw.type === "stop-loss" && raw.triggerPercent >= 100) {
+            errors.push("stop-loss triggerPercent must be below 100");
+        }
+        if (raw.trailPercent !== undefined) {
+            errors.push(`${raw.type} does not take trailPercent`);
+        }
+    }
+
+    if (raw.sellPercent !== undefined && (!isPositive(raw.sellPercent) || raw.sellPercent > 100)) {
+        errors.push("sellPercent must be a number greater than 0 and at most 100");
+    }
+
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+
+    return {
+        ok: true,
+        input: {
+            type: raw.type,
+            triggerPrice: raw.triggerPrice,
+            triggerPercent: raw.triggerPercent,
+            trailPercent: raw.trailPercent,
+            sellPercent: raw.sellPercent ?? 100
+        }
+    };
+}
+
+export type ExitOrderCreation =
+    | { ok: true; order: ExitOrder }
+    | { ok: false; errors: string[] };
+
+/**
+ * Build an order for a position at the current price. Orders that would fire
+ * immediately are rejected rather than silently selling.
+ */
+export function createExitOrder(
+    input: ExitOrderInput,
+    position: StoredPosition,
+    currentPrice: number,
+    now: number = Date.now()
+): ExitOrderCreation {
+    if ((position.exitOrders?.length || 0) >= MAX_ORDERS_PER_POSITION) {
+        return { ok: false, errors: [`a position can hold at most ${MAX_ORDERS_PER_POSITION} orders`] };
+    }
+
+    const order: ExitOrder = {
+        id: randomUUID(),
+        type: input.type,
+        sellPercent: input.sellPercent ?? 100,
+        createdAt: now
+    };
+
+    if (input.type === "trailing-stop") {
+        order.trailPercent = input.trailPercent;
+        order.highWaterPrice = currentPrice;
+        return { ok: true, order };
+    }
+
+    const direction = input.type === "stop-loss" ? -1 : 1;
+    order.triggerPrice = input.triggerPrice
+        ?? position.entryPrice * (1 + direction * (input.triggerPercent as number) / 100);
+
+    if (currentPrice > 0) {
+        if (input.type === "stop-loss" && order.triggerPrice >= currentPrice) {
+            return { ok: false, errors: ["stop-loss trigger must be below the current price"] };
+        }
+        if (input.type === "take-profit" && order.triggerPrice <= currentPrice) {
+            return { ok: false, errors: ["take-profit trigger must be above the current price"] };
+        }
+    }
+
+    return { ok: true, order };
+}
+
+export interface OrderEvaluation {
+    /** Orders with trailing high-water marks moved up to the current price */
+    orders: ExitOrder[];
+    /** First order to fire at this price (stops before take-profits), if any */
+    fired: ExitOrder | null;
+}
+
+/**
+ * Advance trailing stops and find the order (if any) that fires at `price`
+ */
+export function evaluateExitOrders(orders: ExitOrder[], price: number): OrderEvaluation {
+    if (!(price > 0)) {
+        return { orders, fired: null };
+    }
+
+    const updated = orders.map(order =>
+        order.type === "trailing-stop" && price > (order.highWaterPrice || 0)
+            ? { ...order, highWaterPrice: price }
+            : order
+    );
+
+    const firing = updated.filter(order => {
+        switch (order.type) {
+            case "stop-loss":
+                return price <= (order.triggerPrice as number);
+            case "take-profit":
+                return price >= (order.triggerPrice as number);
+            case "trailing-stop":
+                return price <= (order.highWaterPrice as number) * (1 - (order.trailPercent as number) / 100);
+        }
+    });
+
+    // Protective orders win when a gap crosses several thresholds at once
+    const fired = firing.find(o => o.type !== "take-profit") || firing[0] || null;
+    return { orders: updated, fired };
+}
@@ -1,82 +1,54 @@
 /**
  * Growth Vault Strategy
- * Invests USD1 into blue-chip tokens (SOL, wETH, wBTC) via Jupiter.
- * 
- * POSITION PERSISTENCE: Uses Solana Memo Program for on-chain storage.
- * Positions are reconstructed from transaction history - fully decentralized.
+ * Invests USD1 into a basket of RADR-shielded tokens via Jupiter, weighted by the
+ * wallet's growth targets (growthTargets.ts) and kept in its drift bands by
+ * rebalancePortfolio (growthRebalance.ts).
+ *
+ * POSITION PERSISTENCE: Positions live in the shared PositionRepository.
+ * On-chain memos are written for every trade and replayed to hydrate an empty store.
  */
 
 import { Connection, PublicKey, clusterApiUrl } from "@solana/web3.js";
-import { GrowthStrategy, VaultStatus, StrategyExecutionResult } from "./types.js";
-import { TxResult, Position, TOKENS, GROWTH_ALLOCATION, getRADRDecimals } from "../protocols/types.js";
+import { GrowthStrategy, VaultStatus, StrategyExecutionResult, PlannedBuy, ApprovedVaultAction, approvedDifference } from "./types.js";
+import { TxResult, Position, TOKENS, getRADRDecimals } from "../protocols/types.js";
 import { jupiter } from "../protocols/index.js";
 import { getVaultAddress } from "../vaults.js";
 import { logger } from "../logger.js";
+import { amountOf, quantityAt, TokenAmount, unitsOf, usd1, USD1_DECIMALS } from "../money.js";
 import { 
-    reconstructPositions, 
-    ReconstructedPosition,
     PositionMemo,
+    assertPositionMemosWritable,
     buildPositionMemoTransaction
 } from "../positionMemo.js";
+import {
+    getPositionRepository,
+    ensureHydrated,
+    memoHydrator,
+    mergePosition,
+    StoredPosition
+} from "../positions/index.js";
+import { resolveGrowthTargets } from "./growthTargets.js";
+import { GrowthRebalancePlan, planGrowthRebalance } from "./growthRebalance.js";
 
 const log = (msg: string) => logger.info(msg, "GROWTH");
 
 const getRpcUrl = () => process.env.SOLANA_RPC_URL || clusterApiUrl('mainnet-beta');
 const connection = new Connection(getRpcUrl(), 'confirmed');
 
-// In-memory cache (populated from on-chain memos)
-interface GrowthPosition {
-    walletAddress: string;
-    token: string;
-    symbol: string;
-    amount: number;
-    entryPrice: number;
-    entryTimestamp: number;
-}
-
-const positions: Map<string, GrowthPosition[]> = new Map();
-const positionsLoaded: Set<string> = new Set(); // Track which wallets we've loaded
-
 // Pending memos to attach to transactions
 const pendingMemos: Map<string, PositionMemo[]> = new Map();
 
 class GrowthVaultStrategy implements GrowthStrategy {
     vaultId = "growth";
     name = "Growth Vault";
-    description = "RADR Labs shielded growth (SOL, RADR, ORE, ANON)";
+    description = "RADR Labs shielded growth (SOL, RADR, ORE, ANON by default)";
     riskLevel = "medium" as const;
 
     /**
-     * Load positions from on-chain memos (called once per wallet)
+     * Hydrate the position store from on-chain memos (first use per wallet only)
      */
     async loadPositionsFromChain(walletAddress: string): Promise<void> {
-        if (positionsLoaded.has(walletAddress)) {
-            return; // Already loaded
-        }
-
-        try {
-            log("Loading positions from on-chain memos...");
-            const onChainPositions = await reconstructPositions(connection, walletAddress, 'growth');
-
-            if (onChainPositions.length > 0) {
-                const loadedPositions: GrowthPosition[] = onChainPositions.map(p => ({
-                    walletAddress,
-                    token: p.tokenMint,
-                    symbol: p.tokenSymbol,
-                    amount: p.amount,
-                    entryPrice: p.entryPrice,
-                    entryTimestamp: p.openedAt
-                }));
-
-                positions.set(walletAddress, loadedPositions);
-                log(`Loaded ${loadedPositions.length} positions from blockchain`);
-            }
-
-            positionsLoaded.add(walletAddress);
-        } catch (error) {
-            log("Failed to load from chain, using empty positions");
-            positionsLoaded.add(walletAddress);
-        }
+        await ensureHydrated(walletAddress, 'growth', memoHydrator(connection, walletAddress, 'growth'));
     }
 
     /**
@@ -93,35 +65,47 @@ class GrowthVaultStrategy implements GrowthStrategy {
         pendingMemos.delete(walletAddress);
     }
 
+    /**
+     * Buy into the basket weighted by the wallet's growth targets, or exactly the
+     * `buys` legs when they are given (an approved rebalance plan)
+     */
     async deposit(
         walletAddress: string,
-        amount: number
-    ): Promise<TxResult & { positionMemos?: PositionMemo[]; memo_tx_base64?: string }> {
+        amount: number,
+        buys?: PlannedBuy[]
+    ): Promise<TxResult & { positionMemos?: PositionMemo[]; unsigned_txs?: string[] }> {
         log("Distributing into RADR shielded assets");
 
         // Load existing positions from chain first
         await this.loadPositionsFromChain(walletAddress);
+        await assertPositionMemosWritable(connection, walletAddress);
+
+        // RADR Labs supported tokens only, weighted by the wallet's growth targets
+        const allocations = buys
+            ? buys.map(buy => ({ token: buy.mint, symbol: buy.symbol, investAmount: usd1(buy.amount), decimals: buy.decimals }))
+            : Object.entries((await resolveGrowthTargets(walletAddress)).weights)
+                .map(([symbol, percent]) => ({
+                    token: (TOKENS as Record<string, string>)[symbol],
+                    symbol,
+                    investAmount: usd1(amount).percent(percent),
+                    decimals: getRADRDecimals(symbol)
+                }))
+                .filter(alloc => !!alloc.token);
 
-        // RADR Labs supported tokens only: SOL, RADR, ORE, ANON
-        const allocations = [
-            { token: TOKENS.SOL, symbol: "SOL", percent: GROWTH_ALLOCATION.SOL },
-            { token: TOKENS.RADR, symbol: "RADR", percent: GROWTH_ALLOCATION.RADR },
-            { token: TOKENS.ORE, symbol: "ORE", percent: GROWTH_ALLOCATION.ORE },
-            { token: TOKENS.ANON, symbol: "ANON", percent: GROWTH_ALLOCATION.ANON },
-        ];
-
+        const store = getPositionRepository();
         const txSignatures: string[] = [];
-        const newPositions: GrowthPosition[] = [];
+        const unsignedTxs: string[] = [];
+        const newPositions: StoredPosition[] = [];
         const memos: PositionMemo[] = [];
+        let existingPositions = await store.list(walletAddress, 'growth');
 
         for (const alloc of allocations) {
-            const investAmount = amount * (alloc.percent / 100);
-            if (investAmount < 0.1) continue;
+            const { investAmount, decimals } = alloc;
+            if (investAmount.compare(usd1(0.1)) < 0) continue;
 
             log(`Allocation: ${alloc.symbol}`);
 
             const price = await jupiter.getTokenPrice(alloc.token);
-            const tokenAmount = price > 0 ? investAmount / price : 0;
 
             // Execute real swap when server wallet + mainnet; otherwise simulate
             const swapResult = await jupiter.executeSwap({
@@ -129,24 +113,38 @@ class GrowthVaultStrategy implements GrowthStrategy {
                 outputMint: alloc.token,
                 amount: investAmount,
                 slippageBps: 80,
-            }, walletAddress);
+                outputDecimals: decimals
+            }, walletAddress, { vault: 'growth', outputSymbol: alloc.symbol });
+
+            if (swapResult.record?.status === "rejected") {
+                log(`Skipping ${alloc.symbol}: ${swapResult.error}`);
+                continue;
+            }
+            // A partial TWAP fill books only the input that executed
+            const invested = swapResult.record?.status === "partial" && swapResult.inputAmount
+                ? swapResult.inputAmount
+                : investAmount;
+            const tokenAmount = price > 0 ? quantityAt(invested, price, decimals) : TokenAmount.zero(decimals);
 
             if (swapResult.success && swapResult.txSignature) {
                 txSignatures.push(swapResult.txSignature);
             } else {
                 txSignatures.push(`growth_shield_${alloc.symbol.toLowerCase()}_${Date.now()}`);
             }
+            if (swapResult.unsigned_tx_base64) {
+                unsignedTxs.push(swapResult.unsigned_tx_base64);
+            }
 
             log(`Shielding ${alloc.symbol}`);
 
             // Create position memo for on-chain persistence
-            const existingPos = (positions.get(walletAddress) || []).find(p => p.token === alloc.token);
+            const existingPos = existingPositions.find(p => p.token === alloc.token);
             const memo: PositionMemo = {
                 vault: 'growth',
                 action: existingPos ? 'add' : 'open',
                 tokenSymbol: alloc.symbol,
                 tokenMint: alloc.token,
-                amount: tokenAmount,
+                ...unitsOf(tokenAmount),
                 priceUSD: price,
                 timestamp: Date.now()
             };
@@ -154,41 +152,30 @@ class GrowthVaultStrategy implements GrowthStrategy {
 
             newPositions.push({
                 walletAddress,
+                vault: 'growth',
                 token: alloc.token,
                 symbol: alloc.symbol,
-                amount: tokenAmount,
+                ...unitsOf(tokenAmount),
                 entryPrice: price,
                 entryTimestamp: Date.now()
             });
         }
 
-        // Store positions in memory cache
-        const existingPositions = positions.get(walletAddress) || [];
-        
-        // Merge with existing positions (add to same token if exists)
+        // Merge with existing positions (weighted average entry price) and persist
         for (const newPos of newPositions) {
-            const existing = existingPositions.find(p => p.token === newPos.token);
-            if (existing) {
-                // Weighted average entry price
-                const totalAmount = existing.amount + newPos.amount;
-                existing.entryPrice = (existing.entryPrice * existing.amount + newPos.entryPrice * newPos.amount) / totalAmount;
-                existing.amount = totalAmount;
-            } else {
-                existingPositions.push(newPos);
-            }
+            existingPositions = mergePosition(existingPositions, newPos);
         }
-        positions.set(walletAddress, existingPositions);
+        await store.replace(walletAddress, 'growth', existingPositions);
 
         // Store pending memos to be attached to transaction
         pendingMemos.set(walletAddress, memos);
 
-        let memoTxBase64: string | undefined;
         if (memos.length > 0) {
             try {
                 const walletPubkey = new PublicKey(walletAddress);
                 const memoTx = await buildPositionMemoTransaction(connection, walletPubkey, memos);
                 const serialized = memoTx.serialize({ requireAllSignatures: false });
-                memoTxBase64 = serialized.toString('base64');
+                unsignedTxs.push(serialized.toString('base64'));
             } catch {
                 log("Memo transaction build failed");
             }
@@ -199,8 +186,8 @@ class GrowthVaultStrategy implements GrowthStrategy {
         return {
             success: true,
             txSignature: txSignatures.join(","),
+            unsigned_txs: unsignedTxs.length > 0 ? unsignedTxs : undefined,
             positionMemos: memos,
-            memo_tx_base64: memoTxBase64,
             timestamp: Date.now()
         };
     }
@@ -210,8 +197,10 @@ class GrowthVaultStrategy implements GrowthStrategy {
 
         // Load positions from chain first
         await this.loadPositionsFromChain(walletAddress);
+        await assertPositionMemosWritable(connection, walletAddress);
 
-        const currentPositions = positions.get(walletAddress) || [];
+        const store = getPositionRepository();
+        const currentPositions = await store.list(walletAddress, 'growth');
         const totalValue = await this.getValue(walletAddress);
 
         if (totalValue < amount) {
@@ -226,27 +215,29 @@ class GrowthVaultStrategy implements GrowthStrategy {
         const txSignatures: string[] = [];
         const unsignedTxs: string[] = [];
         const memos: PositionMemo[] = [];
-        let totalUSD1Received = 0;
+        let totalUSD1Received = TokenAmount.zero(USD1_DECIMALS);
 
         for (const pos of currentPositions) {
-            const withdrawTokenAmount = pos.amount * sellPercent;
-            if (withdrawTokenAmount <= 0.000001) continue;
+            const held = amountOf(pos);
+            let sold = held.scale(sellPercent);
+            if (!sold.isPositive()) continue;
 
             log(`Selling ${pos.symbol} → USD1`);
 
-            // Get token decimals
-            const decimals = getRADRDecimals(pos.symbol);
             const currentPrice = await jupiter.getTokenPrice(pos.token);
 
             // Execute real swap: Token → USD1
             const swapResult = await jupiter.swapToUSD1(
                 pos.token,
-                withdrawTokenAmount,
-                decimals,
-                walletAddress
+                sold,
+                walletAddress,
+                { vault: 'growth', inputSymbol: pos.symbol }
             );
 
             if (swapResult.success) {
+                if (swapResult.record?.status === "partial") {
+                    sold = swapResult.inputAmount.min(held);
+                }
                 if (swapResult.txSignature) {
                     txSignatures.push(swapResult.txSignature);
                 }
@@ -254,34 +245,35 @@ class GrowthVaultStrategy implements GrowthStrategy {
                     unsignedTxs.push(swapResult.unsigned_tx_base64);
                 }
                 if (swapResult.outputAmount) {
-                    totalUSD1Received += swapResult.outputAmount;
+                    totalUSD1Received = totalUSD1Received.add(swapResult.outputAmount.withDecimals(USD1_DECIMALS));
                 }
 
                 // Create memo for on-chain persistence
-                const isClosingFully = pos.amount - withdrawTokenAmount < 0.000001;
+                const remaining = held.sub(sold);
                 const memo: PositionMemo = {
                     vault: 'growth',
-                    action: isClosingFully ? 'close' : 'reduce',
+                    action: remaining.isZero() ? 'close' : 'reduce',
                     tokenSymbol: pos.symbol,
                     tokenMint: pos.token,
-                    amount: withdrawTokenAmount,
+                    ...unitsOf(sold),
                     priceUSD: currentPrice,
                     timestamp: Date.now()
                 };
                 memos.push(memo);
 
                 // Reduce position
-                pos.amount -= withdrawTokenAmount;
-                log(`Sold ${pos.symbol}, received ~$${swapResult.outputAmount?.toFixed(2) || '?'} USD1`);
+                pos.units = remaining.units.toString();
+                log(`Sold ${pos.symbol}, received ~$${swapResult.outputAmount?.toNumber().toFixed(2) || '?'} USD1`);
             } else {
                 log(`Warning: Failed to sell ${pos.symbol}: ${swapResult.error}`);
             }
         }
 
-        // Cleanup empty positions
-        positions.set(
+        // Persist reduced positions, dropping empty ones
+        await store.replace(
             walletAddress,
-            currentPositions.filter(p => p.amount > 0.000001)
+            'growth',
+            currentPositions.filter(p => amountOf(p).isPositive())
         );
 
         // Store pending memos
@@ -303,7 +295,7 @@ class GrowthVaultStrategy implements GrowthStrategy {
             success: true,
             txSignature: txSignatures.join(","),
             unsigned_txs: unsignedTxs.length > 0 ? unsignedTxs : undefined,
-            totalUSD1: totalUSD1Received,
+            totalUSD1: totalUSD1Received.toNumber(),
             positionMemos: memos,
             timestamp: Date.now()
         };
@@ -319,7 +311,7 @@ class GrowthVaultStrategy implements GrowthStrategy {
         // Load positions from chain first
         await this.loadPositionsFromChain(walletAddress);
 
-        const userPositions = positions.get(walletAddress) || [];
+        const userPositions = await getPositionRepository().list(walletAddress, 'growth');
 
         // GET SHADOWWIRE CASH BALANCE FOR THIS VAULT
         const vaultAddress = await getVaultAddress(walletAddress, "growth");
@@ -335,86 +327,174 @@ class GrowthVaultStrategy implements GrowthStrategy {
         let totalValue = cashBalance;
         for (const pos of userPositions) {
             const price = prices[pos.token] || pos.entryPrice;
-            totalValue += pos.amount * price;
+            totalValue += amountOf(pos).toNumber() * price;
         }
 
         return totalValue;
     }
 
-    async rebalancePortfolio(walletAddress: string): Promise<TxResult> {
+    /**
+     * Swap tokens that drifted out of their band back to the wallet's growth targets.
+     * Overweight tokens are swapped directly into underweight ones where possible.
+     */
+    async rebalancePortfolio(
+        walletAddress: string
+    ): Promise<TxResult & { unsigned_txs?: string[]; plan?: GrowthRebalancePlan }> {
         log("Rebalancing portfolio");
 
-        const currentValue = await this.getValue(walletAddress);
-        if (currentValue < 10) {
+        await this.loadPositionsFromChain(walletAddress);
+        await assertPositionMemosWritable(connection, walletAddress);
+
+        const targets = await resolveGrowthTargets(walletAddress);
+        const store = getPositionRepository();
+        let positions = await store.list(walletAddress, 'growth');
+
+        const targetMints = Object.keys(targets.weights)
+            .map(symbol => (TOKENS as Record<string, string>)[symbol])
+            .filter(Boolean);
+        const prices = await jupiter.getTokenPrices([...new Set([...targetMints, ...positions.map(p => p.token)])]);
+        for (const pos of positions) {
+            if (!(prices[pos.token] > 0)) prices[pos.token] = pos.entryPrice; // Same fallback as getValue
+        }
+
+        const vaultAddress = await getVaultAddress(walletAddress, "growth");
+        const { getPrivateBalance } = await import("../shadowwire.js");
+        const cashBalance = await getPrivateBalance(vaultAddress);
+
+        const plan = planGrowthRebalance(
+            positions.map(p => ({ mint: p.token, symbol: p.symbol, amount: amountOf(p).toNumber() })),
+            cashBalance,
+            prices,
+            targets
+        );
+
+        if (plan.totalValue < 10 || plan.trades.length === 0) {
             return {
                 success: true,
                 txSignature: "",
+                plan,
                 timestamp: Date.now()
             };
         }
 
-        const userPositions = positions.get(walletAddress) || [];
-        const prices = await jupiter.getTokenPrices([TOKENS.SOL, TOKENS.RADR, TOKENS.ORE, TOKENS.ANON]);
-
-        // Calculate current allocation
-        const currentAlloc: Record<string, number> = {};
-        for (const pos of userPositions) {
-            const value = pos.amount * (prices[pos.token] || pos.entryPrice);
-            currentAlloc[pos.symbol] = (value / currentValue) * 100;
-        }
+        log(`Rebalancing trades: ${plan.trades.length} (${plan.swapsAvoided} netted)`);
 
+        const txSignatures: string[] = [];
+        const unsignedTxs: string[] = [];
+        const memos: PositionMemo[] = [];
 
-        log("Current vs target allocation");
+        for (const trade of plan.trades) {
+            const source = positions.find(p => p.token === trade.fromMint);
+            const inputDecimals = source?.decimals
+                ?? (trade.fromMint === TOKENS.USD1 ? USD1_DECIMALS : getRADRDecimals(trade.fromSymbol));
+            const outputDecimals = trade.toMint === TOKENS.USD1 ? USD1_DECIMALS : getRADRDecimals(trade.toSymbol);
+            const inputAmount = TokenAmount.fromDecimal(trade.inputAmount, inputDecimals);
 
-        // Calculate rebalancing trades
-        const trades: { symbol: string; action: "buy" | "sell"; amount: number }[] = [];
+            const swapResult = await jupiter.executeSwap({
+                inputMint: trade.fromMint,
+                outputMint: trade.toMint,
+                amount: inputAmount,
+                slippageBps: 80,
+                outputDecimals
+            }, walletAddress, { vault: 'growth', inputSymbol: trade.fromSymbol, outputSymbol: trade.toSymbol });
 
-        for (const [symbol, targetPercent] of Object.entries(GROWTH_ALLOCATION)) {
-            const currentPercent = currentAlloc[symbol] || 0;
-            const diff = targetPercent - currentPercent;
+            if (!swapResult.success) {
+                log(`Warning: Rebalance swap ${trade.fromSymbol} → ${trade.toSymbol} failed`);
+                continue;
+            }
+            // A partial TWAP fill books only the chunks that executed
+            const filledShare = swapResult.record?.status === "partial" && swapResult.inputAmount
+                ? swapResult.inputAmount.toNumber() / inputAmount.toNumber()
+                : 1;
+            txSignatures.push(swapResult.txSignature || `growth_rebal_${trade.fromSymbol.toLowerCase()}_${trade.toSymbol.toLowerCase()}_${Date.now()}`);
+            if (swapResult.unsigned_tx_base64) unsignedTxs.push(swapResult.unsigned_tx_base64);
+
+            // Book both legs against the stored positions
+            if (source) {
+                const held = amountOf(source);
+                const sold = (swapResult.inputAmount ?? inputAmount).min(held);
+                const remaining = held.sub(sold);
+                source.units = remaining.units.toString();
+                memos.push({
+                    vault: 'growth',
+                    action: remaining.isZero() ? 'close' : 'reduce',
+                    tokenSymbol: source.symbol,
+                    tokenMint: source.token,
+                    ...unitsOf(sold),
+                    priceUSD: prices[source.token],
+                    timestamp: Date.now()
+                });
+            }
 
-            if (Math.abs(diff) > 2) { // Only rebalance if > 2% off
-                const tradeValue = (Math.abs(diff) / 100) * currentValue;
-                trades.push({
-                    symbol,
-                    action: diff > 0 ? "buy" : "sell",
-                    amount: tradeValue
+            if (trade.toMint !== TOKENS.USD1) {
+                const price = prices[trade.toMint];
+                const bought = quantityAt(usd1(trade.valueUSD).scale(filledShare), price, outputDecimals);
+                memos.push({
+                    vault: 'growth',
+                    action: positions.some(p => p.token === trade.toMint) ? 'add' : 'open',
+                    tokenSymbol: trade.toSymbol,
+                    tokenMint: trade.toMint,
+                    ...unitsOf(bought),
+                    priceUSD: price,
+                    timestamp: Date.now()
+                });
+                positions = mergePosition(positions, {
+                    walletAddress,
+                    vault: 'growth',
+                    token: trade.toMint,
+                    symbol: trade.toSymbol,
+                    ...unitsOf(bought),
+                    entryPrice: price,
+                    entryTimestamp: Date.now()
                 });
             }
         }
 
-        log("Rebalancing trades");
+        await store.replace(walletAddress, 'growth', positions.filter(p => amountOf(p).isPositive()));
 
-        // Execute trades (simulated)
-        const txSignatures = trades.map(t =>
-            `growth_rebal_${t.action}_${t.symbol}_${Date.now()}`
-        );
+        if (memos.length > 0) {
+            const existingMemos = pendingMemos.get(walletAddress) || [];
+            pendingMemos.set(walletAddress, [...existingMemos, ...memos]);
+
+            try {
+                const walletPubkey = new PublicKey(walletAddress);
+                const memoTx = await buildPositionMemoTransaction(connection, walletPubkey, memos);
+                const serialized = memoTx.serialize({ requireAllSignatures: false });
+                unsignedTxs.push(serialized.toString('base64'));
+            } catch {
+                log("Memo transaction build failed");
+            }
+        }
 
         return {
             success: true,
             txSignature: txSignatures.join(","),
+            unsigned_txs: unsignedTxs.length > 0 ? unsignedTxs : undefined,
+            plan,
             timestamp: Date.now()
         };
     }
 
     async getPositions(walletAddress: string): Promise<Position[]> {
-        const userPositions = positions.get(walletAddress) || [];
+        await this.loadPositionsFromChain(walletAddress);
+        const userPositions = await getPositionRepository().list(walletAddress, 'growth');
         const prices = await jupiter.getTokenPrices(userPositions.map(p => p.token));
 
         return userPositions.map(pos => {
+            const amount = amountOf(pos).toNumber();
             const currentPrice = prices[pos.token] || pos.entryPrice;
-            const valueUSD = pos.amount * currentPrice;
-            const pnl = (currentPrice - pos.entryPrice) * pos.amount;
+            const valueUSD = amount * currentPrice;
+            const pnl = (currentPrice - pos.entryPrice) * amount;
             const pnlPercent = ((currentPrice - pos.entryPrice) / pos.entryPrice) * 100;
 
             return {
                 token: {
                     mint: pos.token,
                     symbol: pos.symbol,
-                    decimals: getRADRDecimals(pos.symbol),
+                    decimals: pos.decimals,
                     price: currentPrice
                 },
-                amount: pos.amount,
+                amount,
                 valueUSD,
                 entryPrice: pos.entryPrice,
                 currentPrice,
@@ -458,15 +538,17 @@ class GrowthVaultStrategy implements GrowthStrategy {
 // Export singleton instance
 export const growthStrategy = new GrowthVaultStrategy();
 
-// Execute growth vault strategy
+// Execute growth vault strategy (or the buy / sell an approved plan fixed)
 export async function executeGrowthStrategy(
     walletAddress: string,
-    targetAmount: number
+    targetAmount: number,
+    approved?: ApprovedVaultAction
 ): Promise<StrategyExecutionResult> {
     log("Executing strategy");
 
-    const currentValue = await growthStrategy.getValue(walletAddress);
-    const difference = targetAmount - currentValue;
+    const difference = approved
+        ? approvedDifference(approved)
+        : targetAmount - await growthStrategy.getValue(walletAddress);
 
     const txSignatures: string[] = [];
     const unsignedTxs: string[] = [];
@@ -474,12 +556,12 @@ export async function executeGrowthStrategy(
     if (difference > 10) {
         // Need to buy more
         log("Buying blue-chip tokens");
-        const depositResult = await growthStrategy.deposit(walletAddress, difference);
+        const depositResult = await growthStrategy.deposit(walletAddress, difference, approved?.buys);
         if (depositResult.txSignature) {
             txSignatures.push(...depositResult.txSignature.split(","));
         }
-        if ((depositResult as any).memo_tx_base64) {
-            unsignedTxs.push((depositResult as any).memo_tx_base64);
+        if (depositResult.unsigned_txs && depositResult.unsigned_txs.length > 0) {
+            unsignedTxs.push(...depositResult.unsigned_txs);
         }
     } else if (difference < -10) {
         // Need to sell
@@ -493,10 +575,15 @@ export async function executeGrowthStrategy(
         }
     }
 
-    // Rebalance to target allocation
-    const rebalanceResult = await growthStrategy.rebalancePortfolio(walletAddress);
-    if (rebalanceResult.txSignature) {
-        txSignatures.push(...rebalanceResult.txSignature.split(",").filter(Boolean));
+    // Rebalance to target allocation; an approved plan's trades are the only ones it runs
+    if (!approved) {
+        const rebalanceResult = await growthStrategy.rebalancePortfolio(walletAddress);
+        if (rebalanceResult.txSignature) {
+            txSignatures.push(...rebalanceResult.txSignature.split(",").filter(Boolean));
+        }
+        if (rebalanceResult.unsigned_txs && rebalanceResult.unsigned_txs.length > 0) {
+            unsignedTxs.push(...rebalanceResult.unsigned_txs);
+        }
     }
 
     const finalValue = await growthStrategy.getValue(walletAddress);
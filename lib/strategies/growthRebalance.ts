@@ -0,0 +1,157 @@
+/**
+ * Growth Drift-Band Rebalancer
+ * Pure planner: compares holdings with the wallet's growth targets, rebalances only
+ * the tokens that drifted out of their band, and nets sells against buys so an
+ * overweight token is swapped straight into an underweight one instead of going
+ * through USD1. Uninvested USD1 in the vault funds buys first.
+ */
+
+import { TOKENS } from "../protocols/types.js";
+import { GrowthTargets } from "./growthTargets.js";
+
+export interface GrowthHolding {
+    mint: string;
+    symbol: string;
+    amount: number;
+}
+
+export interface GrowthDrift {
+    mint: string;
+    symbol: string;
+    currentPct: number;
+    targetPct: number;
+    bandPct: number;
+    outOfBand: boolean;
+}
+
+export interface GrowthTrade {
+    fromSymbol: string;     // "USD1" when funded from vault cash
+    fromMint: string;
+    toSymbol: string;       // "USD1" when the proceeds stay as cash
+    toMint: string;
+    valueUSD: number;
+    inputAmount: number;    // In units of the input token
+}
+
+export interface GrowthRebalancePlan {
+    totalValue: number;
+    drift: GrowthDrift[];
+    trades: GrowthTrade[];
+    swapsAvoided: number;   // Token → USD1 → token round trips replaced by one direct swap
+}
+
+interface Leg {
+    mint: string;
+    symbol: string;
+    value: number;
+}
+
+/**
+ * Allowed drift (percentage points) around a target weight: the absolute band or the
+ * relative band, whichever is tighter. A zero target has no band, so any holding drifts.
+ */
+export function driftBand(targetPct: number, targets: GrowthTargets): number {
+    return Math.min(targets.absoluteBandPct, targetPct * (targets.relativeBandPct / 100));
+}
+
+/**
+ * Plan the swaps that bring out-of-band tokens back to target. Tokens whose price is
+ * unknown are reported but never traded. Several symbols sharing a mint are one target.
+ */
+export function planGrowthRebalance(
+    holdings: GrowthHolding[],
+    cashUSD1: number,
+    prices: Record<string, number>,
+    targets: GrowthTargets
+): GrowthRebalancePlan {
+    const targetByMint: Map<string, { symbol: string; pct: number }> = new Map();
+    for (const [symbol, pct] of Object.entries(targets.weights)) {
+        const mint = (TOKENS as Record<string, string>)[symbol];
+        if (!mint) continue;
+        const existing = targetByMint.get(mint);
+        targetByMint.set(mint, { symbol: existing?.symbol || symbol, pct: (existing?.pct || 0) + pct });
+    }
+
+    const heldByMint: Map<string, { symbol: string; value: number }> = new Map();
+    for (const h of holdings) {
+        const value = h.amount * (prices[h.mint] || 0);
+        const existing = heldByMint.get(h.mint);
+        heldByMint.set(h.mint, { symbol: existing?.symbol || h.symbol, value: (existing?.value || 0) + value });
+    }
+
+    const cash = Math.max(0, cashUSD1);
+    const totalValue = cash + [...heldByMint.values()].reduce((sum, h) => sum + h.value, 0);
+    if (totalValue <= 0) return { totalValue: 0, drift: [], trades: [], swapsAvoided: 0 };
+
+    const drift: GrowthDrift[] = [];
+    const sells: Leg[] = [];
+    const buys: Leg[] = [];
+
+    for (const mint of new Set([...targetByMint.keys(), ...heldByMint.keys()])) {
+        const target = targetByMint.get(mint);
+        const held = heldByMint.get(mint);
+        const symbol = target?.symbol || held?.symbol || mint;
+        const currentValue = held?.value || 0;
+        const currentPct = (currentValue / totalValue) * 100;
+        const targetPct = target?.pct || 0;
+        const bandPct = driftBand(targetPct, targets);
+        const outOfBand = Math.abs(currentPct - targetPct) > bandPct;
+
+        drift.push({ mint, symbol, currentPct, targetPct, bandPct, outOfBand });
+        if (!outOfBand || !(prices[mint] > 0)) continue;
+
+        const delta = totalValue * (targetPct / 100) - currentValue;
+        if (delta < 0) sells.push({ mint, symbol, value: -delta });
+        else if (delta > 0) buys.push({ mint, symbol, value: delta });
+    }
+
+    // Never buy more than the sells plus idle cash can fund
+    const funding = cash + sells.reduce((sum, s) => sum + s.value, 0);
+    const wanted = buys.reduce((sum, b) => sum + b.value, 0);
+    if (wanted > funding) {
+        for (const b of buys) b.value *= funding / wanted;
+    }
+
+    sells.sort((a, b) => b.value - a.value);
+    buys.sort((a, b) => b.value - a.value);
+
+    const trades: GrowthTrade[] = [];
+    const addTrade = (from: Leg | null, to: Leg | null, valueUSD: number) => {
+        if (valueUSD < targets.minTradeUSD || valueUSD <= 0) return;
+        const fromPrice = from ? prices[from.mint] : 1;
+        trades.push({
+            fromSymbol: from?.symbol || "USD1",
+            fromMint: from?.mint || TOKENS.USD1,
+            toSymbol: to?.symbol || "USD1",
+            toMint: to?.mint || TOKENS.USD1,
+            valueUSD,
+            inputAmount: valueUSD / fromPrice
+        });
+    };
+
+    // Pair the largest sells with the largest buys as direct swaps
+    let swapsAvoided = 0;
+    let i = 0, j = 0;
+    while (i < sells.length && j < buys.length) {
+        const value = Math.min(sells[i].value, buys[j].value);
+        const before = trades.length;
+        addTrade(sells[i], buys[j], value);
+        if (trades.length > before) swapsAvoided++;
+
+        sells[i].value -= value;
+        buys[j].value -= value;
+        if (sells[i].value <= 1e-9) i++;
+        if (buys[j].value <= 1e-9) j++;
+    }
+
+    // Whatever is left is funded from cash, or sold into cash
+    let cashLeft = cash;
+    for (; j < buys.length; j++) {
+        const value = Math.min(buys[j].value, cashLeft);
+        addTrade(null, buys[j], value);
+        cashLeft -= value;
+    }
+    for (; i < sells.length; i++) addTrade(sells[i], null, sells[i].value);
+
+    return { totalValue, drift, trades, swapsAvoided };
+}
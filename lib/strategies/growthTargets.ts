@@ -0,0 +1,194 @@
+/**
+ * Growth Vault Targets
+ * Per-wallet growth basket weights and drift bands. A wallet without stored targets
+ * uses DEFAULT_GROWTH_TARGETS (the GROWTH_ALLOCATION basket).
+ * Non-logging policy: no wallets or target contents in logs.
+ */
+
+import { config } from "../config.js";
+import { JsonFileDocument } from "../jsonFileStore.js";
+import { logger } from "../logger.js";
+import { GROWTH_ALLOCATION, RADR_SUPPORTED_TOKENS, TOKENS } from "../protocols/types.js";
+
+export interface GrowthTargets {
+    weights: Record<string, number>;    // % of the growth vault by token symbol, summing to 100
+    absoluteBandPct: number;            // Rebalance a token once it is this many points off target...
+    relativeBandPct: number;            // ...or this % of its own target, whichever is tighter
+    minTradeUSD: number;                // Skip rebalance swaps smaller than this
+}
+
+export const DEFAULT_GROWTH_TARGETS: GrowthTargets = {
+    weights: { ...GROWTH_ALLOCATION },
+    absoluteBandPct: 2,
+    relativeBandPct: 25,
+    minTradeUSD: 10
+};
+
+const MAX_TOKENS = 10;
+
+/** RADR-shielded, non-stable tokens with a known mint */
+export const GROWTH_ELIGIBLE_SYMBOLS: string[] = RADR_SUPPORTED_TOKENS
+    .map(t => t.symbol)
+    .filter(symbol => symbol in TOKENS && symbol !== "USD1" && symbol !== "USDC");
+
+// ---------------------------------------------------------------------------
+// Schema validation
+// ---------------------------------------------------------------------------
+
+export type GrowthTargetsValidation =
+    | { ok: true; targets: GrowthTargets }
+    | { ok: false; errors: string[] };
+
+const isNumberInRange = (value: unknown, min: number, max: number): value is number =>
+    typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+
+/**
+ * Validate untrusted growth targets (e.g. a request body). Band and trade-size
+ * fields are optional and default to DEFAULT_GROWTH_TARGETS.
+ */
+export function validateGrowthTargets(input: unknown): GrowthTargetsValidation {
+    const errors: string[] = [];
+
+    if (!input || typeof input !== "object") {
+        return { ok: false, errors: ["targets must be an object"] };
+    }
+
+    const raw = input as Record<string, any>;
+    const weights: Record<string, number> = {};
+
+    if (!raw.weights || typeof raw.weights !== "object" || Array.isArray(raw.weights)) {
+        errors.push("weights must be an object keyed by token symbol");
+    } else {
+        const entries = Object.entries(raw.weights);
+        if (entries.length === 0) errors.push("weights must name at least one token");
+        if (entries.length > MAX_TOKENS) errors.push(`weights may name at most ${MAX_TOKENS} tokens`);
+
+        for (const [symbol, weight] of entries) {
+            if (!GROWTH_ELIGIBLE_SYMBOLS.includes(symbol)) {
+                errors.push(`${symbol} is not a supported growth token`);
+            } else if (!isNumberInRange(weight, 0, 100)) {
+                errors.push(`weights.${symbol} must be a number between 0 and 100`);
+            } else if (weight > 0) {
+                weights[symbol] = weight;
+            }
+        }
+
+        const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+        if (errors.length === 0 && Math.abs(total - 100) > 0.01) {
+            errors.push("weights must sum to 100");
+        }
+    }
+
+    const absoluteBandPct = raw.absoluteBandPct ?? DEFAULT_GROWTH_TARGETS.absoluteBandPct;
+    const relativeBandPct = raw.relativeBandPct ?? DEFAULT_GROWTH_TARGETS.relativeBandPct;
+    const minTradeUSD = raw.minTradeUSD ?? DEFAULT_GROWTH_TARGETS.minTradeUSD;
+
+    if (!isNumberInRange(absoluteBandPct, 0.1, 50)) {
+        errors.push("absoluteBandPct must be a number between 0.1 and 50");
+    }
+    if (!isNumberInRange(relativeBandPct, 1, 100)) {
+        errors.push("relativeBandPct must be a number between 1 and 100");
+    }
+    if (!isNumberInRange(minTradeUSD, 0, 100_000)) {
+        errors.push("minTradeUSD must be a number between 0 and 100000");
+    }
+
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+
+    return { ok: true, targets: { weights, absoluteBandPct, relativeBandPct, minTradeUSD } };
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+export interface GrowthTargetStore {
+    get(walletAddress: string): Promise<GrowthTargets | null>;
+    set(walletAddress: string, targets: GrowthTargets): Promise<void>;
+    remove(walletAddress: string): Promise<void>;
+}
+
+export class InMemoryGrowthTargetStore implements GrowthTargetStore {
+    private targets: Map<string, GrowthTargets> = new Map();
+
+    async get(walletAddress: string): Promise<GrowthTargets | null> {
+        return this.targets.get(walletAddress) ?? null;
+    }
+
+    async set(walletAddress: string, targets: GrowthTargets): Promise<void> {
+        this.targets.set(walletAddress, targets);
+    }
+
+    async remove(walletAddress: string): Promise<void> {
+        this.targets.delete(walletAddress);
+    }
+}
+
+export class JsonFileGrowthTargetStore implements GrowthTargetStore {
+    private readonly file: JsonFileDocument<{ version: number; targets: Record<string, GrowthTargets> }>;
+
+    constructor(filePath: string) {
+        this.file = new JsonFileDocument(filePath, {
+            empty: () => ({ version: 1, targets: {} }),
+            parse: parsed => ({ version: 1, targets: parsed.targets || {} }),
+            name: "Growth target store",
+            context: "GrowthTargets"
+        });
+    }
+
+    async get(walletAddress: string): Promise<GrowthTargets | null> {
+        const doc = await this.file.read();
+        return doc.targets[walletAddress] ?? null;
+    }
+
+    async set(walletAddress: string, targets: GrowthTargets): Promise<void> {
+        await this.file.update(doc => {
+            doc.targets[walletAddress] = targets;
+        });
+    }
+
+    async remove(walletAddress: string): Promise<void> {
+        if (!(walletAddress in (await this.file.read()).targets)) return;
+        await this.file.update(doc => {
+            delete doc.targets[walletAddress];
+        });
+    }
+}
+
+let store: GrowthTargetStore | null = null;
+
+/**
+ * Get the configured growth target store (lazy singleton)
+ */
+export function getGrowthTargetStore(): GrowthTargetStore {
+    if (!store) {
+        store = config.growthTargetStore === "memory"
+            ? new InMemoryGrowthTargetStore()
+            : new JsonFileGrowthTargetStore(config.growthTargetStorePath);
+    }
+    return store;
+}
+
+/**
+ * Override the growth target store (tests, custom backends)
+ */
+export function setGrowthTargetStore(next: GrowthTargetStore): void {
+    store = next;
+}
+
+/**
+ * The wallet's stored targets, or the defaults when it has none
+ */
+export async function resolveGrowthTargets(walletAddress: string | undefined): Promise<GrowthTargets> {
+    if (walletAddress) {
+        try {
+            const custom = await getGrowthTargetStore().get(walletAddress);
+            if (custom) return custom;
+        } catch {
+            logger.warn("Growth target lookup failed, using defaults", "GrowthTargets");
+        }
+    }
+    return { ...DEFAULT_GROWTH_TARGETS, weights: { ...DEFAULT_GROWTH_TARGETS.weights } };
+}
@@ -18,13 +18,15 @@ import { yieldStrategy, getYieldAnalytics } from "./yield.js";
 import { growthStrategy } from "./growth.js";
 import { degenStrategy } from "./degen.js";
 import { rwaStrategy } from "./rwa.js";
-import { VaultStats, StrategyExecutionResult } from "./types.js";
+import { VaultStats, StrategyExecutionResult, ApprovedVaultActions } from "./types.js";
 import { logger } from "../logger.js";
 
 const log = (msg: string) => logger.info(msg, "STRATEGY");
 
 /**
- * Execute all vault strategies based on AI allocation
+ * Execute all vault strategies based on AI allocation. With `approved` (a stored
+ * rebalance plan), each listed vault runs the plan's action and buy legs instead of
+ * recomputing them from the targets.
  */
 export async function executeAllStrategies(
     walletAddress: string,
@@ -38,7 +40,8 @@ export async function executeAllStrategies(
     },
     signals: {
         memeHype: "high" | "medium" | "low";
-    }
+    },
+    approved?: ApprovedVaultActions
 ): Promise<{
     success: boolean;
     results: Record<string, StrategyExecutionResult>;
@@ -74,7 +77,7 @@ export async function executeAllStrategies(
         // 2. Yield Strategy
         log("Yield vault");
         const { executeYieldStrategy } = await import("./yield.js");
-        results.yield = await executeYieldStrategy(walletAddress, targets.yield, "low");
+        results.yield = await executeYieldStrategy(walletAddress, targets.yield, "low", approved?.yield);
     } catch (error) {
         errors.push(`Yield: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
@@ -83,7 +86,7 @@ export async function executeAllStrategies(
         // 3. Growth Strategy
         log("Growth vault");
         const { executeGrowthStrategy } = await import("./growth.js");
-        results.growth = await executeGrowthStrategy(walletAddress, targets.growth);
+        results.growth = await executeGrowthStrategy(walletAddress, targets.growth, approved?.growth);
     } catch (error) {
         errors.push(`Growth: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
@@ -92,7 +95,7 @@ export async function executeAllStrategies(
         // 4. Degen Strategy
         log("Degen vault");
         const { executeDegenStrategy } = await import("./degen.js");
-        results.degen = await executeDegenStrategy(walletAddress, targets.degen, signals.memeHype);
+        results.degen = await executeDegenStrategy(walletAddress, targets.degen, signals.memeHype, approved?.degen);
     } catch (error) {
         errors.push(`Degen: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
@@ -101,7 +104,7 @@ export async function executeAllStrategies(
         // 5. RWA Strategy
         log("RWA vault");
         const { executeRwaStrategy } = await import("./rwa.js");
-        results.rwa = await executeRwaStrategy(walletAddress, targets.rwa);
+        results.rwa = await executeRwaStrategy(walletAddress, targets.rwa, approved?.rwa);
     } catch (error) {
         errors.push(`RWA: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
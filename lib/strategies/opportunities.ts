@@ -0,0 +1,136 @@
+/**
+ * Degen Opportunity Scanning
+ * Builds the degen vault's candidate set from the DexScreener scanners (momentum,
+ * dip-buy, new launches), filters it by the configured risk ceiling and liquidity
+ * floor, and sizes entries by conviction.
+ */
+
+import { MemeToken, DegenEntryStrategy } from "../protocols/types.js";
+import { dexscreener } from "../protocols/index.js";
+
+export interface DegenCandidate extends MemeToken {
+    strategy: DegenEntryStrategy;
+    conviction: number;     // 0-1: safety × strategy weight × liquidity depth
+}
+
+export interface ScanOptions {
+    maxRiskScore: number;       // Drop tokens scored riskier than this (0-100)
+    minLiquidityUsd: number;    // Drop pools shallower than this
+    maxCandidates: number;
+}
+
+export interface SizedEntry {
+    candidate: DegenCandidate;
+    amount: number;             // USD1 to deploy
+}
+
+/** How much each scanner's signal is trusted relative to the others */
+const STRATEGY_WEIGHT: Record<DegenEntryStrategy, number> = {
+    "momentum": 1,
+    "dip-buy": 0.8,
+    "new-launch": 0.5
+};
+
+/** Pools this many times deeper than the floor earn full liquidity credit */
+const LIQUIDITY_DEPTH_MULTIPLE = 10;
+
+/** No single entry takes more than this share of a deposit */
+const MAX_ENTRY_SHARE = 0.4;
+
+export function convictionFor(token: MemeToken, strategy: DegenEntryStrategy, minLiquidityUsd: number): number {
+    const safety = Math.max(0, 100 - token.riskScore) / 100;
+    const depth = minLiquidityUsd > 0
+        ? Math.min(1, token.liquidity / (minLiquidityUsd * LIQUIDITY_DEPTH_MULTIPLE))
+        : 1;
+    return safety * STRATEGY_WEIGHT[strategy] * depth;
+}
+
+/**
+ * Merge scanner results into a ranked candidate list. A token found by several
+ * scanners keeps the entry with the highest conviction.
+ */
+export function rankCandidates(
+    found: Record<DegenEntryStrategy, MemeToken[]>,
+    options: ScanOptions
+): DegenCandidate[] {
+    const best: Map<string, DegenCandidate> = new Map();
+
+    for (const strategy of Object.keys(found) as DegenEntryStrategy[]) {
+        for (const token of found[strategy]) {
+            if (!token.address) continue;
+            if (token.riskScore > options.maxRiskScore) continue;
+            if (token.liquidity < options.minLiquidityUsd) continue;
+
+            const candidate: DegenCandidate = {
+                ...token,
+                strategy,
+                conviction: convictionFor(token, strategy, options.minLiquidityUsd)
+            };
+            const current = best.get(token.address);
+            if (!current || candidate.conviction > current.conviction) {
+                best.set(token.address, candidate);
+            }
+        }
+    }
+
+    return [...best.values()]
+        .filter(c => c.conviction > 0)
+        .sort((a, b) => b.conviction - a.conviction)
+        .slice(0, options.maxCandidates);
+}
+
+/**
+ * Run every scanner and rank the results
+ */
+export async function scanDegenOpportunities(options: ScanOptions): Promise<DegenCandidate[]> {
+    const [momentum, dips, launches] = await Promise.all([
+        dexscreener.getMomentumPlays(options.maxCandidates * 2),
+        dexscreener.getDipBuyOpportunities(options.maxCandidates * 2),
+        dexscreener.getNewLaunches(options.maxCandidates * 2)
+    ]);
+
+    return rankCandidates(
+        { "momentum": momentum, "dip-buy": dips, "new-launch": launches },
+        options
+    );
+}
+
+/**
+ * Split `amount` across candidates in proportion to conviction, capping any one
+ * entry at MAX_ENTRY_SHARE and dropping entries below `minTrade`
+ */
+export function sizeByConviction(candidates: DegenCandidate[], amount: number, minTrade: number): SizedEntry[] {
+    let pool = candidates.filter(c => c.conviction > 0);
+
+    // Drop the weakest until every entry clears the minimum trade size
+    while (pool.length > 0) {
+        const total = pool.reduce((sum, c) => sum + c.conviction, 0);
+        const weakest = pool[pool.length - 1];
+        if ((weakest.conviction / total) * amount >= minTrade) break;
+        pool = pool.slice(0, -1);
+    }
+    if (pool.length === 0) return [];
+
+    // Cap shares, handing the excess to uncapped entries in conviction order
+    const cap = Math.max(MAX_ENTRY_SHARE, 1 / pool.length);
+    const shares: number[] = new Array(pool.length).fill(0);
+    let remaining = 1;
+    let open = pool.map((_, i) => i);
+
+    while (remaining > 1e-9 && open.length > 0) {
+        const weight = open.reduce((sum, i) => sum + pool[i].conviction, 0);
+        const next: number[] = [];
+        let handed = 0;
+        for (const i of open) {
+            const share = Math.min(cap - shares[i], remaining * (pool[i].conviction / weight));
+            shares[i] += share;
+            handed += share;
+            if (shares[i] < cap - 1e-9) next.push(i);
+        }
+        remaining -= handed;
+        if (next.length === open.length) break;
+        open = next;
+    }
+
+    return pool.map((candidate, i) => ({ candidate, amount: amount * shares[i] }));
+}
@@ -2,37 +2,35 @@
  * RWA Vault Strategy
  * Tokenized precious metals via Remora Markets (GLDr, SLVr, CPERr).
  *
- * POSITION PERSISTENCE: Uses Solana Memo Program for on-chain storage.
+ * POSITION PERSISTENCE: Positions live in the shared PositionRepository,
+ * hydrated from on-chain memos when empty.
  */
 
 import { Connection, PublicKey, clusterApiUrl } from "@solana/web3.js";
-import { RwaStrategy, VaultStatus, StrategyExecutionResult } from "./types.js";
-import { TxResult, Position, TOKENS, RWA_TOKENS, getRADRDecimals } from "../protocols/types.js";
+import { RwaStrategy, VaultStatus, StrategyExecutionResult, PlannedBuy, ApprovedVaultAction, approvedDifference } from "./types.js";
+import { TxResult, Position, TOKENS, RWA_TOKENS } from "../protocols/types.js";
 import { jupiter } from "../protocols/index.js";
 import { getVaultAddress } from "../vaults.js";
 import { logger } from "../logger.js";
+import { amountOf, quantityAt, TokenAmount, unitsOf, usd1, USD1_DECIMALS } from "../money.js";
 import {
-    reconstructPositions,
     PositionMemo,
+    assertPositionMemosWritable,
     buildPositionMemoTransaction
 } from "../positionMemo.js";
+import {
+    getPositionRepository,
+    ensureHydrated,
+    memoHydrator,
+    mergePosition,
+    StoredPosition
+} from "../positions/index.js";
 
 const log = (msg: string) => logger.info(msg, "RWA");
 
 const getRpcUrl = () => process.env.SOLANA_RPC_URL || clusterApiUrl("mainnet-beta");
 const connection = new Connection(getRpcUrl(), "confirmed");
 
-interface RwaPositionInternal {
-    walletAddress: string;
-    token: string;
-    symbol: string;
-    amount: number;
-    entryPrice: number;
-    entryTimestamp: number;
-}
-
-const positions: Map<string, RwaPositionInternal[]> = new Map();
-const positionsLoaded: Set<string> = new Set();
 const pendingMemos: Map<string, PositionMemo[]> = new Map();
 
 function getRwaTokenMeta(symbol: string) {
@@ -45,32 +43,11 @@ class RwaVaultStrategy implements RwaStrategy {
     description = "Private tokenized precious metals via Remora Markets";
     riskLevel = "low" as const;
 
+    /**
+     * Hydrate the position store from on-chain memos (first use per wallet only)
+     */
     async loadPositionsFromChain(walletAddress: string): Promise<void> {
-        if (positionsLoaded.has(walletAddress)) return;
-
-        try {
-            log("Loading positions from on-chain memos...");
-            const onChainPositions = await reconstructPositions(connection, walletAddress, "rwa");
-
-            if (onChainPositions.length > 0) {
-                const loadedPositions: RwaPositionInternal[] = onChainPositions.map(p => ({
-                    walletAddress,
-                    token: p.tokenMint,
-                    symbol: p.tokenSymbol,
-                    amount: p.amount,
-                    entryPrice: p.entryPrice,
-                    entryTimestamp: p.openedAt
-                }));
-
-                positions.set(walletAddress, loadedPositions);
-                log(`Loaded ${loadedPositions.length} RWA positions from blockchain`);
-            }
-
-            positionsLoaded.add(walletAddress);
-        } catch {
-            log("Failed to load from chain, using empty positions");
-            positionsLoaded.add(walletAddress);
-        }
+        await ensureHydrated(walletAddress, "rwa", memoHydrator(connection, walletAddress, "rwa"));
     }
 
     getPendingMemos(walletAddress: string): PositionMemo[] {
@@ -81,23 +58,37 @@ class RwaVaultStrategy implements RwaStrategy {
         pendingMemos.delete(walletAddress);
     }
 
+    /**
+     * Split a deposit evenly across the RWA tokens, or buy exactly the `buys` legs
+     * when they are given (an approved rebalance plan)
+     */
     async deposit(
         walletAddress: string,
-        amount: number
-    ): Promise<TxResult & { positionMemos?: PositionMemo[]; memo_tx_base64?: string }> {
+        amount: number,
+        buys?: PlannedBuy[]
+    ): Promise<TxResult & { positionMemos?: PositionMemo[]; unsigned_txs?: string[] }> {
         log("Deploying into RWA assets");
 
         await this.loadPositionsFromChain(walletAddress);
+        await assertPositionMemosWritable(connection, walletAddress);
 
         const txSignatures: string[] = [];
-        const newPositions: RwaPositionInternal[] = [];
+        const unsignedTxs: string[] = [];
+        const store = getPositionRepository();
+        const newPositions: StoredPosition[] = [];
         const memos: PositionMemo[] = [];
+        let existingPositions = await store.list(walletAddress, "rwa");
 
-        const perAsset = amount / RWA_TOKENS.length;
+        const perAsset = usd1(amount).split(RWA_TOKENS.length);
+        const legs = buys
+            ? buys.flatMap(buy => {
+                const asset = getRwaTokenMeta(buy.symbol);
+                return asset ? [{ asset, investAmount: usd1(buy.amount) }] : [];
+            })
+            : RWA_TOKENS.map((asset, i) => ({ asset, investAmount: perAsset[i] }));
 
-        for (const asset of RWA_TOKENS) {
-            const investAmount = perAsset;
-            if (investAmount <= 0) continue;
+        for (const { asset, investAmount } of legs) {
+            if (!investAmount.isPositive()) continue;
 
             const price = await jupiter.getTokenPrice(asset.token);
             if (!price || price <= 0) {
@@ -105,8 +96,7 @@ class RwaVaultStrategy implements RwaStrategy {
                 continue;
             }
 
-            const tokenAmount = investAmount / price;
-            if (tokenAmount < asset.min) {
+            if (quantityAt(investAmount, price, asset.decimals).toNumber() < asset.min) {
                 log(`Skipping ${asset.symbol}: below minimum (${asset.min})`);
                 continue;
             }
@@ -115,22 +105,36 @@ class RwaVaultStrategy implements RwaStrategy {
                 inputMint: TOKENS.USD1,
                 outputMint: asset.token,
                 amount: investAmount,
-                slippageBps: 80
-            }, walletAddress);
+                slippageBps: 80,
+                outputDecimals: asset.decimals
+            }, walletAddress, { vault: "rwa", outputSymbol: asset.symbol });
+
+            if (swapResult.record?.status === "rejected") {
+                log(`Skipping ${asset.symbol}: ${swapResult.error}`);
+                continue;
+            }
+            // A partial TWAP fill books only the input that executed
+            const invested = swapResult.record?.status === "partial" && swapResult.inputAmount
+                ? swapResult.inputAmount
+                : investAmount;
+            const tokenAmount = quantityAt(invested, price, asset.decimals);
 
             if (swapResult.success && swapResult.txSignature) {
                 txSignatures.push(swapResult.txSignature);
             } else {
                 txSignatures.push(`rwa_buy_${asset.symbol.toLowerCase()}_${Date.now()}`);
             }
+            if (swapResult.unsigned_tx_base64) {
+                unsignedTxs.push(swapResult.unsigned_tx_base64);
+            }
 
-            const existingPos = (positions.get(walletAddress) || []).find(p => p.token === asset.token);
+            const existingPos = existingPositions.find(p => p.token === asset.token);
             const memo: PositionMemo = {
                 vault: "rwa",
                 action: existingPos ? "add" : "open",
                 tokenSymbol: asset.symbol,
                 tokenMint: asset.token,
-                amount: tokenAmount,
+                ...unitsOf(tokenAmount),
                 priceUSD: price,
                 timestamp: Date.now()
             };
@@ -138,37 +142,29 @@ class RwaVaultStrategy implements RwaStrategy {
 
             newPositions.push({
                 walletAddress,
+                vault: "rwa",
                 token: asset.token,
                 symbol: asset.symbol,
-                amount: tokenAmount,
+                ...unitsOf(tokenAmount),
                 entryPrice: price,
                 entryTimestamp: Date.now()
             });
         }
 
-        const existing = positions.get(walletAddress) || [];
+        // Merge with existing positions (weighted average entry price) and persist
         for (const newPos of newPositions) {
-            const existingPos = existing.find(p => p.token === newPos.token);
-            if (existingPos) {
-                const totalAmount = existingPos.amount + newPos.amount;
-                existingPos.entryPrice =
-                    (existingPos.entryPrice * existingPos.amount + newPos.entryPrice * newPos.amount) / totalAmount;
-                existingPos.amount = totalAmount;
-            } else {
-                existing.push(newPos);
-            }
+            existingPositions = mergePosition(existingPositions, newPos);
         }
-        positions.set(walletAddress, existing);
+        await store.replace(walletAddress, "rwa", existingPositions);
 
         pendingMemos.set(walletAddress, memos);
 
-        let memoTxBase64: string | undefined;
         if (memos.length > 0) {
             try {
                 const walletPubkey = new PublicKey(walletAddress);
                 const memoTx = await buildPositionMemoTransaction(connection, walletPubkey, memos);
                 const serialized = memoTx.serialize({ requireAllSignatures: false });
-                memoTxBase64 = serialized.toString("base64");
+                unsignedTxs.push(serialized.toString("base64"));
             } catch {
                 log("Memo transaction build failed");
             }
@@ -177,8 +173,8 @@ class RwaVaultStrategy implements RwaStrategy {
         return {
             success: true,
             txSignature: txSignatures.join(","),
+            unsigned_txs: unsignedTxs.length > 0 ? unsignedTxs : undefined,
             positionMemos: memos,
-            memo_tx_base64: memoTxBase64,
             timestamp: Date.now()
         };
     }
@@ -190,8 +186,10 @@ class RwaVaultStrategy implements RwaStrategy {
         log("Withdrawing: swapping RWAs back to USD1");
 
         await this.loadPositionsFromChain(walletAddress);
+        await assertPositionMemosWritable(connection, walletAddress);
 
-        const currentPositions = positions.get(walletAddress) || [];
+        const store = getPositionRepository();
+        const currentPositions = await store.list(walletAddress, "rwa");
         const totalValue = await this.getValue(walletAddress);
 
         if (totalValue < amount) {
@@ -206,29 +204,32 @@ class RwaVaultStrategy implements RwaStrategy {
         const txSignatures: string[] = [];
         const unsignedTxs: string[] = [];
         const memos: PositionMemo[] = [];
-        let totalUSD1Received = 0;
+        let totalUSD1Received = TokenAmount.zero(USD1_DECIMALS);
 
         for (const pos of currentPositions) {
-            const withdrawTokenAmount = pos.amount * sellPercent;
-            if (withdrawTokenAmount <= 0.000001) continue;
-
             const meta = getRwaTokenMeta(pos.symbol);
-            if (meta && withdrawTokenAmount < meta.min) {
+            const held = amountOf(pos);
+            let sold = held.scale(sellPercent);
+            if (!sold.isPositive()) continue;
+
+            if (meta && sold.toNumber() < meta.min) {
                 log(`Skipping ${pos.symbol} withdraw: below minimum (${meta.min})`);
                 continue;
             }
 
-            const decimals = meta?.decimals ?? getRADRDecimals(pos.symbol);
             const currentPrice = await jupiter.getTokenPrice(pos.token);
 
             const swapResult = await jupiter.swapToUSD1(
                 pos.token,
-                withdrawTokenAmount,
-                decimals,
-                walletAddress
+                sold,
+                walletAddress,
+                { vault: "rwa", inputSymbol: pos.symbol }
             );
 
             if (swapResult.success) {
+                if (swapResult.record?.status === "partial" && swapResult.inputAmount) {
+                    sold = swapResult.inputAmount.min(held);
+                }
                 if (swapResult.txSignature) {
                     txSignatures.push(swapResult.txSignature);
                 }
@@ -236,28 +237,28 @@ class RwaVaultStrategy implements RwaStrategy {
                     unsignedTxs.push(swapResult.unsigned_tx_base64);
                 }
                 if (swapResult.outputAmount) {
-                    totalUSD1Received += swapResult.outputAmount;
+                    totalUSD1Received = totalUSD1Received.add(swapResult.outputAmount.withDecimals(USD1_DECIMALS));
                 }
 
-                const isClosingFully = pos.amount - withdrawTokenAmount < 0.000001;
+                const remaining = held.sub(sold);
                 const memo: PositionMemo = {
                     vault: "rwa",
-                    action: isClosingFully ? "close" : "reduce",
+                    action: remaining.isZero() ? "close" : "reduce",
                     tokenSymbol: pos.symbol,
                     tokenMint: pos.token,
-                    amount: withdrawTokenAmount,
+                    ...unitsOf(sold),
                     priceUSD: currentPrice || pos.entryPrice,
                     timestamp: Date.now()
                 };
                 memos.push(memo);
 
-                pos.amount -= withdrawTokenAmount;
+                pos.units = remaining.units.toString();
             } else {
                 log(`Warning: Failed to sell ${pos.symbol}: ${swapResult.error}`);
             }
         }
 
-        positions.set(walletAddress, currentPositions.filter(p => p.amount > 0.000001));
+        await store.replace(walletAddress, "rwa", currentPositions.filter(p => amountOf(p).isPositive()));
 
         const existingMemos = pendingMemos.get(walletAddress) || [];
         pendingMemos.set(walletAddress, [...existingMemos, ...memos]);
@@ -277,7 +278,7 @@ class RwaVaultStrategy implements RwaStrategy {
             success: true,
             txSignature: txSignatures.join(","),
             unsigned_txs: unsignedTxs.length > 0 ? unsignedTxs : undefined,
-            totalUSD1: totalUSD1Received,
+            totalUSD1: totalUSD1Received.toNumber(),
             positionMemos: memos,
             timestamp: Date.now()
         };
@@ -290,7 +291,7 @@ class RwaVaultStrategy implements RwaStrategy {
     async getValue(walletAddress: string): Promise<number> {
         await this.loadPositionsFromChain(walletAddress);
 
-        const userPositions = positions.get(walletAddress) || [];
+        const userPositions = await getPositionRepository().list(walletAddress, "rwa");
         const vaultAddress = await getVaultAddress(walletAddress, "rwa");
         const { getPrivateBalance } = await import("../shadowwire.js");
         const cashBalance = await getPrivateBalance(vaultAddress);
@@ -302,30 +303,31 @@ class RwaVaultStrategy implements RwaStrategy {
 
         for (const pos of userPositions) {
             const price = prices[pos.token] || pos.entryPrice;
-            totalValue += pos.amount * price;
+            totalValue += amountOf(pos).toNumber() * price;
         }
 
         return totalValue;
     }
 
     async getPositions(walletAddress: string): Promise<Position[]> {
-        const userPositions = positions.get(walletAddress) || [];
+        const userPositions = await getPositionRepository().list(walletAddress, "rwa");
         const prices = await jupiter.getTokenPrices(userPositions.map(p => p.token));
 
         return userPositions.map(pos => {
+            const amount = amountOf(pos).toNumber();
             const currentPrice = prices[pos.token] || pos.entryPrice;
-            const valueUSD = pos.amount * currentPrice;
-            const pnl = (currentPrice - pos.entryPrice) * pos.amount;
+            const valueUSD = amount * currentPrice;
+            const pnl = (currentPrice - pos.entryPrice) * amount;
             const pnlPercent = pos.entryPrice > 0 ? ((currentPrice - pos.entryPrice) / pos.entryPrice) * 100 : 0;
 
             return {
                 token: {
                     mint: pos.token,
                     symbol: pos.symbol,
-                    decimals: getRADRDecimals(pos.symbol),
+                    decimals: pos.decimals,
                     price: currentPrice
                 },
-                amount: pos.amount,
+                amount,
                 valueUSD,
                 entryPrice: pos.entryPrice,
                 currentPrice,
@@ -356,24 +358,26 @@ export const rwaStrategy = new RwaVaultStrategy();
 
 export async function executeRwaStrategy(
     walletAddress: string,
-    targetAmount: number
+    targetAmount: number,
+    approved?: ApprovedVaultAction
 ): Promise<StrategyExecutionResult> {
     log("Executing strategy");
 
-    const currentValue = await rwaStrategy.getValue(walletAddress);
-    const difference = targetAmount - currentValue;
+    const difference = approved
+        ? approvedDifference(approved)
+        : targetAmount - await rwaStrategy.getValue(walletAddress);
 
     const txSignatures: string[] = [];
     const unsignedTxs: string[] = [];
 
     if (difference > 1) {
         log("Buying RWAs");
-        const depositResult = await rwaStrategy.deposit(walletAddress, difference);
+        const depositResult = await rwaStrategy.deposit(walletAddress, difference, approved?.buys);
         if (depositResult.txSignature) {
             txSignatures.push(...depositResult.txSignature.split(","));
         }
-        if ((depositResult as any).memo_tx_base64) {
-            unsignedTxs.push((depositResult as any).memo_tx_base64);
+        if (depositResult.unsigned_txs && depositResult.unsigned_txs.length > 0) {
+            unsignedTxs.push(...depositResult.unsigned_txs);
         }
     } else if (difference < -1) {
         log("Selling RWAs");
@@ -4,6 +4,7 @@
  */
 
 import { TxResult, Position, LendingPosition, MemeToken, DegenPosition } from "../protocols/types.js";
+import type { ExitOrderCreation } from "./exitOrders.js";
 
 // Base strategy interface
 export interface VaultStrategy {
@@ -57,7 +58,7 @@ export interface DegenStrategy extends VaultStrategy {
     enterPosition(walletAddress: string, token: MemeToken, amount: number): Promise<TxResult>;
     exitPosition(walletAddress: string, tokenAddress: string): Promise<TxResult>;
     getActivePositions(walletAddress: string): Promise<DegenPosition[]>;
-    setStopLoss(walletAddress: string, tokenAddress: string, percent: number): Promise<void>;
+    setStopLoss(walletAddress: string, tokenAddress: string, percent: number): Promise<ExitOrderCreation>;
 }
 
 // RWA vault (tokenized precious metals)
@@ -65,7 +66,41 @@ export interface RwaStrategy extends VaultStrategy {
     getPositions(walletAddress: string): Promise<Position[]>;
 }
 
+// A buy leg fixed ahead of execution (a swap in an approved rebalance plan)
+export interface PlannedBuy {
+    symbol: string;
+    mint: string;
+    amount: number;                         // USD1 to swap in
+    decimals: number;                       // Output mint decimals
+    strategy?: DegenPosition["strategy"];   // Degen scanner strategy the entry came from
+}
+
+// What a vault does in an approved rebalance plan; executed as stored instead of recomputed
+export interface ApprovedVaultAction {
+    action: "buy" | "sell" | "deposit" | "withdraw" | "hold";
+    amount: number;                         // USD1
+    buys: PlannedBuy[];                     // Legs of a "buy"
+}
+
+export type ApprovedVaultActions = Partial<Record<"yield" | "growth" | "degen" | "rwa", ApprovedVaultAction>>;
+
+/**
+ * USD1 an approved action moves into (positive) or out of (negative) its vault
+ */
+export function approvedDifference(approved: ApprovedVaultAction): number {
+    if (approved.action === "hold") return 0;
+    return approved.action === "buy" || approved.action === "deposit" ? approved.amount : -approved.amount;
+}
+
 // Strategy execution result
+// A token entry the degen vault refused (failed safety checks or risk ceiling)
+export interface BlockedEntry {
+    symbol: string;
+    mint: string;
+    strategy: DegenPosition["strategy"];
+    reasons: string[];
+}
+
 export interface StrategyExecutionResult {
     vaultId: string;
     success: boolean;
@@ -74,6 +109,7 @@ export interface StrategyExecutionResult {
     txSignatures: string[];
     unsignedTxs?: string[];
     positions?: any[];
+    blocked?: BlockedEntry[];
     error?: string;
     timestamp: number;
 }
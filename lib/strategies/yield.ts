@@ -1,12 +1,13 @@
 /**
  * Yield Vault Strategy
- * Deploys USD1 into Kamino lending for yield.
+ * Deploys USD1 into Kamino lending for yield, split across the best stablecoin
+ * reserves for the wallet's risk profile (see protocols/kaminoReserves.ts).
  * Kamino deposits/withdrawals use the user wallet (or KAMINO_WALLET_* if set);
  * rebalance moves USD1 to vault PDAs via ShadowWire separately.
  */
 
-import { YieldStrategy, VaultStatus, StrategyExecutionResult } from "./types.js";
-import { TxResult, LendingPosition } from "../protocols/types.js";
+import { YieldStrategy, VaultStatus, StrategyExecutionResult, ApprovedVaultAction, approvedDifference } from "./types.js";
+import { LendingPosition } from "../protocols/types.js";
 import { kamino } from "../protocols/index.js";
 import { getVaultAddress } from "../vaults.js";
 import { logger } from "../logger.js";
@@ -19,17 +20,22 @@ class YieldVaultStrategy implements YieldStrategy {
     description = "Optimized stablecoin farming via Kamino lending protocols";
     riskLevel = "low" as const;
 
-    async deposit(walletAddress: string, amount: number): Promise<TxResult> {
+    async deposit(
+        walletAddress: string,
+        amount: number,
+        riskProfile: "low" | "medium" | "high" = "low"
+    ): Promise<kamino.KaminoTxResult> {
         log("Deposit started");
-        const result = await kamino.deposit(walletAddress, amount, "USD1-LENDING");
-        if (result.success) log("Deposit successful");
+        const result = await kamino.depositAcrossReserves(walletAddress, amount, riskProfile);
+        if (result.success) log(`Deposit successful (${Object.keys(result.deposited).length} reserve(s))`);
+        if (result.success && result.unallocated > 0.01) log("Part of the deposit exceeded reserve caps and stays in USD1");
 
         return result;
     }
 
-    async withdraw(walletAddress: string, amount: number): Promise<TxResult> {
+    async withdraw(walletAddress: string, amount: number): Promise<kamino.KaminoTxResult> {
         log("Withdraw started");
-        const result = await kamino.withdraw(walletAddress, amount, "USD1-LENDING");
+        const result = await kamino.withdrawAcrossReserves(walletAddress, amount);
         if (result.success) log("Withdrawal successful");
 
         return result;
@@ -37,46 +43,41 @@ class YieldVaultStrategy implements YieldStrategy {
 
     async getBalance(walletAddress: string): Promise<number> {
         await kamino.loadPositionsFromChain(walletAddress);
-        const position = kamino.getPosition(walletAddress);
+        const position = await kamino.getPosition(walletAddress);
         return position?.deposited || 0;
     }
 
     async getValue(walletAddress: string): Promise<number> {
-        // Accrue any pending yield first
+        // Value positions from the chain first
         await kamino.loadPositionsFromChain(walletAddress);
-        kamino.accrueYield(walletAddress);
-        return kamino.getTotalValue(walletAddress);
+        await kamino.syncYieldFromChain(walletAddress);
+        return await kamino.getTotalValue(walletAddress);
     }
 
     async getCurrentAPY(): Promise<number> {
-        return kamino.getCurrentAPY("USD1-LENDING");
+        return kamino.getCurrentAPY(await kamino.getBestStrategy(this.riskLevel));
     }
 
     async getEarnedYield(walletAddress: string): Promise<number> {
         await kamino.loadPositionsFromChain(walletAddress);
-        kamino.accrueYield(walletAddress);
-        return kamino.getTotalEarned(walletAddress);
+        await kamino.syncYieldFromChain(walletAddress);
+        return await kamino.getTotalEarned(walletAddress);
     }
 
-    async compound(walletAddress: string): Promise<TxResult> {
+    async compound(walletAddress: string): Promise<kamino.KaminoTxResult> {
         log("Compound");
-        kamino.accrueYield(walletAddress);
-
-        return {
-            success: true,
-            txSignature: `yield_compound_${Date.now()}`,
-            timestamp: Date.now()
-        };
+        await kamino.loadPositionsFromChain(walletAddress);
+        return kamino.compound(walletAddress);
     }
 
     async getPositions(walletAddress: string): Promise<LendingPosition[]> {
         await kamino.loadPositionsFromChain(walletAddress);
-        return kamino.getAllPositions(walletAddress);
+        return await kamino.getAllPositions(walletAddress);
     }
 
     async getStatus(walletAddress: string): Promise<VaultStatus> {
         await kamino.loadPositionsFromChain(walletAddress);
-        kamino.accrueYield(walletAddress);
+        await kamino.syncYieldFromChain(walletAddress);
 
         const deposited = await this.getBalance(walletAddress);
         const currentValue = await this.getValue(walletAddress);
@@ -97,18 +98,20 @@ class YieldVaultStrategy implements YieldStrategy {
 // Export singleton instance
 export const yieldStrategy = new YieldVaultStrategy();
 
-// Execute yield vault strategy
+// Execute yield vault strategy (or the deposit / withdrawal an approved plan fixed)
 export async function executeYieldStrategy(
     walletAddress: string,
     targetAmount: number,
-    riskProfile: "low" | "medium" | "high" = "low"
+    riskProfile: "low" | "medium" | "high" = "low",
+    approved?: ApprovedVaultAction
 ): Promise<StrategyExecutionResult> {
     log("Executing strategy");
 
     await kamino.loadPositionsFromChain(walletAddress);
 
-    const currentValue = await yieldStrategy.getValue(walletAddress);
-    const difference = targetAmount - currentValue;
+    const difference = approved
+        ? approvedDifference(approved)
+        : targetAmount - await yieldStrategy.getValue(walletAddress);
 
     const txSignatures: string[] = [];
     const unsignedTxs: string[] = [];
@@ -117,15 +120,15 @@ export async function executeYieldStrategy(
         if (difference > 0) {
             // Need to deposit more
             log("Depositing");
-            const depositResult = await yieldStrategy.deposit(walletAddress, difference);
+            const depositResult = await yieldStrategy.deposit(walletAddress, difference, riskProfile);
             if (!depositResult.success) {
                 throw new Error(depositResult.error || "Kamino deposit failed");
             }
             if (depositResult.txSignature) {
                 txSignatures.push(depositResult.txSignature);
             }
-            if ((depositResult as any).unsigned_tx_base64) {
-                unsignedTxs.push((depositResult as any).unsigned_tx_base64);
+            if (depositResult.unsigned_txs) {
+                unsignedTxs.push(...depositResult.unsigned_txs);
             }
         } else {
             // Need to withdraw
@@ -137,15 +140,21 @@ export async function executeYieldStrategy(
             if (withdrawResult.txSignature) {
                 txSignatures.push(withdrawResult.txSignature);
             }
-            if ((withdrawResult as any).unsigned_tx_base64) {
-                unsignedTxs.push((withdrawResult as any).unsigned_tx_base64);
+            if (withdrawResult.unsigned_txs) {
+                unsignedTxs.push(...withdrawResult.unsigned_txs);
             }
         }
+    } else {
+        // No deposit or withdrawal (which refresh the reserves themselves): refresh
+        // the obligation so accrued interest is settled on chain
+        const compoundResult = await yieldStrategy.compound(walletAddress);
+        if (compoundResult.success && compoundResult.unsigned_txs) {
+            unsignedTxs.push(...compoundResult.unsigned_txs);
+        } else if (compoundResult.success && compoundResult.txSignature) {
+            txSignatures.push(compoundResult.txSignature);
+        }
     }
 
-    // Compound any pending yield
-    await yieldStrategy.compound(walletAddress);
-
     const finalValue = await yieldStrategy.getValue(walletAddress);
     const positions = await yieldStrategy.getPositions(walletAddress);
 
@@ -168,11 +177,14 @@ export async function getYieldAnalytics(walletAddress: string): Promise<{
     earnedTotal: number;
     projectedMonthly: number;
 }> {
-    const apy = await yieldStrategy.getCurrentAPY();
     const currentValue = await yieldStrategy.getValue(walletAddress);
     const earnedTotal = await yieldStrategy.getEarnedYield(walletAddress);
 
-    // Calculate projections
+    // Value-weighted APY of the wallet's reserves; the best reserve's APY before any deposit
+    const position = await kamino.getPosition(walletAddress);
+    const apy = position && position.currentValue > 0 ? position.apy : await yieldStrategy.getCurrentAPY();
+
+    // Projections from the current APY; earnedTotal is realized, read from chain
     const dailyRate = apy / 365;
     const earned24h = currentValue * (dailyRate / 100);
     const projectedMonthly = currentValue * (dailyRate / 100) * 30;
@@ -0,0 +1,318 @@
+/**
+ * Transaction Bundler
+ * Packs the unsigned transactions of one operation (Jupiter swaps, Kamino actions,
+ * position memos) into as few v0 transactions as fit, using the union of their
+ * address lookup tables, so the wallet signs them all in one signAllTransactions
+ * prompt. Steps keep their order and their instructions stay contiguous; bundles
+ * depend on the one before them and come with a compensation plan for the steps
+ * that already landed when a later bundle fails.
+ * Non-logging policy: no wallets or transaction contents in logs.
+ */
+
+import {
+    AddressLookupTableAccount,
+    ComputeBudgetInstruction,
+    ComputeBudgetProgram,
+    MessageV0,
+    PACKET_DATA_SIZE,
+    PublicKey,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedMessage,
+    VersionedTransaction
+} from "@solana/web3.js";
+import { MEMO_PROGRAM_ID } from "@solana/spl-memo";
+import { connection } from "../rpc.js";
+import { logger } from "../logger.js";
+import {
+    BundleInput,
+    BundlePlan,
+    BundleStep,
+    BundleStepKind,
+    CompensationAction,
+    CompensationStep,
+    TransactionBundle
+} from "./types.js";
+
+const log = (msg: string) => logger.info(msg, "TxBundler");
+
+const JUPITER_PROGRAM_ID = "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4";
+const KAMINO_LEND_PROGRAM_ID = "KLend2g3cP87fffoy8q1mQqGKjrxjC8boSyAYavgmjD";
+
+/** Compute units a transaction may request */
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+/** What the runtime grants each instruction when a transaction sets no limit */
+const DEFAULT_UNITS_PER_INSTRUCTION = 200_000;
+
+/** Accounts a transaction may lock */
+const MAX_ACCOUNT_LOCKS = 64;
+
+interface DecodedStep {
+    step: BundleStep;
+    original: string;
+    instructions: TransactionInstruction[] | null;  // null: must be sent as built
+    lookupTables: AddressLookupTableAccount[];
+    computeUnits: number;
+    microLamports: number;
+}
+
+function classify(message: VersionedMessage): BundleStepKind {
+    const programs = new Set(
+        message.compiledInstructions.map(ix => message.staticAccountKeys[ix.programIdIndex].toBase58())
+    );
+    if (programs.has(JUPITER_PROGRAM_ID)) return "swap";
+    if (programs.has(KAMINO_LEND_PROGRAM_ID)) return "kamino";
+
+    programs.delete(ComputeBudgetProgram.programId.toBase58());
+    if (programs.size === 1 && programs.has(MEMO_PROGRAM_ID.toBase58())) return "memo";
+    return "other";
+}
+
+function kindOf(transaction: string): BundleStepKind {
+    try {
+        return classify(VersionedTransaction.deserialize(Buffer.from(transaction, "base64")).message);
+    } catch {
+        return "other";
+    }
+}
+
+async function resolveLookupTables(
+    message: VersionedMessage,
+    cache: Map<string, AddressLookupTableAccount | null>
+): Promise<AddressLookupTableAccount[] | null> {
+    const tables: AddressLookupTableAccount[] = [];
+    for (const lookup of message.addressTableLookups) {
+        const key = lookup.accountKey.toBase58();
+        if (!cache.has(key)) {
+            const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+            cache.set(key, value);
+        }
+        const table = cache.get(key);
+        if (!table) return null;
+        tables.push(table);
+    }
+    return tables;
+}
+
+/**
+ * Decompile one transaction into mergeable instructions. Transactions that need
+ * another signer, are paid by someone else, or use compute-budget settings other
+ * than a unit limit and price are kept as built.
+ */
+async function decodeStep(
+    source: number,
+    input: BundleInput,
+    wallet: PublicKey,
+    tableCache: Map<string, AddressLookupTableAccount | null>
+): Promise<DecodedStep> {
+    const { message } = VersionedTransaction.deserialize(Buffer.from(input.transaction, "base64"));
+    const decoded: DecodedStep = {
+        step: { source, vault: input.vault, kind: classify(message) },
+        original: input.transaction,
+        instructions: null,
+        lookupTables: [],
+        computeUnits: 0,
+        microLamports: 0
+    };
+
+    if (message.header.numRequiredSignatures !== 1 || !message.staticAccountKeys[0].equals(wallet)) {
+        return decoded;
+    }
+
+    const lookupTables = await resolveLookupTables(message, tableCache);
+    if (!lookupTables) return decoded;
+
+    const { instructions } = TransactionMessage.decompile(message, { addressLookupTableAccounts: lookupTables });
+    const kept: TransactionInstruction[] = [];
+    let units: number | null = null;
+    let microLamports = 0;
+
+    for (const ix of instructions) {
+        if (!ix.programId.equals(ComputeBudgetProgram.programId)) {
+            kept.push(ix);
+            continue;
+        }
+        const type = ComputeBudgetInstruction.decodeInstructionType(ix);
+        if (type === "SetComputeUnitLimit") {
+            units = ComputeBudgetInstruction.decodeSetComputeUnitLimit(ix).units;
+        } else if (type === "SetComputeUnitPrice") {
+            microLamports = Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(ix).microLamports);
+        } else {
+            return decoded;
+        }
+    }
+
+    return {
+        ...decoded,
+        instructions: kept,
+        lookupTables,
+        computeUnits: units ?? Math.min(MAX_COMPUTE_UNITS, DEFAULT_UNITS_PER_INSTRUCTION * kept.length),
+        microLamports
+    };
+}
+
+const accountLocks = (message: MessageV0): number =>
+    message.staticAccountKeys.length +
+    message.addressTableLookups.reduce((sum, l) => sum + l.writableIndexes.length + l.readonlyIndexes.length, 0);
+
+/**
+ * One v0 transaction holding every step of the group, or null when it would exceed
+ * the packet size, the account lock limit or the compute ceiling
+ */
+function compileGroup(wallet: PublicKey, blockhash: string, group: DecodedStep[]): VersionedTransaction | null {
+    const units = group.reduce((sum, s) => sum + s.computeUnits, 0);
+    if (units > MAX_COMPUTE_UNITS) return null;
+    const microLamports = Math.max(0, ...group.map(s => s.microLamports));
+
+    const tables: Map<string, AddressLookupTableAccount> = new Map();
+    for (const table of group.flatMap(s => s.lookupTables)) tables.set(table.key.toBase58(), table);
+
+    const instructions = [
+        ComputeBudgetProgram.setComputeUnitLimit({ units }),
+        ...(microLamports > 0 ? [ComputeBudgetProgram.setComputeUnitPrice({ microLamports })] : []),
+        ...group.flatMap(s => s.instructions!)
+    ];
+
+    try {
+        const message = new TransactionMessage({ payerKey: wallet, recentBlockhash: blockhash, instructions })
+            .compileToV0Message([...tables.values()]);
+        if (accountLocks(message) > MAX_ACCOUNT_LOCKS) return null;
+
+        const transaction = new VersionedTransaction(message);
+        if (transaction.serialize().length > PACKET_DATA_SIZE) return null;
+        return transaction;
+    } catch {
+        return null;    // Too many keys or bytes to serialize at all
+    }
+}
+
+function unwindAction(sequence: number, step: BundleStep): CompensationAction | null {
+    switch (step.kind) {
+        case "swap":
+            return {
+                sequence,
+                vault: step.vault,
+                kind: step.kind,
+                endpoint: "/api/vault-withdraw",
+                description: `Swap what this step bought for the ${step.vault} vault back to USD1`
+            };
+        case "kamino":
+            return {
+                sequence,
+                vault: step.vault,
+                kind: step.kind,
+                endpoint: "/api/vault-withdraw",
+                description: "Withdraw this step's Kamino deposit back to USD1"
+            };
+        case "memo":
+            // Its own swaps landed before it, so the memo is accurate as written
+            return null;
+        default:
+            return {
+                sequence,
+                vault: step.vault,
+                kind: step.kind,
+                endpoint: null,
+                description: "Review this step manually; it cannot be unwound automatically"
+            };
+    }
+}
+
+/**
+ * For each bundle after the first: what to unwind if it fails, given that every
+ * bundle before it has landed
+ */
+export function buildCompensationPlan(bundles: TransactionBundle[]): CompensationStep[] {
+    return bundles.slice(1)
+        .map(failed => ({
+            failedSequence: failed.sequence,
+            unwind: bundles.slice(0, failed.sequence)
+                .reverse()
+                .flatMap(landed => [...landed.steps].reverse().map(step => unwindAction(landed.sequence, step)))
+                .filter((action): action is CompensationAction => action !== null)
+        }))
+        .filter(step => step.unwind.length > 0);
+}
+
+function toBundles(groups: Array<{ steps: BundleStep[]; transaction: string; passthrough: boolean }>): TransactionBundle[] {
+    return groups.map((group, sequence) => ({
+        sequence,
+        dependsOn: sequence === 0 ? [] : [sequence - 1],
+        ...group
+    }));
+}
+
+/**
+ * Bundle an operation's unsigned transactions. When bundling itself fails (RPC errors
+ * resolving lookup tables), every transaction is returned as built, still in order.
+ */
+export async function bundleTransactions(walletAddress: string, inputs: BundleInput[]): Promise<BundlePlan> {
+    const passthrough = (): BundlePlan => {
+        const bundles = toBundles(inputs.map((input, source) => ({
+            steps: [{ source, vault: input.vault, kind: kindOf(input.transaction) }],
+            transaction: input.transaction,
+            passthrough: true
+        })));
+        return { bundles, compensation: buildCompensationPlan(bundles), sourceCount: inputs.length };
+    };
+
+    if (inputs.length === 0) {
+        return { bundles: [], compensation: [], sourceCount: 0 };
+    }
+
+    try {
+        const wallet = new PublicKey(walletAddress);
+        const tableCache: Map<string, AddressLookupTableAccount | null> = new Map();
+        const decoded: DecodedStep[] = [];
+        for (const [source, input] of inputs.entries()) {
+            decoded.push(await decodeStep(source, input, wallet, tableCache));
+        }
+
+        const { blockhash } = await connection.getLatestBlockhash("confirmed");
+        const groups: Array<{ steps: BundleStep[]; transaction: string; passthrough: boolean }> = [];
+        let current: DecodedStep[] = [];
+        let currentTx: VersionedTransaction | null = null;
+
+        const flush = () => {
+            if (currentTx) {
+                groups.push({
+                    steps: current.map(s => s.step),
+                    transaction: Buffer.from(currentTx.serialize()).toString("base64"),
+                    passthrough: false
+                });
+            }
+            current = [];
+            currentTx = null;
+        };
+
+        for (const step of decoded) {
+            if (step.instructions) {
+                const merged = compileGroup(wallet, blockhash, [...current, step]);
+                if (merged) {
+                    current.push(step);
+                    currentTx = merged;
+                    continue;
+                }
+                flush();
+                const alone = compileGroup(wallet, blockhash, [step]);
+                if (alone) {
+                    current = [step];
+                    currentTx = alone;
+                    continue;
+                }
+            } else {
+                flush();
+            }
+            groups.push({ steps: [step.step], transaction: step.original, passthrough: true });
+        }
+        flush();
+
+        const bundles = toBundles(groups);
+        log(`Bundled ${inputs.length} transactions into ${bundles.length}`);
+        return { bundles, compensation: buildCompensationPlan(bundles), sourceCount: inputs.length };
+    } catch {
+        logger.warn("Transaction bundling failed, sending transactions as built", "TxBundler");
+        return passthrough();
+    }
+}
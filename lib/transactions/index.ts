@@ -0,0 +1,23 @@
+/**
+ * Transactions Index
+ * Central export point for bundling and tracking user-signed operations. Operations are kept in the
+ * TrackedOperationStore selected by TX_TRACKER_STORE ("file" | "memory").
+ */
+
+export * from "./types.js";
+export {
+    InMemoryTrackedOperationStore,
+    JsonFileTrackedOperationStore,
+    getTrackedOperationStore,
+    setTrackedOperationStore
+} from "./store.js";
+export {
+    trackOperation,
+    reportTransaction,
+    pollOperation,
+    pollOpenOperations,
+    deriveOperationStatus,
+    toOperationView
+} from "./tracker.js";
+export type { TransactionReport, ReportResult } from "./tracker.js";
+export { bundleTransactions, buildCompensationPlan } from "./bundler.js";
@@ -0,0 +1,107 @@
+/**
+ * Tracked Operation Store
+ * Holds user-signed operations between the server building their transactions and the
+ * poller seeing them confirm. File backend survives cold starts when the path is on
+ * shared storage.
+ * Non-logging policy: no wallets, signatures or position contents in logs.
+ */
+
+import { config } from "../config.js";
+import { JsonFileDocument } from "../jsonFileStore.js";
+import { FINAL_TX_STATUSES, TrackedOperation, TrackedOperationStore } from "./types.js";
+
+const STORE_VERSION = 1;
+
+interface StoreDocument {
+    version: number;
+    operations: Record<string, TrackedOperation>;
+}
+
+const clone = (operation: TrackedOperation): TrackedOperation => JSON.parse(JSON.stringify(operation));
+
+const isFinal = (operation: TrackedOperation): boolean => FINAL_TX_STATUSES.includes(operation.status);
+
+export class InMemoryTrackedOperationStore implements TrackedOperationStore {
+    private operations: Map<string, TrackedOperation> = new Map();
+
+    async save(operation: TrackedOperation): Promise<void> {
+        this.operations.set(operation.id, clone(operation));
+    }
+
+    async get(id: string): Promise<TrackedOperation | null> {
+        const found = this.operations.get(id);
+        return found ? clone(found) : null;
+    }
+
+    async listOpen(): Promise<TrackedOperation[]> {
+        return [...this.operations.values()].filter(o => !isFinal(o)).map(clone);
+    }
+
+    async prune(before: number): Promise<void> {
+        for (const [id, operation] of this.operations) {
+            if (isFinal(operation) && operation.updatedAt < before) this.operations.delete(id);
+        }
+    }
+}
+
+export class JsonFileTrackedOperationStore implements TrackedOperationStore {
+    private readonly file: JsonFileDocument<StoreDocument>;
+
+    constructor(filePath: string) {
+        this.file = new JsonFileDocument(filePath, {
+            empty: () => ({ version: STORE_VERSION, operations: {} }),
+            parse: (parsed: Partial<StoreDocument>) => ({ version: STORE_VERSION, operations: parsed.operations || {} }),
+            name: "Transaction store",
+            context: "TxTracker"
+        });
+    }
+
+    async save(operation: TrackedOperation): Promise<void> {
+        await this.file.update(doc => {
+            doc.operations[operation.id] = clone(operation);
+        });
+    }
+
+    async get(id: string): Promise<TrackedOperation | null> {
+        const doc = await this.file.read();
+        const found = doc.operations[id];
+        return found ? clone(found) : null;
+    }
+
+    async listOpen(): Promise<TrackedOperation[]> {
+        const doc = await this.file.read();
+        return Object.values(doc.operations).filter(o => !isFinal(o)).map(clone);
+    }
+
+    async prune(before: number): Promise<void> {
+        const expired = (operation: TrackedOperation) => isFinal(operation) && operation.updatedAt < before;
+        if (!Object.values((await this.file.read()).operations).some(expired)) return;
+
+        await this.file.update(doc => {
+            for (const [id, operation] of Object.entries(doc.operations)) {
+                if (expired(operation)) delete doc.operations[id];
+            }
+        });
+    }
+}
+
+let store: TrackedOperationStore | null = null;
+
+/**
+ * Get the configured tracked operation store (lazy singleton)
+ */
+export function getTrackedOperationStore(): TrackedOperationStore {
+    if (!store) {
+        store = config.txTrackerStore === "memory"
+            ? new InMemoryTrackedOperationStore()
+            : new JsonFileTrackedOperationStore(config.txTrackerStorePath);
+    }
+    return store;
+}
+
+/**
+ * Override the tracked operation store (tests, custom backends)
+ */
+export function setTrackedOperationStore(next: TrackedOperationStore): void {
+    store = next;
+}
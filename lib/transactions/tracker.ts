@@ -0,0 +1,454 @@
+/**
+ * Transaction Tracker
+ * Follows the transactions a server action hands to the user's wallet:
+ * built → signed (client reports the signature) → submitted → confirmed | failed | expired.
+ * Position changes made while building are rolled back and staged on the operation.
+ * Each is written once the transactions carrying its vault's steps (swaps and memos)
+ * have confirmed on-chain with the message they were built with, even if a later
+ * bundle fails. A position that moved in the meantime only gets the change's delta.
+ * Non-logging policy: no wallets, signatures or position contents in logs.
+ */
+
+import { createHash, randomUUID } from "crypto";
+import { SignatureStatus, VersionedMessage, VersionedTransaction } from "@solana/web3.js";
+import { config } from "../config.js";
+import { connection } from "../rpc.js";
+import { logger } from "../logger.js";
+import { getPositionRepository, mergePosition, PositionVault, StoredPosition } from "../positions/index.js";
+import { growthStrategy } from "../strategies/growth.js";
+import { degenStrategy } from "../strategies/degen.js";
+import { rwaStrategy } from "../strategies/rwa.js";
+import { kamino } from "../protocols/index.js";
+import {
+    PositionChange,
+    TransactionBundle,
+    TrackedOperation,
+    TrackedOperationKind,
+    TrackedOperationView,
+    TrackedTransaction,
+    TrackedTxStatus
+} from "./types.js";
+import { getTrackedOperationStore } from "./store.js";
+
+const log = (msg: string) => logger.info(msg, "TxTracker");
+
+const TRACKED_VAULTS: PositionVault[] = ["growth", "degen", "yield", "rwa"];
+
+/** getSignatureStatuses accepts at most this many signatures per call */
+const STATUS_BATCH_SIZE = 256;
+
+/** Finished operations are kept this long for status lookups */
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const MAX_ERROR_LENGTH = 200;
+
+// Progress order; failed / expired are handled before ranking
+const STATUS_RANK: Record<TrackedTxStatus, number> = {
+    built: 0,
+    signed: 1,
+    submitted: 2,
+    confirmed: 3,
+    failed: 3,
+    expired: 3
+};
+
+/**
+ * Overall status: failed or expired as soon as one transaction is, confirmed once all
+ * are, otherwise the least advanced transaction
+ */
+export function deriveOperationStatus(transactions: TrackedTransaction[]): TrackedTxStatus {
+    if (transactions.some(t => t.status === "failed")) return "failed";
+    if (transactions.some(t => t.status === "expired")) return "expired";
+    return transactions.reduce<TrackedTxStatus>(
+        (least, t) => STATUS_RANK[t.status] < STATUS_RANK[least] ? t.status : least,
+        "confirmed"
+    );
+}
+
+export function toOperationView(operation: TrackedOperation): TrackedOperationView {
+    return {
+        id: operation.id,
+        kind: operation.kind,
+        status: operation.status,
+        transactions: operation.transactions.map(t => ({ ...t })),
+        positionChanges: operation.positionChanges.length,
+        positionChangesApplied: operation.positionChanges.filter(c => c.applied).length,
+        positionsApplied: operation.positionsApplied,
+        createdAt: operation.createdAt,
+        updatedAt: operation.updatedAt,
+        expiresAt: operation.expiresAt
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Building
+// ---------------------------------------------------------------------------
+
+/**
+ * SHA-256 of a transaction message, the part the wallet's signature covers
+ */
+function messageHash(message: VersionedMessage): string {
+    return createHash("sha256").update(message.serialize()).digest("hex");
+}
+
+type PositionSnapshot = Map<string, StoredPosition>;
+
+async function snapshotPositions(wallet: string): Promise<PositionSnapshot> {
+    const repo = getPositionRepository();
+    const snapshot: PositionSnapshot = new Map();
+    for (const vault of TRACKED_VAULTS) {
+        for (const position of await repo.list(wallet, vault)) {
+            snapshot.set(`${vault}:${position.token}`, position);
+        }
+    }
+    return snapshot;
+}
+
+type PositionDiff = Pick<PositionChange, "vault" | "token" | "before" | "after">;
+
+function diffPositions(before: PositionSnapshot, after: PositionSnapshot): PositionDiff[] {
+    const changes: PositionDiff[] = [];
+    for (const key of new Set([...before.keys(), ...after.keys()])) {
+        const prev = before.get(key) || null;
+        const next = after.get(key) || null;
+        if (JSON.stringify(prev) === JSON.stringify(next)) continue;
+
+        const source = (next || prev)!;
+        changes.push({ vault: source.vault, token: source.token, before: prev, after: next });
+    }
+    return changes;
+}
+
+async function writePositions(wallet: string, changes: Array<{ vault: PositionVault; token: string; position: StoredPosition | null }>): Promise<void> {
+    const repo = getPositionRepository();
+    for (const change of changes) {
+        if (change.position) {
+            await repo.upsert(change.position);
+        } else {
+            await repo.remove(wallet, change.vault, change.token);
+        }
+    }
+}
+
+/**
+ * The transactions a vault's position changes wait for: the bundles carrying its
+ * steps, or every transaction when none is tagged with the vault
+ */
+function sequencesFor(vault: PositionVault, count: number, bundles: TransactionBundle[] | undefined): number[] {
+    const carrying = (bundles || [])
+        .filter(bundle => bundle.steps.some(step => step.vault === vault))
+        .map(bundle => bundle.sequence);
+    return carrying.length > 0 ? carrying : Array.from({ length: count }, (_, index) => index);
+}
+
+/**
+ * Run a server action and track the unsigned transactions it returns. Vaults are
+ * hydrated first so the before-snapshot matches what the action sees. When the action
+ * returns no unsigned transactions its position changes stand and nothing is tracked.
+ * With `bundlesOf`, each position change waits only for the bundles of its own vault.
+ */
+export async function trackOperation<T>(
+    wallet: string,
+    kind: TrackedOperationKind,
+    run: () => Promise<T>,
+    unsignedTxsOf: (result: T) => string[] | undefined,
+    bundlesOf?: (result: T) => TransactionBundle[]
+): Promise<{ result: T; tracked: TrackedOperation | null }> {
+    await Promise.all([
+        growthStrategy.loadPositionsFromChain(wallet),
+        degenStrategy.loadPositionsFromChain(wallet),
+        rwaStrategy.loadPositionsFromChain(wallet),
+        kamino.loadPositionsFromChain(wallet)
+    ]);
+
+    const before = await snapshotPositions(wallet);
+    const result = await run();
+
+    const unsignedTxs = unsignedTxsOf(result) || [];
+    if (unsignedTxs.length === 0) {
+        return { result, tracked: null };
+    }
+
+    const changes = diffPositions(before, await snapshotPositions(wallet));
+    await writePositions(wallet, changes.map(c => ({ vault: c.vault, token: c.token, position: c.before })));
+
+    const now = Date.now();
+    const operation: TrackedOperation = {
+        id: randomUUID(),
+        wallet,
+        kind,
+        status: "built",
+        transactions: unsignedTxs.map((tx, index) => ({
+            index,
+            status: "built",
+            messageHash: messageHash(VersionedTransaction.deserialize(Buffer.from(tx, "base64")).message),
+            updatedAt: now
+        })),
+        positionChanges: changes.map(({ vault, token, before, after }) => ({
+            vault,
+            token,
+            before,
+            after,
+            sequences: sequencesFor(vault, unsignedTxs.length, bundlesOf?.(result)),
+            applied: false
+        })),
+        positionsApplied: false,
+        createdAt: now,
+        updatedAt: now,
+        expiresAt: now + config.txExpiryMs
+    };
+
+    await getTrackedOperationStore().save(operation);
+    log(`Tracking ${kind} operation`);
+    return { result, tracked: operation };
+}
+
+// ---------------------------------------------------------------------------
+// Client reports
+// ---------------------------------------------------------------------------
+
+export type TransactionReport = { signature: string } | { error: string };
+
+export type ReportResult =
+    | { operation: TrackedOperation }
+    | { error: string; status: 404 | 409 };
+
+/**
+ * Record the signature the wallet produced for one transaction, or the error that
+ * stopped it from being signed or sent. Only the operation's own wallet can report;
+ * re-reporting the same signature is a no-op.
+ */
+export async function reportTransaction(
+    wallet: string,
+    id: string,
+    index: number,
+    report: TransactionReport
+): Promise<ReportResult> {
+    const store = getTrackedOperationStore();
+    const operation = await store.get(id);
+    const tx = operation?.transactions.find(t => t.index === index);
+    if (!operation || !tx || operation.wallet !== wallet) {
+        return { error: "Transaction not found", status: 404 };
+    }
+
+    if ("signature" in report) {
+        if (tx.signature === report.signature) return { operation };
+        if (tx.status !== "built") {
+            return { error: `Transaction already ${tx.status}`, status: 409 };
+        }
+        tx.signature = report.signature;
+        tx.status = "signed";
+    } else {
+        if (tx.status !== "built") {
+            return { error: `Transaction already ${tx.status}`, status: 409 };
+        }
+        tx.error = report.error.slice(0, MAX_ERROR_LENGTH);
+        tx.status = "failed";
+    }
+
+    tx.updatedAt = Date.now();
+    operation.status = deriveOperationStatus(operation.transactions);
+    operation.updatedAt = tx.updatedAt;
+    await store.save(operation);
+    return { operation };
+}
+
+// ---------------------------------------------------------------------------
+// Polling
+// ---------------------------------------------------------------------------
+
+const unitsIn = (position: StoredPosition | null) => position ? BigInt(position.units) : 0n;
+
+/**
+ * The position to write for a confirmed change. A position still as the operation found
+ * it takes the staged state; one that moved since (another operation, an exit order)
+ * only gets this change's own effect: the units it added, merged at their entry price,
+ * or the units it removed, and its exit orders when nothing else changed them.
+ */
+function rebaseChange(current: StoredPosition | null, change: PositionChange): StoredPosition | null {
+    const before = change.before ?? null;
+    const after = change.after;
+    if (JSON.stringify(current) === JSON.stringify(before)) return after;
+
+    const delta = unitsIn(after) - unitsIn(before);
+    let rebased: StoredPosition;
+
+    if (delta > 0n && after) {
+        // The staged entry price averages the bought lot into the old one; take the lot back out
+        const scale = 10 ** after.decimals;
+        const afterValue = after.entryPrice * Number(unitsIn(after)) / scale;
+        const beforeValue = before ? before.entryPrice * Number(unitsIn(before)) / scale : 0;
+        const lot: StoredPosition = {
+            ...after,
+            units: delta.toString(),
+            entryPrice: before ? (afterValue - beforeValue) / (Number(delta) / scale) : after.entryPrice
+        };
+        if (!current) return lot;
+        [rebased] = mergePosition([{ ...current }], lot);
+    } else {
+        if (!current) return null;
+        const remaining = unitsIn(current) + delta;
+        if (remaining <= 0n) return null;
+        rebased = { ...current, units: remaining.toString() };
+    }
+
+    if (after?.lending) {
+        const moved = after.lending.currentValue - (before?.lending?.currentValue ?? 0);
+        rebased.lending = {
+            ...after.lending,
+            currentValue: Math.max(0, (current?.lending?.currentValue ?? 0) + moved)
+        };
+    }
+    if (after && JSON.stringify(current?.exitOrders) === JSON.stringify(before?.exitOrders)) {
+        rebased.exitOrders = after.exitOrders;
+    }
+    return rebased;
+}
+
+async function applyPositionChanges(wallet: string, changes: PositionChange[]): Promise<void> {
+    const repo = getPositionRepository();
+    const writes = [];
+    for (const change of changes) {
+        const current = await repo.get(wallet, change.vault, change.token);
+        writes.push({ vault: change.vault, token: change.token, position: rebaseChange(current, change) });
+    }
+    await writePositions(wallet, writes);
+}
+
+async function fetchStatuses(signatures: string[]): Promise<Map<string, SignatureStatus | null>> {
+    const statuses: Map<string, SignatureStatus | null> = new Map();
+    for (let i = 0; i < signatures.length; i += STATUS_BATCH_SIZE) {
+        const batch = signatures.slice(i, i + STATUS_BATCH_SIZE);
+        const { value } = await connection.getSignatureStatuses(batch, { searchTransactionHistory: true });
+        batch.forEach((signature, j) => statuses.set(signature, value[j] ?? null));
+    }
+    return statuses;
+}
+
+/**
+ * Whether the landed transaction carries exactly the message that was built, so a
+ * signature from some other transaction cannot confirm the operation
+ */
+async function landedAsBuilt(signature: string, expectedHash: string): Promise<boolean> {
+    const landed = await connection.getTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0
+    });
+    return !!landed && messageHash(landed.transaction.message) === expectedHash;
+}
+
+async function advance(
+    operation: TrackedOperation,
+    statuses: Map<string, SignatureStatus | null>,
+    now: number
+): Promise<boolean> {
+    let changed = false;
+    const set = (tx: TrackedTransaction, status: TrackedTxStatus, error?: string) => {
+        if (tx.status === status) return;
+        tx.status = status;
+        if (error) tx.error = error;
+        tx.updatedAt = now;
+        changed = true;
+    };
+
+    for (const tx of operation.transactions) {
+        if (tx.status === "built") {
+            if (now > operation.expiresAt) set(tx, "expired");
+            continue;
+        }
+        if (tx.status !== "signed" && tx.status !== "submitted") continue;
+
+        const status = statuses.get(tx.signature!);
+        if (!status) {
+            if (now > operation.expiresAt) set(tx, "expired");
+        } else if (status.err) {
+            set(tx, "failed", "Transaction failed on-chain");
+        } else if (status.confirmationStatus === "confirmed" || status.confirmationStatus === "finalized") {
+            if (await landedAsBuilt(tx.signature!, tx.messageHash)) {
+                set(tx, "confirmed");
+            } else {
+                set(tx, "failed", "Transaction does not match the one built");
+            }
+        } else {
+            set(tx, "submitted");
+        }
+    }
+
+    const status = deriveOperationStatus(operation.transactions);
+    if (status !== operation.status) {
+        operation.status = status;
+        changed = true;
+    }
+
+    // Changes whose transactions all landed are written, whatever happened to the rest
+    const landed = new Set(operation.transactions.filter(t => t.status === "confirmed").map(t => t.index));
+    const ready = operation.positionChanges.filter(c => !c.applied && c.sequences.every(s => landed.has(s)));
+    if (ready.length > 0) {
+        await applyPositionChanges(operation.wallet, ready);
+        ready.forEach(c => { c.applied = true; });
+        changed = true;
+    }
+
+    const allApplied = operation.positionChanges.every(c => c.applied);
+    if (allApplied !== operation.positionsApplied) {
+        operation.positionsApplied = allApplied;
+        changed = true;
+    }
+
+    if (ready.length > 0 && operation.positionsApplied) {
+        log(`${operation.kind} operation confirmed, positions updated`);
+    } else if (changed && (operation.status === "failed" || operation.status === "expired")) {
+        log(`${operation.kind} operation ${operation.status}, positions of unconfirmed transactions left unchanged`);
+    }
+
+    if (changed) operation.updatedAt = now;
+    return changed;
+}
+
+/**
+ * Check the cluster for every signature the operations are waiting on and move them
+ * forward. RPC failures leave the operations as they were for the next poll.
+ */
+async function refresh(operations: TrackedOperation[]): Promise<TrackedOperation[]> {
+    const store = getTrackedOperationStore();
+    const pending = operations.flatMap(o => o.transactions)
+        .filter(t => (t.status === "signed" || t.status === "submitted") && t.signature)
+        .map(t => t.signature!);
+
+    let statuses: Map<string, SignatureStatus | null>;
+    try {
+        statuses = await fetchStatuses([...new Set(pending)]);
+    } catch {
+        logger.warn("Signature status lookup failed", "TxTracker");
+        return operations;
+    }
+
+    const now = Date.now();
+    for (const operation of operations) {
+        try {
+            if (await advance(operation, statuses, now)) await store.save(operation);
+        } catch {
+            logger.warn("Operation refresh failed", "TxTracker");
+        }
+    }
+    return operations;
+}
+
+/**
+ * Refresh and return one operation, or null when it does not exist
+ */
+export async function pollOperation(id: string): Promise<TrackedOperation | null> {
+    const operation = await getTrackedOperationStore().get(id);
+    if (!operation) return null;
+    const [refreshed] = await refresh([operation]);
+    return refreshed;
+}
+
+/**
+ * Refresh every operation that is not final yet and drop old finished ones
+ */
+export async function pollOpenOperations(): Promise<TrackedOperation[]> {
+    const store = getTrackedOperationStore();
+    await store.prune(Date.now() - RETENTION_MS);
+    return refresh(await store.listOpen());
+}
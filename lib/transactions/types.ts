@@ -0,0 +1,127 @@
+/**
+ * Transaction Tracker Types
+ * One tracked operation per server action that hands unsigned transactions to the
+ * user's wallet. Each position update is held back until the transactions carrying
+ * its vault's steps confirm.
+ */
+
+import type { PositionVault, StoredPosition } from "../positions/types.js";
+
+export type TrackedTxStatus =
+    | "built"       // Returned to the client, no signature reported yet
+    | "signed"      // Signature reported, not yet seen by the cluster
+    | "submitted"   // Seen by the cluster (processed)
+    | "confirmed"
+    | "failed"
+    | "expired";    // Never landed before the blockhash window closed
+
+export type TrackedOperationKind =
+    | "rebalance"
+    | "invest"
+    | "deposit"
+    | "withdraw"
+    | "vault-withdraw"
+    | "degen-exit";
+
+export const FINAL_TX_STATUSES: TrackedTxStatus[] = ["confirmed", "failed", "expired"];
+
+export interface TrackedTransaction {
+    index: number;              // Position in the unsigned transaction list handed to the client
+    status: TrackedTxStatus;
+    messageHash: string;        // SHA-256 of the built message; the landed one must match
+    signature?: string;
+    error?: string;
+    updatedAt: number;
+}
+
+// Position state to write once its transactions confirm (null = position closed)
+export interface PositionChange {
+    vault: PositionVault;
+    token: string;
+    before: StoredPosition | null;  // State the operation was built on
+    after: StoredPosition | null;
+    sequences: number[];        // Transactions (bundle sequences) that must confirm first
+    applied: boolean;
+}
+
+export interface TrackedOperation {
+    id: string;
+    wallet: string;
+    kind: TrackedOperationKind;
+    status: TrackedTxStatus;    // Least advanced transaction; failed / expired as soon as one is
+    transactions: TrackedTransaction[];
+    positionChanges: PositionChange[];
+    positionsApplied: boolean;  // Every position change has been written
+    createdAt: number;
+    updatedAt: number;
+    expiresAt: number;          // Transactions without a landed signature by then expire
+}
+
+// What clients see: no position contents
+export interface TrackedOperationView {
+    id: string;
+    kind: TrackedOperationKind;
+    status: TrackedTxStatus;
+    transactions: TrackedTransaction[];
+    positionChanges: number;
+    positionChangesApplied: number;
+    positionsApplied: boolean;
+    createdAt: number;
+    updatedAt: number;
+    expiresAt: number;
+}
+
+export interface TrackedOperationStore {
+    save(operation: TrackedOperation): Promise<void>;
+    get(id: string): Promise<TrackedOperation | null>;
+    /** Operations that are not final yet */
+    listOpen(): Promise<TrackedOperation[]>;
+    /** Drop final operations last updated before `before` */
+    prune(before: number): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Bundling
+// ---------------------------------------------------------------------------
+
+export type BundleStepKind = "swap" | "kamino" | "memo" | "other";
+
+// One transaction a strategy built, before bundling
+export interface BundleInput {
+    vault: string;
+    transaction: string;        // base64, unsigned
+}
+
+export interface BundleStep {
+    source: number;             // Index in the unbundled transaction list
+    vault: string;
+    kind: BundleStepKind;
+}
+
+export interface TransactionBundle {
+    sequence: number;           // Send order; also the index reported to /api/transactions
+    dependsOn: number[];        // Sequences that must confirm before this one is sent
+    transaction: string;        // base64, unsigned
+    steps: BundleStep[];
+    passthrough: boolean;       // Sent exactly as the strategy built it (could not be merged)
+}
+
+export interface CompensationAction {
+    sequence: number;           // Landed bundle to unwind
+    vault: string;
+    kind: BundleStepKind;
+    endpoint: string | null;    // Route that unwinds it, null when it needs a manual look
+    description: string;
+}
+
+// If `failedSequence` fails or is rejected, unwind these landed steps, newest first
+export interface CompensationStep {
+    failedSequence: number;
+    unwind: CompensationAction[];
+}
+
+export interface BundlePlan {
+    bundles: TransactionBundle[];
+    compensation: CompensationStep[];
+    sourceCount: number;        // Transactions before bundling
+}
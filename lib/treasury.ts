@@ -3,6 +3,8 @@ import { getUSD1Balance, getPublicUSD1Balance } from "./usd1.js";
 import { Treasury, RiskProfile } from "../types.js";
 import { logger } from "./logger.js";
 import { getRuntimeMode } from "./runtimeMode.js";
+import { resolveRiskProfile } from "./ai/profiles.js";
+import { getBaselineAllocation } from "./ai/strategy.js";
 
 export async function loadTreasury(wallet: string, risk: RiskProfile): Promise<Treasury> {
     // Fetch high-fidelity vault stats (Cash + Positions)
@@ -33,21 +35,16 @@ export async function loadTreasury(wallet: string, risk: RiskProfile): Promise<T
         logger.info("Demo mode: auto-simulating portfolio", "TREASURY");
         totalUSD1 = publicBalance;
 
-        // Simulate vault allocations based on risk profile.
-        // RiskProfile is "low" | "medium" | "high" across the entire codebase.
-        const allocations =
-            risk === "high"
-                ? { reserve: 0.10, yield: 0.30, growth: 0.40, degen: 0.20, rwa: 0.0 }
-                : risk === "low"
-                    ? { reserve: 0.40, yield: 0.40, growth: 0.15, degen: 0.05, rwa: 0.0 }
-                    : { reserve: 0.20, yield: 0.40, growth: 0.30, degen: 0.10, rwa: 0.0 }; // medium
+        // Simulate vault allocations from the wallet's risk profile (neutral-market baseline)
+        const profile = await resolveRiskProfile(wallet, risk);
+        const allocations = getBaselineAllocation(profile);
 
         vaultBalances = {
-            reserve: publicBalance * allocations.reserve,
-            yield: publicBalance * allocations.yield,
-            growth: publicBalance * allocations.growth,
-            degen: publicBalance * allocations.degen,
-            rwa: publicBalance * allocations.rwa,
+            reserve: publicBalance * (allocations.reserve / 100),
+            yield: publicBalance * (allocations.yield / 100),
+            growth: publicBalance * (allocations.growth / 100),
+            degen: publicBalance * (allocations.degen / 100),
+            rwa: publicBalance * (allocations.rwa / 100),
         };
 
     }
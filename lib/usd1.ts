@@ -7,13 +7,12 @@ import {
     shadowwire,
     getPrivateBalance,
     privateTransfer,
-    USD1Utils,
-    TokenUtils
+    USD1Utils
 } from "./shadowwire.js";
 import { logger } from "./logger.js";
+import { TokenAmount, USD1_DECIMALS, usd1 } from "./money.js";
 import { getRuntimeMode } from "./runtimeMode.js";
 
-const DECIMALS = 6; // USD1 has 6 decimals
 const DEFAULT_REAL_INTERNAL_MIN = 5; // ShadowWire anti-spam: 5 USDC min per internal transfer
 
 /**
@@ -73,7 +72,7 @@ export async function moveUSD1(
             minimum = 0.01;
         }
 
-        if (amount < minimum) {
+        if (usd1(amount).compare(usd1(minimum)) < 0) {
             return {
                 success: false,
                 error: `Amount ${amount.toFixed(4)} is below minimum ${minimum} USD1`
@@ -122,7 +121,7 @@ export function getUSD1Fees() {
     return {
         feePercentage: USD1Utils.getFee(),
         minimumAmount: USD1Utils.getMinimum(),
-        decimals: DECIMALS
+        decimals: USD1_DECIMALS
     };
 }
 
@@ -130,12 +129,12 @@ export function getUSD1Fees() {
  * Convert display amount to smallest unit
  */
 export function toSmallestUnit(amount: number): number {
-    return TokenUtils.toSmallestUnit(amount, "USD1");
+    return usd1(amount).toUnitsNumber();
 }
 
 /**
  * Convert smallest unit to display amount
  */
 export function fromSmallestUnit(amount: number): number {
-    return TokenUtils.fromSmallestUnit(amount, "USD1");
+    return TokenAmount.fromUnits(amount, USD1_DECIMALS).toNumber();
 }
@@ -0,0 +1,217 @@
+/**
+ * Transaction Verification
+ * Builds an audit report for a transaction signature from the chain itself: whether it
+ * landed and succeeded, whether it invoked a ShadowWire program and moved USD1, the
+ * ShadowFund position memos it carries, and which vault operation it corresponds to.
+ * Non-logging policy: no signatures, wallets or amounts in logs.
+ */
+
+import bs58 from "bs58";
+import type { ParsedTransactionWithMeta } from "@solana/web3.js";
+import { config } from "./config.js";
+import { connection } from "./rpc.js";
+import { logger } from "./logger.js";
+import { extractPositionMemos, extractPositionMemoTexts, PositionMemo } from "./positionMemo.js";
+import { decodePositionMemo, isPositionMemoText, V3_PREFIX } from "./positionMemoCodec.js";
+import { getMemoKey } from "./runtimeMode.js";
+import { getAllVaultAddresses } from "./vaults.js";
+import { TOKENS } from "./protocols/types.js";
+import { VaultId } from "../types.js";
+
+export type VerifiedKind = "shadowwire-transfer" | "position-memo" | "unrecognized";
+
+export interface VaultOperation {
+    vault: VaultId;
+    action: string;                 // Memo action, or "transfer" for a vault-address match
+    tokenSymbol?: string;
+    source: "memo" | "vault-address";
+}
+
+export interface VerificationReport {
+    verified: boolean;
+    txHash: string;
+    kind: VerifiedKind;
+    found: boolean;
+    succeeded: boolean;
+    slot: number | null;
+    blockTime: number | null;       // Unix seconds
+    feePayer: string | null;
+    checks: {
+        shadowwireProgram: boolean | null;  // null: no SHADOWWIRE_PROGRAM_IDS configured
+        usd1Mint: boolean;
+        positionMemo: boolean | null;       // Its position memos are readable and signed by the fee payer; null: none
+    };
+    programs: string[];             // Every program the transaction invoked
+    memos: PositionMemo[];
+    encryptedMemos: number;         // SF3 memo texts the request's memo key could not open
+    operation: VaultOperation | null;
+    reasons: string[];              // Why the transaction is not verified (empty when it is)
+}
+
+/**
+ * Whether a string is a base58-encoded 64-byte transaction signature
+ */
+export function isTransactionSignature(value: unknown): value is string {
+    if (typeof value !== "string" || value.length > 100) return false;
+    try {
+        return bs58.decode(value).length === 64;
+    } catch {
+        return false;
+    }
+}
+
+function invokedPrograms(tx: ParsedTransactionWithMeta): string[] {
+    const programs = new Set<string>();
+    for (const ix of tx.transaction.message.instructions) {
+        programs.add(ix.programId.toBase58());
+    }
+    for (const inner of tx.meta?.innerInstructions || []) {
+        for (const ix of inner.instructions) programs.add(ix.programId.toBase58());
+    }
+    return [...programs];
+}
+
+/**
+ * Position memo texts with the accounts that signed their memo instruction, read from
+ * the memo program's logs (its "Signed by" lines precede the memo)
+ */
+function signedMemoTexts(logMessages: string[]): Array<{ text: string; signers: string[] }> {
+    const memos: Array<{ text: string; signers: string[] }> = [];
+    let signers: string[] = [];
+
+    for (const logMsg of logMessages) {
+        const signed = logMsg.match(/^Program log: Signed by (\w+)$/);
+        const memo = logMsg.match(/^Program log: Memo \(len \d+\): "(.+)"$/);
+        if (signed) {
+            signers.push(signed[1]);
+        } else if (memo) {
+            if (isPositionMemoText(memo[1])) memos.push({ text: memo[1], signers });
+            signers = [];
+        } else if (logMsg.includes(" invoke [")) {
+            signers = [];
+        }
+    }
+
+    return memos;
+}
+
+function touchesMint(tx: ParsedTransactionWithMeta, mint: string): boolean {
+    const balances = [...(tx.meta?.preTokenBalances || []), ...(tx.meta?.postTokenBalances || [])];
+    return balances.some(b => b.mint === mint);
+}
+
+/**
+ * The vault operation a transaction belongs to: its position memo when it carries one,
+ * otherwise the fee payer's vault address among the accounts it touched
+ */
+async function matchVaultOperation(
+    tx: ParsedTransactionWithMeta,
+    memos: PositionMemo[],
+    feePayer: string | null
+): Promise<VaultOperation | null> {
+    if (memos.length > 0) {
+        const memo = memos[0];
+        return { vault: memo.vault, action: memo.action, tokenSymbol: memo.tokenSymbol, source: "memo" };
+    }
+    if (!feePayer) return null;
+
+    const accounts = new Set(tx.transaction.message.accountKeys.map(k => k.pubkey.toBase58()));
+    const vaults = await getAllVaultAddresses(feePayer);
+    for (const [vault, address] of Object.entries(vaults) as Array<[VaultId, string]>) {
+        if (accounts.has(address)) return { vault, action: "transfer", source: "vault-address" };
+    }
+    return null;
+}
+
+/**
+ * Verify a transaction against the chain. It is classified first: a ShadowWire transfer
+ * invokes a configured ShadowWire program (SHADOWWIRE_PROGRAM_IDS) and must move USD1;
+ * a position-memo transaction (memo-only or Kamino) carries a ShadowFund position memo.
+ * Either must have succeeded, and any position memo it carries must be readable by the
+ * request and signed by the fee payer. Anything else is unrecognized and not verified.
+ */
+export async function verifyTransaction(txHash: string): Promise<VerificationReport> {
+    const shadowwirePrograms = config.shadowwireProgramIds;
+    const report: VerificationReport = {
+        verified: false,
+        txHash,
+        kind: "unrecognized",
+        found: false,
+        succeeded: false,
+        slot: null,
+        blockTime: null,
+        feePayer: null,
+        checks: {
+            shadowwireProgram: shadowwirePrograms.length > 0 ? false : null,
+            usd1Mint: false,
+            positionMemo: false
+        },
+        programs: [],
+        memos: [],
+        encryptedMemos: 0,
+        operation: null,
+        reasons: []
+    };
+
+    const tx = await connection.getParsedTransaction(txHash, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0
+    });
+
+    if (!tx) {
+        report.reasons.push("Transaction not found (unknown, not yet confirmed, or outside RPC history)");
+        return report;
+    }
+
+    report.found = true;
+    report.slot = tx.slot;
+    report.blockTime = tx.blockTime ?? null;
+    report.feePayer = tx.transaction.message.accountKeys[0]?.pubkey.toBase58() || null;
+    report.succeeded = !!tx.meta && tx.meta.err === null;
+    report.programs = invokedPrograms(tx);
+    const logMessages = tx.meta?.logMessages || [];
+    const memoKey = getMemoKey();
+    report.memos = extractPositionMemos(logMessages, txHash, memoKey);
+    report.encryptedMemos = extractPositionMemoTexts(logMessages)
+        .filter(text => text.startsWith(V3_PREFIX) && !decodePositionMemo(text, txHash, memoKey))
+        .length;
+
+    if (shadowwirePrograms.length > 0) {
+        report.checks.shadowwireProgram = report.programs.some(p => shadowwirePrograms.includes(p));
+    }
+    report.checks.usd1Mint = touchesMint(tx, TOKENS.USD1);
+    const memoTexts = signedMemoTexts(logMessages);
+    if (memoTexts.length > 0) {
+        report.checks.positionMemo = memoTexts.every(memo =>
+            !!report.feePayer &&
+            memo.signers.includes(report.feePayer) &&
+            decodePositionMemo(memo.text, txHash, memoKey) !== null
+        );
+    }
+    report.operation = await matchVaultOperation(tx, report.memos, report.feePayer);
+
+    if (report.checks.shadowwireProgram) {
+        report.kind = "shadowwire-transfer";
+    } else if (report.checks.positionMemo !== null) {
+        report.kind = "position-memo";
+    }
+
+    if (!report.succeeded) {
+        report.reasons.push("Transaction failed on-chain");
+    }
+    if (report.kind === "unrecognized") {
+        report.reasons.push(report.checks.shadowwireProgram === null
+            ? "Transaction carries no ShadowFund position memo, and no ShadowWire program ids are configured (SHADOWWIRE_PROGRAM_IDS)"
+            : "Transaction neither invoked a ShadowWire program nor carries a ShadowFund position memo");
+    }
+    if (report.kind === "shadowwire-transfer" && !report.checks.usd1Mint) {
+        report.reasons.push("ShadowWire transaction did not move USD1");
+    }
+    if (report.checks.positionMemo === false) {
+        report.reasons.push("Transaction carries a position memo that is unreadable or not signed by its fee payer");
+    }
+
+    report.verified = report.reasons.length === 0;
+    logger.info("Transaction verified", "Verify", { kind: report.kind, verified: report.verified });
+    return report;
+}
@@ -3,6 +3,9 @@
  * Connects frontend to backend API endpoints
  */
 
+import { buildAuthMessage, hashRequestBody, RequestAuth } from "../utils/signedRequest";
+import { acceptsMemoKey, MEMO_KEY_HEADER } from "../utils/memoKey";
+
 // @ts-ignore - Vite provides this
 const API_BASE = (typeof import.meta !== 'undefined' && (import.meta as any).env?.VITE_API_URL) || "";
 
@@ -30,26 +33,67 @@ export interface Allocation {
     rwa: number;
 }
 
+export interface SourceQuality {
+    status: "fresh" | "stale" | "missing";
+    asOf?: number;
+}
+
 export interface MarketSignals {
-    solTrend: "bullish" | "bearish";
+    solTrend: "bullish" | "bearish" | "neutral";
     solRSI: number;
     memeHype: "high" | "medium" | "low";
     volatility: "high" | "medium" | "low";
+    atrPct: number;
+    macd: { line: number; signal: number; histogram: number } | null;
+    movingAverages: { fast: number; slow: number; crossover: "golden" | "death" | "none" } | null;
+    fundingRatePct: number | null;
+    leverage: "long-crowded" | "short-crowded" | "balanced" | "unknown";
+    tvlChange7dPct: number | null;
+    tvlTrend: "inflow" | "outflow" | "flat" | "unknown";
+    usd1Price: number | null;
+    usd1Peg: "pegged" | "drifting" | "depegged" | "unknown";
+    sources: Record<"solPrice" | "memeVolume" | "funding" | "tvl" | "usd1Peg", SourceQuality>;
 }
 
 export interface AIStrategy {
     signals: MarketSignals;
     mood: "risk-on" | "risk-off" | "neutral";
     allocation: Allocation;
-    // Gemini AI enhancements
+    // AI advisor enhancements
     aiPowered: boolean;
+    provider?: string;
     reasoning?: string;
     confidence?: number;
     keyInsights?: string[];
     marketAnalysis?: string;
+    rejection?: { provider: string; issues: string[] };
+    decisionId?: string;
     generatedAt?: string;
 }
 
+// Decision journal entry (GET /api/strategy/history)
+export interface StrategyDecision {
+    id: string;
+    createdAt: number;
+    profile: Record<string, any>;
+    signals: MarketSignals;
+    mood: "risk-on" | "risk-off" | "neutral";
+    aiPowered: boolean;
+    provider?: string;
+    rawAdvice?: unknown;
+    rejection?: { provider: string; issues: string[] };
+    allocation: Allocation;
+    reasoning?: string;
+    confidence?: number;
+    executions: Array<{
+        source: "rebalance" | "rebalance-execute";
+        planId?: string;
+        executedAt: number;
+        success: boolean;
+        transactions: number;
+    }>;
+}
+
 
 // Token position in Growth/Degen vaults
 export interface TokenPosition {
@@ -110,6 +154,7 @@ export interface RebalanceResult {
         aiPowered: boolean;
         reasoning?: string;
         confidence?: number;
+        decisionId?: string;
     };
     execution: {
         usd1Transfers: Array<{
@@ -119,6 +164,9 @@ export interface RebalanceResult {
             txHash: string;
         }>;
         unsignedTxs?: string[];
+        bundles?: TransactionBundle[];
+        compensation?: CompensationStep[];
+        tracking?: TrackedOperation | null;
         strategyResults: {
             reserve: { success: boolean; transactions: number };
             yield: { success: boolean; apy: number; earned: number; transactions: number };
@@ -137,14 +185,257 @@ export interface RebalanceResult {
     duration: string;
 }
 
+export interface PlannedSwap {
+    vault: Exclude<VaultId, "reserve">;
+    side: "buy" | "sell";
+    symbol: string;
+    inputMint: string;
+    outputMint: string;
+    inputAmount: number;
+    inputDecimals: number;
+    outputDecimals: number;
+    quote: {
+        inputAmount: number;
+        outputAmount: number;
+        priceImpact: number;
+        fee: number;
+        route: string;
+    } | null;
+}
+
+export interface RebalancePlan {
+    wallet: string;
+    risk: "low" | "medium" | "high";
+    runtimeMode?: "demo" | "real";
+    strategy: RebalanceResult["strategy"];
+    totalUSD1: number;
+    bridge: { required: boolean; amount: number };
+    adjustedAllocation: Allocation;
+    vaultDiffs: Array<{
+        vault: VaultId;
+        currentValue: number;
+        currentPercent: number;
+        targetValue: number;
+        targetPercent: number;
+        diff: number;
+    }>;
+    usd1Transfers: Array<{
+        vault: VaultId;
+        direction: "in" | "out";
+        from: string;
+        to: string;
+        amount: number;
+        estimatedFee: number;
+    }>;
+    usd1Skipped: Array<{ vault: string; reason: string }>;
+    vaultActions: Array<{
+        vault: Exclude<VaultId, "reserve">;
+        action: "buy" | "sell" | "deposit" | "withdraw" | "hold";
+        amount: number;
+        protocol: "jupiter" | "kamino" | "none";
+        swaps: PlannedSwap[];
+    }>;
+    fees: {
+        usd1Transfers: number;
+        swaps: number;
+        total: number;
+        maxPriceImpactPct: number;
+    };
+    createdAt: number;
+}
+
+export interface StoredRebalancePlan {
+    ok: boolean;
+    planId: string;
+    expiresAt: number;
+    plan: RebalancePlan;
+}
+
+export interface DriftReport {
+    ok: boolean;
+    tolerancePct: number;
+    balances: Array<{ vault: VaultId | "total"; planned: number; current: number; driftPct: number }>;
+    prices: Array<{
+        vault: Exclude<VaultId, "reserve">;
+        symbol: string;
+        plannedOutput: number;
+        currentOutput: number | null;
+        driftPct: number | null;
+    }>;
+    reasons: string[];
+}
+
+export interface ExecutePlanResult extends Omit<RebalanceResult, "fees"> {
+    planId: string;
+    drift: DriftReport;
+}
+
+export interface RiskProfileConfig {
+    name: string;
+    bands: Record<VaultId, { min: number; max: number }>;
+    maxSingleTokenPct: number;
+    maxDrawdownPct: number;
+    degenEnabled: boolean;
+}
+
+export interface RiskProfileResponse {
+    ok: boolean;
+    custom: boolean;
+    profile: RiskProfileConfig;
+    presets?: Record<"low" | "medium" | "high", RiskProfileConfig>;
+}
+
+export interface GrowthTargets {
+    weights: Record<string, number>;
+    absoluteBandPct: number;
+    relativeBandPct: number;
+    minTradeUSD: number;
+}
+
+export interface GrowthTargetsResponse {
+    ok: boolean;
+    custom: boolean;
+    targets: GrowthTargets;
+    defaults?: GrowthTargets;
+    eligibleTokens?: string[];
+}
+
+export type SwapVault = "growth" | "degen" | "yield" | "rwa" | "unassigned";
+
+export interface SwapRecord {
+    id: string;
+    createdAt: number;
+    vault: SwapVault;
+    inputSymbol: string;
+    outputSymbol: string;
+    status: "filled" | "partial" | "pending-signature" | "rejected" | "failed";
+    chunks: number;
+    chunksFilled: number;
+    priceImpactPct: number | null;
+    quoteDeviationPct: number | null;
+    slippagePct: number | null;
+    realizedOnChain: boolean;
+    reasons?: string[];
+}
+
+export interface SlippageSummary {
+    vault: SwapVault;
+    swaps: number;
+    filled: number;
+    rejected: number;
+    avgSlippagePct: number | null;
+    worstSlippagePct: number | null;
+    avgPriceImpactPct: number | null;
+}
+
+export interface SwapStatsResponse {
+    ok: boolean;
+    policy: {
+        maxPriceImpactPct: number;
+        maxPriceDeviationPct: number;
+        twapThresholdUSD: number;
+        twapMaxChunks: number;
+        twapIntervalMs: number;
+    };
+    summary: SlippageSummary[];
+    records: SwapRecord[];
+}
+
+export type TrackedTxStatus = "built" | "signed" | "submitted" | "confirmed" | "failed" | "expired";
+
+export interface TrackedOperation {
+    id: string;
+    kind: "rebalance" | "invest" | "deposit" | "withdraw" | "vault-withdraw" | "degen-exit";
+    status: TrackedTxStatus;
+    transactions: Array<{
+        index: number;
+        status: TrackedTxStatus;
+        signature?: string;
+        error?: string;
+        updatedAt: number;
+    }>;
+    positionChanges: number;
+    positionChangesApplied: number;
+    positionsApplied: boolean;
+    createdAt: number;
+    updatedAt: number;
+    expiresAt: number;
+}
+
+export type BundleStepKind = "swap" | "kamino" | "memo" | "other";
+
+// One transaction of a bundled rebalance; unsignedTxs[sequence] holds the same bytes
+export interface TransactionBundle {
+    sequence: number;
+    dependsOn: number[];
+    transaction: string;
+    steps: Array<{ source: number; vault: string; kind: BundleStepKind }>;
+    passthrough: boolean;
+}
+
+export interface CompensationStep {
+    failedSequence: number;
+    unwind: Array<{
+        sequence: number;
+        vault: string;
+        kind: BundleStepKind;
+        endpoint: string | null;
+        description: string;
+    }>;
+}
+
+export type ExitOrderType = "stop-loss" | "take-profit" | "trailing-stop";
+
+export interface ExitOrder {
+    id: string;
+    type: ExitOrderType;
+    triggerPrice?: number;
+    trailPercent?: number;
+    highWaterPrice?: number;
+    sellPercent: number;
+    createdAt: number;
+}
+
+export interface ExitOrderRequest {
+    type: ExitOrderType;
+    triggerPrice?: number;
+    triggerPercent?: number;
+    trailPercent?: number;
+    sellPercent?: number;
+}
+
 export interface ProofVerification {
     verified: boolean;
-    proof: {
-        valid: boolean;
-        proofType: string;
-        timestamp: number;
-        zkCircuit: string;
+    txHash: string;
+    kind: "shadowwire-transfer" | "position-memo" | "unrecognized";
+    found: boolean;
+    succeeded: boolean;
+    slot: number | null;
+    blockTime: number | null;
+    feePayer: string | null;
+    checks: {
+        shadowwireProgram: boolean | null;
+        usd1Mint: boolean;
+        positionMemo: boolean;
     };
+    programs: string[];
+    memos: Array<{
+        vault: "growth" | "degen" | "yield" | "rwa";
+        action: "open" | "close" | "add" | "reduce";
+        tokenSymbol: string;
+        tokenMint: string;
+        amount: number;
+        priceUSD: number;
+        timestamp: number;
+    }>;
+    encryptedMemos: number;
+    operation: {
+        vault: VaultId;
+        action: string;
+        tokenSymbol?: string;
+        source: "memo" | "vault-address";
+    } | null;
+    reasons: string[];
 }
 
 export interface ManualInvestResult {
@@ -162,6 +453,7 @@ export interface ManualInvestResult {
         }>;
         usd1Errors?: Array<{ vault: string; error: string }>;
         unsignedTxs?: string[];
+        tracking?: TrackedOperation | null;
         strategyResults: Record<string, any>;
         totalTransactions: number;
     };
@@ -170,15 +462,65 @@ export interface ManualInvestResult {
     duration: string;
 }
 
+/** Signs a UTF-8 message with the connected wallet, returning a base58 signature */
+export type RequestSigner = (message: string) => Promise<string>;
+
+const NONCE_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_-";
+const REQUEST_TTL_MS = 120_000;
+
 class ShadowFundAPI {
     private baseUrl: string;
+    private requestSigner: RequestSigner | null = null;
+    private memoKey: string | null = null;
 
     constructor(baseUrl: string = API_BASE) {
         this.baseUrl = baseUrl;
     }
 
-    private getRuntimeHeaders(): Record<string, string> {
-        if (typeof window === "undefined") return {};
+    /**
+     * Set (or clear) the wallet signer used for state-changing requests
+     */
+    setRequestSigner(signer: RequestSigner | null): void {
+        this.requestSigner = signer;
+    }
+
+    /**
+     * Set (or clear) the connected wallet's position memo key (see utils/memoKey.ts)
+     */
+    setMemoKey(key: string | null): void {
+        this.memoKey = key;
+    }
+
+    /**
+     * Attach a signed `auth` to a request body (see utils/signedRequest.ts)
+     */
+    private async signRequest<T extends { wallet: string }>(
+        action: string,
+        payload: T
+    ): Promise<T & { auth: RequestAuth }> {
+        if (!this.requestSigner) {
+            throw new Error("Wallet signature required");
+        }
+
+        const random = crypto.getRandomValues(new Uint8Array(32));
+        const nonce = Array.from(random, b => NONCE_ALPHABET[b & 63]).join("");
+        const expiresAt = Date.now() + REQUEST_TTL_MS;
+        const message = buildAuthMessage({
+            action,
+            wallet: payload.wallet,
+            bodyHash: await hashRequestBody(payload),
+            nonce,
+            expiresAt
+        });
+        const signature = await this.requestSigner(message);
+
+        return { ...payload, auth: { action, nonce, expiresAt, signature } };
+    }
+
+    private getRuntimeHeaders(route: string): Record<string, string> {
+        const headers: Record<string, string> =
+            this.memoKey && acceptsMemoKey(route) ? { [MEMO_KEY_HEADER]: this.memoKey } : {};
+        if (typeof window === "undefined") return headers;
         try {
             const stored = window.localStorage.getItem("shadowfund-mode");
             const fallback =
@@ -186,16 +528,17 @@ class ShadowFundAPI {
                     ? "demo"
                     : "real";
             const mode = stored === "demo" || stored === "real" ? stored : fallback;
-            return { "x-shadowfund-mode": mode };
+            headers["x-shadowfund-mode"] = mode;
         } catch {
-            return {};
+            // localStorage unavailable; the API falls back to its default mode
         }
+        return headers;
     }
 
-    private withRuntimeHeaders(init: RequestInit = {}): RequestInit {
+    private withRuntimeHeaders(route: string, init: RequestInit = {}): RequestInit {
         const headers = {
             ...(init.headers as Record<string, string> | undefined),
-            ...this.getRuntimeHeaders()
+            ...this.getRuntimeHeaders(route)
         };
         return { ...init, headers };
     }
@@ -207,7 +550,7 @@ class ShadowFundAPI {
         const params = new URLSearchParams({ wallet, risk });
         const response = await fetch(
             `${this.baseUrl}/api/treasury?${params}`,
-            this.withRuntimeHeaders()
+            this.withRuntimeHeaders("/api/treasury")
         );
 
         if (!response.ok) {
@@ -220,11 +563,12 @@ class ShadowFundAPI {
     /**
      * Get AI strategy recommendations
      */
-    async getStrategy(risk: "low" | "medium" | "high" = "medium"): Promise<AIStrategy> {
+    async getStrategy(risk: "low" | "medium" | "high" = "medium", wallet?: string): Promise<AIStrategy> {
         const params = new URLSearchParams({ risk });
+        if (wallet) params.set("wallet", wallet);
         const response = await fetch(
             `${this.baseUrl}/api/strategy?${params}`,
-            this.withRuntimeHeaders()
+            this.withRuntimeHeaders("/api/strategy")
         );
 
         if (!response.ok) {
@@ -234,29 +578,387 @@ class ShadowFundAPI {
         return response.json();
     }
 
+    /**
+     * Get the strategy decision journal, newest first
+     */
+    async getStrategyHistory(
+        options: { limit?: number; before?: number } = {}
+    ): Promise<{ ok: boolean; decisions: StrategyDecision[]; nextBefore?: number }> {
+        const params = new URLSearchParams();
+        if (options.limit) params.set("limit", String(options.limit));
+        if (options.before) params.set("before", String(options.before));
+        const response = await fetch(
+            `${this.baseUrl}/api/strategy/history?${params}`,
+            this.withRuntimeHeaders("/api/strategy/history")
+        );
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch strategy history: ${response.statusText}`);
+        }
+
+        return response.json();
+    }
+
     /**
      * Execute treasury rebalance
      */
     async rebalance(
         wallet: string,
-        risk: "low" | "medium" | "high" = "medium",
-        signature?: { timestamp: number; signature: string; action: string }
+        risk: "low" | "medium" | "high" = "medium"
     ): Promise<RebalanceResult> {
         const response = await fetch(`${this.baseUrl}/api/rebalance`, {
             method: "POST",
             headers: {
                 "Content-Type": "application/json",
-                ...this.getRuntimeHeaders()
+                ...this.getRuntimeHeaders("/api/rebalance")
+            },
+            body: JSON.stringify(await this.signRequest("rebalance", {
+                wallet,
+                risk,
+            })),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to rebalance: ${response.statusText}`);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * Preview a rebalance: returns the execution plan without moving funds
+     */
+    async previewRebalance(
+        wallet: string,
+        risk: "low" | "medium" | "high" = "medium"
+    ): Promise<RebalancePlan> {
+        const response = await fetch(`${this.baseUrl}/api/rebalance`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...this.getRuntimeHeaders("/api/rebalance")
             },
             body: JSON.stringify({
                 wallet,
                 risk,
-                ...signature,
+                dryRun: true,
             }),
         });
 
         if (!response.ok) {
-            throw new Error(`Failed to rebalance: ${response.statusText}`);
+            throw new Error(`Failed to preview rebalance: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        return data.plan;
+    }
+
+    /**
+     * Two-phase rebalance, step one: compute and store a plan
+     */
+    async planRebalance(
+        wallet: string,
+        risk: "low" | "medium" | "high" = "medium"
+    ): Promise<StoredRebalancePlan> {
+        const response = await fetch(`${this.baseUrl}/api/rebalance/plan`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...this.getRuntimeHeaders("/api/rebalance/plan")
+            },
+            body: JSON.stringify(await this.signRequest("rebalance-plan", {
+                wallet,
+                risk,
+            })),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to plan rebalance: ${response.statusText}`);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * Two-phase rebalance, step two: execute a stored plan by ID
+     */
+    async executeRebalancePlan(
+        wallet: string,
+        planId: string
+    ): Promise<ExecutePlanResult> {
+        const response = await fetch(`${this.baseUrl}/api/rebalance/execute`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...this.getRuntimeHeaders("/api/rebalance/execute")
+            },
+            body: JSON.stringify(await this.signRequest("rebalance-execute", {
+                wallet,
+                planId,
+            })),
+        });
+
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            throw new Error(data.error || `Failed to execute rebalance plan: ${response.statusText}`);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * Get the wallet's effective risk profile (custom, or the named preset)
+     */
+    async getRiskProfile(wallet: string, risk: "low" | "medium" | "high" = "medium"): Promise<RiskProfileResponse> {
+        const params = new URLSearchParams({ wallet, risk });
+        const response = await fetch(
+            `${this.baseUrl}/api/risk-profile?${params}`,
+            this.withRuntimeHeaders("/api/risk-profile")
+        );
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch risk profile: ${response.statusText}`);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * Store a custom risk profile for the wallet
+     */
+    async saveRiskProfile(
+        wallet: string,
+        profile: RiskProfileConfig
+    ): Promise<RiskProfileResponse> {
+        const response = await fetch(`${this.baseUrl}/api/risk-profile`, {
+            method: "PUT",
+            headers: {
+                "Content-Type": "application/json",
+                ...this.getRuntimeHeaders("/api/risk-profile")
+            },
+            body: JSON.stringify(await this.signRequest("risk-profile", {
+                wallet,
+                profile,
+            })),
+        });
+
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            const details = Array.isArray(data.details) ? `: ${data.details.join("; ")}` : "";
+            throw new Error(`${data.error || `Failed to save risk profile: ${response.statusText}`}${details}`);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * Get swap execution records and per-vault slippage statistics
+     */
+    async getSwapStats(options: { vault?: SwapVault; since?: number; limit?: number } = {}): Promise<SwapStatsResponse> {
+        const params = new URLSearchParams();
+        if (options.vault) params.set("vault", options.vault);
+        if (options.since !== undefined) params.set("since", String(options.since));
+        if (options.limit !== undefined) params.set("limit", String(options.limit));
+
+        const response = await fetch(
+            `${this.baseUrl}/api/swaps?${params}`,
+            this.withRuntimeHeaders("/api/swaps")
+        );
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch swap stats: ${response.statusText}`);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * Get a tracked operation's status (refreshed from the cluster)
+     */
+    async getTrackedOperation(id: string): Promise<TrackedOperation> {
+        const params = new URLSearchParams({ id });
+        const response = await fetch(
+            `${this.baseUrl}/api/transactions?${params}`,
+            this.withRuntimeHeaders("/api/transactions")
+        );
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch transaction status: ${response.statusText}`);
+        }
+
+        return (await response.json()).operation;
+    }
+
+    /**
+     * Report the signature of a sent transaction, or why it was not sent
+     */
+    async reportTransaction(
+        wallet: string,
+        operationId: string,
+        index: number,
+        report: { signature: string } | { error: string }
+    ): Promise<TrackedOperation> {
+        const response = await fetch(`${this.baseUrl}/api/transactions`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...this.getRuntimeHeaders("/api/transactions")
+            },
+            body: JSON.stringify(await this.signRequest("transactions-report", {
+                wallet,
+                operationId,
+                index,
+                ...report
+            })),
+        });
+
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            throw new Error(data.error || `Failed to report transaction: ${response.statusText}`);
+        }
+
+        return (await response.json()).operation;
+    }
+
+    /**
+     * Get the wallet's growth vault weights and drift bands (custom, or the defaults)
+     */
+    async getGrowthTargets(wallet: string): Promise<GrowthTargetsResponse> {
+        const params = new URLSearchParams({ wallet });
+        const response = await fetch(
+            `${this.baseUrl}/api/growth-targets?${params}`,
+            this.withRuntimeHeaders("/api/growth-targets")
+        );
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch growth targets: ${response.statusText}`);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * Store custom growth targets for the wallet
+     */
+    async saveGrowthTargets(
+        wallet: string,
+        targets: Partial<GrowthTargets> & { weights: Record<string, number> }
+    ): Promise<GrowthTargetsResponse> {
+        const response = await fetch(`${this.baseUrl}/api/growth-targets`, {
+            method: "PUT",
+            headers: {
+                "Content-Type": "application/json",
+                ...this.getRuntimeHeaders("/api/growth-targets")
+            },
+            body: JSON.stringify(await this.signRequest("growth-targets", {
+                wallet,
+                targets,
+            })),
+        });
+
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            const details = Array.isArray(data.details) ? `: ${data.details.join("; ")}` : "";
+            throw new Error(`${data.error || `Failed to save growth targets: ${response.statusText}`}${details}`);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * Open degen exit orders, grouped by position
+     */
+    async getExitOrders(wallet: string): Promise<{ ok: boolean; positions: Array<{ token: string; symbol: string; orders: ExitOrder[] }> }> {
+        const params = new URLSearchParams({ wallet });
+        const response = await fetch(
+            `${this.baseUrl}/api/degen-orders?${params}`,
+            this.withRuntimeHeaders("/api/degen-orders")
+        );
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch exit orders: ${response.statusText}`);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * Place a stop-loss / take-profit / trailing-stop on a degen position
+     */
+    async placeExitOrder(
+        wallet: string,
+        token: string,
+        order: ExitOrderRequest
+    ): Promise<{ ok: boolean; token: string; order: ExitOrder }> {
+        const response = await fetch(`${this.baseUrl}/api/degen-orders`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...this.getRuntimeHeaders("/api/degen-orders")
+            },
+            body: JSON.stringify(await this.signRequest("degen-orders", {
+                wallet,
+                token,
+                order,
+            })),
+        });
+
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            const details = Array.isArray(data.details) ? `: ${data.details.join("; ")}` : "";
+            throw new Error(`${data.error || `Failed to place exit order: ${response.statusText}`}${details}`);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * Cancel a degen exit order
+     */
+    async cancelExitOrder(
+        wallet: string,
+        orderId: string
+    ): Promise<{ ok: boolean; orderId: string }> {
+        const response = await fetch(`${this.baseUrl}/api/degen-orders`, {
+            method: "DELETE",
+            headers: {
+                "Content-Type": "application/json",
+                ...this.getRuntimeHeaders("/api/degen-orders")
+            },
+            body: JSON.stringify(await this.signRequest("degen-orders", {
+                wallet,
+                orderId,
+            })),
+        });
+
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            throw new Error(data.error || `Failed to cancel exit order: ${response.statusText}`);
+        }
+
+        return response.json();
+    }
+
+    /**
+     * Run the exit-order price check now
+     */
+    async evaluateExitOrders(
+        wallet: string
+    ): Promise<{ ok: boolean; fired: Array<Record<string, any>>; unsignedTxs: string[]; tracking?: TrackedOperation | null }> {
+        const response = await fetch(`${this.baseUrl}/api/degen-orders/evaluate`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...this.getRuntimeHeaders("/api/degen-orders/evaluate")
+            },
+            body: JSON.stringify(await this.signRequest("degen-orders-evaluate", {
+                wallet,
+            })),
+        });
+
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            throw new Error(data.error || `Failed to evaluate exit orders: ${response.statusText}`);
         }
 
         return response.json();
@@ -268,21 +970,19 @@ class ShadowFundAPI {
     async invest(
         wallet: string,
         amount: number,
-        allocations: Partial<Record<VaultId, number>>,
-        signature?: { timestamp: number; signature: string; action: string }
+        allocations: Partial<Record<VaultId, number>>
     ): Promise<ManualInvestResult> {
         const response = await fetch(`${this.baseUrl}/api/invest`, {
             method: "POST",
             headers: {
                 "Content-Type": "application/json",
-                ...this.getRuntimeHeaders()
+                ...this.getRuntimeHeaders("/api/invest")
             },
-            body: JSON.stringify({
+            body: JSON.stringify(await this.signRequest("invest", {
                 wallet,
                 amount,
                 allocations,
-                ...signature,
-            }),
+            })),
         });
 
         if (!response.ok) {
@@ -295,13 +995,13 @@ class ShadowFundAPI {
     }
 
     /**
-     * Verify a ZK proof for a transaction
+     * Verify a transaction on-chain (ShadowWire transfer or position memo)
      */
     async verifyProof(txHash: string): Promise<ProofVerification> {
         const params = new URLSearchParams({ txHash });
         const response = await fetch(
             `${this.baseUrl}/api/verify?${params}`,
-            this.withRuntimeHeaders()
+            this.withRuntimeHeaders("/api/verify")
         );
 
         if (!response.ok) {
@@ -311,35 +1011,24 @@ class ShadowFundAPI {
         return response.json();
     }
 
-    /**
-     * Sign a message for authenticated requests (to be used with wallet adapter)
-     */
-    createSignaturePayload(action: string, wallet: string): { message: string; timestamp: number } {
-        const timestamp = Date.now();
-        const message = `${action}|${wallet}|${timestamp}`;
-        return { message, timestamp };
-    }
-
     /**
      * Deposit USDC into treasury
      */
     async deposit(
         wallet: string,
-        amount: number,
-        signature?: { timestamp: number; signature: string }
-    ): Promise<{ ok: boolean; action: string; amount: number; result: any }> {
+        amount: number
+    ): Promise<{ ok: boolean; action: string; amount: number; result: any; tracking?: TrackedOperation | null }> {
         const response = await fetch(`${this.baseUrl}/api/transfer`, {
             method: "POST",
             headers: {
                 "Content-Type": "application/json",
-                ...this.getRuntimeHeaders()
+                ...this.getRuntimeHeaders("/api/transfer")
             },
-            body: JSON.stringify({
+            body: JSON.stringify(await this.signRequest("deposit", {
                 wallet,
                 amount,
                 action: "deposit",
-                ...signature,
-            }),
+            })),
         });
 
         if (!response.ok) {
@@ -356,21 +1045,19 @@ class ShadowFundAPI {
      */
     async withdraw(
         wallet: string,
-        amount: number,
-        signature?: { timestamp: number; signature: string }
-    ): Promise<{ ok: boolean; action: string; amount: number; result: any }> {
+        amount: number
+    ): Promise<{ ok: boolean; action: string; amount: number; result: any; tracking?: TrackedOperation | null }> {
         const response = await fetch(`${this.baseUrl}/api/transfer`, {
             method: "POST",
             headers: {
                 "Content-Type": "application/json",
-                ...this.getRuntimeHeaders()
+                ...this.getRuntimeHeaders("/api/transfer")
             },
-            body: JSON.stringify({
+            body: JSON.stringify(await this.signRequest("withdraw", {
                 wallet,
                 amount,
                 action: "withdraw",
-                ...signature,
-            }),
+            })),
         });
 
         if (!response.ok) {
@@ -404,8 +1091,7 @@ class ShadowFundAPI {
     async withdrawFromVault(
         wallet: string,
         vault: "reserve" | "yield" | "growth" | "degen" | "rwa",
-        amount: number,
-        signature?: { timestamp: number; signature: string }
+        amount: number
     ): Promise<{
         ok: boolean;
         vault: string;
@@ -413,20 +1099,20 @@ class ShadowFundAPI {
         usd1Received: number;
         txSignature?: string;
         unsigned_txs?: string[];
+        tracking?: TrackedOperation | null;
         message: string;
     }> {
         const response = await fetch(`${this.baseUrl}/api/vault-withdraw`, {
             method: "POST",
             headers: {
                 "Content-Type": "application/json",
-                ...this.getRuntimeHeaders()
+                ...this.getRuntimeHeaders("/api/vault-withdraw")
             },
-            body: JSON.stringify({
+            body: JSON.stringify(await this.signRequest("vault-withdraw", {
                 wallet,
                 vault,
                 amount,
-                ...signature,
-            }),
+            })),
         });
 
         if (!response.ok) {
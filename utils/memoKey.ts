@@ -0,0 +1,73 @@
+/**
+ * Position Memo Key
+ * Shared by the wallet UI and the API: position memos are encrypted with a key only
+ * the wallet owner can produce. The wallet signs a fixed domain message once per
+ * session; HKDF-SHA256 over that (deterministic ed25519) signature yields the
+ * AES-256-GCM key, which travels to the API in MEMO_KEY_HEADER as hex.
+ *
+ * The key is a bearer secret for reading the wallet's position history. The client
+ * sends it only to MEMO_KEY_ROUTES and the API ignores it (and does not allow it
+ * through CORS) everywhere else. The API holds it for the one request, and never
+ * stores or logs it.
+ */
+
+export const MEMO_KEY_DOMAIN = "shadowfund-memo-key:v1";
+
+export const MEMO_KEY_HEADER = "x-shadowfund-memo-key";
+
+/** The routes that read or write position memos: the only ones that take the key */
+export const MEMO_KEY_ROUTES = [
+    "/api/treasury",
+    "/api/rebalance",
+    "/api/rebalance/plan",
+    "/api/rebalance/execute",
+    "/api/invest",
+    "/api/vault-withdraw",
+    "/api/degen-orders",
+    "/api/degen-orders/evaluate",
+    "/api/verify"
+];
+
+/**
+ * Whether a request path (query string allowed) is one of MEMO_KEY_ROUTES
+ */
+export function acceptsMemoKey(url: string | undefined): boolean {
+    const pathname = (url || "").split("?")[0].replace(/\/+$/, "");
+    return MEMO_KEY_ROUTES.includes(pathname);
+}
+
+const HKDF_SALT = "shadowfund/position-memo";
+const HKDF_INFO = "aes-256-gcm";
+
+/**
+ * The message a wallet signs to derive its memo key. It authorizes nothing, so the
+ * wallet prompt says so.
+ */
+export function buildMemoKeyMessage(wallet: string): string {
+    return [
+        MEMO_KEY_DOMAIN,
+        `wallet:${wallet}`,
+        "Unlocks your private ShadowFund position memos. This signature does not authorize any transaction."
+    ].join("\n");
+}
+
+/**
+ * Hex memo key from the wallet's signature of buildMemoKeyMessage(wallet)
+ */
+export async function deriveMemoKey(signature: Uint8Array): Promise<string> {
+    const encoder = new TextEncoder();
+    const material = await globalThis.crypto.subtle.importKey("raw", signature, "HKDF", false, ["deriveBits"]);
+    const bits = await globalThis.crypto.subtle.deriveBits(
+        { name: "HKDF", hash: "SHA-256", salt: encoder.encode(HKDF_SALT), info: encoder.encode(HKDF_INFO) },
+        material,
+        256
+    );
+    return Array.from(new Uint8Array(bits), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Whether a header value is a well-formed memo key
+ */
+export function isMemoKey(value: unknown): value is string {
+    return typeof value === "string" && /^[0-9a-f]{64}$/i.test(value);
+}
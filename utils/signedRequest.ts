@@ -0,0 +1,61 @@
+/**
+ * Signed Request Format
+ * Shared by the API client and the auth middleware: the message a wallet signs to
+ * authorize one state-changing request. It is bound to the route's action, the
+ * wallet, a hash of the request body, a single-use nonce and an expiry, and starts
+ * with a domain line so no other ShadowFund signature can be replayed as a request.
+ */
+
+export const AUTH_DOMAIN = "shadowfund-api:v1";
+
+// Sent as `auth` next to the request's own fields
+export interface RequestAuth {
+    action: string;
+    nonce: string;          // 16-64 chars of [A-Za-z0-9_-], single use per wallet
+    expiresAt: number;      // Unix ms
+    signature: string;      // base58 detached signature of buildAuthMessage(...)
+}
+
+/**
+ * JSON with object keys sorted at every level, so client and server hash the same bytes
+ */
+export function canonicalJson(value: unknown): string {
+    return JSON.stringify(value ?? {}, (_key, v) =>
+        v && typeof v === "object" && !Array.isArray(v)
+            ? Object.keys(v).sort().reduce<Record<string, unknown>>((sorted, key) => {
+                sorted[key] = v[key];
+                return sorted;
+            }, {})
+            : v
+    );
+}
+
+/**
+ * Hex SHA-256 of the canonical request body, excluding `auth`
+ */
+export async function hashRequestBody(body: Record<string, unknown> | null | undefined): Promise<string> {
+    const { auth: _auth, ...payload } = body || {};
+    const bytes = new TextEncoder().encode(canonicalJson(payload));
+    const digest = await globalThis.crypto.subtle.digest("SHA-256", bytes);
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * The exact text the wallet signs (shown in the wallet's signing prompt)
+ */
+export function buildAuthMessage(params: {
+    action: string;
+    wallet: string;
+    bodyHash: string;
+    nonce: string;
+    expiresAt: number;
+}): string {
+    return [
+        `ShadowFund API request (${AUTH_DOMAIN})`,
+        `Action: ${params.action}`,
+        `Wallet: ${params.wallet}`,
+        `Body: ${params.bodyHash}`,
+        `Nonce: ${params.nonce}`,
+        `Expires: ${new Date(params.expiresAt).toISOString()}`
+    ].join("\n");
+}